@@ -8,7 +8,14 @@ import ProjectDetail from "./pages/ProjectDetail";
 import AdminTemplates from "./pages/AdminTemplates";
 import AdminModels from "./pages/AdminModels";
 import AdminUsers from "./pages/AdminUsers";
+import AdminScoringSchemes from "./pages/AdminScoringSchemes";
+import AdminAuditLogs from "./pages/AdminAuditLogs";
 import ReportPreview from "./pages/ReportPreview";
+import ReportReview from "./pages/ReportReview";
+import ReportEditor from "./pages/ReportEditor";
+import ReportCompare from "./pages/ReportCompare";
+import CapaTracker from "./pages/CapaTracker";
+import Teams from "./pages/Teams";
 import Pricing from "./pages/Pricing";
 
 function RequireAuth({ children }: { children: React.ReactNode }) {
@@ -43,12 +50,16 @@ function Layout({ children }: { children: React.ReactNode }) {
         </div>
         <nav className="app-nav">
           <Link to="/">首页</Link>
+          {user ? <Link to="/capa">CAPA 跟踪</Link> : null}
+          {user ? <Link to="/teams">团队</Link> : null}
           <Link to="/pricing">价格</Link>
           {user?.role === "admin" ? (
             <>
               <Link to="/admin/templates">模板管理</Link>
               <Link to="/admin/models">模型管理</Link>
+              <Link to="/admin/scoring-schemes">评分方案</Link>
               <Link to="/admin/users">用户管理</Link>
+              <Link to="/admin/audit-logs">审计日志</Link>
             </>
           ) : null}
         </nav>
@@ -106,6 +117,66 @@ export default function App() {
             </RequireAuth>
           }
         />
+        <Route
+          path="/reports/:id/review"
+          element={
+            <RequireAuth>
+              <Layout>
+                <ReportReview />
+              </Layout>
+            </RequireAuth>
+          }
+        />
+        <Route
+          path="/reports/:id/edit"
+          element={
+            <RequireAuth>
+              <Layout>
+                <ReportEditor />
+              </Layout>
+            </RequireAuth>
+          }
+        />
+        <Route
+          path="/reports/:id/compare"
+          element={
+            <RequireAuth>
+              <Layout>
+                <ReportCompare />
+              </Layout>
+            </RequireAuth>
+          }
+        />
+        <Route
+          path="/teams"
+          element={
+            <RequireAuth>
+              <Layout>
+                <Teams />
+              </Layout>
+            </RequireAuth>
+          }
+        />
+        <Route
+          path="/capa"
+          element={
+            <RequireAuth>
+              <Layout>
+                <CapaTracker />
+              </Layout>
+            </RequireAuth>
+          }
+        />
+        <Route
+          path="/projects/:id/capa"
+          element={
+            <RequireAuth>
+              <Layout>
+                <CapaTracker />
+              </Layout>
+            </RequireAuth>
+          }
+        />
         <Route
           path="/pricing"
           element={
@@ -138,6 +209,18 @@ export default function App() {
             </RequireAuth>
           }
         />
+        <Route
+          path="/admin/scoring-schemes"
+          element={
+            <RequireAuth>
+              <RequireAdmin>
+                <Layout>
+                  <AdminScoringSchemes />
+                </Layout>
+              </RequireAdmin>
+            </RequireAuth>
+          }
+        />
         <Route
           path="/admin/users"
           element={
@@ -150,6 +233,18 @@ export default function App() {
             </RequireAuth>
           }
         />
+        <Route
+          path="/admin/audit-logs"
+          element={
+            <RequireAuth>
+              <RequireAdmin>
+                <Layout>
+                  <AdminAuditLogs />
+                </Layout>
+              </RequireAdmin>
+            </RequireAuth>
+          }
+        />
       </Routes>
     </AuthProvider>
   );
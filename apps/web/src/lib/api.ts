@@ -1,5 +1,273 @@
 export type ApiResponse<T> = { data: T | null; error: string | null };
 
+export type ReviewStage = "hazard_identification" | "fmea_scoring";
+
+export type WorkflowRiskItem = {
+  risk_id: string;
+  dimension_type: "five_factors" | "process_flow" | "fishbone" | "five_why";
+  dimension: string;
+  dimension_id: string | null;
+  failure_mode: string;
+  consequence: string;
+  evidence_ids?: string[];
+  why_chain?: string[];
+};
+
+export type WorkflowFmeaRow = {
+  risk_id: string;
+  s: number;
+  s_reason: string;
+  s_evidence_ids?: string[];
+  p: number;
+  p_reason: string;
+  p_evidence_ids?: string[];
+  d: number;
+  d_reason: string;
+  d_evidence_ids?: string[];
+};
+
+export type WorkflowScoredItem = WorkflowRiskItem &
+  WorkflowFmeaRow & { rpn: number; level: string; need_actions: boolean };
+
+export type WorkflowActionItem = {
+  type: string;
+  action_text: string;
+  owner_role: string;
+  owner_dept: string;
+  planned_date: string;
+  evidence_ids?: string[];
+};
+
+export type ProcedureClaimWarning = {
+  risk_id: string;
+  field: "p_reason" | "d_reason" | "action_text";
+  action_index: number | null;
+  location: string;
+  kind: "document_code" | "system" | "control";
+  claim: string;
+  message: string;
+};
+
+export type ReportDiff = {
+  summary: {
+    unchanged: number;
+    changed: number;
+    added: number;
+    removed: number;
+    added_actions: number;
+    removed_actions: number;
+  };
+  items: Array<{
+    status: "unchanged" | "changed" | "added" | "removed";
+    base_risk_id: string | null;
+    target_risk_id: string | null;
+    base_failure_mode: string | null;
+    target_failure_mode: string | null;
+    similarity: number | null;
+    score_changes: Array<{
+      field: "s" | "p" | "d" | "rpn" | "level";
+      before: number | string | null;
+      after: number | string | null;
+    }>;
+    added_actions: string[];
+    removed_actions: string[];
+  }>;
+  markdown: Array<{
+    type: "equal" | "added" | "removed";
+    text: string;
+    base_line: number | null;
+    target_line: number | null;
+  }>;
+};
+
+export type ReviewReminder = {
+  id: string;
+  project_id: string;
+  project_title: string;
+  version: number;
+  review_level: string | null;
+  review_due_at: string;
+  created_at: string;
+  pending_review_id: string | null;
+};
+
+export type ReportLifecycleStatus = "draft" | "reviewed" | "approved" | "effective" | "superseded";
+
+export type ReportSignature = {
+  id: string;
+  signer_id: string;
+  signer_email: string;
+  meaning: string;
+  from_status: ReportLifecycleStatus;
+  to_status: ReportLifecycleStatus;
+  comment: string | null;
+  md_hash: string;
+  signed_at: string;
+  hash_matches: boolean;
+};
+
+export type AuditLog = {
+  id: string;
+  user_id: string | null;
+  user_email: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  project_id: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  created_at: string;
+};
+
+export type AuditLogFilters = {
+  user?: string;
+  entity_type?: string;
+  entity_id?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+};
+
+export function buildAuditLogQuery(filters: AuditLogFilters, page?: { limit: number; offset: number }) {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value && value.trim()) {
+      params.set(key, value.trim());
+    }
+  });
+  if (page) {
+    params.set("limit", String(page.limit));
+    params.set("offset", String(page.offset));
+  }
+  return params.toString();
+}
+
+export type CapaStatus = "open" | "in_progress" | "done" | "verified";
+
+export type CapaAction = {
+  id: string;
+  project_id: string;
+  project_title: string;
+  report_id: string;
+  version: number;
+  risk_id: string;
+  seq: number;
+  failure_mode: string;
+  level: string | null;
+  residual_level: string | null;
+  residual_status: "open" | "closed" | "verified";
+  action_index: number;
+  type: string;
+  action_text: string;
+  owner_role: string | null;
+  owner_dept: string | null;
+  planned_date: string | null;
+  status: CapaStatus;
+  completed_at: string | null;
+  effectiveness_notes: string | null;
+  updated_at: string;
+  overdue: boolean;
+};
+
+export type ProjectRole = "viewer" | "reviewer" | "editor" | "owner";
+
+export type ProjectMember = {
+  user_id: string;
+  email: string;
+  role: ProjectRole;
+  created_at: string;
+};
+
+export type TeamSummary = {
+  id: string;
+  name: string;
+  role: ProjectRole;
+  member_count: number;
+  project_count: number;
+  created_at: string;
+};
+
+export type RenderMode = "llm" | "deterministic";
+
+export type RenderCheckTable = "risk" | "evaluation" | "control" | "actions";
+
+export type RenderCheck = {
+  ok: boolean;
+  tables: Array<{ table: RenderCheckTable; expected_rows: number; actual_rows: number | null }>;
+  issues: Array<{
+    table: RenderCheckTable;
+    row: number | null;
+    field: string;
+    expected: string;
+    actual: string;
+    message: string;
+  }>;
+};
+
+export type TemplateRevision = {
+  revision: number;
+  change_note: string | null;
+  created_by_email: string | null;
+  created_at: string;
+};
+
+export type TemplatePlaceholder = {
+  name: string;
+  kind: "data" | "narrative";
+  label: string;
+};
+
+export type TemplateValidation = {
+  placeholders: Array<TemplatePlaceholder & { count: number }>;
+  unknown: Array<{ name: string; line: number }>;
+  supported: TemplatePlaceholder[];
+};
+
+export type ScoringScheme = {
+  id: string | null;
+  name: string;
+  values: number[];
+  levels: Array<{ level: string; min_rpn: number }>;
+  action_threshold: number;
+};
+
+export type AdminScoringScheme = ScoringScheme & {
+  id: string;
+  description: string | null;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type QuotaLedgerEntry = {
+  id: string;
+  report_id: string | null;
+  kind: "consume" | "refund" | "adjust";
+  amount: number;
+  reason: string;
+  cycle_start: string;
+  remaining_after: number | null;
+  created_at: string;
+};
+
+export type ProjectFileExtractResult = {
+  id: string;
+  filename: string;
+  status: "parsed" | "failed";
+  error_message: string | null;
+  pages: number;
+  characters: number;
+};
+
+export type WorkflowStageState = {
+  context?: { riskMethod: string; evalTool?: string; objectiveBias: string; scoringScheme?: ScoringScheme };
+  risk_items?: WorkflowRiskItem[];
+  fmea_rows?: WorkflowFmeaRow[];
+  scored_items?: WorkflowScoredItem[];
+};
+
 const API_BASE = import.meta.env.VITE_API_BASE ?? "";
 
 async function request<T>(path: string, options?: RequestInit): Promise<ApiResponse<T>> {
@@ -65,6 +333,7 @@ export const api = {
         id: string;
         name: string;
         description: string | null;
+        latest_revision: number;
         created_at?: string;
         updated_at?: string;
       }>;
@@ -72,9 +341,23 @@ export const api = {
       "/api/templates"
     );
   },
-  async getTemplate(id: string) {
-    return request<{ id: string; name: string; description: string | null; content: string }>(
-      `/api/templates/${id}`
+  async getTemplate(id: string, revision?: number | null) {
+    return request<{
+      id: string;
+      name: string;
+      description: string | null;
+      latest_revision: number;
+      revision: number;
+      change_note: string | null;
+      content: string;
+    }>(revision ? `/api/templates/${id}?revision=${revision}` : `/api/templates/${id}`);
+  },
+  async listTemplateRevisions(id: string) {
+    return request<{ revisions: TemplateRevision[] }>(`/api/templates/${id}/revisions`);
+  },
+  async diffTemplateRevisions(id: string, from: number, to: number) {
+    return request<{ from: number; to: number; diff: ReportDiff["markdown"] }>(
+      `/api/templates/${id}/revisions/diff?from=${from}&to=${to}`
     );
   },
   async uploadTemplate(form: FormData) {
@@ -102,12 +385,21 @@ export const api = {
       body: JSON.stringify(data)
     });
   },
-  async updateTemplate(id: string, data: { name?: string; description?: string; content?: string }) {
-    return request<{ ok: boolean }>(`/api/admin/templates/${id}`, {
+  async updateTemplate(
+    id: string,
+    data: { name?: string; description?: string; content?: string; changeNote?: string }
+  ) {
+    return request<{ ok: boolean; revision: number }>(`/api/admin/templates/${id}`, {
       method: "PATCH",
       body: JSON.stringify(data)
     });
   },
+  async validateTemplate(content: string) {
+    return request<TemplateValidation>("/api/admin/templates/validate", {
+      method: "POST",
+      body: JSON.stringify({ content })
+    });
+  },
   async duplicateTemplate(id: string) {
     return request<{ id: string; name: string }>(`/api/admin/templates/${id}/duplicate`, {
       method: "POST"
@@ -155,6 +447,14 @@ export const api = {
       }
     );
   },
+  async getUserQuotaLedger(id: string) {
+    return request<{ entries: QuotaLedgerEntry[] }>(`/api/admin/users/${id}/quota-ledger`);
+  },
+  async listAuditLogs(filters: AuditLogFilters, page: { limit: number; offset: number }) {
+    return request<{ logs: AuditLog[]; total: number; limit: number; offset: number }>(
+      `/api/admin/audit-logs?${buildAuditLogQuery(filters, page)}`
+    );
+  },
   async deleteUser(id: string) {
     return request<{ ok: boolean }>(`/api/admin/users/${id}`, { method: "DELETE" });
   },
@@ -168,11 +468,89 @@ export const api = {
         updated_at?: string;
         report_count?: number;
         latest_completed_at?: string | null;
+        role: ProjectRole;
+        shared: boolean;
+        owner_email?: string | null;
+        team_name?: string | null;
       }>;
     }>(
       "/api/projects"
     );
   },
+  async listTeams() {
+    return request<{ teams: TeamSummary[] }>("/api/teams");
+  },
+  async createTeam(name: string) {
+    return request<{ id: string; name: string; role: ProjectRole }>("/api/teams", {
+      method: "POST",
+      body: JSON.stringify({ name })
+    });
+  },
+  async getTeam(id: string) {
+    return request<{
+      team: { id: string; name: string; created_at: string; role: ProjectRole };
+      members: ProjectMember[];
+      projects: Array<{ id: string; title: string; status: string; updated_at: string }>;
+    }>(`/api/teams/${id}`);
+  },
+  async saveTeamMember(id: string, data: { email: string; role: ProjectRole }) {
+    return request<{ member: ProjectMember }>(`/api/teams/${id}/members`, {
+      method: "POST",
+      body: JSON.stringify(data)
+    });
+  },
+  async removeTeamMember(id: string, userId: string) {
+    return request<{ ok: boolean }>(`/api/teams/${id}/members/${userId}`, { method: "DELETE" });
+  },
+  async deleteTeam(id: string) {
+    return request<{ ok: boolean }>(`/api/teams/${id}`, { method: "DELETE" });
+  },
+  async listProjectMembers(id: string) {
+    return request<{
+      owner: { user_id: string | null; email: string | null };
+      team: { id: string; name: string } | null;
+      members: ProjectMember[];
+    }>(`/api/projects/${id}/members`);
+  },
+  async saveProjectMember(id: string, data: { email: string; role: ProjectRole }) {
+    return request<{ member: ProjectMember }>(`/api/projects/${id}/members`, {
+      method: "POST",
+      body: JSON.stringify(data)
+    });
+  },
+  async removeProjectMember(id: string, userId: string) {
+    return request<{ ok: boolean }>(`/api/projects/${id}/members/${userId}`, { method: "DELETE" });
+  },
+  async setProjectTeam(id: string, teamId: string | null) {
+    return request<{ ok: boolean; team_id: string | null }>(`/api/projects/${id}/team`, {
+      method: "PATCH",
+      body: JSON.stringify({ teamId })
+    });
+  },
+  async listReviews() {
+    return request<{ today: string; overdue: ReviewReminder[]; upcoming: ReviewReminder[] }>("/api/reviews");
+  },
+  async listCapa(filters: { projectId?: string; status?: CapaStatus | ""; overdue?: boolean } = {}) {
+    const params = new URLSearchParams();
+    if (filters.status) {
+      params.set("status", filters.status);
+    }
+    if (filters.overdue) {
+      params.set("overdue", "1");
+    }
+    const query = params.toString() ? `?${params.toString()}` : "";
+    const path = filters.projectId ? `/api/projects/${filters.projectId}/capa` : "/api/capa";
+    return request<{ project?: { id: string; title: string }; actions: CapaAction[] }>(`${path}${query}`);
+  },
+  async updateCapaAction(
+    id: string,
+    data: { status?: CapaStatus; completed_at?: string | null; effectiveness_notes?: string | null }
+  ) {
+    return request<{ action: CapaAction }>(`/api/capa/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(data)
+    });
+  },
   async createProject(title: string) {
     return request<{ id: string; title: string; status: string }>("/api/projects", {
       method: "POST",
@@ -184,7 +562,14 @@ export const api = {
   },
   async getProject(id: string) {
     return request<{
-      project: { id: string; title: string; status: string };
+      project: {
+        id: string;
+        title: string;
+        status: string;
+        role: ProjectRole;
+        team_id: string | null;
+        team_name: string | null;
+      };
       inputs: {
         scope: string | null;
         background: string | null;
@@ -193,9 +578,20 @@ export const api = {
         eval_tool: string | null;
         process_steps: Array<{ step_id: string; step_name: string }> | null;
         template_id: string | null;
+        template_revision: number | null;
         text_model_id: string | null;
+        scoring_scheme_id: string | null;
+        render_mode: RenderMode;
+        auto_rerender: number;
       };
-      files: Array<{ id: string; type: string; filename: string; status: string; created_at: string }>;
+      files: Array<{
+        id: string;
+        type: string;
+        filename: string;
+        status: string;
+        error_message?: string | null;
+        created_at: string;
+      }>;
       reports: Array<{
         id: string;
         version: number;
@@ -205,6 +601,12 @@ export const api = {
         completion_tokens: number | null;
         total_tokens: number | null;
         model_name?: string | null;
+        current_stage?: ReviewStage | null;
+        failed_stage?: string | null;
+        source_report_id?: string | null;
+        review_level?: string | null;
+        review_due_at?: string | null;
+        lifecycle_status?: ReportLifecycleStatus;
       }>;
     }>(`/api/projects/${id}`);
   },
@@ -216,7 +618,11 @@ export const api = {
     evalTool?: string;
     processSteps?: Array<{ step_id: string; step_name: string }>;
     templateId?: string;
+    templateRevision?: number | null;
     textModelId?: string;
+    scoringSchemeId?: string;
+    renderMode?: RenderMode;
+    autoRerender?: boolean;
   }) {
     return request<{ ok: boolean }>(`/api/projects/${id}/inputs`, {
       method: "PATCH",
@@ -224,11 +630,16 @@ export const api = {
     });
   },
   async uploadProjectFile(id: string, form: FormData) {
-    return request<{ id: string; filename: string; status: string }>(`/api/projects/${id}/files`, {
+    return request<ProjectFileExtractResult>(`/api/projects/${id}/files`, {
       method: "POST",
       body: form
     });
   },
+  async reextractProjectFile(projectId: string, fileId: string) {
+    return request<ProjectFileExtractResult>(`/api/projects/${projectId}/files/${fileId}/extract`, {
+      method: "POST"
+    });
+  },
   async deleteProjectFile(projectId: string, fileId: string) {
     return request<{ ok: boolean }>(`/api/projects/${projectId}/files/${fileId}`, {
       method: "DELETE"
@@ -240,17 +651,88 @@ export const api = {
       body: JSON.stringify({ templateContent })
     });
   },
+  async getReportStages(id: string) {
+    return request<{
+      report: {
+        id: string;
+        project_id: string;
+        project_title?: string | null;
+        version: number;
+        status: string;
+        current_stage: ReviewStage | null;
+        review_stages: ReviewStage[];
+      };
+      state: WorkflowStageState | null;
+    }>(`/api/reports/${id}/stages`);
+  },
+  async updateReportStage(
+    id: string,
+    stage: ReviewStage,
+    data: { items: Array<Partial<WorkflowRiskItem>> } | { rows: Array<Partial<WorkflowRiskItem & WorkflowFmeaRow>> }
+  ) {
+    return request<{ ok: boolean; stage: ReviewStage; state: WorkflowStageState }>(
+      `/api/reports/${id}/stages/${stage}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data)
+      }
+    );
+  },
   async getReport(id: string, includeContent = false) {
     return request<{ report: Record<string, unknown>; content: string | null; data: unknown }>(
       `/api/reports/${id}?includeContent=${includeContent ? 1 : 0}`
     );
   },
-  async exportReport(id: string, format: "docx") {
+  async getReportDiff(id: string, againstId: string) {
+    return request<{
+      base: { id: string; version: number; created_at: string };
+      target: { id: string; version: number; created_at: string };
+      diff: ReportDiff;
+    }>(
+      `/api/reports/${id}/diff?against=${encodeURIComponent(againstId)}`
+    );
+  },
+  async listReportSignatures(id: string) {
+    return request<{ lifecycle_status: ReportLifecycleStatus; signatures: ReportSignature[] }>(
+      `/api/reports/${id}/signatures`
+    );
+  },
+  async signReport(id: string, data: { to_status: ReportLifecycleStatus; password: string; comment?: string }) {
+    return request<{ lifecycle_status: ReportLifecycleStatus; signature: ReportSignature }>(
+      `/api/reports/${id}/sign`,
+      {
+        method: "POST",
+        body: JSON.stringify(data)
+      }
+    );
+  },
+  async startPeriodicReview(id: string) {
+    return request<{ id: string; version: number; status: string; stage: ReviewStage }>(
+      `/api/reports/${id}/periodic-review`,
+      { method: "POST" }
+    );
+  },
+  async createReportVersion(
+    id: string,
+    data: {
+      scored_items: Array<Omit<WorkflowScoredItem, "rpn" | "level">>;
+      actions: Array<{ risk_id: string; actions: WorkflowActionItem[] }>;
+    }
+  ) {
+    return request<{ id: string; version: number; status: string }>(`/api/reports/${id}/versions`, {
+      method: "POST",
+      body: JSON.stringify(data)
+    });
+  },
+  async exportReport(id: string, format: "docx" | "pdf") {
     return request<{ id: string; status: string }>(`/api/reports/${id}/exports`, {
       method: "POST",
       body: JSON.stringify({ format })
     });
   },
+  async cancelReport(id: string) {
+    return request<{ ok: boolean }>(`/api/reports/${id}/cancel`, { method: "POST" });
+  },
   async deleteReport(id: string, force = false) {
     const query = force ? "?force=1" : "";
     return request<{ ok: boolean }>(`/api/reports/${id}${query}`, { method: "DELETE" });
@@ -352,5 +834,43 @@ export const api = {
   },
   async deleteModel(id: string) {
     return request<{ ok: boolean }>(`/api/admin/models/${id}`, { method: "DELETE" });
+  },
+  async listScoringSchemes() {
+    return request<{ schemes: AdminScoringScheme[] }>("/api/scoring-schemes");
+  },
+  async listAdminScoringSchemes() {
+    return request<{ schemes: AdminScoringScheme[] }>("/api/admin/scoring-schemes");
+  },
+  async createScoringScheme(data: {
+    name: string;
+    description?: string;
+    values: number[];
+    levels: Array<{ level: string; min_rpn: number }>;
+    actionThreshold: number;
+    isDefault?: boolean;
+  }) {
+    return request<{ id: string }>("/api/admin/scoring-schemes", {
+      method: "POST",
+      body: JSON.stringify(data)
+    });
+  },
+  async updateScoringScheme(
+    id: string,
+    data: {
+      name?: string;
+      description?: string;
+      values?: number[];
+      levels?: Array<{ level: string; min_rpn: number }>;
+      actionThreshold?: number;
+      isDefault?: boolean;
+    }
+  ) {
+    return request<{ ok: boolean }>(`/api/admin/scoring-schemes/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(data)
+    });
+  },
+  async deleteScoringScheme(id: string) {
+    return request<{ ok: boolean }>(`/api/admin/scoring-schemes/${id}`, { method: "DELETE" });
   }
 };
@@ -0,0 +1,41 @@
+import type { ReportDiff } from "./api";
+
+export type CompareRow = {
+  type: "equal" | "changed" | "added" | "removed";
+  left: { line: number; text: string } | null;
+  right: { line: number; text: string } | null;
+};
+
+// 相邻的删除行与新增行左右并排，其余行原样对齐
+export function buildCompareRows(lines: ReportDiff["markdown"]): CompareRow[] {
+  const rows: CompareRow[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (line.type === "equal") {
+      rows.push({
+        type: "equal",
+        left: { line: line.base_line ?? 0, text: line.text },
+        right: { line: line.target_line ?? 0, text: line.text }
+      });
+      index += 1;
+      continue;
+    }
+    const removed: ReportDiff["markdown"] = [];
+    const added: ReportDiff["markdown"] = [];
+    while (index < lines.length && lines[index].type !== "equal") {
+      (lines[index].type === "removed" ? removed : added).push(lines[index]);
+      index += 1;
+    }
+    for (let offset = 0; offset < Math.max(removed.length, added.length); offset += 1) {
+      const left = removed[offset];
+      const right = added[offset];
+      rows.push({
+        type: left && right ? "changed" : left ? "removed" : "added",
+        left: left ? { line: left.base_line ?? 0, text: left.text } : null,
+        right: right ? { line: right.target_line ?? 0, text: right.text } : null
+      });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,20 @@
+import type { ReportLifecycleStatus } from "./api";
+
+export const LIFECYCLE_LABELS: Record<ReportLifecycleStatus, string> = {
+  draft: "草稿",
+  reviewed: "已审核",
+  approved: "已批准",
+  effective: "已生效",
+  superseded: "已替代"
+};
+
+// 与 Worker 端流转规则保持一致：每一步都需要重新输入密码签名
+export const NEXT_LIFECYCLE: Partial<Record<ReportLifecycleStatus, { to: ReportLifecycleStatus; action: string }>> = {
+  draft: { to: "reviewed", action: "审核签名" },
+  reviewed: { to: "approved", action: "批准签名" },
+  approved: { to: "effective", action: "生效签名" }
+};
+
+export function isLifecycleLocked(status?: ReportLifecycleStatus | null) {
+  return status === "approved" || status === "effective" || status === "superseded";
+}
@@ -9,3 +9,33 @@ const md = new MarkdownIt({
 export function renderMarkdown(content: string): string {
   return md.render(content);
 }
+
+// 在渲染后的 HTML 文本节点中标记指定短语，不改动标签与属性
+export function highlightPhrases(html: string, phrases: Array<{ text: string; title: string }>): string {
+  const titles = new Map<string, string>();
+  for (const phrase of phrases) {
+    const text = md.utils.escapeHtml(phrase.text);
+    if (text && !titles.has(text)) {
+      titles.set(text, md.utils.escapeHtml(phrase.title));
+    }
+  }
+  if (titles.size === 0) {
+    return html;
+  }
+  // 长短语优先匹配，避免被其包含的短语截断
+  const pattern = new RegExp(
+    Array.from(titles.keys())
+      .sort((a, b) => b.length - a.length)
+      .map((text) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("|"),
+    "g"
+  );
+  return html
+    .split(/(<[^>]+>)/)
+    .map((segment) =>
+      segment.startsWith("<")
+        ? segment
+        : segment.replace(pattern, (match) => `<mark class="claim-warning" title="${titles.get(match)}">${match}</mark>`)
+    )
+    .join("");
+}
@@ -0,0 +1,15 @@
+import type { ProjectRole } from "./api";
+
+export const PROJECT_ROLE_LABELS: Record<ProjectRole, string> = {
+  viewer: "查看者",
+  reviewer: "审核者",
+  editor: "编辑者",
+  owner: "所有者"
+};
+
+// 与 Worker 端一致：查看 < 审核签名 < 编辑与生成 < 共享与删除项目
+export const PROJECT_ROLES: ProjectRole[] = ["viewer", "reviewer", "editor", "owner"];
+
+export function hasProjectRole(role: ProjectRole | null | undefined, required: ProjectRole) {
+  return !!role && PROJECT_ROLES.indexOf(role) >= PROJECT_ROLES.indexOf(required);
+}
@@ -0,0 +1,26 @@
+import type { ScoringScheme } from "./api";
+
+export const DEFAULT_SCORING_SCHEME: ScoringScheme = {
+  id: null,
+  name: "默认（9/6/3/1）",
+  values: [1, 3, 6, 9],
+  levels: [
+    { level: "极低", min_rpn: 0 },
+    { level: "低", min_rpn: 27 },
+    { level: "中", min_rpn: 54 },
+    { level: "高", min_rpn: 108 }
+  ],
+  action_threshold: 54
+};
+
+// 与 Worker 端计算规则保持一致：取 RPN 达到下限的最高一档
+export function computeRpnLevel(s: number, p: number, d: number, scheme: ScoringScheme = DEFAULT_SCORING_SCHEME) {
+  const rpn = s * p * d;
+  let level = scheme.levels[0]?.level ?? "";
+  for (const band of scheme.levels) {
+    if (rpn >= band.min_rpn) {
+      level = band.level;
+    }
+  }
+  return { rpn, level };
+}
@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from "react";
+import { api, buildAuditLogQuery } from "../lib/api";
+import type { AuditLog, AuditLogFilters } from "../lib/api";
+
+const PAGE_SIZE = 50;
+
+const ENTITY_TYPE_OPTIONS = [
+  { value: "", label: "全部对象" },
+  { value: "auth", label: "登录" },
+  { value: "user", label: "用户" },
+  { value: "user_quota", label: "用户次数" },
+  { value: "model", label: "模型" },
+  { value: "template", label: "模板" },
+  { value: "scoring_scheme", label: "评分方案" },
+  { value: "project", label: "项目" },
+  { value: "project_file", label: "项目文件" },
+  { value: "report", label: "报告" },
+  { value: "report_export", label: "报告导出" },
+  { value: "capa_action", label: "CAPA 措施" },
+  { value: "team", label: "团队" },
+  { value: "project_member", label: "项目共享" },
+  { value: "audit_log", label: "审计日志" }
+];
+
+const ENTITY_TYPE_LABELS = Object.fromEntries(ENTITY_TYPE_OPTIONS.map((option) => [option.value, option.label]));
+
+function formatSecond(value?: string | null) {
+  if (!value) {
+    return "-";
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  return new Intl.DateTimeFormat("zh-CN", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit"
+  }).format(date);
+}
+
+function formatValue(value: string | null) {
+  if (!value) {
+    return "-";
+  }
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+}
+
+export default function AdminAuditLogs() {
+  const apiBase = import.meta.env.VITE_API_BASE ?? "";
+  const [draft, setDraft] = useState<AuditLogFilters>({});
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [offset, setOffset] = useState(0);
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadLogs = async () => {
+    setLoading(true);
+    setMessage(null);
+    const result = await api.listAuditLogs(filters, { limit: PAGE_SIZE, offset });
+    setLoading(false);
+    if (result.error || !result.data) {
+      setMessage(result.error ?? "审计日志加载失败");
+      return;
+    }
+    setLogs(result.data.logs);
+    setTotal(result.data.total);
+  };
+
+  useEffect(() => {
+    loadLogs();
+  }, [filters, offset]);
+
+  const updateDraft = (key: keyof AuditLogFilters, value: string) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSearch = () => {
+    setOffset(0);
+    setFilters({ ...draft });
+  };
+
+  const handleReset = () => {
+    setDraft({});
+    setOffset(0);
+    setFilters({});
+  };
+
+  const exportQuery = buildAuditLogQuery(filters);
+  const exportHref = `${apiBase}/api/admin/audit-logs/export${exportQuery ? `?${exportQuery}` : ""}`;
+  const pageEnd = Math.min(offset + logs.length, total);
+
+  return (
+    <div className="admin-users">
+      <header className="admin-templates-header">
+        <div>
+          <h2>审计日志</h2>
+          <p className="muted">记录所有数据变更的操作人、时间、IP 与变更前后的取值，仅可追加，不可修改或删除。</p>
+        </div>
+        <div className="admin-templates-meta">
+          <span className="muted">匹配记录</span>
+          <strong>{total}</strong>
+        </div>
+      </header>
+
+      {message ? <div className="info">{message}</div> : null}
+
+      <section className="card">
+        <div className="section-header">
+          <h3>筛选</h3>
+          <a className="link" href={exportHref} target="_blank" rel="noreferrer">
+            导出 CSV
+          </a>
+        </div>
+        <div className="form-grid audit-filter-grid">
+          <label>
+            用户邮箱
+            <input value={draft.user ?? ""} onChange={(e) => updateDraft("user", e.target.value)} />
+          </label>
+          <label>
+            对象类型
+            <select value={draft.entity_type ?? ""} onChange={(e) => updateDraft("entity_type", e.target.value)}>
+              {ENTITY_TYPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            操作
+            <input
+              placeholder="如 project.update_inputs"
+              value={draft.action ?? ""}
+              onChange={(e) => updateDraft("action", e.target.value)}
+            />
+          </label>
+          <label>
+            对象 / 项目 ID
+            <input value={draft.entity_id ?? ""} onChange={(e) => updateDraft("entity_id", e.target.value)} />
+          </label>
+          <label>
+            起始日期
+            <input type="date" value={draft.from ?? ""} onChange={(e) => updateDraft("from", e.target.value)} />
+          </label>
+          <label>
+            截止日期
+            <input type="date" value={draft.to ?? ""} onChange={(e) => updateDraft("to", e.target.value)} />
+          </label>
+        </div>
+        <div className="audit-filter-actions">
+          <button onClick={handleSearch} disabled={loading}>
+            查询
+          </button>
+          <button className="ghost" onClick={handleReset} disabled={loading}>
+            重置
+          </button>
+        </div>
+      </section>
+
+      <section className="card">
+        <div className="section-header">
+          <h3>记录</h3>
+          <span className="muted">
+            {total === 0 ? "0" : `${offset + 1}-${pageEnd}`} / {total}
+            {loading ? " · 加载中..." : ""}
+          </span>
+        </div>
+        {logs.length === 0 ? (
+          <div className="empty">暂无审计记录</div>
+        ) : (
+          <table className="workflow-table audit-table">
+            <thead>
+              <tr>
+                <th>时间</th>
+                <th>用户</th>
+                <th>操作</th>
+                <th>对象</th>
+                <th>IP</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {logs.map((log) => (
+                <React.Fragment key={log.id}>
+                  <tr>
+                    <td>{formatSecond(log.created_at)}</td>
+                    <td>{log.user_email ?? "-"}</td>
+                    <td>
+                      <code>{log.action}</code>
+                    </td>
+                    <td>
+                      <div>{ENTITY_TYPE_LABELS[log.entity_type] ?? log.entity_type}</div>
+                      {log.entity_id ? <div className="muted">{log.entity_id}</div> : null}
+                    </td>
+                    <td>{log.ip ?? "-"}</td>
+                    <td>
+                      <button
+                        className="mini-button"
+                        onClick={() => setExpandedId((prev) => (prev === log.id ? null : log.id))}
+                      >
+                        {expandedId === log.id ? "收起" : "详情"}
+                      </button>
+                    </td>
+                  </tr>
+                  {expandedId === log.id ? (
+                    <tr>
+                      <td colSpan={6}>
+                        <div className="audit-detail">
+                          <div>
+                            <strong>原值</strong>
+                            <pre>{formatValue(log.old_value)}</pre>
+                          </div>
+                          <div>
+                            <strong>新值</strong>
+                            <pre>{formatValue(log.new_value)}</pre>
+                          </div>
+                        </div>
+                        <div className="muted">
+                          项目：{log.project_id ?? "-"} · User-Agent：{log.user_agent ?? "-"}
+                        </div>
+                      </td>
+                    </tr>
+                  ) : null}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="audit-filter-actions">
+          <button
+            className="ghost"
+            onClick={() => setOffset((prev) => Math.max(prev - PAGE_SIZE, 0))}
+            disabled={loading || offset === 0}
+          >
+            上一页
+          </button>
+          <button
+            className="ghost"
+            onClick={() => setOffset((prev) => prev + PAGE_SIZE)}
+            disabled={loading || offset + PAGE_SIZE >= total}
+          >
+            下一页
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+}
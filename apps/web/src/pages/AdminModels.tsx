@@ -4,7 +4,7 @@ import { api } from "../lib/api";
 const CATEGORY_OPTIONS = [
   { value: "text" as const, label: "文本生成模型", hint: "用于报告生成与评估推理" },
   { value: "embedding" as const, label: "Embedding 模型", hint: "用于向量检索与上下文构建" },
-  { value: "rerank" as const, label: "Rerank 模型", hint: "用于候选排序（预留）" }
+  { value: "rerank" as const, label: "Rerank 模型", hint: "用于向量召回后的候选重排序" }
 ];
 const PLAN_OPTIONS = [
   { value: "free" as const, label: "Free" },
@@ -0,0 +1,355 @@
+import React, { useEffect, useState } from "react";
+import { api } from "../lib/api";
+import type { AdminScoringScheme } from "../lib/api";
+
+type LevelDraft = { level: string; min_rpn: string };
+
+type SchemeForm = {
+  name: string;
+  description: string;
+  values: string;
+  levels: LevelDraft[];
+  actionThreshold: string;
+  isDefault: boolean;
+};
+
+const EMPTY_FORM: SchemeForm = {
+  name: "",
+  description: "",
+  values: "1, 2, 3, 4, 5",
+  levels: [
+    { level: "低", min_rpn: "0" },
+    { level: "中", min_rpn: "20" },
+    { level: "高", min_rpn: "60" }
+  ],
+  actionThreshold: "20",
+  isDefault: false
+};
+
+function formatMinute(value?: string | null) {
+  if (!value) {
+    return "-";
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  return new Intl.DateTimeFormat("zh-CN", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit"
+  }).format(date);
+}
+
+function describeLevels(scheme: AdminScoringScheme) {
+  return scheme.levels
+    .map((band, index) => {
+      const next = scheme.levels[index + 1];
+      return next ? `${band.level} ${band.min_rpn}-${next.min_rpn - 1}` : `${band.level} ≥${band.min_rpn}`;
+    })
+    .join(" / ");
+}
+
+export default function AdminScoringSchemes() {
+  const [schemes, setSchemes] = useState<AdminScoringScheme[]>([]);
+  const [form, setForm] = useState<SchemeForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadSchemes = async () => {
+    const result = await api.listAdminScoringSchemes();
+    if (result.data) {
+      setSchemes(result.data.schemes);
+    }
+  };
+
+  useEffect(() => {
+    loadSchemes();
+  }, []);
+
+  const updateLevel = (index: number, patch: Partial<LevelDraft>) => {
+    setForm((prev) => ({
+      ...prev,
+      levels: prev.levels.map((band, bandIndex) => (bandIndex === index ? { ...band, ...patch } : band))
+    }));
+  };
+
+  const handleEditStart = (scheme: AdminScoringScheme) => {
+    setEditingId(scheme.id);
+    setForm({
+      name: scheme.name,
+      description: scheme.description ?? "",
+      values: scheme.values.join(", "),
+      levels: scheme.levels.map((band) => ({ level: band.level, min_rpn: String(band.min_rpn) })),
+      actionThreshold: String(scheme.action_threshold),
+      isDefault: scheme.is_default
+    });
+    setError(null);
+    setNotice(null);
+  };
+
+  const handleEditCancel = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setError("请填写方案名称");
+      return;
+    }
+    const values = form.values
+      .split(/[,，\s/]+/)
+      .filter(Boolean)
+      .map((value) => Number(value));
+    if (values.length === 0 || values.some((value) => Number.isNaN(value))) {
+      setError("评分取值需为数字，使用逗号分隔");
+      return;
+    }
+    const payload = {
+      name: form.name.trim(),
+      description: form.description.trim(),
+      values,
+      levels: form.levels.map((band) => ({ level: band.level.trim(), min_rpn: Number(band.min_rpn) })),
+      actionThreshold: Number(form.actionThreshold),
+      isDefault: form.isDefault
+    };
+    setLoading(true);
+    setError(null);
+    setNotice(null);
+    const result = editingId
+      ? await api.updateScoringScheme(editingId, payload)
+      : await api.createScoringScheme(payload);
+    setLoading(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setNotice(editingId ? "评分方案已更新" : "评分方案已保存");
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    await loadSchemes();
+  };
+
+  const handleSetDefault = async (schemeId: string) => {
+    setLoading(true);
+    setError(null);
+    setNotice(null);
+    const result = await api.updateScoringScheme(schemeId, { isDefault: true });
+    setLoading(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setNotice("默认评分方案已更新");
+    await loadSchemes();
+  };
+
+  const handleDelete = async (schemeId: string, name: string) => {
+    if (!window.confirm(`确认停用评分方案「${name}」？使用该方案的项目将回退到默认方案。`)) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    setNotice(null);
+    const result = await api.deleteScoringScheme(schemeId);
+    setLoading(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    if (editingId === schemeId) {
+      handleEditCancel();
+    }
+    setNotice("评分方案已停用");
+    await loadSchemes();
+  };
+
+  const defaultScheme = schemes.find((scheme) => scheme.is_default);
+
+  return (
+    <div className="admin-models">
+      <header className="admin-templates-header">
+        <div>
+          <h2>评分方案</h2>
+          <p className="muted">配置 FMEA 的 S/P/D 取值、RPN 等级区间与需制定措施的 RPN 阈值，项目可按需选择。</p>
+        </div>
+        <div className="admin-templates-side">
+          <div className="admin-templates-meta">
+            <span className="muted">当前默认</span>
+            <strong>{defaultScheme?.name ?? "内置 9/6/3/1"}</strong>
+          </div>
+        </div>
+      </header>
+
+      <div className="admin-models-grid">
+        <section className="card">
+          <div className="section-header">
+            <h3>{editingId ? "编辑评分方案" : "新增评分方案"}</h3>
+            <span className="muted">仅管理员可见</span>
+          </div>
+          <div className="form-grid admin-form-grid">
+            <label>
+              方案名称
+              <input value={form.name} onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))} />
+            </label>
+            <label>
+              说明
+              <input
+                value={form.description}
+                onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+                placeholder="例如：依据 SOP-QA-012"
+              />
+            </label>
+            <label>
+              S/P/D 取值（逗号分隔）
+              <input
+                value={form.values}
+                onChange={(e) => setForm((prev) => ({ ...prev, values: e.target.value }))}
+                placeholder="1, 3, 6, 9"
+              />
+            </label>
+            <label>
+              措施阈值（RPN ≥ 该值需制定措施）
+              <input
+                type="number"
+                min={1}
+                value={form.actionThreshold}
+                onChange={(e) => setForm((prev) => ({ ...prev, actionThreshold: e.target.value }))}
+              />
+            </label>
+            <div className="span-full">
+              <div className="section-header tight">
+                <span>风险等级（按 RPN 下限升序，最低一档下限为 0）</span>
+                <button
+                  className="mini-button"
+                  onClick={() =>
+                    setForm((prev) => ({ ...prev, levels: [...prev.levels, { level: "", min_rpn: "" }] }))
+                  }
+                  disabled={loading}
+                >
+                  新增等级
+                </button>
+              </div>
+              <table className="workflow-table review-table">
+                <thead>
+                  <tr>
+                    <th>等级名称</th>
+                    <th>RPN 下限</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {form.levels.map((band, index) => (
+                    <tr key={index}>
+                      <td>
+                        <input value={band.level} onChange={(e) => updateLevel(index, { level: e.target.value })} />
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          min={0}
+                          value={band.min_rpn}
+                          onChange={(e) => updateLevel(index, { min_rpn: e.target.value })}
+                        />
+                      </td>
+                      <td>
+                        <button
+                          className="mini-button"
+                          onClick={() =>
+                            setForm((prev) => ({
+                              ...prev,
+                              levels: prev.levels.filter((_, bandIndex) => bandIndex !== index)
+                            }))
+                          }
+                          disabled={loading || form.levels.length <= 2}
+                        >
+                          删除
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+          <div className="admin-actions">
+            <button onClick={handleSave} disabled={loading}>
+              {loading ? "保存中..." : editingId ? "保存修改" : "保存方案"}
+            </button>
+            {editingId ? (
+              <button className="ghost" onClick={handleEditCancel} disabled={loading}>
+                取消
+              </button>
+            ) : null}
+            <label className="toggle">
+              <input
+                type="checkbox"
+                checked={form.isDefault}
+                onChange={(e) => setForm((prev) => ({ ...prev, isDefault: e.target.checked }))}
+              />
+              设为默认方案
+            </label>
+          </div>
+          {error ? <div className="error">{error}</div> : null}
+          {notice ? <div className="info">{notice}</div> : null}
+        </section>
+
+        <section className="card">
+          <div className="section-header">
+            <div>
+              <h3>已配置方案</h3>
+              <p className="muted">未设置默认方案时使用内置 9/6/3/1 方案（27/54/108 分级，RPN≥54 需措施）。</p>
+            </div>
+          </div>
+          {schemes.length === 0 ? (
+            <div className="empty">暂无评分方案</div>
+          ) : (
+            <div className="model-grid">
+              {schemes.map((scheme) => (
+                <div key={scheme.id} className={`model-card ${scheme.is_default ? "default" : ""}`}>
+                  <div className="model-card-header">
+                    <div>
+                      <h4>{scheme.name}</h4>
+                      <span className="muted small">{scheme.description || "—"}</span>
+                    </div>
+                    {scheme.is_default ? <span className="model-badge">默认</span> : null}
+                  </div>
+                  <div className="model-meta">
+                    <span className="muted">取值：{[...scheme.values].reverse().join("/")}</span>
+                    <span className="muted">等级：{describeLevels(scheme)}</span>
+                    <span className="muted">措施阈值：RPN≥{scheme.action_threshold}</span>
+                    <span className="muted">更新：{formatMinute(scheme.updated_at)}</span>
+                  </div>
+                  <div className="admin-actions">
+                    <button
+                      className="mini-button"
+                      onClick={() => handleSetDefault(scheme.id)}
+                      disabled={loading || scheme.is_default}
+                    >
+                      设为默认
+                    </button>
+                    <button className="mini-button" onClick={() => handleEditStart(scheme)} disabled={loading}>
+                      编辑
+                    </button>
+                    <button
+                      className="mini-button danger"
+                      onClick={() => handleDelete(scheme.id, scheme.name)}
+                      disabled={loading}
+                    >
+                      停用
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
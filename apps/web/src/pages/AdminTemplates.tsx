@@ -1,5 +1,8 @@
 import React, { useEffect, useRef, useState } from "react";
 import { api } from "../lib/api";
+import type { TemplateRevision, TemplateValidation } from "../lib/api";
+import { buildCompareRows } from "../lib/diff";
+import type { CompareRow } from "../lib/diff";
 
 function formatMinute(value?: string | null) {
   if (!value) {
@@ -20,7 +23,7 @@ function formatMinute(value?: string | null) {
 
 export default function AdminTemplates() {
   const [templates, setTemplates] = useState<
-    Array<{ id: string; name: string; description: string | null; updated_at?: string }>
+    Array<{ id: string; name: string; description: string | null; latest_revision: number; updated_at?: string }>
   >([]);
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
@@ -29,6 +32,10 @@ export default function AdminTemplates() {
   const [editName, setEditName] = useState("");
   const [editDescription, setEditDescription] = useState("");
   const [editContent, setEditContent] = useState("");
+  const [validation, setValidation] = useState<TemplateValidation | null>(null);
+  const [changeNote, setChangeNote] = useState("");
+  const [revisions, setRevisions] = useState<TemplateRevision[]>([]);
+  const [revisionDiff, setRevisionDiff] = useState<{ from: number; to: number; rows: CompareRow[] } | null>(null);
   const editSectionRef = useRef<HTMLDivElement | null>(null);
   const importInputRef = useRef<HTMLInputElement | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -71,6 +78,11 @@ export default function AdminTemplates() {
     await loadTemplates();
   };
 
+  const loadRevisions = async (id: string) => {
+    const result = await api.listTemplateRevisions(id);
+    setRevisions(result.data?.revisions ?? []);
+  };
+
   const handleEditStart = async (id: string) => {
     setLoading(true);
     setError(null);
@@ -85,6 +97,10 @@ export default function AdminTemplates() {
     setEditName(result.data.name);
     setEditDescription(result.data.description ?? "");
     setEditContent(result.data.content ?? "");
+    setValidation(null);
+    setChangeNote("");
+    setRevisionDiff(null);
+    await loadRevisions(id);
     requestAnimationFrame(() => {
       editSectionRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
     });
@@ -95,6 +111,54 @@ export default function AdminTemplates() {
     setEditName("");
     setEditDescription("");
     setEditContent("");
+    setValidation(null);
+    setChangeNote("");
+    setRevisions([]);
+    setRevisionDiff(null);
+  };
+
+  const handleRevisionDiff = async (from: number, to: number) => {
+    if (!editingId) {
+      return;
+    }
+    setError(null);
+    const result = await api.diffTemplateRevisions(editingId, from, to);
+    if (result.error || !result.data) {
+      setError(result.error ?? "版本对比失败");
+      return;
+    }
+    setRevisionDiff({
+      from: result.data.from,
+      to: result.data.to,
+      rows: buildCompareRows(result.data.diff).filter((row) => row.type !== "equal")
+    });
+  };
+
+  const handleRevisionLoad = async (revision: number) => {
+    if (!editingId) {
+      return;
+    }
+    const result = await api.getTemplate(editingId, revision);
+    if (result.error || !result.data) {
+      setError(result.error ?? "模板加载失败");
+      return;
+    }
+    setEditContent(result.data.content);
+    setChangeNote(`恢复为第 ${revision} 版`);
+    setNotice(`已载入第 ${revision} 版内容，保存后生成新版本`);
+  };
+
+  const handleValidate = async () => {
+    setLoading(true);
+    setError(null);
+    setNotice(null);
+    const result = await api.validateTemplate(editContent);
+    setLoading(false);
+    if (result.error || !result.data) {
+      setError(result.error ?? "模板校验失败");
+      return;
+    }
+    setValidation(result.data);
   };
 
   const handleEditSave = async () => {
@@ -111,14 +175,15 @@ export default function AdminTemplates() {
     const result = await api.updateTemplate(editingId, {
       name: editName.trim(),
       description: editDescription.trim(),
-      content: editContent
+      content: editContent,
+      changeNote: changeNote.trim()
     });
     setLoading(false);
     if (result.error) {
       setError(result.error);
       return;
     }
-    setNotice("模板已更新");
+    setNotice(`模板已更新（当前为第 ${result.data?.revision ?? "-"} 版）`);
     handleEditCancel();
     await loadTemplates();
   };
@@ -322,7 +387,9 @@ export default function AdminTemplates() {
                 </div>
                 <p className="muted">{template.description || "无描述"}</p>
                 <div className="template-meta">
-                  <span className="muted">更新：{formatMinute(template.updated_at)}</span>
+                  <span className="muted">
+                    第 {template.latest_revision} 版 · 更新：{formatMinute(template.updated_at)}
+                  </span>
                   <code className="muted">{template.id}</code>
                 </div>
               </div>
@@ -353,17 +420,124 @@ export default function AdminTemplates() {
                 placeholder="编辑模板内容"
               />
             </label>
+            <label className="span-full">
+              修改说明
+              <input
+                value={changeNote}
+                onChange={(e) => setChangeNote(e.target.value)}
+                placeholder="内容有修改时生成新版本，已固定旧版本的项目不受影响"
+              />
+            </label>
           </div>
+          {validation ? (
+            <div className="template-validation">
+              {validation.unknown.length > 0 ? (
+                <div className="error">
+                  未知占位符：
+                  {validation.unknown.map((item) => `第 ${item.line} 行 {{${item.name}}}`).join("，")}
+                </div>
+              ) : (
+                <div className="info">
+                  {validation.placeholders.length > 0
+                    ? `占位符校验通过，共使用 ${validation.placeholders.length} 个占位符，将按结构化结果确定性渲染`
+                    : "模板未使用占位符，将由模型参照模板结构撰写报告"}
+                </div>
+              )}
+              <details>
+                <summary className="muted">可用占位符（{validation.supported.length}）</summary>
+                <ul className="placeholder-list">
+                  {validation.supported.map((item) => (
+                    <li key={item.name}>
+                      <code>{`{{${item.name}}}`}</code>
+                      <span className="muted">
+                        {item.label}
+                        {item.kind === "narrative" ? "（模型撰写）" : ""}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            </div>
+          ) : null}
           {error ? <div className="error">{error}</div> : null}
           {notice ? <div className="info">{notice}</div> : null}
           <div className="admin-actions">
             <button onClick={handleEditSave} disabled={loading}>
               {loading ? "保存中..." : "保存修改"}
             </button>
+            <button className="ghost" onClick={handleValidate} disabled={loading}>
+              校验占位符
+            </button>
             <button className="ghost" onClick={handleEditCancel} disabled={loading}>
               取消
             </button>
           </div>
+          <div className="section-header">
+            <h3>版本历史</h3>
+            <span className="muted">共 {revisions.length} 个版本</span>
+          </div>
+          <table className="workflow-table">
+            <thead>
+              <tr>
+                <th>版本</th>
+                <th>修改说明</th>
+                <th>修改人</th>
+                <th>时间</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {revisions.map((item) => (
+                <tr key={item.revision}>
+                  <td>第 {item.revision} 版</td>
+                  <td>{item.change_note || "-"}</td>
+                  <td>{item.created_by_email ?? "-"}</td>
+                  <td>{formatMinute(item.created_at)}</td>
+                  <td>
+                    <div className="inline-actions">
+                      {item.revision > 1 ? (
+                        <button
+                          className="mini-button"
+                          onClick={() => handleRevisionDiff(item.revision - 1, item.revision)}
+                        >
+                          与上一版对比
+                        </button>
+                      ) : null}
+                      <button className="mini-button" onClick={() => handleRevisionLoad(item.revision)}>
+                        载入
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {revisionDiff ? (
+            <>
+              <div className="section-header">
+                <h4>
+                  第 {revisionDiff.from} 版 → 第 {revisionDiff.to} 版
+                </h4>
+                <button className="text-button" onClick={() => setRevisionDiff(null)}>
+                  收起
+                </button>
+              </div>
+              {revisionDiff.rows.length === 0 ? (
+                <div className="empty">两个版本内容相同</div>
+              ) : (
+                <div className="markdown-compare">
+                  {revisionDiff.rows.map((row, index) => (
+                    <div key={index} className={`markdown-compare-row diff-${row.type}`}>
+                      <span className="markdown-compare-line">{row.left?.line ?? ""}</span>
+                      <pre className="markdown-compare-text">{row.left?.text ?? ""}</pre>
+                      <span className="markdown-compare-line">{row.right?.line ?? ""}</span>
+                      <pre className="markdown-compare-text">{row.right?.text ?? ""}</pre>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : null}
         </section>
       ) : null}
       </div>
@@ -1,5 +1,6 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { api } from "../lib/api";
+import type { QuotaLedgerEntry } from "../lib/api";
 
 const PLAN_OPTIONS = [
   { value: "free" as const, label: "Free" },
@@ -51,6 +52,12 @@ function formatDate(value?: string | null) {
   }).format(date);
 }
 
+const LEDGER_KIND_LABELS: Record<QuotaLedgerEntry["kind"], string> = {
+  consume: "扣减",
+  refund: "退还",
+  adjust: "调整"
+};
+
 function formatQuotaRemaining(user: AdminUser) {
   if (user.plan === "max" || user.quota_is_unlimited) {
     return "不限";
@@ -68,6 +75,8 @@ export default function AdminUsers() {
   const [error, setError] = useState<string | null>(null);
   const [notice, setNotice] = useState<string | null>(null);
   const [quotaEdits, setQuotaEdits] = useState<Record<string, string>>({});
+  const [ledgerUserId, setLedgerUserId] = useState<string | null>(null);
+  const [ledgerEntries, setLedgerEntries] = useState<QuotaLedgerEntry[]>([]);
 
   const loadUsers = async () => {
     const result = await api.listUsers();
@@ -176,6 +185,21 @@ export default function AdminUsers() {
     await loadUsers();
   };
 
+  const handleToggleLedger = async (userId: string) => {
+    if (ledgerUserId === userId) {
+      setLedgerUserId(null);
+      return;
+    }
+    setError(null);
+    const result = await api.getUserQuotaLedger(userId);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setLedgerEntries(result.data?.entries ?? []);
+    setLedgerUserId(userId);
+  };
+
   const userCount = useMemo(() => users.length, [users]);
 
   return (
@@ -276,6 +300,9 @@ export default function AdminUsers() {
                         </button>
                       </div>
                     )}
+                    <button className="mini-button" onClick={() => handleToggleLedger(user.id)}>
+                      {ledgerUserId === user.id ? "收起记录" : "次数记录"}
+                    </button>
                     <select
                       value={user.plan}
                       onChange={(e) => handlePlanChange(user.id, e.target.value as "free" | "pro" | "max")}
@@ -296,6 +323,38 @@ export default function AdminUsers() {
                       删除
                     </button>
                   </div>
+                  {ledgerUserId === user.id ? (
+                    <div className="quota-ledger">
+                      {ledgerEntries.length === 0 ? (
+                        <div className="empty">暂无次数记录</div>
+                      ) : (
+                        <table className="workflow-table">
+                          <thead>
+                            <tr>
+                              <th>时间</th>
+                              <th>类型</th>
+                              <th>变动</th>
+                              <th>变动后剩余</th>
+                              <th>原因</th>
+                              <th>报告 ID</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {ledgerEntries.map((entry) => (
+                              <tr key={entry.id}>
+                                <td>{formatMinute(entry.created_at)}</td>
+                                <td>{LEDGER_KIND_LABELS[entry.kind] ?? entry.kind}</td>
+                                <td>{entry.amount > 0 ? `+${entry.amount}` : entry.amount}</td>
+                                <td>{entry.remaining_after ?? "不限"}</td>
+                                <td>{entry.reason}</td>
+                                <td title={entry.report_id ?? ""}>{entry.report_id ? entry.report_id.slice(0, 8) : "-"}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  ) : null}
                 </div>
               ))}
             </div>
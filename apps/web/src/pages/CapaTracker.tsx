@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { api } from "../lib/api";
+import type { CapaAction, CapaStatus } from "../lib/api";
+
+type CapaDraft = {
+  status: CapaStatus;
+  completed_at: string;
+  effectiveness_notes: string;
+};
+
+const STATUS_LABELS: Record<CapaStatus, string> = {
+  open: "未开始",
+  in_progress: "进行中",
+  done: "已完成",
+  verified: "已验证"
+};
+
+const RESIDUAL_LABELS: Record<CapaAction["residual_status"], string> = {
+  open: "措施未关闭",
+  closed: "措施已关闭",
+  verified: "已验证有效"
+};
+
+const toDraft = (action: CapaAction): CapaDraft => ({
+  status: action.status,
+  completed_at: action.completed_at ?? "",
+  effectiveness_notes: action.effectiveness_notes ?? ""
+});
+
+export default function CapaTracker() {
+  const { id } = useParams();
+  const projectId = id ?? "";
+  const [projectTitle, setProjectTitle] = useState<string | null>(null);
+  const [actions, setActions] = useState<CapaAction[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, CapaDraft>>({});
+  const [status, setStatus] = useState<CapaStatus | "">("");
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadActions = async () => {
+    setLoading(true);
+    const result = await api.listCapa({ projectId: projectId || undefined, status, overdue: overdueOnly });
+    setLoading(false);
+    if (result.error || !result.data) {
+      setMessage(result.error ?? "加载 CAPA 记录失败");
+      return;
+    }
+    setProjectTitle(result.data.project?.title ?? null);
+    setActions(result.data.actions);
+    setDrafts(Object.fromEntries(result.data.actions.map((action) => [action.id, toDraft(action)])));
+  };
+
+  useEffect(() => {
+    loadActions();
+  }, [projectId, status, overdueOnly]);
+
+  const updateDraft = (actionId: string, patch: Partial<CapaDraft>) => {
+    setDrafts((prev) => ({ ...prev, [actionId]: { ...prev[actionId], ...patch } }));
+  };
+
+  const handleSave = async (action: CapaAction) => {
+    const draft = drafts[action.id] ?? toDraft(action);
+    setSavingId(action.id);
+    setMessage(null);
+    const result = await api.updateCapaAction(action.id, {
+      status: draft.status,
+      completed_at: draft.completed_at || null,
+      effectiveness_notes: draft.effectiveness_notes || null
+    });
+    setSavingId(null);
+    if (result.error || !result.data) {
+      setMessage(result.error ?? "保存失败");
+      return;
+    }
+    setMessage("已保存");
+    await loadActions();
+  };
+
+  const overdueCount = actions.filter((action) => action.overdue).length;
+
+  return (
+    <div className="report-page">
+      <div className="report-header">
+        <div>
+          <h2>{projectTitle ? `${projectTitle} · CAPA 跟踪` : "CAPA 跟踪"}</h2>
+          <p className="muted">各项目最新完成版本行动计划中的措施；风险项下措施全部完成后自动关闭残余风险</p>
+        </div>
+        <div className="report-header-actions">
+          {projectId ? (
+            <>
+              <Link className="link" to={`/projects/${projectId}`}>
+                返回项目
+              </Link>
+              <Link className="link" to="/capa">
+                全部项目
+              </Link>
+            </>
+          ) : null}
+        </div>
+      </div>
+
+      {message ? <div className="info">{message}</div> : null}
+
+      <section className="card">
+        <div className="section-header">
+          <h3>
+            措施列表（{actions.length}
+            {overdueCount > 0 ? `，逾期 ${overdueCount}` : ""}）
+          </h3>
+          <div className="capa-filters">
+            <select value={status} onChange={(e) => setStatus(e.target.value as CapaStatus | "")}>
+              <option value="">全部状态</option>
+              {(Object.keys(STATUS_LABELS) as CapaStatus[]).map((value) => (
+                <option key={value} value={value}>
+                  {STATUS_LABELS[value]}
+                </option>
+              ))}
+            </select>
+            <label className="muted">
+              <input type="checkbox" checked={overdueOnly} onChange={(e) => setOverdueOnly(e.target.checked)} />{" "}
+              仅显示逾期
+            </label>
+            {loading ? <span className="muted">加载中...</span> : null}
+          </div>
+        </div>
+        {actions.length === 0 ? (
+          <div className="empty">暂无 CAPA 记录</div>
+        ) : (
+          <table className="workflow-table capa-table">
+            <thead>
+              <tr>
+                {projectId ? null : <th>项目</th>}
+                <th>风险项</th>
+                <th>残余风险</th>
+                <th>措施</th>
+                <th>责任人</th>
+                <th>计划日期</th>
+                <th>状态</th>
+                <th>实际完成日期</th>
+                <th>有效性检查记录</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {actions.map((action) => {
+                const draft = drafts[action.id] ?? toDraft(action);
+                const closed = draft.status === "done" || draft.status === "verified";
+                return (
+                  <tr key={action.id} className={action.overdue ? "overdue" : undefined}>
+                    {projectId ? null : (
+                      <td>
+                        <Link className="link" to={`/projects/${action.project_id}`}>
+                          {action.project_title}
+                        </Link>
+                        <div className="muted">版本 {action.version}</div>
+                      </td>
+                    )}
+                    <td>
+                      <strong>
+                        {action.seq}. {action.failure_mode}
+                      </strong>
+                      {action.level ? <div className="muted">等级：{action.level}</div> : null}
+                    </td>
+                    <td>
+                      <span className={`pill capa-${action.residual_status}`}>
+                        {RESIDUAL_LABELS[action.residual_status]}
+                      </span>
+                      {action.residual_level ? <div className="muted">剩余等级：{action.residual_level}</div> : null}
+                    </td>
+                    <td>
+                      <div>{action.action_text}</div>
+                      <div className="muted">{action.type}</div>
+                    </td>
+                    <td>
+                      {[action.owner_dept, action.owner_role].filter(Boolean).join(" / ") || "-"}
+                    </td>
+                    <td>
+                      <span className={action.overdue ? "review-due overdue" : "review-due"}>
+                        {action.planned_date ?? "-"}
+                        {action.overdue ? "（已逾期）" : ""}
+                      </span>
+                    </td>
+                    <td>
+                      <select
+                        value={draft.status}
+                        onChange={(e) => updateDraft(action.id, { status: e.target.value as CapaStatus })}
+                      >
+                        {(Object.keys(STATUS_LABELS) as CapaStatus[]).map((value) => (
+                          <option key={value} value={value}>
+                            {STATUS_LABELS[value]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>
+                      <input
+                        type="date"
+                        value={draft.completed_at}
+                        disabled={!closed}
+                        onChange={(e) => updateDraft(action.id, { completed_at: e.target.value })}
+                      />
+                    </td>
+                    <td>
+                      <textarea
+                        rows={2}
+                        value={draft.effectiveness_notes}
+                        placeholder={draft.status === "verified" ? "必填" : ""}
+                        onChange={(e) => updateDraft(action.id, { effectiveness_notes: e.target.value })}
+                      />
+                    </td>
+                    <td>
+                      <button
+                        className="mini-button"
+                        disabled={savingId === action.id}
+                        onClick={() => handleSave(action)}
+                      >
+                        {savingId === action.id ? "保存中..." : "保存"}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import React, { useEffect, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { api } from "../lib/api";
+import type { ProjectRole, ReviewReminder } from "../lib/api";
 import { useAuth } from "../lib/auth";
+import { PROJECT_ROLE_LABELS } from "../lib/roles";
 
 function formatMinute(value?: string | null) {
   if (!value) {
@@ -20,6 +22,11 @@ function formatMinute(value?: string | null) {
   }).format(date);
 }
 
+// 到期日与今天均为 YYYY-MM-DD，按 UTC 日期相减
+function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+}
+
 export default function Dashboard() {
   const [projects, setProjects] = useState<
     Array<{
@@ -28,8 +35,17 @@ export default function Dashboard() {
       status: string;
       report_count?: number;
       latest_completed_at?: string | null;
+      role: ProjectRole;
+      shared: boolean;
+      owner_email?: string | null;
+      team_name?: string | null;
     }>
   >([]);
+  const [reviews, setReviews] = useState<{ today: string; overdue: ReviewReminder[]; upcoming: ReviewReminder[] }>({
+    today: "",
+    overdue: [],
+    upcoming: []
+  });
   const [title, setTitle] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
@@ -44,6 +60,10 @@ export default function Dashboard() {
     if (result.data) {
       setProjects(result.data.projects);
     }
+    const reviewResult = await api.listReviews();
+    if (reviewResult.data) {
+      setReviews(reviewResult.data);
+    }
   };
 
   useEffect(() => {
@@ -88,6 +108,50 @@ export default function Dashboard() {
     await loadProjects();
   };
 
+  const handleStartReview = async (reminder: ReviewReminder) => {
+    if (reminder.pending_review_id) {
+      navigate(`/reports/${reminder.pending_review_id}/review`);
+      return;
+    }
+    const confirmed = window.confirm(
+      `以「${reminder.project_title}」版本 ${reminder.version} 的评估结果开始定期回顾？将新建一个待审核版本。`
+    );
+    if (!confirmed) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const result = await api.startPeriodicReview(reminder.id);
+    setLoading(false);
+    if (result.error || !result.data) {
+      setError(result.error ?? "开始定期回顾失败");
+      return;
+    }
+    navigate(`/reports/${result.data.id}/review`);
+  };
+
+  const renderReviewList = (items: ReviewReminder[], overdue: boolean) => (
+    <ul className="review-reminder-list">
+      {items.map((reminder) => {
+        const days = daysBetween(reviews.today, reminder.review_due_at);
+        return (
+          <li key={reminder.id} className={overdue ? "overdue" : ""}>
+            <Link to={`/projects/${reminder.project_id}`}>{reminder.project_title}</Link>
+            <span className="muted">版本 {reminder.version}</span>
+            {reminder.review_level ? <span className="pill">最高等级：{reminder.review_level}</span> : null}
+            <span className={overdue ? "review-due overdue" : "review-due"}>
+              {reminder.review_due_at}
+              {overdue ? `（已逾期 ${-days} 天）` : days === 0 ? "（今天到期）" : `（${days} 天后到期）`}
+            </span>
+            <button className="mini-button" onClick={() => handleStartReview(reminder)} disabled={loading}>
+              {reminder.pending_review_id ? "继续回顾" : "开始定期回顾"}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+
   return (
     <div className="dashboard">
       <section className="hero-card">
@@ -119,6 +183,27 @@ export default function Dashboard() {
         {error ? <div className="error">{error}</div> : null}
       </section>
 
+      {user && reviews.overdue.length + reviews.upcoming.length > 0 ? (
+        <section className="card">
+          <div className="section-header">
+            <h3>再评估提醒</h3>
+            <span className="muted">按各项目最新完成版本的最高风险等级确定到期日</span>
+          </div>
+          {reviews.overdue.length > 0 ? (
+            <>
+              <h4>已逾期（{reviews.overdue.length}）</h4>
+              {renderReviewList(reviews.overdue, true)}
+            </>
+          ) : null}
+          {reviews.upcoming.length > 0 ? (
+            <>
+              <h4>即将到期（{reviews.upcoming.length}）</h4>
+              {renderReviewList(reviews.upcoming, false)}
+            </>
+          ) : null}
+        </section>
+      ) : null}
+
       <section className="card">
         <div className="section-header">
           <h3>我的项目</h3>
@@ -134,17 +219,27 @@ export default function Dashboard() {
               <Link key={project.id} to={`/projects/${project.id}`} className="project-card">
                 <div className="project-card-header">
                   <h4>{project.title}</h4>
-                  <button
-                    className="mini-button danger"
-                    onClick={(event) => {
-                      event.preventDefault();
-                      event.stopPropagation();
-                      handleDelete(project.id, project.title);
-                    }}
-                  >
-                    删除
-                  </button>
+                  {project.role === "owner" ? (
+                    <button
+                      className="mini-button danger"
+                      onClick={(event) => {
+                        event.preventDefault();
+                        event.stopPropagation();
+                        handleDelete(project.id, project.title);
+                      }}
+                    >
+                      删除
+                    </button>
+                  ) : (
+                    <span className={`pill role-${project.role}`}>{PROJECT_ROLE_LABELS[project.role]}</span>
+                  )}
                 </div>
+                {project.shared || project.team_name ? (
+                  <div className="project-card-meta">
+                    {project.shared ? <span className="muted">创建人：{project.owner_email ?? "-"}</span> : null}
+                    {project.team_name ? <span className="muted">团队：{project.team_name}</span> : null}
+                  </div>
+                ) : null}
                 <div className="project-card-meta">
                   <span className="muted">状态：{project.status}</span>
                   <span className="muted">版本数：{project.report_count ?? 0}</span>
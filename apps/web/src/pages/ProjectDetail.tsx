@@ -1,16 +1,71 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { useParams } from "react-router-dom";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
 import { api } from "../lib/api";
+import type {
+  AdminScoringScheme,
+  ProjectMember,
+  ProjectRole,
+  ReportLifecycleStatus,
+  ReviewStage,
+  RenderMode,
+  TeamSummary,
+  TemplateRevision
+} from "../lib/api";
 import { extractTextFromFile } from "../lib/fileText";
 import { renderMarkdown } from "../lib/markdown";
+import { isLifecycleLocked, LIFECYCLE_LABELS } from "../lib/lifecycle";
+import { hasProjectRole, PROJECT_ROLE_LABELS, PROJECT_ROLES } from "../lib/roles";
+import { computeRpnLevel, DEFAULT_SCORING_SCHEME } from "../lib/scoring";
 
-const RISK_METHODS = ["五因素法", "流程法"];
+const RISK_METHODS = ["五因素法", "流程法", "鱼骨图法", "5-Why法"];
 const EVAL_TOOLS = [
   { value: "FMEA", label: "FMEA", disabled: false },
+  { value: "PHA", label: "PHA（初步危害分析）", disabled: false },
+  { value: "HACCP", label: "HACCP（危害分析与关键控制点）", disabled: false },
+  { value: "RRF", label: "RRF（风险排序与过滤）", disabled: false },
   { value: "FMECA", label: "FMECA（暂未开放）", disabled: true },
   { value: "HAZOP", label: "HAZOP（暂未开放）", disabled: true }
 ];
-const ALLOWED_EVAL_TOOLS = new Set(["FMEA"]);
+const ALLOWED_EVAL_TOOLS = new Set(["FMEA", "PHA", "HACCP", "RRF"]);
+const RENDER_MODE_OPTIONS: Array<{ value: RenderMode; label: string; hint: string }> = [
+  { value: "llm", label: "模型撰写", hint: "由模型参照模板撰写报告全文，语言更自然，消耗额外 Token。" },
+  {
+    value: "deterministic",
+    label: "确定性渲染（不调用模型）",
+    hint: "按评分结果直接生成表格与结论，保留模板中的自定义章节，并核对表格与结构化数据是否一致。"
+  }
+];
+// 非 FMEA 工具的风险评价流式预览列
+const TOOL_SCORING_COLUMNS: Record<string, Array<{ key: string; label: string }>> = {
+  PHA: [
+    { key: "severity", label: "严重性" },
+    { key: "severity_reason", label: "严重性理由" },
+    { key: "likelihood", label: "可能性" },
+    { key: "likelihood_reason", label: "可能性理由" },
+    { key: "risk_index", label: "风险指数" },
+    { key: "level", label: "等级" }
+  ],
+  HACCP: [
+    { key: "q1", label: "Q1" },
+    { key: "q2", label: "Q2" },
+    { key: "q3", label: "Q3" },
+    { key: "q4", label: "Q4" },
+    { key: "decision_reason", label: "判定理由" },
+    { key: "ccp_no", label: "判定" },
+    { key: "critical_limit", label: "关键限值" },
+    { key: "monitoring", label: "监控方式" }
+  ],
+  RRF: [
+    { key: "patient_impact", label: "患者影响" },
+    { key: "patient_impact_reason", label: "理由" },
+    { key: "compliance_impact", label: "合规影响" },
+    { key: "compliance_impact_reason", label: "理由" },
+    { key: "occurrence", label: "发生可能性" },
+    { key: "occurrence_reason", label: "理由" },
+    { key: "weighted_score", label: "加权得分" },
+    { key: "level", label: "等级" }
+  ]
+};
 
 const normalizeEvalTool = (value: string | null | undefined) => {
   return value && ALLOWED_EVAL_TOOLS.has(value) ? value : "FMEA";
@@ -39,6 +94,18 @@ const WORKFLOW_STEPS = [
   { id: "control_plan", label: "制定控制计划" },
   { id: "rendering", label: "报告渲染" }
 ];
+const REVIEW_STAGE_OPTIONS: Array<{ id: ReviewStage; label: string }> = [
+  { id: "hazard_identification", label: "危害源识别后暂停审核" },
+  { id: "fmea_scoring", label: "风险评价后暂停审核" }
+];
+// 非 FMEA 工具的评价结果暂不支持在线修改，不提供评分审核节点
+const isReviewStageSupported = (stage: ReviewStage, evalTool: string) =>
+  stage !== "fmea_scoring" || evalTool === "FMEA";
+const FILE_STATUS_LABELS: Record<string, string> = {
+  uploaded: "待解析",
+  parsed: "已解析",
+  failed: "解析失败"
+};
 type WorkflowStepStatus = "pending" | "running" | "done" | "error";
 const VISIBLE_STEP_IDS = new Set(WORKFLOW_STEPS.map((step) => step.id));
 type StepOutput = { raw: string; parsed: any | null };
@@ -75,29 +142,24 @@ function formatDate(value?: string | null) {
   }).format(date);
 }
 
-const computeRpnLevel = (s?: number | null, p?: number | null, d?: number | null) => {
-  if (!s || !p || !d) {
-    return { rpn: null, level: null };
-  }
-  const rpn = s * p * d;
-  let level = "极低";
-  if (rpn >= 108) {
-    level = "高";
-  } else if (rpn >= 54) {
-    level = "中";
-  } else if (rpn >= 27) {
-    level = "低";
-  }
-  return { rpn, level };
-};
-
 export default function ProjectDetail() {
   const { id } = useParams();
   const projectId = id ?? "";
+  const location = useLocation();
+  const navigate = useNavigate();
   const apiBase = import.meta.env.VITE_API_BASE ?? "";
 
   const [projectTitle, setProjectTitle] = useState("");
   const [status, setStatus] = useState("");
+  const [role, setRole] = useState<ProjectRole | null>(null);
+  const [sharing, setSharing] = useState<{
+    owner: { user_id: string | null; email: string | null };
+    team: { id: string; name: string } | null;
+    members: ProjectMember[];
+  } | null>(null);
+  const [teams, setTeams] = useState<TeamSummary[]>([]);
+  const [teamDraft, setTeamDraft] = useState("");
+  const [shareDraft, setShareDraft] = useState<{ email: string; role: ProjectRole }>({ email: "", role: "viewer" });
   const [inputs, setInputs] = useState({
     scope: "",
     background: "",
@@ -106,9 +168,17 @@ export default function ProjectDetail() {
     evalTool: "FMEA",
     processStepsText: "",
     templateId: "",
-    textModelId: ""
+    templateRevision: null as number | null,
+    textModelId: "",
+    scoringSchemeId: "",
+    renderMode: "llm" as RenderMode,
+    autoRerender: false
   });
-  const [templates, setTemplates] = useState<Array<{ id: string; name: string; description: string | null }>>([]);
+  const [scoringSchemes, setScoringSchemes] = useState<AdminScoringScheme[]>([]);
+  const [templates, setTemplates] = useState<
+    Array<{ id: string; name: string; description: string | null; latest_revision: number }>
+  >([]);
+  const [templateRevisions, setTemplateRevisions] = useState<TemplateRevision[]>([]);
   const [models, setModels] = useState<
     Array<{ id: string; name: string; category: "text" | "embedding" | "rerank"; model_name: string; is_default: boolean }>
   >([]);
@@ -118,7 +188,9 @@ export default function ProjectDetail() {
     rerank: null
   });
   const [templateDraft, setTemplateDraft] = useState("");
-  const [files, setFiles] = useState<Array<{ id: string; type: string; filename: string; status: string }>>([]);
+  const [files, setFiles] = useState<
+    Array<{ id: string; type: string; filename: string; status: string; error_message?: string | null }>
+  >([]);
   const [reports, setReports] = useState<
     Array<{
       id: string;
@@ -129,8 +201,14 @@ export default function ProjectDetail() {
       completion_tokens: number | null;
       total_tokens: number | null;
       model_name?: string | null;
+      current_stage?: ReviewStage | null;
+      failed_stage?: string | null;
+      review_level?: string | null;
+      review_due_at?: string | null;
+      lifecycle_status?: ReportLifecycleStatus;
     }>
   >([]);
+  const [reviewStages, setReviewStages] = useState<ReviewStage[]>([]);
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamContent, setStreamContent] = useState("");
   const [stepStats, setStepStats] = useState<Record<string, { totalChars: number; speed: string }>>({});
@@ -141,10 +219,18 @@ export default function ProjectDetail() {
   const [contextStageMessage, setContextStageMessage] = useState<string | null>(null);
   const [contextStageLog, setContextStageLog] = useState<string[]>([]);
   const [contextEvidence, setContextEvidence] = useState<
-    Array<{ source: string; content: string; score: number; filename?: string | null }>
+    Array<{
+      id?: string;
+      source: string;
+      content: string;
+      score: number;
+      rerank_score?: number | null;
+      filename?: string | null;
+    }>
   >([]);
   const [contextMeta, setContextMeta] = useState<{
     usedEmbedding: boolean;
+    usedRerank: boolean;
     sopTextCount: number;
     literatureTextCount: number;
     evidenceChunkCount: number;
@@ -161,12 +247,16 @@ export default function ProjectDetail() {
   const [quotaToast, setQuotaToast] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [highlightedReportId, setHighlightedReportId] = useState<string | null>(null);
+  const [compareBaseId, setCompareBaseId] = useState("");
+  const [compareTargetId, setCompareTargetId] = useState("");
   const streamRef = useRef<HTMLDivElement | null>(null);
   const streamPanelRef = useRef<HTMLDivElement | null>(null);
   const stepsRef = useRef<HTMLDivElement | null>(null);
   const autoScrollRef = useRef(true);
   const stepStartTimesRef = useRef<Record<string, number>>({});
   const abortControllerRef = useRef<AbortController | null>(null);
+  const streamReportIdRef = useRef<string | null>(null);
+  const attachedReportIdsRef = useRef<Set<string>>(new Set());
   const hasReportContentRef = useRef(false);
   const quotaToastTimerRef = useRef<number | null>(null);
   const hasWorkflowActivity = workflowSteps.some((step) => step.status !== "pending");
@@ -243,10 +333,20 @@ export default function ProjectDetail() {
     }
     return textModels[0]?.id ?? "";
   }, [inputs.textModelId, modelDefaults.text, textModels]);
+  const defaultScoringScheme = useMemo(
+    () => scoringSchemes.find((scheme) => scheme.is_default) ?? DEFAULT_SCORING_SCHEME,
+    [scoringSchemes]
+  );
+  const activeScoringScheme = useMemo(
+    () => scoringSchemes.find((scheme) => scheme.id === inputs.scoringSchemeId) ?? defaultScoringScheme,
+    [scoringSchemes, inputs.scoringSchemeId, defaultScoringScheme]
+  );
   const selectedTextModel = useMemo(() => {
     return textModels.find((model) => model.id === resolvedTextModelId) ?? null;
   }, [resolvedTextModelId, textModels]);
-  const startDisabled = loading || !resolvedTextModelId;
+  const canEdit = hasProjectRole(role, "editor");
+  const isOwner = role === "owner";
+  const startDisabled = loading || !resolvedTextModelId || !canEdit;
   const streamHtml = useMemo(() => renderMarkdown(streamContent), [streamContent]);
   const activeStepLabel = useMemo(() => {
     return WORKFLOW_STEPS.find((step) => step.id === activeStepId)?.label ?? "";
@@ -496,6 +596,9 @@ export default function ProjectDetail() {
         return draft.dimension || draft.failure_mode || draft.consequence ? { ...draft, _partial: true } : null;
       }
       if (activeStepId === "fmea_scoring") {
+        if (inputs.evalTool !== "FMEA") {
+          return null;
+        }
         const draft = {
           s: readNumberValue(fragment, "s"),
           s_reason: readStringValue(fragment, "s_reason"),
@@ -561,7 +664,9 @@ export default function ProjectDetail() {
       return { items: draft ? [...results, draft] : results };
     }
     if (activeStepId === "fmea_scoring") {
-      const rows = objects.filter((obj) => "s" in obj && "p" in obj && "d" in obj);
+      const rows = objects.filter((obj) =>
+        inputs.evalTool === "FMEA" ? "s" in obj && "p" in obj && "d" in obj : "risk_id" in obj
+      );
       const uniq = new Map<string, Record<string, any>>();
       rows.forEach((row) => {
         const key = String(row.risk_id ?? `${row.s}-${row.p}-${row.d}`);
@@ -573,7 +678,9 @@ export default function ProjectDetail() {
       return { rows: draft ? [...results, draft] : results };
     }
     if (activeStepId === "action_generation") {
-      const rows = objects.filter((obj) => "hazard" in obj && ("s" in obj || "p" in obj || "d" in obj));
+      const rows = objects.filter(
+        (obj) => "hazard" in obj && (inputs.evalTool !== "FMEA" || "s" in obj || "p" in obj || "d" in obj)
+      );
       const uniq = new Map<string, Record<string, any>>();
       rows.forEach((row, index) => {
         const key = String(row.risk_id ?? row.hazard ?? index);
@@ -620,7 +727,7 @@ export default function ProjectDetail() {
       return draft ? [...results, { actions: [draft], _partial: true }] : results;
     }
     return null;
-  }, [activeStepId, stepOutputs]);
+  }, [activeStepId, stepOutputs, inputs.evalTool]);
 
   const sopProgress = uploadState.sop.total
     ? Math.round((uploadState.sop.done / uploadState.sop.total) * 100)
@@ -693,6 +800,8 @@ export default function ProjectDetail() {
     }
     setProjectTitle(result.data.project.title);
     setStatus(result.data.project.status);
+    setRole(result.data.project.role);
+    setTeamDraft(result.data.project.team_id ?? "");
     setFiles(result.data.files);
     setReports(result.data.reports);
     setInputs({
@@ -703,10 +812,28 @@ export default function ProjectDetail() {
       evalTool: normalizeEvalTool(result.data.inputs?.eval_tool),
       processStepsText: formatProcessSteps(result.data.inputs?.process_steps),
       templateId: result.data.inputs?.template_id ?? "",
-      textModelId: result.data.inputs?.text_model_id ?? ""
+      templateRevision: result.data.inputs?.template_revision ?? null,
+      textModelId: result.data.inputs?.text_model_id ?? "",
+      scoringSchemeId: result.data.inputs?.scoring_scheme_id ?? "",
+      renderMode: result.data.inputs?.render_mode ?? "llm",
+      autoRerender: Boolean(result.data.inputs?.auto_rerender)
     });
   };
 
+  const loadSharing = async () => {
+    if (!projectId) {
+      return;
+    }
+    const result = await api.listProjectMembers(projectId);
+    if (result.data) {
+      setSharing(result.data);
+    }
+    const teamResult = await api.listTeams();
+    if (teamResult.data) {
+      setTeams(teamResult.data.teams);
+    }
+  };
+
   const loadTemplates = async () => {
     const result = await api.listTemplates();
     if (result.data) {
@@ -722,22 +849,41 @@ export default function ProjectDetail() {
     }
   };
 
+  const loadScoringSchemes = async () => {
+    const result = await api.listScoringSchemes();
+    if (result.data) {
+      setScoringSchemes(result.data.schemes);
+    }
+  };
+
   useEffect(() => {
     loadProject();
+    loadSharing();
     loadTemplates();
     loadModels();
+    loadScoringSchemes();
   }, [projectId]);
 
   useEffect(() => {
     if (!inputs.templateId || templateDraft) {
       return;
     }
-    api.getTemplate(inputs.templateId).then((result) => {
+    api.getTemplate(inputs.templateId, inputs.templateRevision).then((result) => {
       if (result.data?.content) {
         setTemplateDraft(result.data.content);
       }
     });
-  }, [inputs.templateId, templateDraft]);
+  }, [inputs.templateId, inputs.templateRevision, templateDraft]);
+
+  useEffect(() => {
+    if (!inputs.templateId) {
+      setTemplateRevisions([]);
+      return;
+    }
+    api.listTemplateRevisions(inputs.templateId).then((result) => {
+      setTemplateRevisions(result.data?.revisions ?? []);
+    });
+  }, [inputs.templateId]);
 
   useEffect(() => {
     if (!resolvedTextModelId) {
@@ -749,6 +895,28 @@ export default function ProjectDetail() {
     setInputs((prev) => ({ ...prev, textModelId: resolvedTextModelId }));
   }, [inputs.textModelId, resolvedTextModelId, textModels]);
 
+  useEffect(() => {
+    const continueReportId = (location.state as { continueReportId?: string } | null)?.continueReportId;
+    if (!continueReportId || !resolvedTextModelId || isStreaming) {
+      return;
+    }
+    navigate(location.pathname, { replace: true, state: null });
+    handleContinueReport(continueReportId);
+  }, [location.state, resolvedTextModelId]);
+
+  // 页面打开时若有报告仍在后台生成，自动接回其进度（每个报告仅自动接回一次）
+  useEffect(() => {
+    if (isStreaming) {
+      return;
+    }
+    const running = reports.find(
+      (report) => report.status === "running" && !attachedReportIdsRef.current.has(report.id)
+    );
+    if (running) {
+      handleAttachReport(running.id);
+    }
+  }, [reports, isStreaming]);
+
   const resetWorkflowSteps = () => {
     setWorkflowSteps(WORKFLOW_STEPS.map((step) => ({ ...step, status: "pending" as WorkflowStepStatus })));
   };
@@ -797,7 +965,8 @@ export default function ProjectDetail() {
           ) : null}
           {contextMeta ? (
             <div className="context-meta muted">
-              {contextMeta.usedEmbedding ? "向量化检索" : "关键词检索"} · SOP 文本 {contextMeta.sopTextCount} · 文献文本{" "}
+              {contextMeta.usedEmbedding ? "向量化检索" : "关键词检索"}
+              {contextMeta.usedRerank ? " + 重排序" : ""} · SOP 文本 {contextMeta.sopTextCount} · 文献文本{" "}
               {contextMeta.literatureTextCount} · 证据片段 {contextMeta.evidenceChunkCount}
             </div>
           ) : null}
@@ -806,9 +975,13 @@ export default function ProjectDetail() {
               {contextEvidence.map((item, index) => (
                 <div key={`${item.source}-${index}`} className="context-evidence-item">
                   <div className="context-evidence-meta">
-                    <span className="pill">{item.source === "sop" ? "SOP" : "文献"}</span>
+                    <span className="pill">
+                      {item.id ? `${item.id} · ` : ""}
+                      {item.source === "sop" ? "SOP" : "文献"}
+                    </span>
                     <span className="muted">
                       相似度 {item.score.toFixed(3)} ·{" "}
+                      {typeof item.rerank_score === "number" ? `重排分 ${item.rerank_score.toFixed(3)} · ` : null}
                       {item.filename && item.filename.trim() ? item.filename.trim() : "未知文件"}
                     </span>
                   </div>
@@ -832,12 +1005,14 @@ export default function ProjectDetail() {
       if (items.length === 0) {
         return <div className="stream-hint">正在输出危害源识别结果...</div>;
       }
+      const showWhyChain = items.some((item: any) => Array.isArray(item?.why_chain));
       return (
         <table className="workflow-table">
           <thead>
             <tr>
               <th>序号</th>
-              <th>风险维度</th>
+              <th>{showWhyChain ? "问题/现象" : "风险维度"}</th>
+              {showWhyChain ? <th>原因链</th> : null}
               <th>风险点/失效模式</th>
               <th>潜在后果</th>
             </tr>
@@ -847,6 +1022,17 @@ export default function ProjectDetail() {
               <tr key={`${item?.risk_id ?? index}`} className={item?._partial ? "partial" : ""}>
                 <td>{index + 1}</td>
                 <td>{item?.dimension ?? "-"}</td>
+                {showWhyChain ? (
+                  <td>
+                    {Array.isArray(item?.why_chain)
+                      ? item.why_chain.map((step: string, stepIndex: number) => (
+                          <div key={`${index}-${stepIndex}`}>
+                            {stepIndex + 1}. {step}
+                          </div>
+                        ))
+                      : "-"}
+                  </td>
+                ) : null}
                 <td>{item?.failure_mode ?? (item?._partial ? "…" : "-")}</td>
                 <td>{item?.consequence ?? (item?._partial ? "…" : "-")}</td>
               </tr>
@@ -858,7 +1044,46 @@ export default function ProjectDetail() {
     if (activeStepId === "fmea_scoring") {
       const rows = Array.isArray((output as any).rows) ? (output as any).rows : [];
       if (rows.length === 0) {
-        return <div className="stream-hint">正在输出 FMEA 评分...</div>;
+        return (
+          <div className="stream-hint">
+            {inputs.evalTool === "FMEA" ? "正在输出 FMEA 评分..." : `正在输出 ${inputs.evalTool} 评价...`}
+          </div>
+        );
+      }
+      const toolColumns = TOOL_SCORING_COLUMNS[inputs.evalTool];
+      if (toolColumns) {
+        const formatCell = (value: unknown) => {
+          if (typeof value === "boolean") {
+            return value ? "是" : "否";
+          }
+          return value === null || value === undefined || value === "" ? "-" : String(value);
+        };
+        return (
+          <table className="workflow-table">
+            <thead>
+              <tr>
+                <th>序号</th>
+                {toolColumns.map((column, columnIndex) => (
+                  <th key={`${column.key}-${columnIndex}`}>{column.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row: any, index: number) => (
+                <tr key={`${row?.risk_id ?? index}`}>
+                  <td>{index + 1}</td>
+                  {toolColumns.map((column) => (
+                    <td key={column.key}>
+                      {column.key === "ccp_no" && row?.is_ccp === false
+                        ? row?.level ?? "-"
+                        : formatCell(row?.[column.key])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
       }
       return (
         <table className="workflow-table">
@@ -892,6 +1117,7 @@ export default function ProjectDetail() {
     if (activeStepId === "action_generation") {
       const rows = Array.isArray((output as any)?.rows) ? (output as any).rows : [];
       const stepStatus = workflowSteps.find((step) => step.id === "action_generation")?.status ?? "pending";
+      const showScores = inputs.evalTool === "FMEA";
       if (rows.length === 0) {
         return (
           <div className="stream-hint">
@@ -906,11 +1132,15 @@ export default function ProjectDetail() {
               <th>序号</th>
               <th>危害源</th>
               <th>控制措施</th>
-              <th>S</th>
-              <th>P</th>
-              <th>D</th>
-              <th>RPN</th>
-              <th>等级</th>
+              {showScores ? (
+                <>
+                  <th>S</th>
+                  <th>P</th>
+                  <th>D</th>
+                  <th>RPN</th>
+                  <th>等级</th>
+                </>
+              ) : null}
             </tr>
           </thead>
           <tbody>
@@ -919,11 +1149,10 @@ export default function ProjectDetail() {
               const sValue = Number(row?.s);
               const pValue = Number(row?.p);
               const dValue = Number(row?.d);
-              const computed = computeRpnLevel(
-                Number.isFinite(sValue) ? sValue : null,
-                Number.isFinite(pValue) ? pValue : null,
-                Number.isFinite(dValue) ? dValue : null
-              );
+              const computed =
+                sValue && pValue && dValue
+                  ? computeRpnLevel(sValue, pValue, dValue, activeScoringScheme)
+                  : { rpn: null, level: null };
               const rpnValue = row?.rpn ?? computed.rpn;
               const levelValue = row?.level ?? computed.level;
               return (
@@ -946,11 +1175,15 @@ export default function ProjectDetail() {
                         ? "…"
                         : "-"}
                   </td>
-                  <td>{row?.s ?? (row?._partial ? "…" : "-")}</td>
-                  <td>{row?.p ?? (row?._partial ? "…" : "-")}</td>
-                  <td>{row?.d ?? (row?._partial ? "…" : "-")}</td>
-                  <td>{rpnValue ?? (row?._partial ? "…" : "-")}</td>
-                  <td>{levelValue ?? (row?._partial ? "…" : "-")}</td>
+                  {showScores ? (
+                    <>
+                      <td>{row?.s ?? (row?._partial ? "…" : "-")}</td>
+                      <td>{row?.p ?? (row?._partial ? "…" : "-")}</td>
+                      <td>{row?.d ?? (row?._partial ? "…" : "-")}</td>
+                      <td>{rpnValue ?? (row?._partial ? "…" : "-")}</td>
+                      <td>{levelValue ?? (row?._partial ? "…" : "-")}</td>
+                    </>
+                  ) : null}
                 </tr>
               );
             })}
@@ -1022,7 +1255,11 @@ export default function ProjectDetail() {
       evalTool: patch.evalTool,
       processSteps: parseProcessStepsText(processStepsText),
       templateId: patch.templateId,
-      textModelId
+      templateRevision: patch.templateRevision,
+      textModelId,
+      scoringSchemeId: patch.scoringSchemeId,
+      renderMode: patch.renderMode,
+      autoRerender: patch.autoRerender
     });
     setLoading(false);
     if (result.error) {
@@ -1042,18 +1279,32 @@ export default function ProjectDetail() {
       riskMethod: inputs.riskMethod,
       evalTool: inputs.evalTool,
       processStepsText: inputs.processStepsText,
-      templateId: inputs.templateId
+      templateId: inputs.templateId,
+      templateRevision: inputs.templateRevision,
+      scoringSchemeId: inputs.scoringSchemeId,
+      renderMode: inputs.renderMode,
+      autoRerender: inputs.autoRerender
     });
   };
 
   const handleTemplateSelect = async (templateId: string) => {
-    setInputs((prev) => ({ ...prev, templateId }));
+    setInputs((prev) => ({ ...prev, templateId, templateRevision: null }));
     const template = await api.getTemplate(templateId);
     if (template.data?.content) {
       setTemplateDraft(template.data.content);
     }
   };
 
+  // 固定版本后生成报告使用该版本内容；选择“跟随最新版本”则始终使用模板库中的最新内容
+  const handleTemplateRevisionSelect = async (value: string) => {
+    const templateRevision = value ? Number(value) : null;
+    setInputs((prev) => ({ ...prev, templateRevision }));
+    const template = await api.getTemplate(inputs.templateId, templateRevision);
+    if (template.data) {
+      setTemplateDraft(template.data.content);
+    }
+  };
+
   const handleUploadFiles = async (type: "sop" | "literature", fileList: FileList) => {
     if (!projectId) {
       return;
@@ -1062,28 +1313,8 @@ export default function ProjectDetail() {
     if (filesArray.length === 0) {
       return;
     }
-    const extractSummaries: Array<{
-      name: string;
-      meta: {
-        type: string;
-        extractedChars: number;
-        pageCount?: number;
-        emptyPages?: number;
-        workerFallback?: boolean;
-        errors?: string[];
-      };
-    }> = [];
-    const emptyExtracts: Array<{
-      name: string;
-      meta: {
-        type: string;
-        extractedChars: number;
-        pageCount?: number;
-        emptyPages?: number;
-        workerFallback?: boolean;
-        errors?: string[];
-      };
-    }> = [];
+    const failures: string[] = [];
+    let totalExtractedChars = 0;
     setLoading(true);
     setMessage(null);
     setUploadState((prev) => ({
@@ -1091,26 +1322,13 @@ export default function ProjectDetail() {
       [type]: { total: filesArray.length, done: 0, active: true }
     }));
     for (const file of filesArray) {
+      // 浏览器端提取的文本随文件上传，服务端解析失败时作为兜底
       let extractedText = "";
       try {
         const result = await extractTextFromFile(file);
         extractedText = result.text;
-        extractSummaries.push({ name: file.name, meta: result.meta });
-        if (!result.text.trim()) {
-          emptyExtracts.push({ name: file.name, meta: result.meta });
-        }
-      } catch (error) {
+      } catch {
         extractedText = "";
-        const meta = {
-          type: "unknown",
-          extractedChars: 0,
-          errors: [error instanceof Error ? error.message : "提取失败"]
-        };
-        extractSummaries.push({ name: file.name, meta });
-        emptyExtracts.push({
-          name: file.name,
-          meta
-        });
       }
       const form = new FormData();
       form.append("file", file);
@@ -1121,6 +1339,11 @@ export default function ProjectDetail() {
       const result = await api.uploadProjectFile(projectId, form);
       if (result.error) {
         setMessage(result.error);
+      } else if (result.data) {
+        totalExtractedChars += result.data.characters;
+        if (result.data.status === "failed") {
+          failures.push(`${file.name}（${result.data.error_message ?? "解析失败"}）`);
+        }
       }
       setUploadState((prev) => ({
         ...prev,
@@ -1135,27 +1358,31 @@ export default function ProjectDetail() {
       ...prev,
       [type]: { ...prev[type], active: false }
     }));
-    const totalExtractedChars = extractSummaries.reduce((total, item) => total + (item.meta.extractedChars || 0), 0);
     let message = `提取文本长度：${totalExtractedChars}`;
-    if (emptyExtracts.length > 0) {
-      const detail = emptyExtracts
-        .map((item) => {
-          const meta = item.meta;
-          const parts = [
-            meta.type === "pdf" && meta.pageCount ? `页数 ${meta.pageCount}` : null,
-            `字符 ${meta.extractedChars}`,
-            meta.workerFallback ? "已回退" : null,
-            meta.errors && meta.errors.length > 0 ? `错误 ${meta.errors.join(" | ")}` : null
-          ].filter(Boolean);
-          return `${item.name}（${parts.join("，")}）`;
-        })
-        .join("；");
-      message += `；以下文件未提取到可检索文本，将不会参与检索：${detail}`;
+    if (failures.length > 0) {
+      message += `；以下文件解析失败，将不会参与检索：${failures.join("；")}`;
     }
     setMessage(message);
     await loadProject();
   };
 
+  const handleReextractFile = async (fileId: string) => {
+    if (!projectId) {
+      return;
+    }
+    setLoading(true);
+    const result = await api.reextractProjectFile(projectId, fileId);
+    setLoading(false);
+    if (result.error) {
+      setMessage(result.error);
+    } else if (result.data?.status === "failed") {
+      setMessage(`${result.data.filename} 解析失败：${result.data.error_message ?? "未知错误"}`);
+    } else if (result.data) {
+      setMessage(`${result.data.filename} 已解析，共 ${result.data.pages} 页，${result.data.characters} 字`);
+    }
+    await loadProject();
+  };
+
   const handleDeleteFile = async (fileId: string, filename: string) => {
     if (!projectId) {
       return;
@@ -1183,14 +1410,8 @@ export default function ProjectDetail() {
     }, 3500);
   };
 
-  const handleCreateReport = async () => {
-    if (!projectId) {
-      return;
-    }
-    if (!resolvedTextModelId) {
-      setMessage("暂无可用模型，请联系管理员配置默认模型。");
-      return;
-    }
+  // 未传 payload 时以 GET 重新连接已在后台运行的报告进度
+  const runReportStream = async (path: string, payload?: Record<string, unknown>) => {
     setLoading(true);
     setIsStreaming(true);
     setStreamContent("");
@@ -1213,17 +1434,23 @@ export default function ProjectDetail() {
     abortControllerRef.current?.abort();
     const abortController = new AbortController();
     abortControllerRef.current = abortController;
+    streamReportIdRef.current = null;
     setMessage(null);
     let finished = false;
 
     try {
-      const response = await fetch(`${apiBase}/api/projects/${projectId}/reports/stream`, {
-        method: "POST",
-        credentials: "include",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ templateContent: templateDraft, textModelId: resolvedTextModelId }),
-        signal: abortController.signal
-      });
+      const response = await fetch(
+        `${apiBase}${path}`,
+        payload
+          ? {
+              method: "POST",
+              credentials: "include",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify(payload),
+              signal: abortController.signal
+            }
+          : { credentials: "include", signal: abortController.signal }
+      );
 
       if (!response.ok || !response.body) {
         const text = await response.text();
@@ -1262,6 +1489,9 @@ export default function ProjectDetail() {
           return;
         }
         if (eventName === "start") {
+          if (typeof payload.reportId === "string") {
+            streamReportIdRef.current = payload.reportId;
+          }
           setMessage("评估已开始，报告生成中...");
           const quota = payload.quota as {
             remaining?: number | null;
@@ -1313,6 +1543,10 @@ export default function ProjectDetail() {
             appendStreamText(delta, { replace: true, resetTimer: true });
             return;
           }
+          if (payload.replace === true) {
+            appendStreamText(delta, { replace: true });
+            return;
+          }
           appendStreamText(delta);
           return;
         }
@@ -1382,23 +1616,43 @@ export default function ProjectDetail() {
         }
         if (eventName === "context_meta") {
           const usedEmbedding = Boolean(payload.usedEmbedding);
+          const usedRerank = Boolean(payload.usedRerank);
           const sopTextCount = Number(payload.sopTextCount ?? 0);
           const literatureTextCount = Number(payload.literatureTextCount ?? 0);
           const evidenceChunkCount = Number(payload.evidenceChunkCount ?? 0);
           setContextMeta({
             usedEmbedding,
+            usedRerank,
             sopTextCount,
             literatureTextCount,
             evidenceChunkCount
           });
           return;
         }
+        if (eventName === "retry") {
+          // 后台任务失败后从最近的阶段检查点重试，已完成阶段的输出会重新推送
+          const errorText = typeof payload.message === "string" ? payload.message : "";
+          if (errorText) {
+            setMessage(`第 ${payload.attempt ?? "-"} 次执行失败：${errorText}，即将重试`);
+            return;
+          }
+          setMessage(`正在进行第 ${payload.attempt ?? "-"} / ${payload.maxAttempts ?? "-"} 次尝试...`);
+          setStepOutputs({});
+          setStepErrors({});
+          resetWorkflowSteps();
+          return;
+        }
         if (eventName === "usage") {
           setMessage(`生成中，已统计 Token：${payload.total_tokens ?? "-"}`);
         }
         if (eventName === "done") {
           finished = true;
-          setMessage("评估完成");
+          const pausedStage = REVIEW_STAGE_OPTIONS.find((option) => option.id === payload.stage);
+          setMessage(
+            payload.status === "review" && pausedStage
+              ? `已在「${WORKFLOW_STEPS.find((step) => step.id === pausedStage.id)?.label ?? pausedStage.id}」后暂停，请在报告版本中进入审核`
+              : "评估完成"
+          );
           setLoading(false);
           setIsStreaming(false);
           abortControllerRef.current = null;
@@ -1420,7 +1674,8 @@ export default function ProjectDetail() {
           setWorkflowSteps((prev) =>
             prev.map((step) => (step.status === "running" ? { ...step, status: "error" } : step))
           );
-          const targetStep = activeStepId ?? runningStepId ?? "unknown";
+          const targetStep =
+            (typeof payload.stage === "string" ? payload.stage : null) ?? activeStepId ?? runningStepId ?? "unknown";
           setStepErrors((prev) => ({ ...prev, [targetStep]: errorMessage }));
           setGlobalErrorMessage(errorMessage);
         }
@@ -1477,19 +1732,95 @@ export default function ProjectDetail() {
     }
   };
 
+  const handleCreateReport = async () => {
+    if (!projectId) {
+      return;
+    }
+    if (!resolvedTextModelId) {
+      setMessage("暂无可用模型，请联系管理员配置默认模型。");
+      return;
+    }
+    await runReportStream(`/api/projects/${projectId}/reports/stream`, {
+      templateContent: templateDraft,
+      textModelId: resolvedTextModelId,
+      reviewStages: reviewStages.filter((stage) => isReviewStageSupported(stage, inputs.evalTool))
+    });
+  };
+
+  const handleContinueReport = async (reportId: string) => {
+    if (!resolvedTextModelId) {
+      setMessage("暂无可用模型，请联系管理员配置默认模型。");
+      return;
+    }
+    await runReportStream(`/api/reports/${reportId}/continue`, { textModelId: resolvedTextModelId });
+  };
+
+  const handleResumeReport = async (reportId: string) => {
+    if (!resolvedTextModelId) {
+      setMessage("暂无可用模型，请联系管理员配置默认模型。");
+      return;
+    }
+    await runReportStream(`/api/reports/${reportId}/resume`, { textModelId: resolvedTextModelId });
+  };
+
   const handleStopReport = () => {
     if (!isStreaming) {
       return;
     }
     setMessage("正在停止评估...");
+    const reportId = streamReportIdRef.current;
+    if (reportId) {
+      api.cancelReport(reportId).finally(() => abortControllerRef.current?.abort());
+      return;
+    }
     abortControllerRef.current?.abort();
   };
 
+  const handleAttachReport = async (reportId: string) => {
+    attachedReportIdsRef.current.add(reportId);
+    await runReportStream(`/api/reports/${reportId}/events`);
+  };
+
   const handleOpenReport = (reportId: string) => {
     const url = `/reports/${reportId}`;
     window.open(url, "_blank", "noopener,noreferrer");
   };
 
+  // 版本列表按版本号倒序，默认对比最近两个已完成版本
+  const completedReports = reports.filter((report) => report.status === "completed");
+  const resolvedCompareTargetId = completedReports.some((report) => report.id === compareTargetId)
+    ? compareTargetId
+    : completedReports[0]?.id ?? "";
+  const resolvedCompareBaseId = completedReports.some((report) => report.id === compareBaseId)
+    ? compareBaseId
+    : completedReports[1]?.id ?? "";
+
+  const handleCompareReports = () => {
+    if (!resolvedCompareBaseId || !resolvedCompareTargetId) {
+      return;
+    }
+    if (resolvedCompareBaseId === resolvedCompareTargetId) {
+      setMessage("请选择两个不同的版本进行对比");
+      return;
+    }
+    const url = `/reports/${resolvedCompareTargetId}/compare?against=${resolvedCompareBaseId}`;
+    window.open(url, "_blank", "noopener,noreferrer");
+  };
+
+  const handleStartPeriodicReview = async (reportId: string, version: number) => {
+    if (!window.confirm(`以版本 ${version} 的评估结果开始定期回顾？将新建一个待审核版本。`)) {
+      return;
+    }
+    setLoading(true);
+    const result = await api.startPeriodicReview(reportId);
+    setLoading(false);
+    if (result.error || !result.data) {
+      setMessage(result.error ?? "开始定期回顾失败");
+      return;
+    }
+    navigate(`/reports/${result.data.id}/review`);
+  };
+
   const handleDeleteReport = async (reportId: string, version: number) => {
     if (!window.confirm(`确认删除版本 ${version} ?`)) {
       return;
@@ -1513,6 +1844,44 @@ export default function ProjectDetail() {
     await loadProject();
   };
 
+  const handleSaveMember = async (email: string, memberRole: ProjectRole) => {
+    if (!projectId) {
+      return;
+    }
+    const result = await api.saveProjectMember(projectId, { email, role: memberRole });
+    if (result.error) {
+      setMessage(result.error);
+      return;
+    }
+    setShareDraft((prev) => ({ ...prev, email: "" }));
+    await loadSharing();
+  };
+
+  const handleRemoveMember = async (member: ProjectMember) => {
+    if (!projectId || !window.confirm(`确认取消与 ${member.email} 的共享？`)) {
+      return;
+    }
+    const result = await api.removeProjectMember(projectId, member.user_id);
+    if (result.error) {
+      setMessage(result.error);
+      return;
+    }
+    await loadSharing();
+  };
+
+  const handleSaveTeam = async () => {
+    if (!projectId) {
+      return;
+    }
+    const result = await api.setProjectTeam(projectId, teamDraft || null);
+    if (result.error) {
+      setMessage(result.error);
+      return;
+    }
+    setMessage(teamDraft ? "已加入团队空间" : "已移出团队空间");
+    await loadSharing();
+  };
+
   const renderModelSelect = (className?: string) => {
     const disabled = textModels.length === 0;
     return (
@@ -1543,10 +1912,13 @@ export default function ProjectDetail() {
       <div className="project-header">
         <div>
           <h2>{projectTitle}</h2>
-          <p className="muted">状态：{status}</p>
+          <p className="muted">
+            状态：{status}
+            {role ? ` · 我的角色：${PROJECT_ROLE_LABELS[role]}` : ""}
+          </p>
         </div>
         <div className="header-actions">
-          <button className="ghost" onClick={handleSaveAll} disabled={loading}>
+          <button className="ghost" onClick={handleSaveAll} disabled={loading || !canEdit}>
             保存项目设置
           </button>
           {renderModelSelect("inline")}
@@ -1627,6 +1999,52 @@ export default function ProjectDetail() {
                   ))}
                 </select>
               </label>
+              {inputs.evalTool === "FMEA" ? (
+                <label>
+                  评分方案
+                  <select
+                    value={inputs.scoringSchemeId}
+                    onChange={(e) => setInputs((prev) => ({ ...prev, scoringSchemeId: e.target.value }))}
+                  >
+                    <option value="">默认方案（{defaultScoringScheme.name}）</option>
+                    {scoringSchemes.map((scheme) => (
+                      <option key={scheme.id} value={scheme.id}>
+                        {scheme.name}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="muted">
+                    取值 {[...activeScoringScheme.values].reverse().join("/")}，RPN≥
+                    {activeScoringScheme.action_threshold} 需制定措施。
+                  </span>
+                </label>
+              ) : null}
+              <label>
+                报告渲染方式
+                <select
+                  value={inputs.renderMode}
+                  onChange={(e) => setInputs((prev) => ({ ...prev, renderMode: e.target.value as RenderMode }))}
+                >
+                  {RENDER_MODE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <span className="muted">
+                  {RENDER_MODE_OPTIONS.find((option) => option.value === inputs.renderMode)?.hint}
+                </span>
+              </label>
+              {inputs.renderMode === "llm" ? (
+                <label className="toggle">
+                  <input
+                    type="checkbox"
+                    checked={inputs.autoRerender}
+                    onChange={(e) => setInputs((prev) => ({ ...prev, autoRerender: e.target.checked }))}
+                  />
+                  报告表格与评估数据不一致时自动重新渲染一次
+                </label>
+              ) : null}
               {inputs.riskMethod.includes("流程") ? (
                 <label style={{ gridColumn: "1 / -1" }}>
                   流程步骤
@@ -1662,7 +2080,7 @@ export default function ProjectDetail() {
               <input
                 className="file-input"
                 type="file"
-                accept=".pdf,.docx,.txt,.md"
+                accept=".pdf,.docx,.xlsx,.pptx,.txt,.md"
                 multiple
                 onChange={(e) => {
                   const selected = e.target.files;
@@ -1689,11 +2107,21 @@ export default function ProjectDetail() {
                 <div key={file.id} className="file-item">
                   <div>
                     <span>{file.filename}</span>
-                    <span className="muted"> · {file.status}</span>
+                    <span className="muted"> · {FILE_STATUS_LABELS[file.status] ?? file.status}</span>
+                    {file.status === "failed" && file.error_message ? (
+                      <div className="file-error">{file.error_message}</div>
+                    ) : null}
+                  </div>
+                  <div className="file-actions">
+                    {file.status !== "parsed" ? (
+                      <button className="text-button" onClick={() => handleReextractFile(file.id)} disabled={loading}>
+                        重新解析
+                      </button>
+                    ) : null}
+                    <button className="text-button" onClick={() => handleDeleteFile(file.id, file.filename)}>
+                      删除
+                    </button>
                   </div>
-                  <button className="text-button" onClick={() => handleDeleteFile(file.id, file.filename)}>
-                    删除
-                  </button>
                 </div>
               ))}
             </div>
@@ -1720,7 +2148,7 @@ export default function ProjectDetail() {
               <input
                 className="file-input"
                 type="file"
-                accept=".pdf,.docx,.txt,.md"
+                accept=".pdf,.docx,.xlsx,.pptx,.txt,.md"
                 multiple
                 onChange={(e) => {
                   const selected = e.target.files;
@@ -1747,11 +2175,21 @@ export default function ProjectDetail() {
                 <div key={file.id} className="file-item">
                   <div>
                     <span>{file.filename}</span>
-                    <span className="muted"> · {file.status}</span>
+                    <span className="muted"> · {FILE_STATUS_LABELS[file.status] ?? file.status}</span>
+                    {file.status === "failed" && file.error_message ? (
+                      <div className="file-error">{file.error_message}</div>
+                    ) : null}
+                  </div>
+                  <div className="file-actions">
+                    {file.status !== "parsed" ? (
+                      <button className="text-button" onClick={() => handleReextractFile(file.id)} disabled={loading}>
+                        重新解析
+                      </button>
+                    ) : null}
+                    <button className="text-button" onClick={() => handleDeleteFile(file.id, file.filename)}>
+                      删除
+                    </button>
                   </div>
-                  <button className="text-button" onClick={() => handleDeleteFile(file.id, file.filename)}>
-                    删除
-                  </button>
                 </div>
               ))}
             </div>
@@ -1782,6 +2220,24 @@ export default function ProjectDetail() {
                 )}
               </div>
               <div className="template-editor">
+                {inputs.templateId ? (
+                  <label>
+                    模板版本
+                    <select
+                      value={inputs.templateRevision ?? ""}
+                      onChange={(e) => handleTemplateRevisionSelect(e.target.value)}
+                    >
+                      <option value="">
+                        跟随最新版本{selectedTemplate ? `（第 ${selectedTemplate.latest_revision} 版）` : ""}
+                      </option>
+                      {templateRevisions.map((item) => (
+                        <option key={item.revision} value={item.revision}>
+                          固定第 {item.revision} 版{item.change_note ? ` · ${item.change_note}` : ""}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ) : null}
                 <label>
                   模板内容（可编辑）
                   <textarea
@@ -1808,7 +2264,13 @@ export default function ProjectDetail() {
               </div>
               <div>
                 <strong>模板：</strong>
-                <span>{selectedTemplate ? selectedTemplate.name : "未选择模板"}</span>
+                <span>
+                  {selectedTemplate
+                    ? `${selectedTemplate.name} · ${
+                        inputs.templateRevision ? `固定第 ${inputs.templateRevision} 版` : "跟随最新版本"
+                      }`
+                    : "未选择模板"}
+                </span>
               </div>
               <div>
                 <strong>模型：</strong>
@@ -1818,9 +2280,35 @@ export default function ProjectDetail() {
           </div>
           <div className="form-section span-4 action-panel">
             <div className="action-buttons">
-              <button className="ghost" onClick={handleSaveAll} disabled={loading}>
+              <button className="ghost" onClick={handleSaveAll} disabled={loading || !canEdit}>
                 保存项目设置
               </button>
+              <div className="pill-group">
+                {REVIEW_STAGE_OPTIONS.map((option) => {
+                  const supported = isReviewStageSupported(option.id, inputs.evalTool);
+                  return (
+                    <label
+                      key={option.id}
+                      className="toggle"
+                      title={supported ? undefined : `${inputs.evalTool} 评价结果暂不支持在线修改，不能在此暂停审核`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={supported && reviewStages.includes(option.id)}
+                        onChange={(e) =>
+                          setReviewStages((prev) =>
+                            e.target.checked
+                              ? [...prev, option.id]
+                              : prev.filter((stage) => stage !== option.id)
+                          )
+                        }
+                        disabled={loading || !supported}
+                      />
+                      {option.label}
+                    </label>
+                  );
+                })}
+              </div>
               <div className="action-row">
                 {renderModelSelect("compact")}
                 <button onClick={handleCreateReport} disabled={startDisabled}>
@@ -1912,6 +2400,36 @@ export default function ProjectDetail() {
             </div>
           </div>
         ) : null}
+        {completedReports.length > 0 ? (
+          <div className="report-compare-bar">
+            <span className="muted">措施跟踪</span>
+            <button className="mini-button" onClick={() => navigate(`/projects/${projectId}/capa`)}>
+              查看 CAPA 记录
+            </button>
+          </div>
+        ) : null}
+        {completedReports.length >= 2 ? (
+          <div className="report-compare-bar">
+            <span className="muted">版本对比</span>
+            <select value={resolvedCompareBaseId} onChange={(e) => setCompareBaseId(e.target.value)}>
+              {completedReports.map((report) => (
+                <option key={report.id} value={report.id}>
+                  基准：版本 {report.version}
+                </option>
+              ))}
+            </select>
+            <select value={resolvedCompareTargetId} onChange={(e) => setCompareTargetId(e.target.value)}>
+              {completedReports.map((report) => (
+                <option key={report.id} value={report.id}>
+                  对比：版本 {report.version}
+                </option>
+              ))}
+            </select>
+            <button className="mini-button" onClick={handleCompareReports}>
+              对比
+            </button>
+          </div>
+        ) : null}
         {reports.length === 0 ? (
           <div className="empty">暂无报告版本</div>
         ) : (
@@ -1933,6 +2451,17 @@ export default function ProjectDetail() {
                   <span>版本 {report.version}</span>
                   <span className="muted">{formatMinute(report.created_at)}</span>
                   {report.model_name ? <span className="muted">模型：{report.model_name}</span> : null}
+                  {report.status === "completed" && report.review_due_at ? (
+                    <span className="muted">
+                      再评估到期：{report.review_due_at}
+                      {report.review_level ? `（最高等级 ${report.review_level}）` : ""}
+                    </span>
+                  ) : null}
+                  {report.failed_stage && (report.status === "failed" || report.status === "aborted") ? (
+                    <span className="muted">
+                      中断于：{WORKFLOW_STEPS.find((step) => step.id === report.failed_stage)?.label ?? report.failed_stage}
+                    </span>
+                  ) : null}
                   <span className="muted">
                     Token: {report.total_tokens ?? "-"}{" "}
                     {report.prompt_tokens || report.completion_tokens
@@ -1942,21 +2471,186 @@ export default function ProjectDetail() {
                 </div>
                 <div className="report-actions">
                   <span className={`status-pill status-${report.status}`}>{report.status}</span>
-                  <button
-                    className="mini-button"
-                    onClick={(event) => {
-                      event.stopPropagation();
-                      handleDeleteReport(report.id, report.version);
-                    }}
-                  >
-                    删除
-                  </button>
+                  {report.status === "completed" ? (
+                    <span className={`pill lifecycle-${report.lifecycle_status ?? "draft"}`}>
+                      {LIFECYCLE_LABELS[report.lifecycle_status ?? "draft"]}
+                    </span>
+                  ) : null}
+                  {report.status === "failed" || report.status === "aborted" ? (
+                    <button
+                      className="mini-button"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        handleResumeReport(report.id);
+                      }}
+                      disabled={startDisabled}
+                    >
+                      从中断处继续
+                    </button>
+                  ) : null}
+                  {report.status === "running" && !isStreaming ? (
+                    <button
+                      className="mini-button"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        handleAttachReport(report.id);
+                      }}
+                    >
+                      查看进度
+                    </button>
+                  ) : null}
+                  {report.status === "review" ? (
+                    <>
+                      <button
+                        className="mini-button"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          navigate(`/reports/${report.id}/review`);
+                        }}
+                      >
+                        审核
+                      </button>
+                      <button
+                        className="mini-button"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          handleContinueReport(report.id);
+                        }}
+                        disabled={startDisabled}
+                      >
+                        继续评估
+                      </button>
+                    </>
+                  ) : null}
+                  {report.status === "completed" ? (
+                    <button
+                      className="mini-button"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        handleStartPeriodicReview(report.id, report.version);
+                      }}
+                      disabled={startDisabled}
+                    >
+                      定期回顾
+                    </button>
+                  ) : null}
+                  {!canEdit || isLifecycleLocked(report.lifecycle_status) ? null : (
+                    <button
+                      className="mini-button"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        handleDeleteReport(report.id, report.version);
+                      }}
+                    >
+                      删除
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
           </div>
         )}
       </section>
+
+      {sharing ? (
+        <section className="card">
+          <div className="section-header">
+            <h3>成员与共享</h3>
+            <span className="muted">创建人：{sharing.owner.email ?? "-"}</span>
+          </div>
+          <div className="signature-form">
+            <span className="muted">团队空间</span>
+            {isOwner ? (
+              <>
+                <select value={teamDraft} onChange={(e) => setTeamDraft(e.target.value)}>
+                  <option value="">不加入团队</option>
+                  {teams
+                    .filter((team) => hasProjectRole(team.role, "editor") || team.id === sharing.team?.id)
+                    .map((team) => (
+                      <option key={team.id} value={team.id}>
+                        {team.name}
+                      </option>
+                    ))}
+                </select>
+                <button className="mini-button" onClick={handleSaveTeam}>
+                  保存
+                </button>
+              </>
+            ) : (
+              <span>{sharing.team?.name ?? "未加入团队"}</span>
+            )}
+          </div>
+          {sharing.members.length === 0 ? (
+            <div className="empty">暂未单独共享给其他成员</div>
+          ) : (
+            <table className="workflow-table">
+              <thead>
+                <tr>
+                  <th>成员</th>
+                  <th>角色</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {sharing.members.map((member) => (
+                  <tr key={member.user_id}>
+                    <td>{member.email}</td>
+                    <td>
+                      {isOwner ? (
+                        <select
+                          value={member.role}
+                          onChange={(e) => handleSaveMember(member.email, e.target.value as ProjectRole)}
+                        >
+                          {PROJECT_ROLES.map((value) => (
+                            <option key={value} value={value}>
+                              {PROJECT_ROLE_LABELS[value]}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className={`pill role-${member.role}`}>{PROJECT_ROLE_LABELS[member.role]}</span>
+                      )}
+                    </td>
+                    <td>
+                      {isOwner ? (
+                        <button className="text-button" onClick={() => handleRemoveMember(member)}>
+                          移除
+                        </button>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {isOwner ? (
+            <div className="signature-form">
+              <input
+                placeholder="共享给（邮箱）"
+                value={shareDraft.email}
+                onChange={(e) => setShareDraft((prev) => ({ ...prev, email: e.target.value }))}
+              />
+              <select
+                value={shareDraft.role}
+                onChange={(e) => setShareDraft((prev) => ({ ...prev, role: e.target.value as ProjectRole }))}
+              >
+                {PROJECT_ROLES.map((value) => (
+                  <option key={value} value={value}>
+                    {PROJECT_ROLE_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="mini-button"
+                onClick={() => handleSaveMember(shareDraft.email.trim(), shareDraft.role)}
+                disabled={!shareDraft.email.trim()}
+              >
+                共享
+              </button>
+            </div>
+          ) : null}
+        </section>
+      ) : null}
     </div>
   );
 }
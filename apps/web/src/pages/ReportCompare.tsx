@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { api } from "../lib/api";
+import type { ReportDiff } from "../lib/api";
+import { buildCompareRows } from "../lib/diff";
+
+type VersionSummary = { id: string; version: number; created_at: string };
+
+const ITEM_STATUS_LABELS: Record<ReportDiff["items"][number]["status"], string> = {
+  unchanged: "未变化",
+  changed: "有变更",
+  added: "新增",
+  removed: "删除"
+};
+
+const SCORE_FIELD_LABELS: Record<ReportDiff["items"][number]["score_changes"][number]["field"], string> = {
+  s: "S",
+  p: "P",
+  d: "D",
+  rpn: "RPN",
+  level: "等级"
+};
+
+export default function ReportCompare() {
+  const { id } = useParams();
+  const [searchParams] = useSearchParams();
+  const reportId = id ?? "";
+  const againstId = searchParams.get("against") ?? "";
+
+  const [base, setBase] = useState<VersionSummary | null>(null);
+  const [target, setTarget] = useState<VersionSummary | null>(null);
+  const [diff, setDiff] = useState<ReportDiff | null>(null);
+  const [changedOnly, setChangedOnly] = useState(true);
+  const [message, setMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadDiff = async () => {
+    if (!reportId || !againstId) {
+      setMessage("请选择要对比的两个版本");
+      return;
+    }
+    setLoading(true);
+    setMessage(null);
+    const result = await api.getReportDiff(reportId, againstId);
+    setLoading(false);
+    if (result.error || !result.data) {
+      setMessage(result.error ?? "版本对比失败");
+      return;
+    }
+    setBase(result.data.base);
+    setTarget(result.data.target);
+    setDiff(result.data.diff);
+  };
+
+  useEffect(() => {
+    loadDiff();
+  }, [reportId, againstId]);
+
+  const compareRows = useMemo(() => buildCompareRows(diff?.markdown ?? []), [diff]);
+  const visibleRows = changedOnly ? compareRows.filter((row) => row.type !== "equal") : compareRows;
+  const changedItems = (diff?.items ?? []).filter((item) => item.status !== "unchanged");
+
+  return (
+    <div className="report-page">
+      <div className="report-header">
+        <div>
+          <h2>报告版本对比</h2>
+          <p className="muted">
+            基准：版本 {base?.version ?? "-"} → 对比：版本 {target?.version ?? "-"}
+          </p>
+        </div>
+        <div className="report-header-actions">
+          {base ? (
+            <Link className="link" to={`/reports/${base.id}`}>
+              查看版本 {base.version}
+            </Link>
+          ) : null}
+          {target ? (
+            <Link className="link" to={`/reports/${target.id}`}>
+              查看版本 {target.version}
+            </Link>
+          ) : null}
+        </div>
+      </div>
+
+      {message ? <div className="info">{message}</div> : null}
+
+      {diff ? (
+        <section className="card">
+          <div className="section-header">
+            <h3>变更概览</h3>
+            {loading ? <span className="muted">加载中...</span> : null}
+          </div>
+          <div className="report-info-grid">
+            <div className="report-info-item">
+              <strong>风险项</strong>
+              <span>
+                变更 {diff.summary.changed} · 新增 {diff.summary.added} · 删除 {diff.summary.removed} · 未变化{" "}
+                {diff.summary.unchanged}
+              </span>
+            </div>
+            <div className="report-info-item">
+              <strong>措施</strong>
+              <span>
+                新增 {diff.summary.added_actions} · 删除 {diff.summary.removed_actions}
+              </span>
+            </div>
+          </div>
+        </section>
+      ) : null}
+
+      {diff ? (
+        <section className="card">
+          <div className="section-header">
+            <h3>风险项变更（{changedItems.length}）</h3>
+            <span className="muted">按失效模式相似度配对两个版本的风险项</span>
+          </div>
+          {changedItems.length === 0 ? (
+            <div className="empty">风险项与措施均无变化</div>
+          ) : (
+            <table className="workflow-table">
+              <thead>
+                <tr>
+                  <th>状态</th>
+                  <th>失效模式（版本 {base?.version ?? "-"}）</th>
+                  <th>失效模式（版本 {target?.version ?? "-"}）</th>
+                  <th>评分变化</th>
+                  <th>措施变化</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changedItems.map((item, index) => (
+                  <tr key={`${item.base_risk_id ?? "-"}-${item.target_risk_id ?? "-"}-${index}`}>
+                    <td>
+                      <span className={`pill diff-${item.status}`}>{ITEM_STATUS_LABELS[item.status]}</span>
+                    </td>
+                    <td>{item.base_failure_mode ?? "-"}</td>
+                    <td>{item.target_failure_mode ?? "-"}</td>
+                    <td>
+                      {item.score_changes.length === 0
+                        ? "-"
+                        : item.score_changes.map((change) => (
+                            <div key={change.field}>
+                              {SCORE_FIELD_LABELS[change.field]}：{change.before ?? "-"} → {change.after ?? "-"}
+                            </div>
+                          ))}
+                    </td>
+                    <td>
+                      {item.added_actions.map((text, actionIndex) => (
+                        <div key={`added-${actionIndex}`} className="diff-added-text">
+                          + {text}
+                        </div>
+                      ))}
+                      {item.removed_actions.map((text, actionIndex) => (
+                        <div key={`removed-${actionIndex}`} className="diff-removed-text">
+                          − {text}
+                        </div>
+                      ))}
+                      {item.added_actions.length === 0 && item.removed_actions.length === 0 ? "-" : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      ) : null}
+
+      {diff ? (
+        <section className="card">
+          <div className="section-header">
+            <h3>报告正文对比</h3>
+            <label className="muted">
+              <input type="checkbox" checked={changedOnly} onChange={(e) => setChangedOnly(e.target.checked)} />{" "}
+              仅显示变更行
+            </label>
+          </div>
+          {visibleRows.length === 0 ? (
+            <div className="empty">报告正文无变化</div>
+          ) : (
+            <div className="markdown-compare">
+              {visibleRows.map((row, index) => (
+                <div key={index} className={`markdown-compare-row diff-${row.type}`}>
+                  <span className="markdown-compare-line">{row.left?.line ?? ""}</span>
+                  <pre className="markdown-compare-text">{row.left?.text ?? ""}</pre>
+                  <span className="markdown-compare-line">{row.right?.line ?? ""}</span>
+                  <pre className="markdown-compare-text">{row.right?.text ?? ""}</pre>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { api } from "../lib/api";
+import type { ScoringScheme, WorkflowActionItem, WorkflowScoredItem } from "../lib/api";
+import { computeRpnLevel, DEFAULT_SCORING_SCHEME } from "../lib/scoring";
+
+const ACTION_TYPES = ["SOP/规程", "培训与资质", "设备/系统", "监测与报警", "数据完整性", "双人复核/独立审核", "其他"];
+
+type ItemDraft = Omit<WorkflowScoredItem, "rpn" | "level">;
+
+type ReportData = {
+  eval_tool?: string;
+  context?: { scoringScheme?: ScoringScheme };
+  scored_items?: WorkflowScoredItem[];
+  actions?: Array<{ risk_id: string; actions: WorkflowActionItem[] }>;
+};
+
+const createAction = (): WorkflowActionItem => ({
+  type: "SOP/规程",
+  action_text: "",
+  owner_role: "",
+  owner_dept: "",
+  planned_date: ""
+});
+
+export default function ReportEditor() {
+  const { id } = useParams();
+  const reportId = id ?? "";
+  const navigate = useNavigate();
+
+  const [projectTitle, setProjectTitle] = useState("");
+  const [version, setVersion] = useState<number | null>(null);
+  const [scoringScheme, setScoringScheme] = useState<ScoringScheme>(DEFAULT_SCORING_SCHEME);
+  const [items, setItems] = useState<ItemDraft[]>([]);
+  const [actions, setActions] = useState<Record<string, WorkflowActionItem[]>>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadReport = async () => {
+    if (!reportId) {
+      setMessage("报告 ID 无效");
+      return;
+    }
+    setLoading(true);
+    const result = await api.getReport(reportId, true);
+    setLoading(false);
+    if (result.error || !result.data) {
+      setMessage(result.error ?? "报告加载失败");
+      return;
+    }
+    setProjectTitle(String(result.data.report.project_title ?? ""));
+    setVersion(Number(result.data.report.version ?? 0) || null);
+    const data = result.data.data as ReportData | null;
+    if (data?.eval_tool && data.eval_tool !== "FMEA") {
+      setMessage(`${data.eval_tool} 评估报告暂不支持结构化编辑。`);
+      return;
+    }
+    if (!data?.scored_items?.length) {
+      setMessage("该报告缺少结构化数据，无法编辑。");
+      return;
+    }
+    setScoringScheme(data.context?.scoringScheme ?? DEFAULT_SCORING_SCHEME);
+    setItems(data.scored_items.map(({ rpn: _rpn, level: _level, ...rest }) => rest));
+    setActions(Object.fromEntries((data.actions ?? []).map((entry) => [entry.risk_id, entry.actions])));
+  };
+
+  useEffect(() => {
+    loadReport();
+  }, [reportId]);
+
+  const updateItem = (riskId: string, patch: Partial<ItemDraft>) => {
+    setItems((prev) => prev.map((item) => (item.risk_id === riskId ? { ...item, ...patch } : item)));
+  };
+
+  const updateAction = (riskId: string, index: number, patch: Partial<WorkflowActionItem>) => {
+    setActions((prev) => ({
+      ...prev,
+      [riskId]: (prev[riskId] ?? []).map((action, actionIndex) =>
+        actionIndex === index ? { ...action, ...patch } : action
+      )
+    }));
+  };
+
+  const handleAddItem = () => {
+    const template = items[0];
+    const minScore = scoringScheme.values[0] ?? 1;
+    setItems((prev) => [
+      ...prev,
+      {
+        risk_id: crypto.randomUUID(),
+        dimension_type: template?.dimension_type ?? "five_factors",
+        dimension: "",
+        dimension_id: null,
+        failure_mode: "",
+        consequence: "",
+        s: minScore,
+        s_reason: "",
+        p: minScore,
+        p_reason: "",
+        d: minScore,
+        d_reason: "",
+        need_actions: false
+      }
+    ]);
+  };
+
+  const handleSave = async () => {
+    setLoading(true);
+    setMessage(null);
+    const result = await api.createReportVersion(reportId, {
+      scored_items: items,
+      actions: items
+        .filter((item) => item.need_actions)
+        .map((item) => ({ risk_id: item.risk_id, actions: actions[item.risk_id] ?? [] }))
+    });
+    setLoading(false);
+    if (result.error || !result.data) {
+      setMessage(result.error ?? "保存失败");
+      return;
+    }
+    navigate(`/reports/${result.data.id}`);
+  };
+
+  const renderScoreSelect = (value: number, onChange: (value: number) => void) => (
+    <select value={value} onChange={(e) => onChange(Number(e.target.value))}>
+      {scoringScheme.values.map((score) => (
+        <option key={score} value={score}>
+          {score}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="report-page">
+      <div className="report-header">
+        <div>
+          <h2>{projectTitle ? `${projectTitle} · 结构化编辑` : "结构化编辑"}</h2>
+          <p className="muted">基于版本 {version ?? "-"} 修改，保存后生成新的报告版本。</p>
+        </div>
+        <div className="report-header-actions">
+          <Link className="link" to={`/reports/${reportId}`}>
+            返回报告
+          </Link>
+          <button onClick={handleSave} disabled={loading || items.length === 0}>
+            {loading ? "保存中..." : "保存为新版本"}
+          </button>
+        </div>
+      </div>
+
+      {message ? <div className="info">{message}</div> : null}
+
+      <section className="card">
+        <div className="section-header">
+          <h3>风险评价</h3>
+          <button className="mini-button" onClick={handleAddItem} disabled={loading}>
+            新增风险项
+          </button>
+        </div>
+        <table className="workflow-table review-table">
+          <thead>
+            <tr>
+              <th>序号</th>
+              <th>风险维度</th>
+              <th>失效模式</th>
+              <th>后果</th>
+              <th>S</th>
+              <th>S理由</th>
+              <th>P</th>
+              <th>P理由</th>
+              <th>D</th>
+              <th>D理由</th>
+              <th>RPN</th>
+              <th>等级</th>
+              <th>需措施</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item, index) => {
+              const { rpn, level } = computeRpnLevel(item.s, item.p, item.d, scoringScheme);
+              return (
+                <tr key={item.risk_id}>
+                  <td>{index + 1}</td>
+                  <td>
+                    <input
+                      value={item.dimension}
+                      onChange={(e) => updateItem(item.risk_id, { dimension: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <textarea
+                      value={item.failure_mode}
+                      onChange={(e) => updateItem(item.risk_id, { failure_mode: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <textarea
+                      value={item.consequence}
+                      onChange={(e) => updateItem(item.risk_id, { consequence: e.target.value })}
+                    />
+                  </td>
+                  <td>{renderScoreSelect(item.s, (value) => updateItem(item.risk_id, { s: value }))}</td>
+                  <td>
+                    <textarea
+                      value={item.s_reason}
+                      onChange={(e) => updateItem(item.risk_id, { s_reason: e.target.value })}
+                    />
+                  </td>
+                  <td>{renderScoreSelect(item.p, (value) => updateItem(item.risk_id, { p: value }))}</td>
+                  <td>
+                    <textarea
+                      value={item.p_reason}
+                      onChange={(e) => updateItem(item.risk_id, { p_reason: e.target.value })}
+                    />
+                  </td>
+                  <td>{renderScoreSelect(item.d, (value) => updateItem(item.risk_id, { d: value }))}</td>
+                  <td>
+                    <textarea
+                      value={item.d_reason}
+                      onChange={(e) => updateItem(item.risk_id, { d_reason: e.target.value })}
+                    />
+                  </td>
+                  <td>{rpn}</td>
+                  <td>{level}</td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={item.need_actions}
+                      onChange={(e) => updateItem(item.risk_id, { need_actions: e.target.checked })}
+                    />
+                  </td>
+                  <td>
+                    <button
+                      className="mini-button"
+                      onClick={() => setItems((prev) => prev.filter((entry) => entry.risk_id !== item.risk_id))}
+                    >
+                      删除
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="card">
+        <div className="section-header">
+          <h3>风险控制措施与行动计划</h3>
+          <span className="muted small">仅需措施的风险项需要填写，且每项至少一条措施。</span>
+        </div>
+        {items.filter((item) => item.need_actions).length === 0 ? (
+          <div className="empty">暂无需要控制措施的风险项</div>
+        ) : (
+          items.map((item, index) =>
+            item.need_actions ? (
+              <div key={item.risk_id} className="form-section">
+                <div className="section-header tight">
+                  <strong>
+                    {index + 1}. {item.failure_mode || "（未填写失效模式）"}
+                  </strong>
+                  <button
+                    className="mini-button"
+                    onClick={() =>
+                      setActions((prev) => ({
+                        ...prev,
+                        [item.risk_id]: [...(prev[item.risk_id] ?? []), createAction()]
+                      }))
+                    }
+                  >
+                    新增措施
+                  </button>
+                </div>
+                <table className="workflow-table review-table">
+                  <thead>
+                    <tr>
+                      <th>动作类型</th>
+                      <th>措施</th>
+                      <th>责任角色</th>
+                      <th>责任部门</th>
+                      <th>计划完成</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(actions[item.risk_id] ?? []).map((action, actionIndex) => (
+                      <tr key={`${item.risk_id}-${actionIndex}`}>
+                        <td>
+                          <select
+                            value={action.type}
+                            onChange={(e) => updateAction(item.risk_id, actionIndex, { type: e.target.value })}
+                          >
+                            {ACTION_TYPES.map((type) => (
+                              <option key={type} value={type}>
+                                {type}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td>
+                          <textarea
+                            value={action.action_text}
+                            onChange={(e) =>
+                              updateAction(item.risk_id, actionIndex, { action_text: e.target.value })
+                            }
+                          />
+                        </td>
+                        <td>
+                          <input
+                            value={action.owner_role}
+                            onChange={(e) => updateAction(item.risk_id, actionIndex, { owner_role: e.target.value })}
+                          />
+                        </td>
+                        <td>
+                          <input
+                            value={action.owner_dept}
+                            onChange={(e) => updateAction(item.risk_id, actionIndex, { owner_dept: e.target.value })}
+                          />
+                        </td>
+                        <td>
+                          <input
+                            type="date"
+                            value={action.planned_date}
+                            onChange={(e) =>
+                              updateAction(item.risk_id, actionIndex, { planned_date: e.target.value })
+                            }
+                          />
+                        </td>
+                        <td>
+                          <button
+                            className="mini-button"
+                            onClick={() =>
+                              setActions((prev) => ({
+                                ...prev,
+                                [item.risk_id]: (prev[item.risk_id] ?? []).filter(
+                                  (_, entryIndex) => entryIndex !== actionIndex
+                                )
+                              }))
+                            }
+                          >
+                            删除
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : null
+          )
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,7 +1,15 @@
 import React, { useEffect, useMemo, useState } from "react";
-import { useParams } from "react-router-dom";
+import { Link, useParams } from "react-router-dom";
 import { api } from "../lib/api";
-import { renderMarkdown } from "../lib/markdown";
+import type {
+  ProcedureClaimWarning,
+  RenderCheck,
+  RenderCheckTable,
+  ReportLifecycleStatus,
+  ReportSignature
+} from "../lib/api";
+import { LIFECYCLE_LABELS, NEXT_LIFECYCLE } from "../lib/lifecycle";
+import { highlightPhrases, renderMarkdown } from "../lib/markdown";
 
 type ReportInfo = {
   id: string;
@@ -15,6 +23,20 @@ type ReportInfo = {
   completion_tokens: number | null;
   total_tokens: number | null;
   model_name?: string | null;
+  lifecycle_status?: ReportLifecycleStatus;
+};
+
+const CLAIM_KIND_LABELS: Record<ProcedureClaimWarning["kind"], string> = {
+  document_code: "文件编号",
+  system: "系统",
+  control: "既有控制"
+};
+
+const RENDER_CHECK_TABLE_LABELS: Record<RenderCheckTable, string> = {
+  risk: "危害源识别表",
+  evaluation: "风险评价表",
+  control: "风险控制表",
+  actions: "行动计划表"
 };
 
 function formatMinute(value?: string | null) {
@@ -41,11 +63,28 @@ export default function ReportPreview() {
 
   const [report, setReport] = useState<ReportInfo | null>(null);
   const [content, setContent] = useState("");
+  const [claimWarnings, setClaimWarnings] = useState<ProcedureClaimWarning[]>([]);
+  const [renderCheck, setRenderCheck] = useState<RenderCheck | null>(null);
+  const [renderAttempts, setRenderAttempts] = useState(1);
+  const [evalTool, setEvalTool] = useState<string | null>(null);
   const [message, setMessage] = useState<string | null>(null);
   const [exportLink, setExportLink] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [signatures, setSignatures] = useState<ReportSignature[]>([]);
+  const [signPassword, setSignPassword] = useState("");
+  const [signComment, setSignComment] = useState("");
+  const [signing, setSigning] = useState(false);
 
-  const reportHtml = useMemo(() => (content ? renderMarkdown(content) : ""), [content]);
+  const reportHtml = useMemo(
+    () =>
+      content
+        ? highlightPhrases(
+            renderMarkdown(content),
+            claimWarnings.map((warning) => ({ text: warning.claim, title: `${warning.location}：${warning.message}` }))
+          )
+        : "",
+    [content, claimWarnings]
+  );
 
   const loadReport = async () => {
     if (!reportId) {
@@ -63,18 +102,31 @@ export default function ReportPreview() {
     }
     setReport(result.data.report as ReportInfo);
     setContent(result.data.content ?? "");
+    const data = result.data.data as {
+      claim_warnings?: ProcedureClaimWarning[];
+      render_check?: RenderCheck;
+      render_attempts?: number;
+      eval_tool?: string;
+    } | null;
+    setClaimWarnings(Array.isArray(data?.claim_warnings) ? data.claim_warnings : []);
+    setRenderCheck(data?.render_check ?? null);
+    setRenderAttempts(data?.render_attempts ?? 1);
+    setEvalTool(data?.eval_tool ?? null);
+    const signatureResult = await api.listReportSignatures(reportId);
+    setSignatures(signatureResult.data?.signatures ?? []);
   };
 
   useEffect(() => {
     loadReport();
   }, [reportId]);
 
-  const handleExport = async () => {
+  const handleExport = async (format: "docx" | "pdf") => {
     if (!reportId) {
       return;
     }
     setLoading(true);
-    const result = await api.exportReport(reportId, "docx");
+    setExportLink(null);
+    const result = await api.exportReport(reportId, format);
     setLoading(false);
     if (result.error || !result.data) {
       setMessage(result.error ?? "导出失败");
@@ -83,6 +135,34 @@ export default function ReportPreview() {
     setExportLink(`${apiBase}/api/exports/${result.data.id}/download`);
   };
 
+  const nextLifecycle = report?.status === "completed" ? NEXT_LIFECYCLE[report.lifecycle_status ?? "draft"] : undefined;
+
+  const handleSign = async () => {
+    if (!nextLifecycle) {
+      return;
+    }
+    if (!signPassword) {
+      setMessage("请输入密码完成签名");
+      return;
+    }
+    setSigning(true);
+    setMessage(null);
+    const result = await api.signReport(reportId, {
+      to_status: nextLifecycle.to,
+      password: signPassword,
+      comment: signComment.trim() || undefined
+    });
+    setSigning(false);
+    setSignPassword("");
+    if (result.error || !result.data) {
+      setMessage(result.error ?? "签名失败");
+      return;
+    }
+    setSignComment("");
+    setMessage(`已签名，报告状态：${LIFECYCLE_LABELS[result.data.lifecycle_status]}`);
+    await loadReport();
+  };
+
   const tokenSummary = report
     ? `总计 ${report.total_tokens ?? "-"}（提示 ${report.prompt_tokens ?? "-"} / 生成 ${
         report.completion_tokens ?? "-"
@@ -102,12 +182,28 @@ export default function ReportPreview() {
             <span className={`status-pill status-${report?.status ?? "unknown"}`}>
               {report?.status ?? "-"}
             </span>
+            {report?.status === "completed" ? (
+              <>
+                {" "}
+                <span className={`pill lifecycle-${report.lifecycle_status ?? "draft"}`}>
+                  {LIFECYCLE_LABELS[report.lifecycle_status ?? "draft"]}
+                </span>
+              </>
+            ) : null}
           </p>
         </div>
         <div className="report-header-actions">
-          <button className="ghost" onClick={handleExport} disabled={loading}>
+          {report?.status === "completed" && (evalTool ?? "FMEA") === "FMEA" ? (
+            <Link className="link" to={`/reports/${reportId}/edit`}>
+              结构化编辑
+            </Link>
+          ) : null}
+          <button className="ghost" onClick={() => handleExport("docx")} disabled={loading}>
             导出 Word
           </button>
+          <button className="ghost" onClick={() => handleExport("pdf")} disabled={loading}>
+            导出 PDF
+          </button>
           {exportLink ? (
             <a className="link" href={exportLink} target="_blank" rel="noreferrer">
               下载导出文件
@@ -148,6 +244,109 @@ export default function ReportPreview() {
         </div>
       </section>
 
+      {report?.status === "completed" ? (
+        <section className="card">
+          <div className="section-header">
+            <h3>电子签名</h3>
+            <span className="muted">每次状态流转需重新输入登录密码；签名记录报告正文的 SHA-256 哈希</span>
+          </div>
+          {signatures.length === 0 ? (
+            <div className="empty">暂无签名记录</div>
+          ) : (
+            <table className="workflow-table">
+              <thead>
+                <tr>
+                  <th>签名时间</th>
+                  <th>签名人</th>
+                  <th>状态流转</th>
+                  <th>签名含义</th>
+                  <th>备注</th>
+                  <th>正文哈希</th>
+                </tr>
+              </thead>
+              <tbody>
+                {signatures.map((signature) => (
+                  <tr key={signature.id}>
+                    <td>{formatMinute(signature.signed_at)}</td>
+                    <td>{signature.signer_email}</td>
+                    <td>
+                      {LIFECYCLE_LABELS[signature.from_status]} → {LIFECYCLE_LABELS[signature.to_status]}
+                    </td>
+                    <td>{signature.meaning}</td>
+                    <td>{signature.comment ?? "-"}</td>
+                    <td>
+                      <code title={signature.md_hash}>{signature.md_hash.slice(0, 12)}…</code>
+                      {signature.hash_matches ? null : <div className="diff-removed-text">与当前正文不一致</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {nextLifecycle ? (
+            <div className="signature-form">
+              <input
+                type="password"
+                placeholder="登录密码"
+                autoComplete="current-password"
+                value={signPassword}
+                onChange={(e) => setSignPassword(e.target.value)}
+              />
+              <input
+                placeholder="备注（可选）"
+                value={signComment}
+                onChange={(e) => setSignComment(e.target.value)}
+              />
+              <button onClick={handleSign} disabled={signing}>
+                {signing ? "签名中..." : nextLifecycle.action}
+              </button>
+            </div>
+          ) : null}
+        </section>
+      ) : null}
+
+      {renderCheck && !renderCheck.ok ? (
+        <section className="card">
+          <div className="section-header">
+            <h3>表格一致性核对（{renderCheck.issues.length}）</h3>
+            <span className="muted">
+              {renderAttempts > 1 ? "已自动重新渲染一次，仍有" : "报告"}表格与工作流数据不一致，请核对后重新生成或编辑
+            </span>
+          </div>
+          <ul className="claim-warning-list">
+            {renderCheck.issues.map((issue, index) => (
+              <li key={`${issue.table}-${issue.row ?? "-"}-${issue.field}-${index}`}>
+                <span className="pill">{RENDER_CHECK_TABLE_LABELS[issue.table] ?? issue.table}</span>
+                <strong>{issue.message}</strong>
+                <span className="muted">
+                  应为：{issue.expected || "-"} · 实际：{issue.actual || "-"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ) : null}
+
+      {claimWarnings.length > 0 ? (
+        <section className="card">
+          <div className="section-header">
+            <h3>SOP 核查警告（{claimWarnings.length}）</h3>
+            <span className="muted">以下内容在项目 SOP 中未找到依据，已在报告中高亮，请人工确认</span>
+          </div>
+          <ul className="claim-warning-list">
+            {claimWarnings.map((warning, index) => (
+              <li key={`${warning.risk_id}-${warning.field}-${warning.action_index ?? "-"}-${index}`}>
+                <span className="pill">{CLAIM_KIND_LABELS[warning.kind] ?? warning.kind}</span>
+                <strong>{warning.claim}</strong>
+                <span className="muted">
+                  {warning.location} · {warning.message}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ) : null}
+
       <section className="card">
         <div className="section-header">
           <h3>报告内容</h3>
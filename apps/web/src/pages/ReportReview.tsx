@@ -0,0 +1,443 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { api } from "../lib/api";
+import type { ReviewStage, WorkflowStageState } from "../lib/api";
+import { computeRpnLevel, DEFAULT_SCORING_SCHEME } from "../lib/scoring";
+
+const DIMENSION_OPTIONS: Record<string, string[]> = {
+  five_factors: ["人员", "设备与设施", "物料", "法规与程序", "环境"],
+  fishbone: ["人员", "机器", "物料", "方法", "测量", "环境"]
+};
+const DIMENSION_LABELS: Record<string, string> = {
+  five_factors: "风险维度",
+  process_flow: "流程步骤",
+  fishbone: "6M 类别",
+  five_why: "问题/现象"
+};
+const STAGE_LABELS: Record<ReviewStage, string> = {
+  hazard_identification: "危害源识别",
+  fmea_scoring: "风险评价"
+};
+
+type ItemDraft = {
+  key: string;
+  risk_id: string | null;
+  dimension: string;
+  dimension_id: string | null;
+  failure_mode: string;
+  consequence: string;
+  // 5-Why 原因链，每行一层
+  why_chain: string;
+};
+
+type RowDraft = ItemDraft & {
+  s: number;
+  s_reason: string;
+  p: number;
+  p_reason: string;
+  d: number;
+  d_reason: string;
+};
+
+type ReviewReport = {
+  id: string;
+  project_id: string;
+  project_title?: string | null;
+  version: number;
+  status: string;
+  current_stage: ReviewStage | null;
+};
+
+const toItemDrafts = (state: WorkflowStageState | null): ItemDraft[] =>
+  (state?.risk_items ?? []).map((item) => ({
+    key: item.risk_id,
+    risk_id: item.risk_id,
+    dimension: item.dimension,
+    dimension_id: item.dimension_id,
+    failure_mode: item.failure_mode,
+    consequence: item.consequence,
+    why_chain: (item.why_chain ?? []).join("\n")
+  }));
+
+const toRowDrafts = (state: WorkflowStageState | null): RowDraft[] =>
+  (state?.scored_items ?? []).map((item) => ({
+    key: item.risk_id,
+    risk_id: item.risk_id,
+    dimension: item.dimension,
+    dimension_id: item.dimension_id,
+    failure_mode: item.failure_mode,
+    consequence: item.consequence,
+    why_chain: (item.why_chain ?? []).join("\n"),
+    s: item.s,
+    s_reason: item.s_reason,
+    p: item.p,
+    p_reason: item.p_reason,
+    d: item.d,
+    d_reason: item.d_reason
+  }));
+
+export default function ReportReview() {
+  const { id } = useParams();
+  const reportId = id ?? "";
+  const navigate = useNavigate();
+
+  const [report, setReport] = useState<ReviewReport | null>(null);
+  const [state, setState] = useState<WorkflowStageState | null>(null);
+  const [activeStage, setActiveStage] = useState<ReviewStage>("hazard_identification");
+  const [items, setItems] = useState<ItemDraft[]>([]);
+  const [rows, setRows] = useState<RowDraft[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const dimensionType = state?.risk_items?.[0]?.dimension_type ?? "five_factors";
+  const dimensionOptions = DIMENSION_OPTIONS[dimensionType];
+  const isFiveWhy = dimensionType === "five_why";
+  const editable = report?.status === "review";
+  const scoringScheme = state?.context?.scoringScheme ?? DEFAULT_SCORING_SCHEME;
+  const minScore = scoringScheme.values[0] ?? 1;
+
+  const applyState = (next: WorkflowStageState | null) => {
+    setState(next);
+    setItems(toItemDrafts(next));
+    setRows(toRowDrafts(next));
+  };
+
+  const loadStages = async () => {
+    if (!reportId) {
+      setMessage("报告 ID 无效");
+      return;
+    }
+    setLoading(true);
+    const result = await api.getReportStages(reportId);
+    setLoading(false);
+    if (result.error || !result.data) {
+      setMessage(result.error ?? "阶段结果加载失败");
+      return;
+    }
+    setReport(result.data.report);
+    applyState(result.data.state);
+    setActiveStage(result.data.report.current_stage ?? "hazard_identification");
+    if (result.data.report.status !== "review") {
+      setMessage("该报告当前不在待审核状态，仅可查看。");
+    }
+  };
+
+  useEffect(() => {
+    loadStages();
+  }, [reportId]);
+
+  const updateItem = (key: string, patch: Partial<ItemDraft>) => {
+    setItems((prev) => prev.map((item) => (item.key === key ? { ...item, ...patch } : item)));
+  };
+
+  const updateRow = (key: string, patch: Partial<RowDraft>) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...patch } : row)));
+  };
+
+  const createItemDraft = (): ItemDraft => ({
+    key: crypto.randomUUID(),
+    risk_id: null,
+    dimension: dimensionOptions?.[0] ?? "",
+    dimension_id: null,
+    failure_mode: "",
+    consequence: "",
+    why_chain: ""
+  });
+
+  const toPayload = <T extends ItemDraft>({ key: _key, risk_id, why_chain, ...rest }: T) => ({
+    ...rest,
+    risk_id: risk_id ?? undefined,
+    ...(isFiveWhy
+      ? {
+          why_chain: why_chain
+            .split("\n")
+            .map((step) => step.trim())
+            .filter(Boolean)
+        }
+      : {})
+  });
+
+  const handleSave = async (): Promise<boolean> => {
+    if (!reportId) {
+      return false;
+    }
+    setLoading(true);
+    const payload =
+      activeStage === "hazard_identification"
+        ? { items: items.map(toPayload) }
+        : { rows: rows.map(toPayload) };
+    const result = await api.updateReportStage(reportId, activeStage, payload);
+    setLoading(false);
+    if (result.error || !result.data) {
+      setMessage(result.error ?? "保存失败");
+      return false;
+    }
+    applyState(result.data.state);
+    setReport((prev) => (prev ? { ...prev, current_stage: activeStage } : prev));
+    setMessage(`${STAGE_LABELS[activeStage]}修改已保存`);
+    return true;
+  };
+
+  const handleSaveAndContinue = async () => {
+    const ok = await handleSave();
+    if (ok && report) {
+      navigate(`/projects/${report.project_id}`, { state: { continueReportId: report.id } });
+    }
+  };
+
+  const handleContinue = () => {
+    if (report) {
+      navigate(`/projects/${report.project_id}`, { state: { continueReportId: report.id } });
+    }
+  };
+
+  const renderDimensionInput = (value: string, onChange: (value: string) => void) =>
+    dimensionOptions ? (
+      <select value={value} onChange={(e) => onChange(e.target.value)} disabled={!editable}>
+        {dimensionOptions.map((dimension) => (
+          <option key={dimension} value={dimension}>
+            {dimension}
+          </option>
+        ))}
+      </select>
+    ) : (
+      <input value={value} onChange={(e) => onChange(e.target.value)} disabled={!editable} />
+    );
+
+  const renderScoreSelect = (value: number, onChange: (value: number) => void) => (
+    <select value={value} onChange={(e) => onChange(Number(e.target.value))} disabled={!editable}>
+      {scoringScheme.values.map((score) => (
+        <option key={score} value={score}>
+          {score}
+        </option>
+      ))}
+    </select>
+  );
+
+  const renderHazardEditor = () => (
+    <table className="workflow-table review-table">
+      <thead>
+        <tr>
+          <th>序号</th>
+          <th>{DIMENSION_LABELS[dimensionType] ?? "风险维度"}</th>
+          {isFiveWhy ? <th>原因链（每行一层，末行为根本原因）</th> : null}
+          <th>风险点/失效模式</th>
+          <th>潜在后果</th>
+          <th />
+        </tr>
+      </thead>
+      <tbody>
+        {items.map((item, index) => (
+          <tr key={item.key}>
+            <td>{index + 1}</td>
+            <td>{renderDimensionInput(item.dimension, (value) => updateItem(item.key, { dimension: value }))}</td>
+            {isFiveWhy ? (
+              <td>
+                <textarea
+                  value={item.why_chain}
+                  onChange={(e) => updateItem(item.key, { why_chain: e.target.value })}
+                  disabled={!editable}
+                />
+              </td>
+            ) : null}
+            <td>
+              <textarea
+                value={item.failure_mode}
+                onChange={(e) => updateItem(item.key, { failure_mode: e.target.value })}
+                disabled={!editable}
+              />
+            </td>
+            <td>
+              <textarea
+                value={item.consequence}
+                onChange={(e) => updateItem(item.key, { consequence: e.target.value })}
+                disabled={!editable}
+              />
+            </td>
+            <td>
+              <button
+                className="mini-button"
+                onClick={() => setItems((prev) => prev.filter((entry) => entry.key !== item.key))}
+                disabled={!editable}
+              >
+                删除
+              </button>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const renderScoringEditor = () => (
+    <table className="workflow-table review-table">
+      <thead>
+        <tr>
+          <th>序号</th>
+          <th>风险维度</th>
+          <th>失效模式</th>
+          <th>后果</th>
+          <th>S</th>
+          <th>S理由</th>
+          <th>P</th>
+          <th>P理由</th>
+          <th>D</th>
+          <th>D理由</th>
+          <th>RPN</th>
+          <th>等级</th>
+          <th />
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row, index) => {
+          const { rpn, level } = computeRpnLevel(row.s, row.p, row.d, scoringScheme);
+          return (
+            <tr key={row.key}>
+              <td>{index + 1}</td>
+              <td>{renderDimensionInput(row.dimension, (value) => updateRow(row.key, { dimension: value }))}</td>
+              <td>
+                <textarea
+                  value={row.failure_mode}
+                  onChange={(e) => updateRow(row.key, { failure_mode: e.target.value })}
+                  disabled={!editable}
+                />
+              </td>
+              <td>
+                <textarea
+                  value={row.consequence}
+                  onChange={(e) => updateRow(row.key, { consequence: e.target.value })}
+                  disabled={!editable}
+                />
+              </td>
+              <td>{renderScoreSelect(row.s, (value) => updateRow(row.key, { s: value }))}</td>
+              <td>
+                <textarea
+                  value={row.s_reason}
+                  onChange={(e) => updateRow(row.key, { s_reason: e.target.value })}
+                  disabled={!editable}
+                />
+              </td>
+              <td>{renderScoreSelect(row.p, (value) => updateRow(row.key, { p: value }))}</td>
+              <td>
+                <textarea
+                  value={row.p_reason}
+                  onChange={(e) => updateRow(row.key, { p_reason: e.target.value })}
+                  disabled={!editable}
+                />
+              </td>
+              <td>{renderScoreSelect(row.d, (value) => updateRow(row.key, { d: value }))}</td>
+              <td>
+                <textarea
+                  value={row.d_reason}
+                  onChange={(e) => updateRow(row.key, { d_reason: e.target.value })}
+                  disabled={!editable}
+                />
+              </td>
+              <td>{rpn}</td>
+              <td>{level}</td>
+              <td>
+                <button
+                  className="mini-button"
+                  onClick={() => setRows((prev) => prev.filter((entry) => entry.key !== row.key))}
+                  disabled={!editable}
+                >
+                  删除
+                </button>
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+
+  const hasScoring = Boolean(state?.scored_items?.length);
+  // 非 FMEA 工具的评价结果暂不支持在线修改，仅可直接继续
+  const evalTool = state?.context?.evalTool ?? "FMEA";
+  const stageEditable = editable && (activeStage === "hazard_identification" || evalTool === "FMEA");
+
+  return (
+    <div className="report-page">
+      <div className="report-header">
+        <div>
+          <h2>{report?.project_title ? `${report.project_title} · 阶段审核` : "阶段审核"}</h2>
+          <p className="muted">
+            版本 {report?.version ?? "-"} · 状态：{" "}
+            <span className={`status-pill status-${report?.status ?? "unknown"}`}>{report?.status ?? "-"}</span>
+            {report?.current_stage ? ` · 暂停于「${STAGE_LABELS[report.current_stage]}」` : ""}
+          </p>
+        </div>
+        <div className="report-header-actions">
+          <button className="ghost" onClick={handleSave} disabled={!stageEditable || loading}>
+            保存修改
+          </button>
+          <button onClick={handleSaveAndContinue} disabled={!stageEditable || loading}>
+            保存并继续评估
+          </button>
+          <button className="ghost" onClick={handleContinue} disabled={!editable || loading}>
+            直接继续
+          </button>
+        </div>
+      </div>
+
+      {message ? <div className="info">{message}</div> : null}
+
+      <section className="card">
+        <div className="section-header">
+          <div className="pill-group">
+            {(Object.keys(STAGE_LABELS) as ReviewStage[]).map((stage) => (
+              <button
+                key={stage}
+                className={`pill ${activeStage === stage ? "active" : ""}`}
+                onClick={() => setActiveStage(stage)}
+                disabled={stage === "fmea_scoring" && !hasScoring && evalTool === "FMEA"}
+              >
+                {STAGE_LABELS[stage]}
+              </button>
+            ))}
+          </div>
+          {activeStage === "hazard_identification" ? (
+            <button
+              className="mini-button"
+              onClick={() => setItems((prev) => [...prev, createItemDraft()])}
+              disabled={!editable}
+            >
+              新增风险项
+            </button>
+          ) : (
+            <button
+              className="mini-button"
+              onClick={() =>
+                setRows((prev) => [
+                  ...prev,
+                  {
+                    ...createItemDraft(),
+                    s: minScore,
+                    s_reason: "",
+                    p: minScore,
+                    p_reason: "",
+                    d: minScore,
+                    d_reason: ""
+                  }
+                ])
+              }
+              disabled={!editable || evalTool !== "FMEA"}
+            >
+              新增风险项
+            </button>
+          )}
+        </div>
+        {activeStage === "hazard_identification" && hasScoring ? (
+          <p className="muted small">保存危害源修改后，已有评分将被清空，继续评估时重新评分。</p>
+        ) : null}
+        {activeStage === "hazard_identification" ? (
+          renderHazardEditor()
+        ) : evalTool === "FMEA" ? (
+          renderScoringEditor()
+        ) : (
+          <div className="empty">当前评估工具（{evalTool}）的评价结果暂不支持在线修改，可直接继续评估。</div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { api } from "../lib/api";
+import type { ProjectMember, ProjectRole, TeamSummary } from "../lib/api";
+import { useAuth } from "../lib/auth";
+import { PROJECT_ROLE_LABELS, PROJECT_ROLES } from "../lib/roles";
+
+type TeamDetail = {
+  team: { id: string; name: string; created_at: string; role: ProjectRole };
+  members: ProjectMember[];
+  projects: Array<{ id: string; title: string; status: string; updated_at: string }>;
+};
+
+export default function Teams() {
+  const { user } = useAuth();
+  const [teams, setTeams] = useState<TeamSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<TeamDetail | null>(null);
+  const [teamName, setTeamName] = useState("");
+  const [memberEmail, setMemberEmail] = useState("");
+  const [memberRole, setMemberRole] = useState<ProjectRole>("viewer");
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadTeams = async () => {
+    const result = await api.listTeams();
+    if (result.error || !result.data) {
+      setMessage(result.error ?? "团队加载失败");
+      return;
+    }
+    setTeams(result.data.teams);
+    if (!selectedId && result.data.teams.length > 0) {
+      setSelectedId(result.data.teams[0].id);
+    }
+  };
+
+  const loadDetail = async (teamId: string) => {
+    const result = await api.getTeam(teamId);
+    if (result.error || !result.data) {
+      setMessage(result.error ?? "团队加载失败");
+      setDetail(null);
+      return;
+    }
+    setDetail(result.data);
+  };
+
+  useEffect(() => {
+    loadTeams();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) {
+      loadDetail(selectedId);
+    } else {
+      setDetail(null);
+    }
+  }, [selectedId]);
+
+  const handleCreate = async () => {
+    if (!teamName.trim()) {
+      setMessage("请输入团队名称");
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    const result = await api.createTeam(teamName.trim());
+    setSaving(false);
+    if (result.error || !result.data) {
+      setMessage(result.error ?? "创建团队失败");
+      return;
+    }
+    setTeamName("");
+    setSelectedId(result.data.id);
+    await loadTeams();
+  };
+
+  const handleSaveMember = async (email: string, role: ProjectRole) => {
+    if (!selectedId) {
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    const result = await api.saveTeamMember(selectedId, { email, role });
+    setSaving(false);
+    if (result.error) {
+      setMessage(result.error);
+      return;
+    }
+    setMemberEmail("");
+    await Promise.all([loadDetail(selectedId), loadTeams()]);
+  };
+
+  const handleRemoveMember = async (member: ProjectMember) => {
+    if (!selectedId) {
+      return;
+    }
+    const leaving = member.user_id === user?.id;
+    const confirmed = window.confirm(leaving ? "确认退出该团队？" : `确认将 ${member.email} 移出团队？`);
+    if (!confirmed) {
+      return;
+    }
+    const result = await api.removeTeamMember(selectedId, member.user_id);
+    if (result.error) {
+      setMessage(result.error);
+      return;
+    }
+    if (leaving) {
+      setSelectedId(null);
+    } else {
+      await loadDetail(selectedId);
+    }
+    await loadTeams();
+  };
+
+  const handleDeleteTeam = async () => {
+    if (!detail) {
+      return;
+    }
+    const confirmed = window.confirm(`确认解散团队「${detail.team.name}」？团队内项目将仅保留给各自的创建人。`);
+    if (!confirmed) {
+      return;
+    }
+    const result = await api.deleteTeam(detail.team.id);
+    if (result.error) {
+      setMessage(result.error);
+      return;
+    }
+    setSelectedId(null);
+    await loadTeams();
+  };
+
+  const isTeamOwner = detail?.team.role === "owner";
+
+  return (
+    <div className="report-page">
+      <div className="report-header">
+        <div>
+          <h2>团队</h2>
+          <p className="muted">团队成员按角色访问团队内的项目：查看者只读，审核者可签名，编辑者可编辑与生成报告，所有者管理成员</p>
+        </div>
+      </div>
+
+      {message ? <div className="info">{message}</div> : null}
+
+      <div className="team-layout">
+        <section className="card">
+          <div className="section-header">
+            <h3>我的团队（{teams.length}）</h3>
+          </div>
+          {teams.length === 0 ? (
+            <div className="empty">暂未加入任何团队</div>
+          ) : (
+            <ul className="team-list">
+              {teams.map((team) => (
+                <li key={team.id}>
+                  <button
+                    className={team.id === selectedId ? "pill active" : "pill"}
+                    onClick={() => setSelectedId(team.id)}
+                  >
+                    {team.name}
+                  </button>
+                  <span className="muted">
+                    {PROJECT_ROLE_LABELS[team.role]} · {team.member_count} 人 · {team.project_count} 个项目
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="signature-form">
+            <input placeholder="新团队名称" value={teamName} onChange={(e) => setTeamName(e.target.value)} />
+            <button onClick={handleCreate} disabled={saving}>
+              创建团队
+            </button>
+          </div>
+        </section>
+
+        {detail ? (
+          <section className="card">
+            <div className="section-header">
+              <h3>{detail.team.name}</h3>
+              {isTeamOwner ? (
+                <button className="mini-button danger" onClick={handleDeleteTeam}>
+                  解散团队
+                </button>
+              ) : null}
+            </div>
+            <table className="workflow-table">
+              <thead>
+                <tr>
+                  <th>成员</th>
+                  <th>角色</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {detail.members.map((member) => (
+                  <tr key={member.user_id}>
+                    <td>{member.email}</td>
+                    <td>
+                      {isTeamOwner ? (
+                        <select
+                          value={member.role}
+                          disabled={saving}
+                          onChange={(e) => handleSaveMember(member.email, e.target.value as ProjectRole)}
+                        >
+                          {PROJECT_ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {PROJECT_ROLE_LABELS[role]}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className={`pill role-${member.role}`}>{PROJECT_ROLE_LABELS[member.role]}</span>
+                      )}
+                    </td>
+                    <td>
+                      {isTeamOwner || member.user_id === user?.id ? (
+                        <button className="text-button" onClick={() => handleRemoveMember(member)}>
+                          {member.user_id === user?.id ? "退出" : "移除"}
+                        </button>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {isTeamOwner ? (
+              <div className="signature-form">
+                <input
+                  placeholder="成员邮箱"
+                  value={memberEmail}
+                  onChange={(e) => setMemberEmail(e.target.value)}
+                />
+                <select value={memberRole} onChange={(e) => setMemberRole(e.target.value as ProjectRole)}>
+                  {PROJECT_ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {PROJECT_ROLE_LABELS[role]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleSaveMember(memberEmail.trim(), memberRole)}
+                  disabled={saving || !memberEmail.trim()}
+                >
+                  添加成员
+                </button>
+              </div>
+            ) : null}
+
+            <h4>团队项目（{detail.projects.length}）</h4>
+            {detail.projects.length === 0 ? (
+              <div className="empty">暂无项目，可在项目详情页将项目加入团队</div>
+            ) : (
+              <ul className="team-list">
+                {detail.projects.map((project) => (
+                  <li key={project.id}>
+                    <Link className="link" to={`/projects/${project.id}`}>
+                      {project.title}
+                    </Link>
+                    <span className="muted">状态：{project.status}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+ALTER TABLE reports ADD COLUMN state_key TEXT;
+ALTER TABLE reports ADD COLUMN current_stage TEXT;
+ALTER TABLE reports ADD COLUMN review_stages TEXT;
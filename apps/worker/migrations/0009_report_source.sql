@@ -0,0 +1 @@
+ALTER TABLE reports ADD COLUMN source_report_id TEXT;
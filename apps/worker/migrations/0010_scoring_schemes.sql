@@ -0,0 +1,14 @@
+CREATE TABLE scoring_schemes (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  score_values TEXT NOT NULL,
+  levels TEXT NOT NULL,
+  action_threshold INTEGER NOT NULL,
+  is_default INTEGER NOT NULL DEFAULT 0,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+ALTER TABLE project_inputs ADD COLUMN scoring_scheme_id TEXT;
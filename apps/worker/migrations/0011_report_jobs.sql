@@ -0,0 +1,24 @@
+CREATE TABLE report_jobs (
+  id TEXT PRIMARY KEY,
+  report_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  text_model_id TEXT NOT NULL,
+  plan TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_report_jobs_report ON report_jobs(report_id);
+
+CREATE TABLE report_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  report_id TEXT NOT NULL,
+  job_id TEXT NOT NULL,
+  event TEXT NOT NULL,
+  data TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_report_events_report ON report_events(report_id, id);
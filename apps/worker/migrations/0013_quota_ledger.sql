@@ -0,0 +1,15 @@
+CREATE TABLE quota_ledger (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  report_id TEXT,
+  kind TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  cycle_start TEXT NOT NULL,
+  remaining_after INTEGER,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY(user_id) REFERENCES users(id)
+);
+
+CREATE INDEX idx_quota_ledger_user ON quota_ledger(user_id, created_at);
+CREATE INDEX idx_quota_ledger_report ON quota_ledger(report_id);
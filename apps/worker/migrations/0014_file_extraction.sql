@@ -0,0 +1,2 @@
+ALTER TABLE project_files ADD COLUMN pages_key TEXT;
+ALTER TABLE project_files ADD COLUMN error_message TEXT;
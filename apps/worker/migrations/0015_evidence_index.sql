@@ -0,0 +1,17 @@
+CREATE TABLE evidence_indexes (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  file_id TEXT NOT NULL,
+  embedding_model_id TEXT NOT NULL,
+  text_hash TEXT NOT NULL,
+  chunk_count INTEGER NOT NULL,
+  dimensions INTEGER NOT NULL,
+  index_key TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY(project_id) REFERENCES projects(id),
+  FOREIGN KEY(file_id) REFERENCES project_files(id)
+);
+
+CREATE UNIQUE INDEX idx_evidence_indexes_file_model ON evidence_indexes(file_id, embedding_model_id);
+CREATE INDEX idx_evidence_indexes_project ON evidence_indexes(project_id);
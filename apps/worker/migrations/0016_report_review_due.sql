@@ -0,0 +1,4 @@
+ALTER TABLE reports ADD COLUMN review_level TEXT;
+ALTER TABLE reports ADD COLUMN review_due_at TEXT;
+
+CREATE INDEX idx_reports_review_due ON reports(review_due_at);
@@ -0,0 +1,40 @@
+CREATE TABLE capa_risks (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  report_id TEXT NOT NULL,
+  risk_id TEXT NOT NULL,
+  seq INTEGER NOT NULL,
+  failure_mode TEXT NOT NULL,
+  level TEXT,
+  residual_level TEXT,
+  residual_status TEXT NOT NULL DEFAULT 'open',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY(project_id) REFERENCES projects(id),
+  FOREIGN KEY(report_id) REFERENCES reports(id)
+);
+
+CREATE UNIQUE INDEX idx_capa_risks_report_risk ON capa_risks(report_id, risk_id);
+
+CREATE TABLE capa_actions (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  report_id TEXT NOT NULL,
+  risk_id TEXT NOT NULL,
+  action_index INTEGER NOT NULL,
+  type TEXT NOT NULL,
+  action_text TEXT NOT NULL,
+  owner_role TEXT,
+  owner_dept TEXT,
+  planned_date TEXT,
+  status TEXT NOT NULL DEFAULT 'open',
+  completed_at TEXT,
+  effectiveness_notes TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY(project_id) REFERENCES projects(id),
+  FOREIGN KEY(report_id) REFERENCES reports(id)
+);
+
+CREATE INDEX idx_capa_actions_report_risk ON capa_actions(report_id, risk_id);
+CREATE INDEX idx_capa_actions_project_status ON capa_actions(project_id, status);
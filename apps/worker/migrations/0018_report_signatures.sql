@@ -0,0 +1,19 @@
+ALTER TABLE reports ADD COLUMN lifecycle_status TEXT NOT NULL DEFAULT 'draft';
+
+CREATE TABLE report_signatures (
+  id TEXT PRIMARY KEY,
+  report_id TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  signer_id TEXT NOT NULL,
+  signer_email TEXT NOT NULL,
+  meaning TEXT NOT NULL,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  comment TEXT,
+  md_hash TEXT NOT NULL,
+  signed_at TEXT NOT NULL,
+  FOREIGN KEY(report_id) REFERENCES reports(id),
+  FOREIGN KEY(signer_id) REFERENCES users(id)
+);
+
+CREATE INDEX idx_report_signatures_report ON report_signatures(report_id, signed_at);
@@ -0,0 +1,38 @@
+CREATE TABLE teams (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY(created_by) REFERENCES users(id)
+);
+
+CREATE TABLE team_members (
+  team_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY(team_id, user_id),
+  FOREIGN KEY(team_id) REFERENCES teams(id),
+  FOREIGN KEY(user_id) REFERENCES users(id)
+);
+
+CREATE INDEX idx_team_members_user ON team_members(user_id);
+
+CREATE TABLE project_members (
+  project_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY(project_id, user_id),
+  FOREIGN KEY(project_id) REFERENCES projects(id),
+  FOREIGN KEY(user_id) REFERENCES users(id)
+);
+
+CREATE INDEX idx_project_members_user ON project_members(user_id);
+
+ALTER TABLE projects ADD COLUMN team_id TEXT;
+
+CREATE INDEX idx_projects_team ON projects(team_id);
@@ -0,0 +1,20 @@
+CREATE TABLE template_revisions (
+  id TEXT PRIMARY KEY,
+  template_id TEXT NOT NULL,
+  revision INTEGER NOT NULL,
+  file_key TEXT NOT NULL,
+  change_note TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY(template_id) REFERENCES templates(id),
+  FOREIGN KEY(created_by) REFERENCES users(id)
+);
+
+CREATE UNIQUE INDEX idx_template_revisions_template ON template_revisions(template_id, revision);
+
+INSERT INTO template_revisions (id, template_id, revision, file_key, change_note, created_by, created_at)
+SELECT lower(hex(randomblob(16))), id, 1, file_key, NULL, created_by, updated_at FROM templates;
+
+ALTER TABLE templates ADD COLUMN latest_revision INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE project_inputs ADD COLUMN template_revision INTEGER;
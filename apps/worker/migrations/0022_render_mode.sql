@@ -0,0 +1 @@
+ALTER TABLE project_inputs ADD COLUMN render_mode TEXT NOT NULL DEFAULT 'llm';
@@ -0,0 +1 @@
+ALTER TABLE project_inputs ADD COLUMN auto_rerender INTEGER NOT NULL DEFAULT 0;
@@ -1,10 +1,24 @@
 import type { ModelRuntimeConfig } from "./types";
+import {
+  buildCitationSection,
+  collectEvidenceIds,
+  createCitationIndex,
+  evidenceChunkId,
+  parseEvidenceIds,
+  withCitation
+} from "./citations";
 import {
   buildRiskControlPrompt,
   buildControlPlanPrompt,
   buildFmeaScoringPrompt,
+  buildHaccpAnalysisPrompt,
   buildMarkdownRenderPrompt,
+  buildNarrativePrompt,
+  buildPhaScoringPrompt,
+  buildRrfScoringPrompt,
+  buildHazardIdentificationFishbonePrompt,
   buildHazardIdentificationFiveFactorsPrompt,
+  buildHazardIdentificationFiveWhyPrompt,
   buildHazardIdentificationProcessFlowPrompt,
   SYSTEM_QRM,
   SYSTEM_QRM_MARKDOWN
@@ -12,27 +26,57 @@ import {
 import { extractJsonBlock, safeJsonParse } from "./utils";
 import type {
   ActionOutput,
+  AssessedRiskItem,
   ControlMeasureOutput,
+  EvalTool,
+  EvidenceIndexStore,
   FmeaScoringOutput,
   GeneratedReport,
+  HaccpAnalysisOutput,
+  PhaScoringOutput,
   ReportInput,
   HazardIdentificationOutput,
   ReevaluatedRiskItem,
+  RenderCheck,
+  RenderCheckIssue,
+  RenderMode,
+  ReviewStage,
   RiskItem,
+  RiskMethod,
+  RrfScoringOutput,
   TokenUsage,
+  ToolAssessedItem,
   WorkflowContext,
-  ScoredRiskItem
+  WorkflowState,
+  ScoredRiskItem,
+  ScoringScheme
 } from "./aiTypes";
+import { DEFAULT_SCORING_SCHEME, formatScoreValues, isAllowedScore } from "./scoring";
+import { verifyProcedureClaims } from "./verification";
+import { normalizeFishboneDimension, resolveHazardMode } from "./riskMethods";
+import { hasTemplatePlaceholders, listNarrativePlaceholders } from "./templatePlaceholders";
+import { checkRenderedTables } from "./markdownTables";
+import type { PlaceholderDefinition } from "./templatePlaceholders";
 import {
+  buildMethodText,
+  buildReviewText,
   buildWorkflowContext,
+  mergeHaccpAnalysis,
+  mergePhaScoring,
   mergeResidualScoring,
+  mergeRrfScoring,
   mergeScoring,
+  renderHazardDiagram,
+  renderReportMarkdown,
+  resolveEvalTool,
+  resolveReviewSchedule,
   validateActionsOutput,
   validateControlMeasuresOutput,
   validateHazardIdentification
 } from "./workflow";
 
 const RISK_ID_PLACEHOLDER = "00000000-0000-0000-0000-000000000000";
+const MAX_RENDER_CORRECTIONS = 20;
 const FIVE_FACTOR_DIMENSIONS = ["人员", "设备与设施", "物料", "法规与程序", "环境"];
 const ACTION_TYPES = [
   "SOP/规程",
@@ -93,20 +137,32 @@ type StepName =
   | "control_plan"
   | "rendering";
 
-type StreamHandlers = {
+export type StreamHandlers = {
   onDelta: (delta: string) => void;
+  // 重新渲染后以完整内容替换已输出的报告正文
+  onReplace?: (content: string) => void;
   onUsage?: (usage: TokenUsage) => void;
   onStep?: (step: StepName, status: StepStatus) => void;
   onLlmDelta?: (step: StepName, delta: string) => void;
   onContextStage?: (message: string) => void;
   onContextStages?: (messages: string[]) => void;
   onContextMeta?: (meta: WorkflowContext["retrievalMeta"]) => void;
-  onContextEvidence?: (items: Array<{ source: string; content: string; score: number }>) => void;
+  onContextEvidence?: (
+    items: Array<{
+      id: string;
+      source: string;
+      content: string;
+      score: number;
+      rerank_score: number | null;
+      filename: string | null;
+    }>
+  ) => void;
 };
 
 type ModelContext = {
   llm: ModelRuntimeConfig;
   embedding?: ModelRuntimeConfig | null;
+  rerank?: ModelRuntimeConfig | null;
 };
 
 function pickUsage(usage?: TokenUsage | null): TokenUsage | undefined {
@@ -484,7 +540,7 @@ function ensureExactKeys(record: Record<string, unknown>, keys: string[], label:
   }
 }
 
-function parseHazardIdentification(raw: unknown, expectedMode: "five_factors" | "process_flow"): RiskItem[] {
+function parseHazardIdentification(raw: unknown, expectedMode: RiskMethod, evidenceIds: Set<string>): RiskItem[] {
   const record = expectRecord(raw, "危害源识别结果");
   if (!Array.isArray(record.items)) {
     throw new Error("危害源识别结果 items 不是数组");
@@ -494,7 +550,16 @@ function parseHazardIdentification(raw: unknown, expectedMode: "five_factors" |
     const entry = expectRecord(item, `风险项#${index + 1}`);
     ensureExactKeys(
       entry,
-      ["risk_id", "dimension_type", "dimension", "dimension_id", "failure_mode", "consequence"],
+      [
+        "risk_id",
+        "dimension_type",
+        "dimension",
+        "dimension_id",
+        "failure_mode",
+        "consequence",
+        "evidence_ids",
+        ...(expectedMode === "five_why" ? ["why_chain"] : [])
+      ],
       `风险项#${index + 1}`
     );
     const dimensionType = entry.dimension_type;
@@ -513,12 +578,26 @@ function parseHazardIdentification(raw: unknown, expectedMode: "five_factors" |
       }
       dimension = normalized;
     }
+    if (expectedMode === "fishbone") {
+      const normalized = normalizeFishboneDimension(dimension);
+      if (!normalized) {
+        throw new Error(`风险项#${index + 1} dimension 非法`);
+      }
+      dimension = normalized;
+    }
     if (expectedMode === "five_factors" && !FIVE_FACTOR_DIMENSIONS.includes(dimension)) {
       throw new Error(`风险项#${index + 1} dimension 非法`);
     }
-    if (expectedMode === "five_factors" && entry.dimension_id !== null) {
+    if (expectedMode !== "process_flow" && entry.dimension_id !== null) {
       throw new Error(`风险项#${index + 1} dimension_id 必须为 null`);
     }
+    let whyChain: string[] | undefined;
+    if (expectedMode === "five_why") {
+      if (!Array.isArray(entry.why_chain) || entry.why_chain.some((step) => typeof step !== "string")) {
+        throw new Error(`风险项#${index + 1} why_chain 必须为字符串数组`);
+      }
+      whyChain = (entry.why_chain as string[]).map((step) => step.trim()).filter(Boolean);
+    }
     if (expectedMode === "process_flow" && typeof entry.dimension_id !== "string") {
       throw new Error(`风险项#${index + 1} dimension_id 必须为字符串`);
     }
@@ -528,13 +607,16 @@ function parseHazardIdentification(raw: unknown, expectedMode: "five_factors" |
     if (typeof entry.consequence !== "string" || !entry.consequence.trim()) {
       throw new Error(`风险项#${index + 1} consequence 为空`);
     }
+    const itemEvidenceIds = parseEvidenceIds(entry.evidence_ids, evidenceIds, `风险项#${index + 1}`);
     items.push({
       risk_id: typeof entry.risk_id === "string" ? entry.risk_id : RISK_ID_PLACEHOLDER,
       dimension_type: resolvedDimensionType,
       dimension,
       dimension_id: entry.dimension_id as string | null,
       failure_mode: entry.failure_mode as string,
-      consequence: entry.consequence as string
+      consequence: entry.consequence as string,
+      evidence_ids: itemEvidenceIds,
+      ...(whyChain ? { why_chain: whyChain } : {})
     });
   });
   return items.map((item) => ({
@@ -543,7 +625,12 @@ function parseHazardIdentification(raw: unknown, expectedMode: "five_factors" |
   }));
 }
 
-function parseFmeaScoring(raw: unknown, riskIds: string[]): FmeaScoringOutput {
+function parseFmeaScoring(
+  raw: unknown,
+  riskIds: string[],
+  scheme: ScoringScheme,
+  evidenceIds: Set<string>
+): FmeaScoringOutput {
   const record = expectRecord(raw, "FMEA评分结果");
   if (!Array.isArray(record.rows)) {
     throw new Error("FMEA评分结果 rows 不是数组");
@@ -552,17 +639,28 @@ function parseFmeaScoring(raw: unknown, riskIds: string[]): FmeaScoringOutput {
     const entry = expectRecord(row, `评分行#${index + 1}`);
     ensureExactKeys(
       entry,
-      ["risk_id", "s", "s_reason", "p", "p_reason", "d", "d_reason"],
+      [
+        "risk_id",
+        "s",
+        "s_reason",
+        "s_evidence_ids",
+        "p",
+        "p_reason",
+        "p_evidence_ids",
+        "d",
+        "d_reason",
+        "d_evidence_ids"
+      ],
       `评分行#${index + 1}`
     );
     if (typeof entry.risk_id !== "string" || !entry.risk_id.trim()) {
       throw new Error(`评分行#${index + 1} risk_id 为空`);
     }
     const score = (value: unknown, label: string) => {
-      if (value !== 1 && value !== 3 && value !== 6 && value !== 9) {
+      if (!isAllowedScore(scheme, value)) {
         throw new Error(`评分行#${index + 1} ${label} 非法`);
       }
-      return value as 1 | 3 | 6 | 9;
+      return value;
     };
     const text = (value: unknown, label: string) => {
       if (typeof value !== "string" || !value.trim()) {
@@ -570,26 +668,234 @@ function parseFmeaScoring(raw: unknown, riskIds: string[]): FmeaScoringOutput {
       }
       return value as string;
     };
+    const evidence = (value: unknown, label: string) =>
+      parseEvidenceIds(value, evidenceIds, `评分行#${index + 1} ${label}`);
     return {
       risk_id: entry.risk_id as string,
       s: score(entry.s, "s"),
       s_reason: text(entry.s_reason, "s_reason"),
+      s_evidence_ids: evidence(entry.s_evidence_ids, "s"),
       p: score(entry.p, "p"),
       p_reason: text(entry.p_reason, "p_reason"),
+      p_evidence_ids: evidence(entry.p_evidence_ids, "p"),
       d: score(entry.d, "d"),
-      d_reason: text(entry.d_reason, "d_reason")
+      d_reason: text(entry.d_reason, "d_reason"),
+      d_evidence_ids: evidence(entry.d_evidence_ids, "d")
     };
   });
+  ensureAllRowsPresent(rows, riskIds);
+  return { rows };
+}
+
+function ensureAllRowsPresent(rows: Array<{ risk_id: string }>, riskIds: string[]): void {
   const rowIds = new Set(rows.map((row) => row.risk_id));
   for (const id of riskIds) {
     if (!rowIds.has(id)) {
       throw new Error(`评分缺失风险项: ${id}`);
     }
   }
+}
+
+function parsePhaScoring(raw: unknown, riskIds: string[]): PhaScoringOutput {
+  const record = expectRecord(raw, "PHA评价结果");
+  if (!Array.isArray(record.rows)) {
+    throw new Error("PHA评价结果 rows 不是数组");
+  }
+  const rows = record.rows.map((row, index) => {
+    const entry = expectRecord(row, `评分行#${index + 1}`);
+    ensureExactKeys(
+      entry,
+      ["risk_id", "severity", "severity_reason", "likelihood", "likelihood_reason"],
+      `评分行#${index + 1}`
+    );
+    if (typeof entry.risk_id !== "string" || !entry.risk_id.trim()) {
+      throw new Error(`评分行#${index + 1} risk_id 为空`);
+    }
+    const score = (value: unknown, label: string) => {
+      if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > 4) {
+        throw new Error(`评分行#${index + 1} ${label} 非法`);
+      }
+      return value;
+    };
+    const text = (value: unknown, label: string) => {
+      if (typeof value !== "string" || !value.trim()) {
+        throw new Error(`评分行#${index + 1} ${label} 为空`);
+      }
+      return value as string;
+    };
+    return {
+      risk_id: entry.risk_id as string,
+      severity: score(entry.severity, "severity"),
+      severity_reason: text(entry.severity_reason, "severity_reason"),
+      likelihood: score(entry.likelihood, "likelihood"),
+      likelihood_reason: text(entry.likelihood_reason, "likelihood_reason")
+    };
+  });
+  ensureAllRowsPresent(rows, riskIds);
+  return { rows };
+}
+
+function parseHaccpAnalysis(raw: unknown, riskIds: string[]): HaccpAnalysisOutput {
+  const record = expectRecord(raw, "HACCP判定结果");
+  if (!Array.isArray(record.rows)) {
+    throw new Error("HACCP判定结果 rows 不是数组");
+  }
+  const rows = record.rows.map((row, index) => {
+    const entry = expectRecord(row, `判定行#${index + 1}`);
+    ensureExactKeys(
+      entry,
+      ["risk_id", "q1", "q2", "q3", "q4", "decision_reason", "critical_limit", "monitoring"],
+      `判定行#${index + 1}`
+    );
+    if (typeof entry.risk_id !== "string" || !entry.risk_id.trim()) {
+      throw new Error(`判定行#${index + 1} risk_id 为空`);
+    }
+    const answer = (value: unknown, label: string) => {
+      if (typeof value !== "boolean") {
+        throw new Error(`判定行#${index + 1} ${label} 必须为布尔值`);
+      }
+      return value;
+    };
+    const q1 = answer(entry.q1, "q1");
+    const q2 = q1 ? answer(entry.q2, "q2") : false;
+    // 判断树已得出结论的后续问题一律置空，避免模型多答导致误判
+    const q3 = q1 && !q2 ? answer(entry.q3, "q3") : null;
+    const q4 = q3 === true ? answer(entry.q4, "q4") : null;
+    if (typeof entry.decision_reason !== "string" || !entry.decision_reason.trim()) {
+      throw new Error(`判定行#${index + 1} decision_reason 为空`);
+    }
+    if (typeof entry.critical_limit !== "string" || typeof entry.monitoring !== "string") {
+      throw new Error(`判定行#${index + 1} critical_limit/monitoring 必须为字符串`);
+    }
+    return {
+      risk_id: entry.risk_id as string,
+      q1,
+      q2,
+      q3,
+      q4,
+      decision_reason: entry.decision_reason as string,
+      critical_limit: (entry.critical_limit as string).trim(),
+      monitoring: (entry.monitoring as string).trim()
+    };
+  });
+  ensureAllRowsPresent(rows, riskIds);
+  return { rows };
+}
+
+function parseRrfScoring(raw: unknown, riskIds: string[]): RrfScoringOutput {
+  const record = expectRecord(raw, "RRF评分结果");
+  if (!Array.isArray(record.rows)) {
+    throw new Error("RRF评分结果 rows 不是数组");
+  }
+  const rows = record.rows.map((row, index) => {
+    const entry = expectRecord(row, `评分行#${index + 1}`);
+    ensureExactKeys(
+      entry,
+      [
+        "risk_id",
+        "patient_impact",
+        "patient_impact_reason",
+        "compliance_impact",
+        "compliance_impact_reason",
+        "occurrence",
+        "occurrence_reason"
+      ],
+      `评分行#${index + 1}`
+    );
+    if (typeof entry.risk_id !== "string" || !entry.risk_id.trim()) {
+      throw new Error(`评分行#${index + 1} risk_id 为空`);
+    }
+    const score = (value: unknown, label: string) => {
+      if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > 5) {
+        throw new Error(`评分行#${index + 1} ${label} 非法`);
+      }
+      return value;
+    };
+    const text = (value: unknown, label: string) => {
+      if (typeof value !== "string" || !value.trim()) {
+        throw new Error(`评分行#${index + 1} ${label} 为空`);
+      }
+      return value as string;
+    };
+    return {
+      risk_id: entry.risk_id as string,
+      patient_impact: score(entry.patient_impact, "patient_impact"),
+      patient_impact_reason: text(entry.patient_impact_reason, "patient_impact_reason"),
+      compliance_impact: score(entry.compliance_impact, "compliance_impact"),
+      compliance_impact_reason: text(entry.compliance_impact_reason, "compliance_impact_reason"),
+      occurrence: score(entry.occurrence, "occurrence"),
+      occurrence_reason: text(entry.occurrence_reason, "occurrence_reason")
+    };
+  });
+  ensureAllRowsPresent(rows, riskIds);
+  return { rows };
+}
+
+function parseControlActions(value: unknown, index: number, evidenceIds: Set<string>) {
+  if (!Array.isArray(value)) {
+    throw new Error(`风险控制行#${index + 1} actions 不是数组`);
+  }
+  return value.map((action, actionIndex) => {
+    const actionRecord = expectRecord(action, `控制措施#${index + 1}.${actionIndex + 1}`);
+    ensureExactKeys(
+      actionRecord,
+      ["type", "action_text", "evidence_ids"],
+      `控制措施#${index + 1}.${actionIndex + 1}`
+    );
+    const normalizedType = ACTION_TYPES.includes(actionRecord.type as string)
+      ? (actionRecord.type as string)
+      : "其他";
+    if (typeof actionRecord.action_text !== "string" || !actionRecord.action_text.trim()) {
+      throw new Error(`控制措施#${index + 1}.${actionIndex + 1} action_text 为空`);
+    }
+    return {
+      type: normalizedType as ControlMeasureOutput[number]["actions"][number]["type"],
+      action_text: actionRecord.action_text as string,
+      evidence_ids: parseEvidenceIds(
+        actionRecord.evidence_ids,
+        evidenceIds,
+        `控制措施#${index + 1}.${actionIndex + 1}`
+      )
+    };
+  });
+}
+
+// 非 FMEA 工具不做残余风险评分，仅解析控制措施
+function parseControlMeasureOutput(raw: unknown, requiredIds: string[], evidenceIds: Set<string>) {
+  const record = expectRecord(raw, "风险控制输出");
+  if (!Array.isArray(record.rows)) {
+    throw new Error("风险控制输出 rows 不是数组");
+  }
+  const rows = record.rows.map((row, index) => {
+    const entry = expectRecord(row, `风险控制行#${index + 1}`);
+    ensureExactKeys(entry, ["risk_id", "hazard", "actions"], `风险控制行#${index + 1}`);
+    if (typeof entry.risk_id !== "string" || !entry.risk_id.trim()) {
+      throw new Error(`风险控制行#${index + 1} risk_id 为空`);
+    }
+    if (typeof entry.hazard !== "string" || !entry.hazard.trim()) {
+      throw new Error(`风险控制行#${index + 1} hazard 为空`);
+    }
+    return {
+      risk_id: entry.risk_id as string,
+      hazard: entry.hazard as string,
+      actions: parseControlActions(entry.actions, index, evidenceIds)
+    };
+  });
+  const rowIds = new Set(rows.map((row) => row.risk_id));
+  for (const id of requiredIds) {
+    if (!rowIds.has(id)) {
+      throw new Error(`风险控制缺失风险项: ${id}`);
+    }
+  }
   return { rows };
 }
 
-function parseRiskControlOutput(raw: unknown, requiredIds: string[]) {
+function parseRiskControlOutput(
+  raw: unknown,
+  requiredIds: string[],
+  scheme: ScoringScheme,
+  evidenceIds: Set<string>
+) {
   const record = expectRecord(raw, "风险控制输出");
   if (!Array.isArray(record.rows)) {
     throw new Error("风险控制输出 rows 不是数组");
@@ -603,29 +909,13 @@ function parseRiskControlOutput(raw: unknown, requiredIds: string[]) {
     if (typeof entry.hazard !== "string" || !entry.hazard.trim()) {
       throw new Error(`风险控制行#${index + 1} hazard 为空`);
     }
-    if (!Array.isArray(entry.actions)) {
-      throw new Error(`风险控制行#${index + 1} actions 不是数组`);
-    }
     const score = (value: unknown, label: string) => {
-      if (value !== 1 && value !== 3 && value !== 6 && value !== 9) {
+      if (!isAllowedScore(scheme, value)) {
         throw new Error(`风险控制行#${index + 1} ${label} 非法`);
       }
-      return value as 1 | 3 | 6 | 9;
+      return value;
     };
-    const actions = entry.actions.map((action, actionIndex) => {
-      const actionRecord = expectRecord(action, `控制措施#${index + 1}.${actionIndex + 1}`);
-      ensureExactKeys(actionRecord, ["type", "action_text"], `控制措施#${index + 1}.${actionIndex + 1}`);
-      const normalizedType = ACTION_TYPES.includes(actionRecord.type as string)
-        ? (actionRecord.type as string)
-        : "其他";
-      if (typeof actionRecord.action_text !== "string" || !actionRecord.action_text.trim()) {
-        throw new Error(`控制措施#${index + 1}.${actionIndex + 1} action_text 为空`);
-      }
-      return {
-        type: normalizedType as ControlMeasureOutput[number]["actions"][number]["type"],
-        action_text: actionRecord.action_text as string
-      };
-    });
+    const actions = parseControlActions(entry.actions, index, evidenceIds);
     return {
       risk_id: entry.risk_id as string,
       hazard: entry.hazard as string,
@@ -716,7 +1006,8 @@ function mergePlanWithMeasures(measures: ControlMeasureOutput, plan: ActionOutpu
         action_text: action.action_text,
         owner_role: matched?.owner_role ?? "待定",
         owner_dept: matched?.owner_dept ?? "待定",
-        planned_date: matched?.planned_date ?? "TBD"
+        planned_date: matched?.planned_date ?? "TBD",
+        evidence_ids: action.evidence_ids
       };
     });
     return { risk_id: entry.risk_id, actions: mergedActions };
@@ -730,6 +1021,23 @@ function formatLocalDate(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+const narrativeKey = (section: PlaceholderDefinition) => section.name.replace(/^narrative\./, "");
+
+// 叙述段落只保留模板用到的字段，缺失或非文本时留空
+function parseNarratives(data: unknown, sections: PlaceholderDefinition[]): Record<string, string> {
+  const record = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  return Object.fromEntries(
+    sections.map((section) => {
+      const value = record[narrativeKey(section)];
+      return [narrativeKey(section), typeof value === "string" ? value.trim() : ""];
+    })
+  );
+}
+
+function formatRenderIssue(issue: RenderCheckIssue): string {
+  return `${issue.message}（应为：${issue.expected || "空"}；实际：${issue.actual || "空"}）`;
+}
+
 function ensureNotAborted(signal?: AbortSignal) {
   if (signal?.aborted) {
     throw new Error("请求已取消");
@@ -746,142 +1054,304 @@ async function sleep(ms: number, signal?: AbortSignal) {
   }
 }
 
+export type WorkflowRunOptions = {
+  signal?: AbortSignal;
+  state?: WorkflowState;
+  reviewStages?: ReviewStage[];
+  onCheckpoint?: (state: WorkflowState) => Promise<void>;
+  evidenceIndex?: EvidenceIndexStore;
+};
+
+export function applyObjectivePolicy<T extends AssessedRiskItem>(items: T[], objectiveBias: string): T[] {
+  const objectivePolicy = parseObjectivePolicy(objectiveBias);
+  if (!objectivePolicy.allowActions) {
+    return items.map((item) => ({ ...item, need_actions: false }));
+  }
+  if (objectivePolicy.forceActions) {
+    return items.map((item) => ({ ...item, need_actions: true }));
+  }
+  return items;
+}
+
+// 非 FMEA 评估工具的评价阶段：模型只给出评分/判定，等级与是否需要措施由系统推导
+async function runToolAssessment(
+  models: ModelContext,
+  tool: Exclude<EvalTool, "FMEA">,
+  riskItems: RiskItem[],
+  context: WorkflowContext,
+  handlers?: StreamHandlers,
+  signal?: AbortSignal
+): Promise<{ items: ToolAssessedItem[]; usage?: TokenUsage }> {
+  const promptInput = {
+    riskItemsJson: JSON.stringify({ items: riskItems }),
+    evidenceBlocks: context.evidenceBlocks,
+    scope: context.scope,
+    background: context.background,
+    objectiveBias: context.objectiveBias
+  };
+  const prompt =
+    tool === "PHA"
+      ? buildPhaScoringPrompt(promptInput)
+      : tool === "HACCP"
+        ? buildHaccpAnalysisPrompt(promptInput)
+        : buildRrfScoringPrompt(promptInput);
+  const response = handlers?.onLlmDelta
+    ? await callJsonLlmStream<unknown>(models.llm, prompt, "fmea_scoring", handlers, signal)
+    : await callJsonLlm<unknown>(models.llm, prompt, signal);
+  const riskIds = riskItems.map((item) => item.risk_id);
+  const items =
+    tool === "PHA"
+      ? mergePhaScoring(riskItems, parsePhaScoring(response.data, riskIds))
+      : tool === "HACCP"
+        ? mergeHaccpAnalysis(riskItems, parseHaccpAnalysis(response.data, riskIds))
+        : mergeRrfScoring(riskItems, parseRrfScoring(response.data, riskIds));
+  return { items, usage: response.usage };
+}
+
+// 风险控制阶段输入：FMEA 沿用 S/P/D 与 RPN，其余工具附带系统推导的评价结果
+function toRiskControlInput(item: AssessedRiskItem) {
+  const {
+    risk_id,
+    dimension_type: _dimensionType,
+    dimension,
+    dimension_id: _dimensionId,
+    failure_mode,
+    consequence,
+    level,
+    need_actions,
+    ...evaluation
+  } = item as ToolAssessedItem;
+  return { risk_id, dimension, failure_mode, consequence, level, need_actions, evaluation };
+}
+
 async function runWorkflow(
   models: ModelContext,
   input: ReportInput,
   handlers?: StreamHandlers,
-  signal?: AbortSignal
+  options?: WorkflowRunOptions
 ): Promise<GeneratedReport> {
+  const signal = options?.signal;
+  const reviewStages = new Set(options?.reviewStages ?? []);
+  const state: WorkflowState = { ...(options?.state ?? {}) };
+  let usage = state.usage;
+  const checkpoint = async () => {
+    state.usage = usage;
+    await options?.onCheckpoint?.({ ...state });
+  };
+
   ensureNotAborted(signal);
   handlers?.onStep?.("context", "running");
-  const contextStages: string[] = [];
-  const context = await buildWorkflowContext(models.embedding ?? null, input, undefined, {
-    onStage: (message) => {
-      contextStages.push(message);
-      handlers?.onContextStage?.(message);
+  let context = state.context;
+  if (!context) {
+    const contextStages: string[] = [];
+    context = await buildWorkflowContext(models.embedding ?? null, input, undefined, {
+      onStage: (message) => {
+        contextStages.push(message);
+        handlers?.onContextStage?.(message);
+      },
+      evidenceIndex: options?.evidenceIndex,
+      rerankModel: models.rerank ?? null
+    });
+    if (contextStages.length > 0) {
+      handlers?.onContextStages?.(contextStages);
     }
-  });
-  if (contextStages.length > 0) {
-    handlers?.onContextStages?.(contextStages);
   }
   handlers?.onContextMeta?.(context.retrievalMeta);
   handlers?.onContextEvidence?.(
-    context.evidenceChunks.map((item) => ({
+    context.evidenceChunks.map((item, index) => ({
+      id: evidenceChunkId(item, index),
       source: item.source,
       content: item.content,
       score: item.score,
+      rerank_score: item.rerankScore ?? null,
       filename: item.filename ?? null
     }))
   );
-  await sleep(3000, signal);
+  if (!state.context) {
+    state.context = context;
+    await checkpoint();
+    await sleep(3000, signal);
+  }
   handlers?.onStep?.("context", "done");
+  const scheme = context.scoringScheme ?? DEFAULT_SCORING_SCHEME;
+  const evalTool = resolveEvalTool(context.evalTool);
+  const evidenceIds = collectEvidenceIds(context.evidenceChunks);
 
   ensureNotAborted(signal);
   handlers?.onStep?.("hazard_identification", "running");
-  const useProcessFlow = Boolean(input.riskMethod?.includes("流程") && input.processSteps?.length);
-  const riskPrompt = useProcessFlow
-    ? buildHazardIdentificationProcessFlowPrompt({
-        scope: context.scope,
-        background: context.background,
-        objectiveBias: context.objectiveBias,
-        templateRequirements: context.templateRequirements,
-        processStepsJson: JSON.stringify(input.processSteps ?? []),
-        evidenceBlocks: context.evidenceBlocks
-      })
-    : buildHazardIdentificationFiveFactorsPrompt({
-        scope: context.scope,
-        background: context.background,
-        objectiveBias: context.objectiveBias,
-        templateRequirements: context.templateRequirements,
-        evidenceBlocks: context.evidenceBlocks
-      });
-  const riskResponse = handlers?.onLlmDelta
-    ? await callJsonLlmStream<HazardIdentificationOutput>(
-        models.llm,
-        riskPrompt,
-        "hazard_identification",
-        handlers,
-        signal
-      )
-    : await callJsonLlm<HazardIdentificationOutput>(models.llm, riskPrompt, signal);
-  let usage = accumulateUsage(undefined, riskResponse.usage);
-  handlers?.onUsage?.(usage ?? {});
-  const riskItems = parseHazardIdentification(riskResponse.data, useProcessFlow ? "process_flow" : "five_factors");
+  let riskItems = state.risk_items;
+  const identifiedNow = !riskItems;
+  // 续跑时沿用已识别风险项的方式，避免项目设置变更后校验不一致
+  const hazardMode =
+    riskItems?.[0]?.dimension_type ?? resolveHazardMode(context.riskMethod, Boolean(input.processSteps?.length));
+  if (!riskItems) {
+    const promptInput = {
+      scope: context.scope,
+      background: context.background,
+      objectiveBias: context.objectiveBias,
+      templateRequirements: context.templateRequirements,
+      evidenceBlocks: context.evidenceBlocks
+    };
+    const riskPrompt =
+      hazardMode === "process_flow"
+        ? buildHazardIdentificationProcessFlowPrompt({
+            ...promptInput,
+            processStepsJson: JSON.stringify(input.processSteps ?? [])
+          })
+        : hazardMode === "fishbone"
+          ? buildHazardIdentificationFishbonePrompt(promptInput)
+          : hazardMode === "five_why"
+            ? buildHazardIdentificationFiveWhyPrompt(promptInput)
+            : buildHazardIdentificationFiveFactorsPrompt(promptInput);
+    const riskResponse = handlers?.onLlmDelta
+      ? await callJsonLlmStream<HazardIdentificationOutput>(
+          models.llm,
+          riskPrompt,
+          "hazard_identification",
+          handlers,
+          signal
+        )
+      : await callJsonLlm<HazardIdentificationOutput>(models.llm, riskPrompt, signal);
+    usage = accumulateUsage(usage, riskResponse.usage);
+    handlers?.onUsage?.(usage ?? {});
+    riskItems = parseHazardIdentification(riskResponse.data, hazardMode, evidenceIds);
+  } else if (handlers?.onLlmDelta) {
+    handlers.onLlmDelta("hazard_identification", JSON.stringify({ items: riskItems }));
+  }
   handlers?.onStep?.("hazard_identification", "done");
 
   ensureNotAborted(signal);
   handlers?.onStep?.("mapping_validation", "running");
-  const mapping = validateHazardIdentification({ items: riskItems }, context.riskMethod);
+  const mapping = validateHazardIdentification({ items: riskItems }, hazardMode);
   if (!mapping.ok) {
     throw new Error(`一致性校验失败: ${mapping.issues.join("；")}`);
   }
   handlers?.onStep?.("mapping_validation", "done");
+  if (identifiedNow) {
+    state.risk_items = riskItems;
+    state.mapping_validation = mapping;
+    await checkpoint();
+    if (reviewStages.has("hazard_identification")) {
+      return { markdown: "", usage, state: { ...state }, pausedAt: "hazard_identification" };
+    }
+  }
 
   ensureNotAborted(signal);
   handlers?.onStep?.("fmea_scoring", "running");
-  const scoringPrompt = buildFmeaScoringPrompt({
-    riskItemsJson: JSON.stringify({ items: riskItems }),
-    evidenceBlocks: context.evidenceBlocks,
-    scope: context.scope,
-    background: context.background,
-    objectiveBias: context.objectiveBias
-  });
-  const scoringResponse = handlers?.onLlmDelta
-    ? await callJsonLlmStream<FmeaScoringOutput>(
-        models.llm,
-        scoringPrompt,
-        "fmea_scoring",
-        handlers,
-        signal
-      )
-    : await callJsonLlm<FmeaScoringOutput>(models.llm, scoringPrompt, signal);
-  usage = accumulateUsage(usage, scoringResponse.usage);
-  handlers?.onUsage?.(usage ?? {});
-  const scoring = parseFmeaScoring(scoringResponse.data, riskItems.map((item) => item.risk_id));
-  const objectivePolicy = parseObjectivePolicy(context.objectiveBias);
-  let scoredItems = mergeScoring(riskItems, scoring);
-  if (!objectivePolicy.allowActions) {
-    scoredItems = scoredItems.map((item) => ({ ...item, need_actions: false }));
-  } else if (objectivePolicy.forceActions) {
-    scoredItems = scoredItems.map((item) => ({ ...item, need_actions: true }));
+  let fmeaRows = state.fmea_rows;
+  let scoredItems = state.scored_items;
+  let toolItems = state.assessed_items;
+  const scoredNow = evalTool === "FMEA" ? !fmeaRows || !scoredItems : !toolItems;
+  if (evalTool !== "FMEA") {
+    if (!toolItems) {
+      const assessment = await runToolAssessment(models, evalTool, riskItems, context, handlers, signal);
+      usage = accumulateUsage(usage, assessment.usage);
+      handlers?.onUsage?.(usage ?? {});
+      toolItems = applyObjectivePolicy(assessment.items, context.objectiveBias);
+    } else if (handlers?.onLlmDelta) {
+      handlers.onLlmDelta("fmea_scoring", JSON.stringify({ rows: toolItems }));
+    }
+  } else if (!fmeaRows || !scoredItems) {
+    const scoringPrompt = buildFmeaScoringPrompt({
+      riskItemsJson: JSON.stringify({ items: riskItems }),
+      scoreValues: formatScoreValues(scheme),
+      evidenceBlocks: context.evidenceBlocks,
+      scope: context.scope,
+      background: context.background,
+      objectiveBias: context.objectiveBias
+    });
+    const scoringResponse = handlers?.onLlmDelta
+      ? await callJsonLlmStream<FmeaScoringOutput>(
+          models.llm,
+          scoringPrompt,
+          "fmea_scoring",
+          handlers,
+          signal
+        )
+      : await callJsonLlm<FmeaScoringOutput>(models.llm, scoringPrompt, signal);
+    usage = accumulateUsage(usage, scoringResponse.usage);
+    handlers?.onUsage?.(usage ?? {});
+    const scoring = parseFmeaScoring(
+      scoringResponse.data,
+      riskItems.map((item) => item.risk_id),
+      scheme,
+      evidenceIds
+    );
+    fmeaRows = scoring.rows;
+    scoredItems = applyObjectivePolicy(mergeScoring(riskItems, scoring, scheme), context.objectiveBias);
+  } else if (handlers?.onLlmDelta) {
+    handlers.onLlmDelta("fmea_scoring", JSON.stringify({ rows: fmeaRows }));
   }
   handlers?.onStep?.("fmea_scoring", "done");
+  if (scoredNow) {
+    if (evalTool === "FMEA") {
+      state.fmea_rows = fmeaRows;
+      state.scored_items = scoredItems;
+    } else {
+      state.assessed_items = toolItems;
+    }
+    await checkpoint();
+    // 非 FMEA 工具的评价结果暂不支持在线修改，不在评分节点暂停
+    if (reviewStages.has("fmea_scoring") && evalTool === "FMEA") {
+      return { markdown: "", usage, state: { ...state }, pausedAt: "fmea_scoring" };
+    }
+  }
 
   ensureNotAborted(signal);
   handlers?.onStep?.("action_generation", "running");
-  const needActions = scoredItems.filter((item) => item.need_actions);
-  let controlMeasures: ControlMeasureOutput = [];
-  let reevaluatedItems: ReevaluatedRiskItem[] = [];
-  let riskControlRows: Array<{
-    risk_id: string;
-    hazard: string;
-    actions: ControlMeasureOutput[number]["actions"];
-    s: number;
-    p: number;
-    d: number;
-    rpn: number;
-    level: string;
-  }> = [];
-  if (needActions.length > 0) {
+  const evaluatedItems: AssessedRiskItem[] = (evalTool === "FMEA" ? scoredItems : toolItems) ?? [];
+  const residual = evalTool === "FMEA";
+  const needActions = evaluatedItems.filter((item) => item.need_actions);
+  let controlMeasures: ControlMeasureOutput = state.control_measures ?? [];
+  let reevaluatedItems: ReevaluatedRiskItem[] = state.reevaluated_items ?? [];
+  if (state.control_measures && state.reevaluated_items) {
+    if (handlers?.onLlmDelta) {
+      handlers.onLlmDelta(
+        "action_generation",
+        JSON.stringify({
+          rows: residual
+            ? reevaluatedItems.map((item) => ({
+                risk_id: item.risk_id,
+                hazard: item.failure_mode,
+                actions: controlMeasures.find((entry) => entry.risk_id === item.risk_id)?.actions ?? [],
+                s: item.s,
+                p: item.p,
+                d: item.d
+              }))
+            : controlMeasures.map((entry) => ({
+                risk_id: entry.risk_id,
+                hazard: needActions.find((item) => item.risk_id === entry.risk_id)?.failure_mode ?? "",
+                actions: entry.actions
+              }))
+        })
+      );
+    }
+  } else if (needActions.length > 0) {
     const actionPrompt = buildRiskControlPrompt({
       scoredItemsJson: JSON.stringify({
-        items: needActions.map((item) => ({
-          risk_id: item.risk_id,
-          dimension: item.dimension,
-          failure_mode: item.failure_mode,
-          consequence: item.consequence,
-          s: item.s,
-          p: item.p,
-          d: item.d,
-          rpn: item.rpn,
-          level: item.level,
-          need_actions: item.need_actions
-        }))
+        items: residual
+          ? (scoredItems ?? [])
+              .filter((item) => item.need_actions)
+              .map((item) => ({
+                risk_id: item.risk_id,
+                dimension: item.dimension,
+                failure_mode: item.failure_mode,
+                consequence: item.consequence,
+                s: item.s,
+                p: item.p,
+                d: item.d,
+                rpn: item.rpn,
+                level: item.level,
+                need_actions: item.need_actions
+              }))
+          : needActions.map(toRiskControlInput)
       }),
+      scoreValues: formatScoreValues(scheme),
       scope: context.scope,
       background: context.background,
       objectiveBias: context.objectiveBias,
-      evidenceBlocks: context.evidenceBlocks
+      evidenceBlocks: context.evidenceBlocks,
+      residual
     });
     const actionResponse = handlers?.onLlmDelta
       ? await callJsonLlmStream<{ rows: Array<Record<string, unknown>> }>(
@@ -894,57 +1364,86 @@ async function runWorkflow(
       : await callJsonLlm<{ rows: Array<Record<string, unknown>> }>(models.llm, actionPrompt, signal);
     usage = accumulateUsage(usage, actionResponse.usage);
     handlers?.onUsage?.(usage ?? {});
-    const riskControl = parseRiskControlOutput(actionResponse.data, needActions.map((item) => item.risk_id));
-    controlMeasures = riskControl.rows.map((row) => ({ risk_id: row.risk_id, actions: row.actions }));
-    validateControlMeasuresOutput(controlMeasures, scoredItems);
-
-    const residualItems = mergeResidualScoring(
-      needActions.map((item) => ({
-        risk_id: item.risk_id,
-        dimension_type: item.dimension_type,
-        dimension: item.dimension,
-        dimension_id: item.dimension_id,
-        failure_mode: item.failure_mode,
-        consequence: item.consequence
-      })),
-      {
-        rows: riskControl.rows.map((row) => ({
-          risk_id: row.risk_id,
-          s: row.s,
-          p: row.p,
-          d: row.d
-        }))
-      }
-    );
-    reevaluatedItems = residualItems;
-
-    const controlMeasuresMap = new Map(controlMeasures.map((entry) => [entry.risk_id, entry.actions]));
-    const reevaluatedMap = new Map(reevaluatedItems.map((item) => [item.risk_id, item]));
-    riskControlRows = needActions.map((item) => {
-      const reevaluated = reevaluatedMap.get(item.risk_id);
-      return {
-        risk_id: item.risk_id,
-        hazard: item.failure_mode,
-        actions: controlMeasuresMap.get(item.risk_id) ?? [],
-        s: reevaluated?.s ?? item.s,
-        p: reevaluated?.p ?? item.p,
-        d: reevaluated?.d ?? item.d,
-        rpn: reevaluated?.rpn ?? item.rpn,
-        level: reevaluated?.level ?? item.level
-      };
-    });
+    const requiredIds = needActions.map((item) => item.risk_id);
+    if (!residual) {
+      const measures = parseControlMeasureOutput(actionResponse.data, requiredIds, evidenceIds);
+      controlMeasures = measures.rows.map((row) => ({ risk_id: row.risk_id, actions: row.actions }));
+      validateControlMeasuresOutput(controlMeasures, evaluatedItems);
+    } else {
+      const riskControl = parseRiskControlOutput(actionResponse.data, requiredIds, scheme, evidenceIds);
+      controlMeasures = riskControl.rows.map((row) => ({ risk_id: row.risk_id, actions: row.actions }));
+      validateControlMeasuresOutput(controlMeasures, evaluatedItems);
+
+      const residualItems = mergeResidualScoring(
+        needActions.map((item) => ({
+          risk_id: item.risk_id,
+          dimension_type: item.dimension_type,
+          dimension: item.dimension,
+          dimension_id: item.dimension_id,
+          failure_mode: item.failure_mode,
+          consequence: item.consequence
+        })),
+        {
+          rows: riskControl.rows.map((row) => ({
+            risk_id: row.risk_id,
+            s: row.s,
+            p: row.p,
+            d: row.d
+          }))
+        },
+        scheme
+      );
+      reevaluatedItems = residualItems;
+    }
   } else if (handlers?.onLlmDelta) {
     handlers.onLlmDelta("action_generation", JSON.stringify({ rows: [] }));
   }
+  if (!state.control_measures || !state.reevaluated_items) {
+    state.control_measures = controlMeasures;
+    state.reevaluated_items = reevaluatedItems;
+    await checkpoint();
+  }
+  const controlMeasuresMap = new Map(controlMeasures.map((entry) => [entry.risk_id, entry.actions]));
+  const reevaluatedMap = new Map(reevaluatedItems.map((item) => [item.risk_id, item]));
+  const scoredMap = new Map((scoredItems ?? []).map((item) => [item.risk_id, item]));
+  const riskControlRows = needActions.map((item) => {
+    const reevaluated = reevaluatedMap.get(item.risk_id);
+    const scored = scoredMap.get(item.risk_id);
+    return {
+      risk_id: item.risk_id,
+      hazard: item.failure_mode,
+      actions: controlMeasuresMap.get(item.risk_id) ?? [],
+      scores:
+        residual && scored
+          ? {
+              s: reevaluated?.s ?? scored.s,
+              p: reevaluated?.p ?? scored.p,
+              d: reevaluated?.d ?? scored.d,
+              rpn: reevaluated?.rpn ?? scored.rpn
+            }
+          : null,
+      level: reevaluated?.level ?? item.level
+    };
+  });
   handlers?.onStep?.("action_generation", "done");
 
   ensureNotAborted(signal);
   handlers?.onStep?.("control_plan", "running");
-  let actions: ActionOutput = [];
-  if (controlMeasures.length > 0) {
+  let actions: ActionOutput = state.actions ?? [];
+  if (state.actions) {
+    if (handlers?.onLlmDelta) {
+      handlers.onLlmDelta("control_plan", JSON.stringify(actions));
+    }
+  } else if (controlMeasures.length > 0) {
     const today = formatLocalDate(new Date());
     const planPrompt = buildControlPlanPrompt({
-      controlMeasuresJson: JSON.stringify(controlMeasures),
+      // 引用编号不参与控制计划，合并时从控制措施中保留
+      controlMeasuresJson: JSON.stringify(
+        controlMeasures.map((entry) => ({
+          risk_id: entry.risk_id,
+          actions: entry.actions.map((action) => ({ type: action.type, action_text: action.action_text }))
+        }))
+      ),
       scope: context.scope,
       background: context.background,
       objectiveBias: context.objectiveBias,
@@ -957,52 +1456,75 @@ async function runWorkflow(
     handlers?.onUsage?.(usage ?? {});
     const rawPlan = parseControlPlan(planResponse.data, controlMeasures.map((item) => item.risk_id), today);
     actions = mergePlanWithMeasures(controlMeasures, rawPlan);
-    validateActionsOutput(actions, scoredItems);
+    validateActionsOutput(actions, evaluatedItems);
   } else if (handlers?.onLlmDelta) {
     handlers.onLlmDelta("control_plan", "[]");
   }
+  if (!state.actions) {
+    state.actions = actions;
+    await checkpoint();
+  }
   handlers?.onStep?.("control_plan", "done");
 
   ensureNotAborted(signal);
   handlers?.onStep?.("rendering", "running");
-  const renderItems = scoredItems.map((item, index) => ({
+  const claimWarnings = await verifyProcedureClaims(models.embedding ?? null, {
+    items: evaluatedItems,
+    actions,
+    sopSources:
+      input.sopSources && input.sopSources.length > 0
+        ? input.sopSources
+        : input.sopTexts.map((text) => ({ text, filename: null })),
+    evidenceIndex: options?.evidenceIndex
+  });
+  const reviewSchedule = resolveReviewSchedule(evaluatedItems, context, new Date());
+  // 引用标注直接拼入文本，编号按报告中的出现顺序分配，引用来源由系统附在报告末尾
+  const citations = createCitationIndex(context.evidenceChunks);
+  const renderItems = evaluatedItems.map((item, index) => ({
     seq: index + 1,
     dimension: item.dimension,
-    failure_mode: item.failure_mode,
+    failure_mode: withCitation(item.failure_mode, citations.cite(item.evidence_ids)),
     consequence: item.consequence
   }));
-  const renderScoredItems = scoredItems.map((item, index) => ({
-    seq: index + 1,
-    dimension: item.dimension,
-    failure_mode: item.failure_mode,
-    consequence: item.consequence,
-    s: item.s,
-    s_reason: item.s_reason,
-    p: item.p,
-    p_reason: item.p_reason,
-    d: item.d,
-    d_reason: item.d_reason,
-    rpn: item.rpn,
-    level: item.level
-  }));
-  const actionSeqMap = new Map(scoredItems.map((item, index) => [item.risk_id, index + 1]));
-  const renderActions = actions.map((entry) => ({
-    seq: actionSeqMap.get(entry.risk_id) ?? null,
-    actions: entry.actions
-  }));
-  const methodText = [
-    `风险识别方法：${context.riskMethod}。`,
-    `评估工具：${context.evalTool}，采用严重性(S)、可能性(P)、可测性(D)三维评分，取值为 9/6/3/1。`,
-    `系统按 RPN=S×P×D 计算风险等级：RPN<27 极低，27-53 低，54-107 中，≥108 高。`
-  ].join("\n");
-  const formatActionsText = (items: Array<{ action_text: string }>) => {
+  const renderScoredItems =
+    evalTool === "FMEA"
+      ? (scoredItems ?? []).map((item, index) => ({
+          seq: index + 1,
+          dimension: item.dimension,
+          failure_mode: item.failure_mode,
+          consequence: item.consequence,
+          s: item.s,
+          s_reason: withCitation(item.s_reason, citations.cite(item.s_evidence_ids)),
+          p: item.p,
+          p_reason: withCitation(item.p_reason, citations.cite(item.p_evidence_ids)),
+          d: item.d,
+          d_reason: withCitation(item.d_reason, citations.cite(item.d_evidence_ids)),
+          rpn: item.rpn,
+          level: item.level
+        }))
+      : (toolItems ?? [])
+          .map((item, index) => {
+            const {
+              risk_id: _riskId,
+              dimension_type: _dimensionType,
+              dimension_id: _dimensionId,
+              need_actions: _needActions,
+              tool: _tool,
+              evidence_ids: _evidenceIds,
+              ...rest
+            } = item;
+            return { seq: index + 1, ...rest };
+          })
+          .sort((a, b) => ("rank" in a && "rank" in b ? a.rank - b.rank : 0));
+  const methodText = buildMethodText(context);
+  const formatActionsText = (items: Array<{ action_text: string; evidence_ids?: string[] }>) => {
     if (!items.length) {
       return "—";
     }
     return items
       .map((action, index) => {
         const text = action.action_text.replace(/\|/g, "｜").replace(/\s+/g, " ").trim();
-        return `${index + 1}. ${text}`;
+        return `${index + 1}. ${withCitation(text, citations.cite(action.evidence_ids))}`;
       })
       .join("<br>");
   };
@@ -1015,49 +1537,159 @@ async function runWorkflow(
       action_text: action.action_text,
       type: action.type
     })),
-    s: row.s,
-    p: row.p,
-    d: row.d,
-    rpn: row.rpn,
+    ...(row.scores ?? {}),
     level: row.level
   }));
-  const renderPrompt = buildMarkdownRenderPrompt({
-    title: input.title,
-    templateContent: input.templateContent ?? "",
-    scope: context.scope,
-    background: context.background,
-    objectiveBias: context.objectiveBias,
-    hazardMethodText: context.riskMethod,
-    methodText,
-    riskItemsJson: JSON.stringify(renderItems),
-    scoredItemsJson: JSON.stringify(renderScoredItems),
-    actionsJson: JSON.stringify(renderActions),
-    reevaluatedItemsJson: JSON.stringify(renderReevaluatedItems)
-  });
-  const renderResult = handlers?.onDelta
-    ? await callMarkdownStream(models.llm, renderPrompt, handlers, signal)
-    : await callMarkdownLlm(models.llm, renderPrompt, signal);
-  usage = accumulateUsage(usage, renderResult.usage);
-  handlers?.onUsage?.(usage ?? {});
-  const markdown = renderResult.content;
+  const actionSeqMap = new Map(evaluatedItems.map((item, index) => [item.risk_id, index + 1]));
+  const renderActions = actions.map((entry) => ({
+    seq: actionSeqMap.get(entry.risk_id) ?? null,
+    actions: entry.actions.map(({ evidence_ids: evidenceIds, ...action }) => ({
+      ...action,
+      action_text: withCitation(action.action_text, citations.cite(evidenceIds))
+    }))
+  }));
+  const renderMode: RenderMode = input.renderMode === "deterministic" ? "deterministic" : "llm";
+  let markdown: string;
+  let narratives: Record<string, string> | null = null;
+  let renderCheck: RenderCheck | null = null;
+  let renderAttempts = 1;
+  if (renderMode === "deterministic" || hasTemplatePlaceholders(input.templateContent ?? null)) {
+    // 占位符模板：模型只撰写叙述段落，其余内容由结构化结果确定性填充；确定性渲染模式下叙述段落也不调用模型
+    const narrativeSections = renderMode === "llm" ? listNarrativePlaceholders(input.templateContent ?? null) : [];
+    if (narrativeSections.length > 0) {
+      const narrativePrompt = buildNarrativePrompt({
+        title: input.title,
+        scope: context.scope,
+        background: context.background,
+        objectiveBias: context.objectiveBias,
+        hazardMethodText: context.riskMethod,
+        methodText,
+        sections: narrativeSections.map((section) => ({ key: narrativeKey(section), label: section.label })),
+        riskItemsJson: JSON.stringify(renderItems),
+        scoredItemsJson: JSON.stringify(renderScoredItems),
+        reevaluatedItemsJson: JSON.stringify(renderReevaluatedItems)
+      });
+      const narrativeResponse = handlers?.onLlmDelta
+        ? await callJsonLlmStream<Record<string, unknown>>(models.llm, narrativePrompt, "rendering", handlers, signal)
+        : await callJsonLlm<Record<string, unknown>>(models.llm, narrativePrompt, signal);
+      usage = accumulateUsage(usage, narrativeResponse.usage);
+      handlers?.onUsage?.(usage ?? {});
+      narratives = parseNarratives(narrativeResponse.data, narrativeSections);
+    }
+    markdown = renderReportMarkdown({
+      title: input.title,
+      templateContent: input.templateContent ?? null,
+      context,
+      items: evaluatedItems,
+      actions,
+      sources: input.sourceFiles ?? [],
+      reviewSchedule,
+      narratives
+    });
+    renderCheck = checkRenderedTables(markdown, {
+      items: evaluatedItems,
+      actions,
+      evalTool: context.evalTool,
+      mode: "deterministic",
+      templateContent: input.templateContent ?? null
+    });
+    handlers?.onDelta(markdown);
+  } else {
+    const renderInput = {
+      evalTool,
+      title: input.title,
+      templateContent: input.templateContent ?? "",
+      scope: context.scope,
+      background: context.background,
+      objectiveBias: context.objectiveBias,
+      hazardMethodText: context.riskMethod,
+      methodText,
+      riskItemsJson: JSON.stringify(renderItems),
+      hazardDiagram: renderHazardDiagram(evaluatedItems),
+      scoredItemsJson: JSON.stringify(renderScoredItems),
+      actionsJson: JSON.stringify(renderActions),
+      reevaluatedItemsJson: JSON.stringify(renderReevaluatedItems),
+      reviewText: buildReviewText(reviewSchedule)
+    };
+    const renderPrompt = buildMarkdownRenderPrompt(renderInput);
+    const renderResult = handlers?.onDelta
+      ? await callMarkdownStream(models.llm, renderPrompt, handlers, signal)
+      : await callMarkdownLlm(models.llm, renderPrompt, signal);
+    usage = accumulateUsage(usage, renderResult.usage);
+    handlers?.onUsage?.(usage ?? {});
+    const citationSection = buildCitationSection(citations);
+    if (citationSection) {
+      handlers?.onDelta(citationSection);
+    }
+    markdown = `${renderResult.content}${citationSection}`;
+    const checkData = {
+      items: evaluatedItems,
+      actions,
+      evalTool: context.evalTool,
+      mode: "llm" as const,
+      controls: riskControlRows.map((row) => ({
+        failure_mode: row.hazard,
+        actions: row.actions,
+        scores: row.scores,
+        level: row.level
+      }))
+    };
+    renderCheck = checkRenderedTables(markdown, checkData);
+    if (!renderCheck.ok && input.autoRerender) {
+      // 附上核对问题重新渲染一次，保留不一致项较少的结果
+      ensureNotAborted(signal);
+      renderAttempts = 2;
+      const retryResult = await callMarkdownLlm(
+        models.llm,
+        buildMarkdownRenderPrompt({
+          ...renderInput,
+          corrections: renderCheck.issues.slice(0, MAX_RENDER_CORRECTIONS).map(formatRenderIssue)
+        }),
+        signal
+      );
+      usage = accumulateUsage(usage, retryResult.usage);
+      handlers?.onUsage?.(usage ?? {});
+      const retryMarkdown = `${retryResult.content}${citationSection}`;
+      const retryCheck = checkRenderedTables(retryMarkdown, checkData);
+      if (retryCheck.issues.length < renderCheck.issues.length) {
+        markdown = retryMarkdown;
+        renderCheck = retryCheck;
+        handlers?.onReplace?.(markdown);
+      }
+    }
+  }
   handlers?.onStep?.("rendering", "done");
 
   const json = {
     context,
     risk_items: riskItems,
-    fmea_rows: scoring.rows,
+    eval_tool: evalTool,
+    fmea_rows: fmeaRows,
     scored_items: scoredItems,
+    assessed_items: toolItems,
     control_measures: controlMeasures,
     reevaluated_items: reevaluatedItems,
     actions,
-    mapping_validation: mapping
+    mapping_validation: mapping,
+    claim_warnings: claimWarnings,
+    review_schedule: reviewSchedule,
+    narratives,
+    render_mode: renderMode,
+    render_check: renderCheck,
+    render_attempts: renderAttempts,
+    source_files: input.sourceFiles ?? []
   };
 
-  return { markdown, json, usage };
+  state.usage = usage;
+  return { markdown, json, usage, state, reviewSchedule };
 }
 
-export async function generateReport(models: ModelContext, input: ReportInput): Promise<GeneratedReport> {
-  return runWorkflow(models, input);
+export async function generateReport(
+  models: ModelContext,
+  input: ReportInput,
+  options?: Omit<WorkflowRunOptions, "signal">
+): Promise<GeneratedReport> {
+  return runWorkflow(models, input, undefined, options);
 }
 
 export async function generateReportMarkdown(models: ModelContext, input: ReportInput): Promise<GeneratedReport> {
@@ -1069,7 +1701,7 @@ export async function generateReportStream(
   models: ModelContext,
   input: ReportInput,
   handlers: StreamHandlers,
-  options?: { signal?: AbortSignal }
+  options?: WorkflowRunOptions
 ): Promise<GeneratedReport> {
-  return runWorkflow(models, input, handlers, options?.signal);
+  return runWorkflow(models, input, handlers, options);
 }
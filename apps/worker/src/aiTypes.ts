@@ -13,6 +13,10 @@ export type ReportInput = {
   searchResults?: string[];
   sourceFiles?: Array<{ type: string; filename: string }>;
   processSteps?: Array<{ step_id: string; step_name: string }>;
+  scoringScheme?: ScoringScheme;
+  renderMode?: RenderMode;
+  // 模型撰写的报告表格与结构化结果不一致时自动重新渲染一次
+  autoRerender?: boolean;
 };
 
 export type TokenUsage = {
@@ -25,18 +29,50 @@ export type GeneratedReport = {
   markdown: string;
   json?: unknown;
   usage?: TokenUsage;
+  state?: WorkflowState;
+  pausedAt?: ReviewStage;
+  reviewSchedule?: ReviewSchedule | null;
 };
 
 export type EvidenceChunk = {
+  // 片段编号（E1、E2…），风险项、评分理由与措施通过 evidence_ids 引用
+  id?: string;
   source: "sop" | "literature";
   content: string;
   score: number;
+  rerankScore?: number | null;
   filename?: string | null;
 };
 
 export type SourceText = {
   text: string;
   filename: string | null;
+  fileId?: string | null;
+};
+
+export type IndexedEvidenceChunk = {
+  content: string;
+  embedding: number[];
+};
+
+// 按上传文件持久化的分块向量索引，键为文本哈希 + Embedding 模型 ID
+export type EvidenceIndexStore = {
+  load: (fileId: string, textHash: string, embeddingModelId: string) => Promise<IndexedEvidenceChunk[] | null>;
+  save: (fileId: string, textHash: string, embeddingModelId: string, chunks: IndexedEvidenceChunk[]) => Promise<void>;
+};
+
+export type ScoringLevelBand = {
+  level: string;
+  min_rpn: number;
+};
+
+// S/P/D 取值、RPN 等级区间（按 min_rpn 升序，首档为 0）与需采取措施的 RPN 阈值
+export type ScoringScheme = {
+  id: string | null;
+  name: string;
+  values: number[];
+  levels: ScoringLevelBand[];
+  action_threshold: number;
 };
 
 export type WorkflowContext = {
@@ -46,23 +82,39 @@ export type WorkflowContext = {
   templateRequirements: string;
   riskMethod: string;
   evalTool: string;
+  // 旧检查点中可能缺失，缺失时按默认方案处理
+  scoringScheme?: ScoringScheme;
   evidenceBlocks: string;
   evidenceChunks: EvidenceChunk[];
   retrievalMeta: {
     usedEmbedding: boolean;
+    usedRerank?: boolean;
     sopTextCount: number;
     literatureTextCount: number;
     evidenceChunkCount: number;
   };
 };
 
+export type RiskMethod = "five_factors" | "process_flow" | "fishbone" | "five_why";
+
 export type RiskItem = {
   risk_id: string;
-  dimension_type: "five_factors" | "process_flow";
+  dimension_type: RiskMethod;
   dimension: string;
   dimension_id: string | null;
   failure_mode: string;
   consequence: string;
+  evidence_ids?: string[];
+  // 仅 5-Why 法：从问题现象逐层追问至根本原因，末层为根本原因
+  why_chain?: string[];
+};
+
+export type EvalTool = "FMEA" | "PHA" | "HACCP" | "RRF";
+
+// 各评估工具统一输出的等级与是否需要措施，供风险控制与行动计划阶段使用
+export type AssessedRiskItem = RiskItem & {
+  level: string;
+  need_actions: boolean;
 };
 
 export type HazardIdentificationOutput = {
@@ -71,12 +123,15 @@ export type HazardIdentificationOutput = {
 
 export type FmeaScoringRow = {
   risk_id: string;
-  s: 1 | 3 | 6 | 9;
+  s: number;
   s_reason: string;
-  p: 1 | 3 | 6 | 9;
+  s_evidence_ids?: string[];
+  p: number;
   p_reason: string;
-  d: 1 | 3 | 6 | 9;
+  p_evidence_ids?: string[];
+  d: number;
   d_reason: string;
+  d_evidence_ids?: string[];
 };
 
 export type FmeaScoringOutput = {
@@ -85,9 +140,9 @@ export type FmeaScoringOutput = {
 
 export type ResidualFmeaRow = {
   risk_id: string;
-  s: 1 | 3 | 6 | 9;
-  p: 1 | 3 | 6 | 9;
-  d: 1 | 3 | 6 | 9;
+  s: number;
+  p: number;
+  d: number;
 };
 
 export type ResidualFmeaOutput = {
@@ -95,25 +150,92 @@ export type ResidualFmeaOutput = {
 };
 
 export type ScoredRiskItem = RiskItem & {
-  s: 1 | 3 | 6 | 9;
+  s: number;
   s_reason: string;
-  p: 1 | 3 | 6 | 9;
+  s_evidence_ids?: string[];
+  p: number;
   p_reason: string;
-  d: 1 | 3 | 6 | 9;
+  p_evidence_ids?: string[];
+  d: number;
   d_reason: string;
+  d_evidence_ids?: string[];
   rpn: number;
-  level: "极低" | "低" | "中" | "高";
+  level: string;
   need_actions: boolean;
 };
 
 export type ReevaluatedRiskItem = RiskItem & {
-  s: 1 | 3 | 6 | 9;
-  p: 1 | 3 | 6 | 9;
-  d: 1 | 3 | 6 | 9;
+  s: number;
+  p: number;
+  d: number;
   rpn: number;
-  level: "极低" | "低" | "中" | "高";
+  level: string;
+};
+
+export type PhaScoringRow = {
+  risk_id: string;
+  severity: number;
+  severity_reason: string;
+  likelihood: number;
+  likelihood_reason: string;
+};
+
+export type PhaScoringOutput = {
+  rows: PhaScoringRow[];
+};
+
+export type PhaAssessedItem = AssessedRiskItem &
+  Omit<PhaScoringRow, "risk_id"> & {
+    tool: "PHA";
+    risk_index: number;
+  };
+
+// HACCP 判断树：q3/q4 仅在前一问未得出结论时作答，否则为 null
+export type HaccpAnalysisRow = {
+  risk_id: string;
+  q1: boolean;
+  q2: boolean;
+  q3: boolean | null;
+  q4: boolean | null;
+  decision_reason: string;
+  critical_limit: string;
+  monitoring: string;
+};
+
+export type HaccpAnalysisOutput = {
+  rows: HaccpAnalysisRow[];
+};
+
+export type HaccpAssessedItem = AssessedRiskItem &
+  Omit<HaccpAnalysisRow, "risk_id"> & {
+    tool: "HACCP";
+    is_ccp: boolean;
+    ccp_no: string | null;
+  };
+
+export type RrfScoringRow = {
+  risk_id: string;
+  patient_impact: number;
+  patient_impact_reason: string;
+  compliance_impact: number;
+  compliance_impact_reason: string;
+  occurrence: number;
+  occurrence_reason: string;
+};
+
+export type RrfScoringOutput = {
+  rows: RrfScoringRow[];
 };
 
+export type RrfAssessedItem = AssessedRiskItem &
+  Omit<RrfScoringRow, "risk_id"> & {
+    tool: "RRF";
+    weighted_score: number;
+    rank: number;
+  };
+
+export type ToolAssessedItem = PhaAssessedItem | HaccpAssessedItem | RrfAssessedItem;
+
 export type ControlMeasureItem = {
   type:
     | "SOP/规程"
@@ -124,6 +246,7 @@ export type ControlMeasureItem = {
     | "双人复核/独立审核"
     | "其他";
   action_text: string;
+  evidence_ids?: string[];
 };
 
 export type ControlMeasureOutput = Array<{
@@ -142,7 +265,106 @@ export type ActionOutput = Array<{
   actions: ActionItem[];
 }>;
 
+export type ProcedureClaimKind = "document_code" | "system" | "control";
+
+// 评分理由与措施中提及的内部程序/系统/控制，在项目 SOP 中未找到依据时记为警告
+export type ProcedureClaimWarning = {
+  risk_id: string;
+  field: "p_reason" | "d_reason" | "action_text";
+  action_index: number | null;
+  location: string;
+  kind: ProcedureClaimKind;
+  claim: string;
+  message: string;
+};
+
+// llm：由模型参照模板撰写全文；deterministic：按结构化结果直接渲染，不调用模型
+export type RenderMode = "llm" | "deterministic";
+
+export type RenderCheckTable = "risk" | "evaluation" | "control" | "actions";
+
+export type RenderCheckIssue = {
+  table: RenderCheckTable;
+  row: number | null;
+  field: string;
+  expected: string;
+  actual: string;
+  message: string;
+};
+
+// 渲染后的表格与结构化结果的一致性核对结果
+export type RenderCheck = {
+  ok: boolean;
+  tables: Array<{ table: RenderCheckTable; expected_rows: number; actual_rows: number | null }>;
+  issues: RenderCheckIssue[];
+};
+
+export type ScoreField = "s" | "p" | "d" | "rpn" | "level";
+
+export type ScoreChange = {
+  field: ScoreField;
+  before: number | string | null;
+  after: number | string | null;
+};
+
+// 两个报告版本间按失效模式相似度配对的风险项差异
+export type RiskItemDiff = {
+  status: "unchanged" | "changed" | "added" | "removed";
+  base_risk_id: string | null;
+  target_risk_id: string | null;
+  base_failure_mode: string | null;
+  target_failure_mode: string | null;
+  similarity: number | null;
+  score_changes: ScoreChange[];
+  added_actions: string[];
+  removed_actions: string[];
+};
+
+export type MarkdownDiffLine = {
+  type: "equal" | "added" | "removed";
+  text: string;
+  base_line: number | null;
+  target_line: number | null;
+};
+
+export type ReportDiff = {
+  summary: {
+    unchanged: number;
+    changed: number;
+    added: number;
+    removed: number;
+    added_actions: number;
+    removed_actions: number;
+  };
+  items: RiskItemDiff[];
+  markdown: MarkdownDiffLine[];
+};
+
+// 按报告最高风险等级确定的定期再评估计划
+export type ReviewSchedule = {
+  level: string;
+  interval_months: number;
+  due_date: string;
+};
+
 export type MappingValidation = {
   ok: boolean;
   issues: string[];
 };
+
+export type ReviewStage = "hazard_identification" | "fmea_scoring";
+
+// 各阶段产出的检查点，字段存在即表示该阶段已完成，续跑时直接复用
+export type WorkflowState = {
+  context?: WorkflowContext;
+  risk_items?: RiskItem[];
+  mapping_validation?: MappingValidation;
+  fmea_rows?: FmeaScoringRow[];
+  scored_items?: ScoredRiskItem[];
+  // 非 FMEA 评估工具的评价结果
+  assessed_items?: ToolAssessedItem[];
+  control_measures?: ControlMeasureOutput;
+  reevaluated_items?: ReevaluatedRiskItem[];
+  actions?: ActionOutput;
+  usage?: TokenUsage;
+};
@@ -0,0 +1,221 @@
+import type { Env, User } from "./types";
+import { nowIso } from "./utils";
+
+export type AuditEntityType =
+  | "auth"
+  | "user"
+  | "user_quota"
+  | "model"
+  | "template"
+  | "scoring_scheme"
+  | "project"
+  | "project_file"
+  | "report"
+  | "report_export"
+  | "capa_action"
+  | "team"
+  | "project_member"
+  | "audit_log";
+
+export type AuditEntry = {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  projectId?: string | null;
+  oldValue?: unknown;
+  newValue?: unknown;
+};
+
+export type AuditActor = {
+  user: Pick<User, "id" | "email"> | null;
+  ip: string | null;
+  userAgent: string | null;
+};
+
+export type AuditLogRecord = {
+  id: string;
+  user_id: string | null;
+  user_email: string | null;
+  action: string;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  project_id: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  created_at: string;
+};
+
+export type AuditLogFilters = {
+  userEmail?: string | null;
+  entityType?: string | null;
+  entityId?: string | null;
+  action?: string | null;
+  from?: string | null;
+  to?: string | null;
+};
+
+export const AUDIT_EXPORT_LIMIT = 10000;
+
+// 密码、密钥与会话令牌不落入审计记录
+const REDACTED_KEYS = new Set([
+  "password",
+  "password_hash",
+  "password_salt",
+  "api_key",
+  "apikey",
+  "token",
+  "admin_key",
+  "adminkey"
+]);
+
+const redact = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [
+        key,
+        REDACTED_KEYS.has(key.toLowerCase()) && entry ? "***" : redact(entry)
+      ])
+    );
+  }
+  return value;
+};
+
+const serialize = (value: unknown) => (value === undefined ? null : JSON.stringify(redact(value)));
+
+// 审计表只追加（数据库触发器拒绝修改与删除）；写入失败时向上抛出，由调用方决定请求结果
+export async function recordAuditLog(env: Env, actor: AuditActor, entry: AuditEntry): Promise<void> {
+  await env.DB.prepare(
+    "INSERT INTO audit_logs (id, user_id, user_email, action, entity_type, entity_id, project_id, old_value, new_value, ip, user_agent, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
+  )
+    .bind(
+      crypto.randomUUID(),
+      actor.user?.id ?? null,
+      actor.user?.email ?? null,
+      entry.action,
+      entry.entityType,
+      entry.entityId ?? null,
+      entry.projectId ?? null,
+      serialize(entry.oldValue),
+      serialize(entry.newValue),
+      actor.ip,
+      actor.userAgent,
+      nowIso()
+    )
+    .run();
+}
+
+export function parseAuditFilters(query: (key: string) => string | undefined): AuditLogFilters {
+  const read = (key: string) => query(key)?.trim() || null;
+  const readDate = (key: string) => {
+    const value = read(key);
+    return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+  };
+  return {
+    userEmail: read("user"),
+    entityType: read("entity_type"),
+    entityId: read("entity_id"),
+    action: read("action"),
+    from: readDate("from"),
+    to: readDate("to")
+  };
+}
+
+export async function listAuditLogs(
+  env: Env,
+  filters: AuditLogFilters,
+  page: { limit: number; offset: number }
+): Promise<{ logs: AuditLogRecord[]; total: number }> {
+  const conditions: string[] = [];
+  const bindings: unknown[] = [];
+  if (filters.userEmail) {
+    conditions.push("user_email LIKE ?");
+    bindings.push(`%${filters.userEmail}%`);
+  }
+  if (filters.entityType) {
+    conditions.push("entity_type = ?");
+    bindings.push(filters.entityType);
+  }
+  if (filters.entityId) {
+    conditions.push("(entity_id = ? OR project_id = ?)");
+    bindings.push(filters.entityId, filters.entityId);
+  }
+  if (filters.action) {
+    conditions.push("action LIKE ?");
+    bindings.push(`%${filters.action}%`);
+  }
+  if (filters.from) {
+    conditions.push("created_at >= ?");
+    bindings.push(filters.from);
+  }
+  if (filters.to) {
+    // 截止日期包含当天
+    conditions.push("created_at < date(?, '+1 day')");
+    bindings.push(filters.to);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")} ` : "";
+  const countRow = await env.DB.prepare(`SELECT COUNT(*) AS total FROM audit_logs ${where}`)
+    .bind(...bindings)
+    .first();
+  const rows = await env.DB.prepare(
+    "SELECT id, user_id, user_email, action, entity_type, entity_id, project_id, old_value, new_value, ip, user_agent, created_at " +
+      `FROM audit_logs ${where}ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`
+  )
+    .bind(...bindings, page.limit, page.offset)
+    .all();
+  return {
+    logs: (rows.results ?? []) as unknown as AuditLogRecord[],
+    total: Number(countRow?.total ?? 0)
+  };
+}
+
+const escapeCsv = (value: unknown) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// 带 BOM 的 UTF-8 CSV，便于直接用 Excel 打开
+export function buildAuditCsv(logs: AuditLogRecord[]): string {
+  const header = ["时间", "用户", "用户ID", "操作", "对象类型", "对象ID", "项目ID", "原值", "新值", "IP", "User-Agent"];
+  const lines = logs.map((log) =>
+    [
+      log.created_at,
+      log.user_email,
+      log.user_id,
+      log.action,
+      log.entity_type,
+      log.entity_id,
+      log.project_id,
+      log.old_value,
+      log.new_value,
+      log.ip,
+      log.user_agent
+    ]
+      .map(escapeCsv)
+      .join(",")
+  );
+  return `\uFEFF${[header.join(","), ...lines].join("\r\n")}\r\n`;
+}
+
+// 仅保留前后取值不同的字段，便于在审计记录中直接看出改动
+export function pickChangedFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): { oldValue: Record<string, unknown>; newValue: Record<string, unknown> } {
+  const oldValue: Record<string, unknown> = {};
+  const newValue: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const key of keys) {
+    const previous = before?.[key] ?? null;
+    const next = after?.[key] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      oldValue[key] = previous;
+      newValue[key] = next;
+    }
+  }
+  return { oldValue, newValue };
+}
@@ -0,0 +1,279 @@
+import type { AssessedRiskItem, RiskItem } from "./aiTypes";
+import type { ReportData } from "./reportEdits";
+import type { Env } from "./types";
+import { ACCESSIBLE_PROJECT_SQL } from "./sharing";
+import { nowIso } from "./utils";
+
+export const CAPA_STATUSES = ["open", "in_progress", "done", "verified"] as const;
+
+export type CapaStatus = (typeof CAPA_STATUSES)[number];
+
+// 风险项的残余风险状态：措施未全部完成 / 措施均已完成 / 措施均已验证有效
+export type CapaResidualStatus = "open" | "closed" | "verified";
+
+export type CapaActionRecord = {
+  id: string;
+  project_id: string;
+  project_title: string;
+  report_id: string;
+  version: number;
+  risk_id: string;
+  seq: number;
+  failure_mode: string;
+  level: string | null;
+  residual_level: string | null;
+  residual_status: CapaResidualStatus;
+  action_index: number;
+  type: string;
+  action_text: string;
+  owner_role: string | null;
+  owner_dept: string | null;
+  planned_date: string | null;
+  status: CapaStatus;
+  completed_at: string | null;
+  effectiveness_notes: string | null;
+  updated_at: string;
+  overdue: boolean;
+};
+
+const CAPA_SELECT =
+  "SELECT a.id, a.project_id, p.title AS project_title, a.report_id, r.version, a.risk_id, k.seq, k.failure_mode, k.level, k.residual_level, k.residual_status, a.action_index, a.type, a.action_text, a.owner_role, a.owner_dept, a.planned_date, a.status, a.completed_at, a.effectiveness_notes, a.updated_at " +
+  "FROM capa_actions a " +
+  "JOIN capa_risks k ON k.report_id = a.report_id AND k.risk_id = a.risk_id " +
+  "JOIN reports r ON r.id = a.report_id " +
+  "JOIN projects p ON p.id = a.project_id ";
+const OPEN_STATUSES: CapaStatus[] = ["open", "in_progress"];
+
+const today = () => nowIso().slice(0, 10);
+
+const actionKey = (failureMode: string, actionText: string) =>
+  `${failureMode.replace(/\s+/g, "")}\n${actionText.replace(/\s+/g, "")}`;
+
+const isOverdue = (status: CapaStatus, plannedDate: string | null, date: string) =>
+  OPEN_STATUSES.includes(status) && Boolean(plannedDate) && plannedDate !== "TBD" && (plannedDate as string) < date;
+
+function resolveResidualStatus(statuses: CapaStatus[]): CapaResidualStatus {
+  if (statuses.length > 0 && statuses.every((status) => status === "verified")) {
+    return "verified";
+  }
+  return statuses.every((status) => status === "done" || status === "verified") ? "closed" : "open";
+}
+
+// 生成将行动计划登记为 CAPA 记录的语句，由调用方与报告状态更新放在同一批次执行；
+// 相同风险项的相同措施沿用原跟踪状态：重建时取本报告已有记录，否则取同一项目上一版本
+export async function buildCapaStatements(
+  env: Env,
+  params: { projectId: string; reportId: string; data: ReportData }
+): Promise<{ statements: D1PreparedStatement[]; actionCount: number }> {
+  const { data } = params;
+  const actions = Array.isArray(data.actions) ? data.actions : [];
+  if (actions.length === 0) {
+    return { statements: [], actionCount: 0 };
+  }
+  const items = (data.scored_items ?? (data.assessed_items as AssessedRiskItem[] | undefined) ?? data.risk_items ??
+    []) as Array<RiskItem & { level?: string }>;
+  const itemMap = new Map(items.map((item, index) => [item.risk_id, { item, seq: index + 1 }]));
+  const residualLevels = new Map((data.reevaluated_items ?? []).map((item) => [item.risk_id, item.level]));
+
+  const previousRows = await env.DB.prepare(
+    "SELECT k.failure_mode, a.action_text, a.status, a.completed_at, a.effectiveness_notes FROM capa_actions a " +
+      "JOIN capa_risks k ON k.report_id = a.report_id AND k.risk_id = a.risk_id " +
+      "WHERE a.report_id = (SELECT r.id FROM reports r WHERE r.project_id = ? AND r.status = 'completed' " +
+      "AND EXISTS (SELECT 1 FROM capa_actions x WHERE x.report_id = r.id) ORDER BY r.id = ? DESC, r.version DESC LIMIT 1)"
+  )
+    .bind(params.projectId, params.reportId)
+    .all();
+  const previous = new Map(
+    (previousRows.results ?? []).map((row) => [
+      actionKey(row.failure_mode as string, row.action_text as string),
+      {
+        status: row.status as CapaStatus,
+        completed_at: (row.completed_at as string | null) ?? null,
+        effectiveness_notes: (row.effectiveness_notes as string | null) ?? null
+      }
+    ])
+  );
+
+  const now = nowIso();
+  const statements: D1PreparedStatement[] = [];
+  let actionCount = 0;
+  for (const entry of actions) {
+    const matched = itemMap.get(entry.risk_id);
+    if (!matched || entry.actions.length === 0) {
+      continue;
+    }
+    const statuses: CapaStatus[] = [];
+    entry.actions.forEach((action, actionIndex) => {
+      const carried = previous.get(actionKey(matched.item.failure_mode, action.action_text));
+      statuses.push(carried?.status ?? "open");
+      actionCount += 1;
+      statements.push(
+        env.DB.prepare(
+          "INSERT INTO capa_actions (id, project_id, report_id, risk_id, action_index, type, action_text, owner_role, owner_dept, planned_date, status, completed_at, effectiveness_notes, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
+        ).bind(
+          crypto.randomUUID(),
+          params.projectId,
+          params.reportId,
+          entry.risk_id,
+          actionIndex,
+          action.type,
+          action.action_text,
+          action.owner_role ?? null,
+          action.owner_dept ?? null,
+          action.planned_date ?? null,
+          carried?.status ?? "open",
+          carried?.completed_at ?? null,
+          carried?.effectiveness_notes ?? null,
+          now,
+          now
+        )
+      );
+    });
+    statements.push(
+      env.DB.prepare(
+        "INSERT INTO capa_risks (id, project_id, report_id, risk_id, seq, failure_mode, level, residual_level, residual_status, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT(report_id, risk_id) DO NOTHING"
+      ).bind(
+        crypto.randomUUID(),
+        params.projectId,
+        params.reportId,
+        entry.risk_id,
+        matched.seq,
+        matched.item.failure_mode,
+        matched.item.level ?? null,
+        residualLevels.get(entry.risk_id) ?? null,
+        resolveResidualStatus(statuses),
+        now,
+        now
+      )
+    );
+  }
+  return { statements, actionCount };
+}
+
+// 按报告 JSON 重新登记 CAPA 记录（如登记曾失败或 JSON 已修复）；返回登记的措施数
+export async function rebuildCapaRecords(
+  env: Env,
+  params: { projectId: string; reportId: string; data: ReportData }
+): Promise<number> {
+  const { statements, actionCount } = await buildCapaStatements(env, params);
+  await env.DB.batch([
+    env.DB.prepare("DELETE FROM capa_actions WHERE report_id = ?").bind(params.reportId),
+    env.DB.prepare("DELETE FROM capa_risks WHERE report_id = ?").bind(params.reportId),
+    ...statements
+  ]);
+  return actionCount;
+}
+
+// 仅列出各项目最新完成版本的措施，旧版本的记录已由新版本沿用
+export async function listCapaActions(
+  env: Env,
+  userId: string,
+  filters: { projectId?: string | null; status?: CapaStatus | null; overdue?: boolean }
+): Promise<CapaActionRecord[]> {
+  const date = today();
+  const conditions = [
+    ACCESSIBLE_PROJECT_SQL,
+    "r.version = (SELECT MAX(r2.version) FROM reports r2 WHERE r2.project_id = a.project_id AND r2.status = 'completed')"
+  ];
+  const bindings: unknown[] = [userId, userId, userId];
+  if (filters.projectId) {
+    conditions.push("a.project_id = ?");
+    bindings.push(filters.projectId);
+  }
+  if (filters.status) {
+    conditions.push("a.status = ?");
+    bindings.push(filters.status);
+  }
+  if (filters.overdue) {
+    conditions.push(
+      "a.status IN ('open', 'in_progress') AND a.planned_date IS NOT NULL AND a.planned_date != 'TBD' AND a.planned_date < ?"
+    );
+    bindings.push(date);
+  }
+  const rows = await env.DB.prepare(
+    `${CAPA_SELECT}WHERE ${conditions.join(" AND ")} ORDER BY a.planned_date ASC, p.title ASC, k.seq ASC, a.action_index ASC`
+  )
+    .bind(...bindings)
+    .all();
+  return (rows.results ?? []).map((row) => {
+    const record = row as unknown as Omit<CapaActionRecord, "overdue">;
+    return { ...record, overdue: isOverdue(record.status, record.planned_date, date) };
+  });
+}
+
+// 更新单条措施的跟踪状态，并按该风险项全部措施的状态刷新残余风险状态；记录不存在时返回 null
+export async function updateCapaAction(env: Env, actionId: string, raw: unknown): Promise<CapaActionRecord | null> {
+  const row = await env.DB.prepare(
+    "SELECT id, report_id, risk_id, status, completed_at, effectiveness_notes FROM capa_actions WHERE id = ?"
+  )
+    .bind(actionId)
+    .first();
+  if (!row) {
+    return null;
+  }
+  const body = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const date = today();
+
+  let status = row.status as CapaStatus;
+  if (body.status !== undefined) {
+    if (typeof body.status !== "string" || !CAPA_STATUSES.includes(body.status as CapaStatus)) {
+      throw new Error("措施状态不合法");
+    }
+    status = body.status as CapaStatus;
+  }
+  let notes = (row.effectiveness_notes as string | null) ?? null;
+  if (body.effectiveness_notes !== undefined) {
+    if (body.effectiveness_notes !== null && typeof body.effectiveness_notes !== "string") {
+      throw new Error("有效性检查记录格式错误");
+    }
+    notes = typeof body.effectiveness_notes === "string" ? body.effectiveness_notes.trim() || null : null;
+  }
+  let completedAt = (row.completed_at as string | null) ?? null;
+  if (body.completed_at !== undefined) {
+    if (body.completed_at !== null && body.completed_at !== "" && typeof body.completed_at !== "string") {
+      throw new Error("实际完成日期格式错误");
+    }
+    completedAt = typeof body.completed_at === "string" ? body.completed_at.trim() || null : null;
+  }
+  if (OPEN_STATUSES.includes(status)) {
+    completedAt = null;
+  } else {
+    completedAt = completedAt ?? date;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(completedAt) || Number.isNaN(Date.parse(completedAt))) {
+      throw new Error("实际完成日期格式错误");
+    }
+    if (completedAt > date) {
+      throw new Error("实际完成日期不能晚于今天");
+    }
+  }
+  if (status === "verified" && !notes) {
+    throw new Error("标记为已验证前需填写有效性检查记录");
+  }
+
+  const now = nowIso();
+  await env.DB.prepare(
+    "UPDATE capa_actions SET status = ?, completed_at = ?, effectiveness_notes = ?, updated_at = ? WHERE id = ?"
+  )
+    .bind(status, completedAt, notes, now, actionId)
+    .run();
+  const siblings = await env.DB.prepare("SELECT status FROM capa_actions WHERE report_id = ? AND risk_id = ?")
+    .bind(row.report_id, row.risk_id)
+    .all();
+  await env.DB.prepare(
+    "UPDATE capa_risks SET residual_status = ?, updated_at = ? WHERE report_id = ? AND risk_id = ?"
+  )
+    .bind(
+      resolveResidualStatus((siblings.results ?? []).map((entry) => entry.status as CapaStatus)),
+      now,
+      row.report_id,
+      row.risk_id
+    )
+    .run();
+
+  const updated = await env.DB.prepare(`${CAPA_SELECT}WHERE a.id = ?`).bind(actionId).first();
+  if (!updated) {
+    return null;
+  }
+  const record = updated as unknown as Omit<CapaActionRecord, "overdue">;
+  return { ...record, overdue: isOverdue(record.status, record.planned_date, date) };
+}
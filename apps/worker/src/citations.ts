@@ -0,0 +1,86 @@
+import type { EvidenceChunk } from "./aiTypes";
+
+const EXCERPT_CHARS = 120;
+
+// 旧检查点中的片段没有编号，按召回顺序补齐，与拼装上下文时的编号规则一致
+export function evidenceChunkId(chunk: EvidenceChunk, index: number): string {
+  return chunk.id ?? `E${index + 1}`;
+}
+
+export function assignEvidenceIds(chunks: EvidenceChunk[]): EvidenceChunk[] {
+  return chunks.map((chunk, index) => ({ ...chunk, id: `E${index + 1}` }));
+}
+
+export function collectEvidenceIds(chunks: EvidenceChunk[]): Set<string> {
+  return new Set(chunks.map(evidenceChunkId));
+}
+
+// 模型输出的片段编号：允许写成 [E1]/e1，去重后必须全部能在本次召回片段中找到
+export function parseEvidenceIds(value: unknown, knownIds: Set<string>, label: string): string[] {
+  if (!Array.isArray(value) || value.some((id) => typeof id !== "string")) {
+    throw new Error(`${label} evidence_ids 必须为字符串数组`);
+  }
+  const ids = Array.from(
+    new Set((value as string[]).map((id) => id.replace(/[[\]\s]/g, "").toUpperCase()).filter(Boolean))
+  );
+  for (const id of ids) {
+    if (!knownIds.has(id)) {
+      throw new Error(`${label} 引用了不存在的证据片段: ${id}`);
+    }
+  }
+  return ids;
+}
+
+// 人工修订后文本发生变化的内容不再沿用原引用
+export function retainEvidenceIds(
+  previousIds: string[] | undefined,
+  previousText: string | undefined,
+  text: string
+): string[] | undefined {
+  return previousIds && previousText === text ? previousIds : undefined;
+}
+
+export type CitationIndex = {
+  cite: (ids?: string[]) => string;
+  renderNotes: () => string;
+};
+
+// 按首次引用顺序编号：正文以 [n] 标注，文末列出对应片段的文件名与摘录
+export function createCitationIndex(chunks: EvidenceChunk[]): CitationIndex {
+  const chunkMap = new Map(chunks.map((chunk, index) => [evidenceChunkId(chunk, index), chunk]));
+  const numbers = new Map<string, number>();
+  const cite = (ids?: string[]) => {
+    const marks: string[] = [];
+    for (const id of ids ?? []) {
+      if (!chunkMap.has(id)) {
+        continue;
+      }
+      if (!numbers.has(id)) {
+        numbers.set(id, numbers.size + 1);
+      }
+      marks.push(`[${numbers.get(id)}]`);
+    }
+    return marks.join("");
+  };
+  const renderNotes = () =>
+    Array.from(numbers.entries())
+      .map(([id, order]) => {
+        const chunk = chunkMap.get(id) as EvidenceChunk;
+        const label = chunk.source === "sop" ? "SOP" : "文献";
+        const cleaned = chunk.content.replace(/\s+/g, " ").trim();
+        const excerpt = cleaned.length > EXCERPT_CHARS ? `${cleaned.slice(0, EXCERPT_CHARS)}…` : cleaned;
+        return `- [${order}] ${chunk.filename || "未命名文件"}（${label}）：${excerpt}`;
+      })
+      .join("\n");
+  return { cite, renderNotes };
+}
+
+// 报告末尾的引用来源章节，无引用时为空
+export function buildCitationSection(citations: CitationIndex): string {
+  const notes = citations.renderNotes();
+  return notes ? `\n\n## 附：证据引用\n${notes}\n` : "";
+}
+
+export function withCitation(text: string, mark: string): string {
+  return mark ? `${text} ${mark}` : text;
+}
@@ -0,0 +1,73 @@
+import type { EvidenceIndexStore, IndexedEvidenceChunk } from "./aiTypes";
+import type { Env, ModelRuntimeConfig } from "./types";
+import { nowIso, putR2Json, readR2Text, safeJsonParse } from "./utils";
+import { resolveIndexedChunks } from "./workflow";
+
+type StoredEvidenceIndex = {
+  textHash: string;
+  embeddingModelId: string;
+  chunks: IndexedEvidenceChunk[];
+};
+
+const buildIndexKey = (projectId: string, fileId: string, embeddingModelId: string) =>
+  `projects/${projectId}/evidence/${fileId}/${embeddingModelId}.json`;
+
+// 每个文件在每个 Embedding 模型下保留一份索引，文本变化时原地覆盖
+export const createEvidenceIndexStore = (env: Env, projectId: string): EvidenceIndexStore => ({
+  load: async (fileId, textHash, embeddingModelId) => {
+    const row = await env.DB.prepare(
+      "SELECT index_key FROM evidence_indexes WHERE file_id = ? AND embedding_model_id = ? AND text_hash = ?"
+    )
+      .bind(fileId, embeddingModelId, textHash)
+      .first();
+    if (!row) {
+      return null;
+    }
+    const content = await readR2Text(env.BUCKET, row.index_key as string);
+    const stored = content ? safeJsonParse<StoredEvidenceIndex>(content) : null;
+    return stored?.textHash === textHash && Array.isArray(stored.chunks) ? stored.chunks : null;
+  },
+  // 索引写入失败不影响本次检索，下次运行会重新向量化
+  save: async (fileId, textHash, embeddingModelId, chunks) => {
+    const indexKey = buildIndexKey(projectId, fileId, embeddingModelId);
+    const now = nowIso();
+    await putR2Json(env.BUCKET, indexKey, { textHash, embeddingModelId, chunks } satisfies StoredEvidenceIndex)
+      .then(() =>
+        env.DB.prepare(
+          "INSERT INTO evidence_indexes (id, project_id, file_id, embedding_model_id, text_hash, chunk_count, dimensions, index_key, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT(file_id, embedding_model_id) DO UPDATE SET text_hash = excluded.text_hash, chunk_count = excluded.chunk_count, dimensions = excluded.dimensions, index_key = excluded.index_key, updated_at = excluded.updated_at"
+        )
+          .bind(
+            crypto.randomUUID(),
+            projectId,
+            fileId,
+            embeddingModelId,
+            textHash,
+            chunks.length,
+            chunks[0]?.embedding.length ?? 0,
+            indexKey,
+            now,
+            now
+          )
+          .run()
+      )
+      .catch(() => undefined);
+  }
+});
+
+// 上传或重新解析后预先建立索引，避免首次生成报告时集中向量化
+export const indexProjectFile = async (
+  env: Env,
+  params: { projectId: string; fileId: string; text: string; embeddingModel: ModelRuntimeConfig | null }
+) => {
+  const { embeddingModel } = params;
+  if (!embeddingModel?.apiKey || !embeddingModel.baseUrl || !embeddingModel.model) {
+    return;
+  }
+  // 预建失败时留到生成报告时再向量化
+  await resolveIndexedChunks(
+    embeddingModel,
+    params.fileId,
+    params.text,
+    createEvidenceIndexStore(env, params.projectId)
+  ).catch(() => undefined);
+};
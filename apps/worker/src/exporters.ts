@@ -1,4 +1,7 @@
+import MarkdownIt from "markdown-it";
 import { MarkdownDocx, Packer } from "markdown-docx";
+import { parseTrueTypeFont } from "./pdfFont";
+import type { TrueTypeFont } from "./pdfFont";
 
 export type DocxMeta = {
   title?: string;
@@ -6,6 +9,23 @@ export type DocxMeta = {
   description?: string;
 };
 
+export type PdfSignature = {
+  signer: string;
+  meaning: string;
+  signed_at: string;
+  // 签名时的正文哈希与当前正文是否一致
+  hash_matches: boolean;
+};
+
+export type PdfMeta = {
+  title: string;
+  version: number | null;
+  documentNo: string;
+  statusLabel: string | null;
+  exportedAt: string;
+  signatures: PdfSignature[];
+};
+
 export async function renderDocx(markdown: string, meta?: DocxMeta): Promise<ArrayBuffer> {
   const converter = new MarkdownDocx(markdown);
   const doc = await converter.toDocument({
@@ -15,3 +35,714 @@ export async function renderDocx(markdown: string, meta?: DocxMeta): Promise<Arr
   });
   return await Packer.toArrayBuffer(doc);
 }
+
+type MarkdownToken = ReturnType<MarkdownIt["parse"]>[number];
+type TextRun = { text: string; bold: boolean };
+type TextLine = TextRun[];
+
+type PdfWriter = ReturnType<typeof createPdfWriter>;
+type PdfLayout = ReturnType<typeof createPdfLayout>;
+
+type PdfFont = {
+  // 文字宽度，以字号为单位
+  measure: (text: string) => number;
+  encode: (text: string) => string;
+  write: (writer: PdfWriter, fontId: number) => Promise<void>;
+};
+
+// A4 纵向，单位 pt
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN_X = 56;
+const CONTENT_TOP = PAGE_HEIGHT - 72;
+const CONTENT_BOTTOM = 68;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2;
+const BODY_SIZE = 10.5;
+const TABLE_SIZE = 9;
+const MARGIN_SIZE = 8.5;
+const CELL_PADDING = 4;
+const LIST_INDENT = 18;
+const HEADING_SIZES = [18, 15, 13, 12, 11, 11];
+const MUTED_GRAY = 0.35;
+// 避头标点：不放在行首，宁可略微超出行宽
+const NO_LINE_START = new Set(Array.from("，。、；：？！）》」』】〕…,.;:?!)]}%"));
+// 连续的 ASCII 字符作为一个单词整体换行，其余字符逐字换行
+const BREAK_UNITS = /[\x21-\x7e]+|[ \t]+|\n|[\s\S]/gu;
+
+const formatNumber = (value: number) => String(Number(value.toFixed(2)));
+
+const toHex = (value: number) => value.toString(16).toUpperCase().padStart(4, "0");
+
+function utf16Hex(text: string): string {
+  let hex = "";
+  for (let index = 0; index < text.length; index += 1) {
+    hex += toHex(text.charCodeAt(index));
+  }
+  return hex;
+}
+
+async function deflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function createPdfWriter() {
+  const encoder = new TextEncoder();
+  const objects: Array<Uint8Array[] | null> = [];
+  const reserve = () => {
+    objects.push(null);
+    return objects.length;
+  };
+  const set = (id: number, body: string) => {
+    objects[id - 1] = [encoder.encode(body)];
+  };
+  const add = (body: string) => {
+    const id = reserve();
+    set(id, body);
+    return id;
+  };
+  const addStream = async (dict: string, data: Uint8Array<ArrayBuffer> | string) => {
+    const compressed = await deflate(typeof data === "string" ? encoder.encode(data) : data);
+    const id = reserve();
+    objects[id - 1] = [
+      encoder.encode(`<< ${dict ? `${dict} ` : ""}/Filter /FlateDecode /Length ${compressed.byteLength} >>\nstream\n`),
+      compressed,
+      encoder.encode("\nendstream")
+    ];
+    return id;
+  };
+  const finish = (rootId: number, infoId: number): Uint8Array => {
+    const chunks: Uint8Array[] = [encoder.encode("%PDF-1.7\n%âãÏÓ\n")];
+    let length = chunks[0].byteLength;
+    const offsets: number[] = [];
+    objects.forEach((parts, index) => {
+      offsets.push(length);
+      for (const part of [encoder.encode(`${index + 1} 0 obj\n`), ...(parts ?? []), encoder.encode("\nendobj\n")]) {
+        chunks.push(part);
+        length += part.byteLength;
+      }
+    });
+    chunks.push(
+      encoder.encode(
+        [
+          "xref",
+          `0 ${objects.length + 1}`,
+          "0000000000 65535 f ",
+          ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+          "trailer",
+          `<< /Size ${objects.length + 1} /Root ${rootId} 0 R /Info ${infoId} 0 R >>`,
+          "startxref",
+          String(length),
+          "%%EOF\n"
+        ].join("\n")
+      )
+    );
+    const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+    let cursor = 0;
+    for (const chunk of chunks) {
+      output.set(chunk, cursor);
+      cursor += chunk.byteLength;
+    }
+    return output;
+  };
+  return { reserve, set, add, addStream, finish };
+}
+
+function toUnicodeCMap(entries: Array<[string, string]>): string {
+  const blocks: string[] = [];
+  for (let index = 0; index < entries.length; index += 100) {
+    const chunk = entries.slice(index, index + 100);
+    blocks.push(`${chunk.length} beginbfchar\n${chunk.map(([code, text]) => `<${code}> <${text}>`).join("\n")}\nendbfchar`);
+  }
+  return [
+    "/CIDInit /ProcSet findresource begin",
+    "12 dict begin",
+    "begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def",
+    "/CMapType 2 def",
+    "1 begincodespacerange",
+    "<0000> <FFFF>",
+    "endcodespacerange",
+    ...blocks,
+    "endcmap",
+    "CMapName currentdict /CMap defineresource pop",
+    "end",
+    "end"
+  ].join("\n");
+}
+
+// 子集字体名前缀须为 6 个大写字母，按所用字形生成
+function subsetTag(glyphs: number[]): string {
+  let hash = glyphs.reduce((value, glyph) => (value * 31 + glyph) >>> 0, glyphs.length);
+  let tag = "";
+  for (let index = 0; index < 6; index += 1) {
+    tag += String.fromCharCode(65 + (hash % 26));
+    hash = Math.floor(hash / 26);
+  }
+  return tag;
+}
+
+// 嵌入 TrueType 字体子集，文字按字形编号（Identity-H）编码，并附 ToUnicode 便于检索与复制
+function createEmbeddedFont(font: TrueTypeFont): PdfFont {
+  const used = new Map<number, string>();
+  const scale = 1000 / font.unitsPerEm;
+  const glyphWidth = (glyph: number) => Math.round(font.advanceWidth(glyph) * scale);
+  return {
+    measure: (text) => {
+      let width = 0;
+      for (const char of text) {
+        width += glyphWidth(font.glyphFor(char.codePointAt(0) ?? 0));
+      }
+      return width / 1000;
+    },
+    encode: (text) => {
+      let hex = "";
+      for (const char of text) {
+        const glyph = font.glyphFor(char.codePointAt(0) ?? 0);
+        if (glyph && !used.has(glyph)) {
+          used.set(glyph, char);
+        }
+        hex += toHex(glyph);
+      }
+      return hex;
+    },
+    write: async (writer, fontId) => {
+      const glyphs = Array.from(used.keys()).sort((a, b) => a - b);
+      const data = font.subset(glyphs);
+      const name = `${subsetTag(glyphs)}+QRAiReportFont`;
+      const fileId = await writer.addStream(`/Length1 ${data.byteLength}`, data);
+      const [xMin, yMin, xMax, yMax] = font.bbox.map((value) => Math.round(value * scale));
+      const ascent = Math.round(font.ascent * scale);
+      const descriptorId = writer.add(
+        `<< /Type /FontDescriptor /FontName /${name} /Flags 4 /FontBBox [${xMin} ${yMin} ${xMax} ${yMax}] ` +
+          `/ItalicAngle 0 /Ascent ${ascent} /Descent ${Math.round(font.descent * scale)} /CapHeight ${ascent} ` +
+          `/StemV 80 /FontFile2 ${fileId} 0 R >>`
+      );
+      const widths = glyphs.map((glyph) => `${glyph} [${glyphWidth(glyph)}]`).join(" ");
+      const cidFontId = writer.add(
+        `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${name} ` +
+          "/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> " +
+          `/FontDescriptor ${descriptorId} 0 R /DW 1000 /W [${widths}] /CIDToGIDMap /Identity >>`
+      );
+      const toUnicodeId = await writer.addStream(
+        "",
+        toUnicodeCMap(glyphs.map((glyph) => [toHex(glyph), utf16Hex(used.get(glyph) ?? "")]))
+      );
+      writer.set(
+        fontId,
+        `<< /Type /Font /Subtype /Type0 /BaseFont /${name} /Encoding /Identity-H ` +
+          `/DescendantFonts [${cidFontId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`
+      );
+    }
+  };
+}
+
+function wrapRuns(font: PdfFont, runs: TextRun[], maxWidth: number, size: number): TextLine[] {
+  const lines: TextLine[] = [];
+  let line: TextLine = [];
+  let width = 0;
+  const append = (text: string, bold: boolean) => {
+    const last = line[line.length - 1];
+    if (last && last.bold === bold) {
+      last.text += text;
+    } else {
+      line.push({ text, bold });
+    }
+    width += font.measure(text) * size;
+  };
+  const breakLine = () => {
+    lines.push(line);
+    line = [];
+    width = 0;
+  };
+  for (const run of runs) {
+    for (const unit of run.text.match(BREAK_UNITS) ?? []) {
+      if (unit === "\n") {
+        breakLine();
+        continue;
+      }
+      const blank = /^[ \t]+$/.test(unit);
+      if (blank && line.length === 0) {
+        continue;
+      }
+      const unitWidth = font.measure(unit) * size;
+      if (width + unitWidth > maxWidth && line.length > 0 && !NO_LINE_START.has(unit[0])) {
+        breakLine();
+        if (blank) {
+          continue;
+        }
+      }
+      if (unitWidth <= maxWidth) {
+        append(unit, run.bold);
+        continue;
+      }
+      // 超出行宽的长单词（如网址）逐字断开
+      for (const char of unit) {
+        if (width + font.measure(char) * size > maxWidth && line.length > 0) {
+          breakLine();
+        }
+        append(char, run.bold);
+      }
+    }
+  }
+  if (line.length > 0 || lines.length === 0) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+function createPdfLayout(font: PdfFont) {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = CONTENT_TOP;
+
+  const newPage = () => {
+    ops = [];
+    pages.push(ops);
+    y = CONTENT_TOP;
+  };
+  const atTop = () => y >= CONTENT_TOP;
+  const fits = (height: number) => y - height >= CONTENT_BOTTOM;
+  const ensure = (height: number) => {
+    if (!fits(height) && !atTop()) {
+      newPage();
+    }
+  };
+  const space = (height: number) => {
+    if (!atTop()) {
+      y -= height;
+    }
+  };
+
+  const drawRuns = (target: string[], runs: TextLine, x: number, baseline: number, size: number, gray = 0) => {
+    let cursor = x;
+    for (const run of runs) {
+      if (!run.text) {
+        continue;
+      }
+      // 粗体以描边加粗模拟，无需额外的粗体字体
+      const mode = run.bold ? `2 Tr ${formatNumber(size * 0.035)} w` : "0 Tr";
+      target.push(
+        `BT /F1 ${formatNumber(size)} Tf ${mode} ${gray} g ${gray} G ${formatNumber(cursor)} ${formatNumber(baseline)} Td <${font.encode(run.text)}> Tj ET`
+      );
+      cursor += font.measure(run.text) * size;
+    }
+  };
+  // 行内文字在行高内垂直居中
+  const baselineOf = (top: number, lineHeight: number, size: number) => top - lineHeight / 2 - size * 0.38;
+
+  const paragraph = (
+    runs: TextRun[],
+    options: { size: number; indent?: number; marker?: string | null; gray?: number; after?: number; center?: boolean }
+  ) => {
+    const size = options.size;
+    const lineHeight = size * 1.6;
+    const indent = options.indent ?? 0;
+    const lines = wrapRuns(font, runs, CONTENT_WIDTH - indent, size);
+    lines.forEach((line, index) => {
+      ensure(lineHeight);
+      const baseline = baselineOf(y, lineHeight, size);
+      if (index === 0 && options.marker) {
+        drawRuns(ops, [{ text: options.marker, bold: false }], MARGIN_X + indent - LIST_INDENT, baseline, size, options.gray);
+      }
+      const lineWidth = line.reduce((total, run) => total + font.measure(run.text) * size, 0);
+      const x = options.center ? MARGIN_X + Math.max((CONTENT_WIDTH - lineWidth) / 2, 0) : MARGIN_X + indent;
+      drawRuns(ops, line, x, baseline, size, options.gray);
+      y -= lineHeight;
+    });
+    space(options.after ?? 0);
+  };
+
+  const heading = (runs: TextRun[], level: number) => {
+    const size = HEADING_SIZES[level - 1] ?? BODY_SIZE;
+    space(size * 0.6);
+    // 标题至少与后续两行正文同页
+    ensure(size * 1.6 + BODY_SIZE * 1.6 * 2);
+    paragraph(
+      runs.map((run) => ({ ...run, bold: true })),
+      { size, after: size * 0.3, center: level === 1 }
+    );
+  };
+
+  const code = (content: string) => {
+    const size = TABLE_SIZE;
+    const lineHeight = size * 1.5;
+    const lines = wrapRuns(font, [{ text: content.replace(/\n+$/, ""), bold: false }], CONTENT_WIDTH - 12, size);
+    for (const line of lines) {
+      ensure(lineHeight);
+      ops.push(
+        `0.95 g ${formatNumber(MARGIN_X)} ${formatNumber(y - lineHeight)} ${formatNumber(CONTENT_WIDTH)} ${formatNumber(lineHeight)} re f`
+      );
+      drawRuns(ops, line, MARGIN_X + 6, baselineOf(y, lineHeight, size), size);
+      y -= lineHeight;
+    }
+    space(6);
+  };
+
+  const rule = () => {
+    space(6);
+    ensure(6);
+    ops.push(`0.6 G 0.5 w ${MARGIN_X} ${formatNumber(y)} m ${formatNumber(MARGIN_X + CONTENT_WIDTH)} ${formatNumber(y)} l S`);
+    y -= 6;
+  };
+
+  // 列宽按内容自适应：能排下时按自然宽度等比拉满，否则在最小宽度基础上按内容长度分配剩余宽度
+  const columnWidths = (rows: TextRun[][][], columnCount: number, size: number) => {
+    const padding = CELL_PADDING * 2;
+    const natural = new Array<number>(columnCount).fill(0);
+    const minimum = new Array<number>(columnCount).fill(size * 2);
+    for (const row of rows) {
+      for (let column = 0; column < columnCount; column += 1) {
+        const text = (row[column] ?? []).map((run) => run.text).join("");
+        for (const line of text.split("\n")) {
+          natural[column] = Math.max(natural[column], font.measure(line) * size);
+        }
+        for (const unit of text.match(BREAK_UNITS) ?? []) {
+          minimum[column] = Math.max(minimum[column], Math.min(font.measure(unit) * size, 72));
+        }
+      }
+    }
+    const naturalWidths = natural.map((width, column) => Math.max(width, minimum[column]) + padding);
+    const minimumWidths = minimum.map((width) => width + padding);
+    const totalNatural = naturalWidths.reduce((total, width) => total + width, 0);
+    if (totalNatural <= CONTENT_WIDTH) {
+      return naturalWidths.map((width) => (width * CONTENT_WIDTH) / totalNatural);
+    }
+    const totalMinimum = minimumWidths.reduce((total, width) => total + width, 0);
+    if (totalMinimum >= CONTENT_WIDTH) {
+      return minimumWidths.map((width) => (width * CONTENT_WIDTH) / totalMinimum);
+    }
+    const flexible = naturalWidths.map((width, column) => width - minimumWidths[column]);
+    const totalFlexible = flexible.reduce((total, width) => total + width, 0);
+    return minimumWidths.map(
+      (width, column) => width + ((CONTENT_WIDTH - totalMinimum) * flexible[column]) / totalFlexible
+    );
+  };
+
+  const table = (header: TextRun[][], rows: TextRun[][][], options?: { minLines?: number }) => {
+    const size = TABLE_SIZE;
+    const lineHeight = size * 1.45;
+    const padding = CELL_PADDING * 2;
+    const columnCount = Math.max(header.length, ...rows.map((row) => row.length));
+    if (columnCount === 0) {
+      return;
+    }
+    const widths = columnWidths([header, ...rows], columnCount, size);
+    const layoutRow = (row: TextRun[][]) =>
+      widths.map((width, column) => {
+        const lines = wrapRuns(font, row[column] ?? [], width - padding, size);
+        while (lines.length < (options?.minLines ?? 1)) {
+          lines.push([]);
+        }
+        return lines;
+      });
+    const heightOf = (cells: TextLine[][]) => Math.max(...cells.map((lines) => lines.length)) * lineHeight + padding;
+    const drawRow = (cells: TextLine[][], height: number, shaded: boolean) => {
+      if (shaded) {
+        ops.push(
+          `0.92 g ${formatNumber(MARGIN_X)} ${formatNumber(y - height)} ${formatNumber(CONTENT_WIDTH)} ${formatNumber(height)} re f`
+        );
+      }
+      let x = MARGIN_X;
+      cells.forEach((lines, column) => {
+        lines.forEach((line, index) => {
+          const top = y - CELL_PADDING - index * lineHeight;
+          drawRuns(ops, line, x + CELL_PADDING, baselineOf(top, lineHeight, size), size);
+        });
+        ops.push(
+          `0.3 G 0.5 w ${formatNumber(x)} ${formatNumber(y - height)} ${formatNumber(widths[column])} ${formatNumber(height)} re S`
+        );
+        x += widths[column];
+      });
+      y -= height;
+    };
+
+    const headerCells = layoutRow(header.map((cell) => cell.map((run) => ({ ...run, bold: true }))));
+    const headerHeight = heightOf(headerCells);
+    // 跨页时在新页重复表头；表头过高、重复后放不下一行内容时不再重复
+    const repeatHeader = headerHeight + lineHeight * 2 + padding <= CONTENT_TOP - CONTENT_BOTTOM;
+    const pageRoom = CONTENT_TOP - CONTENT_BOTTOM - (repeatHeader ? headerHeight : 0);
+    const continueOnNewPage = () => {
+      newPage();
+      if (repeatHeader) {
+        drawRow(headerCells, headerHeight, true);
+      }
+    };
+    // 新页至少能放下一行内容，超过一整页的行按行拆分到后续页，保证每轮都有进展
+    const placeRow = (initial: TextLine[][], shaded: boolean) => {
+      let cells = initial;
+      while (true) {
+        const height = heightOf(cells);
+        if (fits(height)) {
+          drawRow(cells, height, shaded);
+          return;
+        }
+        const available = Math.floor((y - CONTENT_BOTTOM - padding) / lineHeight);
+        if (height <= pageRoom || available < 1) {
+          continueOnNewPage();
+          continue;
+        }
+        drawRow(
+          cells.map((lines) => lines.slice(0, available)),
+          available * lineHeight + padding,
+          shaded
+        );
+        cells = cells.map((lines) => lines.slice(available));
+        continueOnNewPage();
+      }
+    };
+    space(4);
+    if (repeatHeader) {
+      ensure(headerHeight + lineHeight + padding);
+      drawRow(headerCells, headerHeight, true);
+    } else {
+      placeRow(headerCells, true);
+    }
+    for (const row of rows) {
+      placeRow(layoutRow(row), false);
+    }
+    space(8);
+  };
+
+  const signatureBlock = (signatures: PdfSignature[]) => {
+    const text = (value: string, bold = false): TextRun[] => [{ text: value, bold }];
+    space(12);
+    ensure(signatures.length > 0 ? 140 : 200);
+    heading(text("签名记录"), 2);
+    if (signatures.length > 0) {
+      table(
+        [text("签名人"), text("签名含义"), text("签名时间"), text("正文校验")],
+        signatures.map((signature) => [
+          text(signature.signer),
+          text(signature.meaning),
+          text(signature.signed_at),
+          text(signature.hash_matches ? "与签名时一致" : "签名后正文已变更")
+        ])
+      );
+      paragraph(text("以上电子签名均在系统中重新验证登录密码后记录，正文校验基于报告正文的 SHA-256 哈希。"), {
+        size: MARGIN_SIZE,
+        gray: MUTED_GRAY
+      });
+      return;
+    }
+    table(
+      [text("职责"), text("签名"), text("日期")],
+      ["编制", "审核", "批准"].map((role) => [text(role), [], []]),
+      { minLines: 3 }
+    );
+  };
+
+  // 页眉显示报告标题与版本状态，页脚显示文件编号、页码与导出时间
+  const finish = (meta: PdfMeta): string[] => {
+    const gray = MUTED_GRAY;
+    const size = MARGIN_SIZE;
+    const widthOf = (value: string) => font.measure(value) * size;
+    const fitText = (value: string, maxWidth: number) => {
+      if (widthOf(value) <= maxWidth) {
+        return value;
+      }
+      let result = "";
+      for (const char of value) {
+        if (widthOf(`${result}${char}…`) > maxWidth) {
+          break;
+        }
+        result += char;
+      }
+      return `${result}…`;
+    };
+    const headerY = PAGE_HEIGHT - 46;
+    const footerY = 38;
+    const right = MARGIN_X + CONTENT_WIDTH;
+    const versionText = [meta.version ? `版本 V${meta.version}` : null, meta.statusLabel].filter(Boolean).join(" · ");
+    const footerLeft = `文件编号：${meta.documentNo}`;
+    const footerRight = `导出时间：${meta.exportedAt}`;
+    return pages.map((page, index) => {
+      const margin: string[] = [];
+      const title = fitText(meta.title, CONTENT_WIDTH - widthOf(versionText) - 24);
+      const pageText = `第 ${index + 1} 页 / 共 ${pages.length} 页`;
+      drawRuns(margin, [{ text: title, bold: false }], MARGIN_X, headerY, size, gray);
+      drawRuns(margin, [{ text: versionText, bold: false }], right - widthOf(versionText), headerY, size, gray);
+      drawRuns(margin, [{ text: footerLeft, bold: false }], MARGIN_X, footerY, size, gray);
+      drawRuns(margin, [{ text: pageText, bold: false }], (PAGE_WIDTH - widthOf(pageText)) / 2, footerY, size, gray);
+      drawRuns(margin, [{ text: footerRight, bold: false }], right - widthOf(footerRight), footerY, size, gray);
+      margin.push(
+        `0.6 G 0.5 w ${MARGIN_X} ${formatNumber(headerY - 6)} m ${formatNumber(right)} ${formatNumber(headerY - 6)} l S`,
+        `0.6 G 0.5 w ${MARGIN_X} ${formatNumber(footerY + 12)} m ${formatNumber(right)} ${formatNumber(footerY + 12)} l S`
+      );
+      return [...margin, ...page].join("\n");
+    });
+  };
+
+  newPage();
+  return { paragraph, heading, code, rule, table, signatureBlock, space, finish };
+}
+
+function inlineRuns(token: MarkdownToken | undefined): TextRun[] {
+  const runs: TextRun[] = [];
+  let bold = false;
+  const append = (text: string) => {
+    const last = runs[runs.length - 1];
+    if (!text) {
+      return;
+    }
+    if (last && last.bold === bold) {
+      last.text += text;
+    } else {
+      runs.push({ text, bold });
+    }
+  };
+  for (const child of token?.children ?? []) {
+    switch (child.type) {
+      case "text":
+      case "code_inline":
+        append(child.content.replace(/<br\s*\/?>/gi, "\n"));
+        break;
+      case "strong_open":
+        bold = true;
+        break;
+      case "strong_close":
+        bold = false;
+        break;
+      case "softbreak": {
+        // 中文段落内的软换行直接连接，英文单词之间补空格
+        const last = runs[runs.length - 1]?.text.slice(-1) ?? "";
+        append(/[\x21-\x7e]/.test(last) ? " " : "");
+        break;
+      }
+      case "hardbreak":
+        append("\n");
+        break;
+      case "image":
+        append(child.content);
+        break;
+    }
+  }
+  return runs;
+}
+
+function renderMarkdownBlocks(layout: PdfLayout, tokens: MarkdownToken[]) {
+  const lists: Array<{ ordered: boolean; next: number }> = [];
+  let marker: string | null = null;
+  let quoteDepth = 0;
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    switch (token.type) {
+      case "heading_open":
+        layout.heading(inlineRuns(tokens[index + 1]), Number(token.tag.slice(1)));
+        index += 2;
+        break;
+      case "paragraph_open":
+        layout.paragraph(inlineRuns(tokens[index + 1]), {
+          size: BODY_SIZE,
+          indent: (lists.length + quoteDepth) * LIST_INDENT,
+          marker,
+          gray: quoteDepth > 0 ? MUTED_GRAY : 0,
+          after: lists.length > 0 ? 2 : 6
+        });
+        marker = null;
+        index += 2;
+        break;
+      case "bullet_list_open":
+        lists.push({ ordered: false, next: 1 });
+        break;
+      case "ordered_list_open":
+        lists.push({ ordered: true, next: Number(token.attrGet("start") ?? 1) });
+        break;
+      case "bullet_list_close":
+      case "ordered_list_close":
+        lists.pop();
+        if (lists.length === 0) {
+          layout.space(4);
+        }
+        break;
+      case "list_item_open": {
+        const list = lists[lists.length - 1];
+        marker = list?.ordered ? `${list.next++}.` : "•";
+        break;
+      }
+      case "blockquote_open":
+        quoteDepth += 1;
+        break;
+      case "blockquote_close":
+        quoteDepth -= 1;
+        break;
+      case "fence":
+      case "code_block":
+        layout.code(token.content);
+        break;
+      case "hr":
+        layout.rule();
+        break;
+      case "html_block": {
+        const text = token.content.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, "").trim();
+        if (text) {
+          layout.paragraph([{ text, bold: false }], { size: BODY_SIZE, after: 6 });
+        }
+        break;
+      }
+      case "table_open": {
+        let header: TextRun[][] = [];
+        const rows: TextRun[][][] = [];
+        let cells: TextRun[][] = [];
+        let inHead = false;
+        while (index < tokens.length && tokens[index].type !== "table_close") {
+          const current = tokens[index];
+          if (current.type === "thead_open" || current.type === "thead_close") {
+            inHead = current.type === "thead_open";
+          } else if (current.type === "tr_open") {
+            cells = [];
+          } else if (current.type === "th_open" || current.type === "td_open") {
+            cells.push(inlineRuns(tokens[index + 1]));
+          } else if (current.type === "tr_close") {
+            if (inHead) {
+              header = cells;
+            } else {
+              rows.push(cells);
+            }
+          }
+          index += 1;
+        }
+        layout.table(header, rows);
+        break;
+      }
+    }
+  }
+}
+
+// 在 Worker 内直接生成 PDF：传入 TrueType 字体时嵌入子集，否则使用阅读器内置的中文字体
+// 字体始终嵌入，PDF 不依赖阅读器安装的中文字体包
+export async function renderPdf(markdown: string, meta: PdfMeta, fontData: ArrayBuffer): Promise<Uint8Array> {
+  const trueType = parseTrueTypeFont(fontData);
+  if (!trueType.glyphFor(0x4e2d)) {
+    throw new Error("PDF 字体缺少中文字形，请使用中文 TrueType 字体");
+  }
+  const font = createEmbeddedFont(trueType);
+  const layout = createPdfLayout(font);
+  renderMarkdownBlocks(layout, new MarkdownIt().parse(markdown, {}));
+  layout.signatureBlock(meta.signatures);
+  const contents = layout.finish(meta);
+
+  const writer = createPdfWriter();
+  const catalogId = writer.reserve();
+  const pagesId = writer.reserve();
+  const fontId = writer.reserve();
+  const pageIds: number[] = [];
+  for (const content of contents) {
+    const contentId = await writer.addStream("", content);
+    pageIds.push(
+      writer.add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 ${fontId} 0 R >> >> /Contents ${contentId} 0 R >>`
+      )
+    );
+  }
+  writer.set(pagesId, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+  writer.set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  await font.write(writer, fontId);
+  const createdAt = new Date().toISOString().replace(/[-:T]/g, "").slice(0, 14);
+  const infoId = writer.add(
+    `<< /Title <FEFF${utf16Hex(meta.title)}> /Creator (QRAi) /Producer (QRAi) /CreationDate (D:${createdAt}Z) >>`
+  );
+  return writer.finish(catalogId, infoId);
+}
@@ -0,0 +1,239 @@
+import JSZip from "jszip";
+import { extractPdfPageTexts } from "./pdfText";
+
+export type ExtractedFormat = "text" | "docx" | "pdf" | "xlsx" | "pptx";
+
+// 页（PDF 页 / 幻灯片 / 工作表 / DOCX 分页）在全文中的位置，end 为开区间
+export type ExtractedPage = {
+  page: number;
+  label: string;
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type ExtractedDocument = {
+  format: ExtractedFormat;
+  text: string;
+  pages: ExtractedPage[];
+};
+
+export const SUPPORTED_EXTRACT_EXTENSIONS = ["pdf", "docx", "txt", "md", "xlsx", "pptx"];
+const PAGE_SEPARATOR = "\n\n";
+
+export function resolveExtractFormat(filename: string): ExtractedFormat | null {
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+  if (extension === "txt" || extension === "md") {
+    return "text";
+  }
+  if (extension === "docx" || extension === "pdf" || extension === "xlsx" || extension === "pptx") {
+    return extension;
+  }
+  return null;
+}
+
+export async function extractDocumentText(filename: string, data: ArrayBuffer): Promise<ExtractedDocument> {
+  const format = resolveExtractFormat(filename);
+  if (!format) {
+    throw new Error(`不支持的文件格式，仅支持 ${SUPPORTED_EXTRACT_EXTENSIONS.join("/")}`);
+  }
+  const pages =
+    format === "text"
+      ? [{ label: "全文", text: decodePlainText(data) }]
+      : format === "pdf"
+        ? await extractPdfPages(data)
+        : format === "docx"
+          ? await extractDocxPages(data)
+          : format === "xlsx"
+            ? await extractXlsxPages(data)
+            : await extractPptxPages(data);
+  const document = assemblePages(format, pages);
+  if (!document.text.trim()) {
+    throw new Error(format === "pdf" ? "未提取到文本，文件可能为扫描件" : "未提取到文本");
+  }
+  return document;
+}
+
+// 只有一页的纯文本（如浏览器端提取结果）按单页保存
+export function buildSinglePageDocument(format: ExtractedFormat, text: string): ExtractedDocument {
+  return assemblePages(format, [{ label: "全文", text }]);
+}
+
+function assemblePages(format: ExtractedFormat, pages: Array<{ label: string; text: string }>): ExtractedDocument {
+  let text = "";
+  const result: ExtractedPage[] = [];
+  pages.forEach((page, index) => {
+    const pageText = normalizeWhitespace(page.text);
+    if (text) {
+      text += PAGE_SEPARATOR;
+    }
+    const start = text.length;
+    text += pageText;
+    result.push({ page: index + 1, label: page.label, start, end: text.length, text: pageText });
+  });
+  return { format, text, pages: result };
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// 优先按 UTF-8 解码，失败时按 GB18030 兼容国内常见的 GBK 编码文本
+function decodePlainText(data: ArrayBuffer): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data).replace(/^\uFEFF/, "");
+  } catch {
+    try {
+      return new TextDecoder("gb18030").decode(data);
+    } catch {
+      return new TextDecoder("utf-8").decode(data).replace(/^\uFEFF/, "");
+    }
+  }
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    }
+    if (lower.startsWith("#")) {
+      return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    }
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[lower] ?? "";
+  });
+}
+
+async function loadZip(data: ArrayBuffer): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(data);
+  } catch {
+    throw new Error("文件已损坏或不是有效的 Office 文档");
+  }
+}
+
+async function readZipText(zip: JSZip, path: string): Promise<string | null> {
+  const entry = zip.file(path);
+  return entry ? await entry.async("string") : null;
+}
+
+function sortByTrailingNumber(paths: string[]): string[] {
+  const numberOf = (path: string) => Number(path.match(/(\d+)\.xml$/)?.[1] ?? 0);
+  return [...paths].sort((a, b) => numberOf(a) - numberOf(b));
+}
+
+// DOCX：按段落提取，显式分页符与 Word 保存的渲染分页位置作为分页依据
+async function extractDocxPages(data: ArrayBuffer): Promise<Array<{ label: string; text: string }>> {
+  const zip = await loadZip(data);
+  const xml = await readZipText(zip, "word/document.xml");
+  if (!xml) {
+    throw new Error("DOCX 缺少正文内容");
+  }
+  const body = xml.match(/<w:body[^>]*>([\s\S]*)<\/w:body>/)?.[1] ?? xml;
+  const pages: string[][] = [[]];
+  const paragraphs = body.match(/<w:p[ >][\s\S]*?<\/w:p>|<w:p\/>/g) ?? [];
+  for (const paragraph of paragraphs) {
+    let line = "";
+    const tokens = paragraph.match(/<w:t[^>]*>[^<]*<\/w:t>|<w:tab\/>|<w:br[^>]*\/>|<w:lastRenderedPageBreak\/>/g) ?? [];
+    for (const token of tokens) {
+      if (token.startsWith("<w:t")) {
+        line += decodeXmlEntities(token.replace(/<[^>]+>/g, ""));
+      } else if (token === "<w:tab/>") {
+        line += "\t";
+      } else if (token.includes('w:type="page"') || token === "<w:lastRenderedPageBreak/>") {
+        if (line.trim() || pages[pages.length - 1].length > 0) {
+          pages[pages.length - 1].push(line);
+          pages.push([]);
+          line = "";
+        }
+      } else {
+        line += "\n";
+      }
+    }
+    pages[pages.length - 1].push(line);
+  }
+  return pages
+    .map((lines, index) => ({ label: `第 ${index + 1} 页`, text: lines.join("\n") }))
+    .filter((page) => page.text.trim());
+}
+
+// PPTX：每张幻灯片一页，按段落换行
+async function extractPptxPages(data: ArrayBuffer): Promise<Array<{ label: string; text: string }>> {
+  const zip = await loadZip(data);
+  const slidePaths = sortByTrailingNumber(
+    Object.keys(zip.files).filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+  );
+  if (slidePaths.length === 0) {
+    throw new Error("PPTX 中没有幻灯片");
+  }
+  const pages: Array<{ label: string; text: string }> = [];
+  for (const [index, path] of slidePaths.entries()) {
+    const xml = (await readZipText(zip, path)) ?? "";
+    const paragraphs = xml.match(/<a:p>[\s\S]*?<\/a:p>/g) ?? [];
+    const lines = paragraphs.map((paragraph) =>
+      (paragraph.match(/<a:t>[^<]*<\/a:t>/g) ?? [])
+        .map((item) => decodeXmlEntities(item.replace(/<[^>]+>/g, "")))
+        .join("")
+    );
+    pages.push({ label: `第 ${index + 1} 张幻灯片`, text: lines.filter((line) => line.trim()).join("\n") });
+  }
+  return pages;
+}
+
+// XLSX：每个工作表一页，每行单元格以制表符分隔
+async function extractXlsxPages(data: ArrayBuffer): Promise<Array<{ label: string; text: string }>> {
+  const zip = await loadZip(data);
+  const sharedXml = (await readZipText(zip, "xl/sharedStrings.xml")) ?? "";
+  const sharedStrings = (sharedXml.match(/<si>[\s\S]*?<\/si>/g) ?? []).map((item) =>
+    (item.match(/<t[^>]*>[^<]*<\/t>/g) ?? []).map((part) => decodeXmlEntities(part.replace(/<[^>]+>/g, ""))).join("")
+  );
+  const workbookXml = (await readZipText(zip, "xl/workbook.xml")) ?? "";
+  const relsXml = (await readZipText(zip, "xl/_rels/workbook.xml.rels")) ?? "";
+  const targets = new Map<string, string>();
+  for (const rel of relsXml.match(/<Relationship [^>]*>/g) ?? []) {
+    const id = rel.match(/Id="([^"]+)"/)?.[1];
+    const target = rel.match(/Target="([^"]+)"/)?.[1];
+    if (id && target) {
+      targets.set(id, target.startsWith("/") ? target.slice(1) : `xl/${target}`);
+    }
+  }
+  const sheets = (workbookXml.match(/<sheet [^>]*>/g) ?? []).map((sheet) => ({
+    name: decodeXmlEntities(sheet.match(/name="([^"]*)"/)?.[1] ?? ""),
+    path: targets.get(sheet.match(/r:id="([^"]+)"/)?.[1] ?? "") ?? ""
+  }));
+  if (sheets.length === 0) {
+    throw new Error("XLSX 中没有工作表");
+  }
+  const pages: Array<{ label: string; text: string }> = [];
+  for (const sheet of sheets) {
+    const xml = (await readZipText(zip, sheet.path)) ?? "";
+    const rows = (xml.match(/<row[ >][\s\S]*?<\/row>/g) ?? []).map((row) =>
+      (row.match(/<c [^>]*\/>|<c [^>]*>[\s\S]*?<\/c>/g) ?? [])
+        .map((cell) => {
+          const type = cell.match(/ t="([^"]+)"/)?.[1];
+          if (type === "inlineStr") {
+            return decodeXmlEntities((cell.match(/<t[^>]*>([^<]*)<\/t>/)?.[1] ?? "").trim());
+          }
+          const value = cell.match(/<v>([^<]*)<\/v>/)?.[1] ?? "";
+          if (type === "s") {
+            return sharedStrings[Number(value)] ?? "";
+          }
+          return decodeXmlEntities(value);
+        })
+        .join("\t")
+        .trimEnd()
+    );
+    pages.push({ label: `工作表「${sheet.name}」`, text: rows.filter((row) => row.trim()).join("\n") });
+  }
+  return pages;
+}
+
+// PDF：每页一段，无文本层的扫描件会得到空文本
+async function extractPdfPages(data: ArrayBuffer): Promise<Array<{ label: string; text: string }>> {
+  const texts = await extractPdfPageTexts(data);
+  return texts.map((text, index) => ({ label: `第 ${index + 1} 页`, text }));
+}
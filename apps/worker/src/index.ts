@@ -1,14 +1,154 @@
 import { Hono } from "hono";
+import type { Context } from "hono";
 import { authMiddleware, clearSession, clearSessionCookie, createSession, hashPassword, requireAdmin, requireAuth, setSessionCookie, verifyPassword } from "./auth";
-import type { Env, ModelCategory, ModelRuntimeConfig, PlanTier, User } from "./types";
-import { nowIso, putR2Json, putR2Text, readR2Text, safeJsonParse } from "./utils";
-import { generateReport, generateReportStream } from "./ai";
-import { renderDocx } from "./exporters";
+import type { Env, ModelCategory, ModelRuntimeConfig, PlanTier, ReportJobMessage, User } from "./types";
+import type { GeneratedReport, ReportInput, ScoringScheme, SourceText, WorkflowState } from "./aiTypes";
+import { daysFromNow, formatLocalTime, nowIso, putR2Json, putR2Text, readR2Text, safeJsonParse } from "./utils";
+import { generateReportStream } from "./ai";
+import { renderDocx, renderPdf } from "./exporters";
+import { createEvidenceIndexStore, indexProjectFile } from "./evidenceIndex";
+import { buildCapaStatements, CAPA_STATUSES, listCapaActions, rebuildCapaRecords, updateCapaAction } from "./capa";
+import type { CapaStatus } from "./capa";
+import { LIFECYCLE_LABELS, isLifecycleLocked, listReportSignatures, signReport } from "./signatures";
+import type { ReportLifecycleStatus } from "./signatures";
+import {
+  ACCESSIBLE_PROJECT_SQL,
+  createTeam,
+  deleteTeam,
+  deleteTeamStatements,
+  hasProjectRole,
+  listProjectMembers,
+  listTeamMembers,
+  listTeams,
+  pickProjectRole,
+  PROJECT_ROLE_COLUMNS_SQL,
+  removeProjectMember,
+  removeTeamMember,
+  resolveProjectRole,
+  resolveTeamRole,
+  setProjectTeam,
+  upsertProjectMember,
+  upsertTeamMember
+} from "./sharing";
+import type { ProjectRole } from "./sharing";
+import {
+  AUDIT_EXPORT_LIMIT,
+  buildAuditCsv,
+  listAuditLogs,
+  parseAuditFilters,
+  pickChangedFields,
+  recordAuditLog
+} from "./audit";
+import type { AuditEntry } from "./audit";
+import { buildSinglePageDocument, extractDocumentText, resolveExtractFormat } from "./extraction";
+import type { ExtractedDocument } from "./extraction";
+import { checkRenderedTables, rebuildWorkflowJsonFromMarkdown } from "./markdownTables";
+import { applyReportEdits, buildFallbackContext, buildPeriodicReviewState } from "./reportEdits";
+import type { ReportData } from "./reportEdits";
+import { diffReports } from "./reportDiff";
+import { EVAL_TOOLS, RENDER_MODES, renderReportMarkdown, resolveReviewSchedule } from "./workflow";
 import { ensureDefaultModel, fetchDefaultModelForPlan, fetchModelByIdForPlan, listAdminModels, listModelNamesByPlan, listPublicModelsForPlan, normalizeModelCategory, normalizePlanTier, sanitizeBaseUrl, setDefaultModel, setModelAccess } from "./models";
-import { consumeUserQuota, getUserQuotaSnapshot, resetUserQuotaForPlan, setUserQuotaRemaining } from "./quota";
+import { normalizeRiskMethodInput } from "./riskMethods";
+import { fetchScoringScheme, listScoringSchemes, parseScoringSchemeConfig } from "./scoring";
+import {
+  createReportEventWriter,
+  enqueueReportJob,
+  isCurrentReportJob,
+  isReportEventPageFull,
+  listReportEvents,
+  REPORT_JOB_ENQUEUE_ERROR,
+  REPORT_JOB_MAX_ATTEMPTS,
+  REPORT_JOB_RETRY_DELAY_SECONDS,
+  supersedeReportJobsStatement,
+  TERMINAL_REPORT_EVENTS,
+  updateReportJob
+} from "./reportJobs";
+import {
+  consumeUserQuota,
+  getUserQuotaSnapshot,
+  isReportQuotaRefunded,
+  listQuotaLedger,
+  refundReportQuota,
+  resetUserQuotaForPlan,
+  setUserQuotaRemaining
+} from "./quota";
+import {
+  applyFmeaScoringEdits,
+  applyHazardIdentificationEdits,
+  isReviewStage,
+  isReviewStageSupported,
+  normalizeReviewStages
+} from "./stages";
+import { validateTemplatePlaceholders } from "./templatePlaceholders";
+import {
+  createTemplateRevision,
+  diffTemplateRevisions,
+  listTemplateRevisions,
+  parseTemplateRevision,
+  readProjectTemplateContent,
+  readTemplateRevision,
+  templateRevisionKey
+} from "./templateRevisions";
+
+type AppEnv = { Bindings: Env; Variables: { user: User | null } };
+
+const app = new Hono<AppEnv>();
+const ALLOWED_EVAL_TOOLS = new Set<string>(EVAL_TOOLS);
+const ALLOWED_RENDER_MODES = new Set<string>(RENDER_MODES);
+// 首页提醒的再评估到期窗口（天）
+const REVIEW_UPCOMING_DAYS = 30;
+
+// 写入审计记录；登录、注册等尚未建立会话的请求显式传入操作用户
+const audit = (c: Context<AppEnv>, entry: AuditEntry, user?: Pick<User, "id" | "email"> | null) =>
+  recordAuditLog(
+    c.env,
+    {
+      user: user === undefined ? c.get("user") : user,
+      ip: c.req.header("cf-connecting-ip") ?? c.req.header("x-forwarded-for") ?? null,
+      userAgent: c.req.header("user-agent") ?? null
+    },
+    entry
+  );
+
+// 校验当前用户在项目中的角色：无权查看时按不存在处理（404），角色不足时返回 403；通过时返回 null
+const denyProjectAccess = async (
+  c: Context<AppEnv>,
+  projectId: string,
+  required: ProjectRole,
+  notFoundMessage = "项目不存在"
+) => {
+  const role = await resolveProjectRole(c.env, c.get("user")?.id as string, projectId);
+  if (!role) {
+    return c.json({ error: notFoundMessage }, 404);
+  }
+  if (!hasProjectRole(role, required)) {
+    return c.json({ error: "当前项目角色无权执行此操作" }, 403);
+  }
+  return null;
+};
+
+// 模型配置的审计快照，API Key 不记录明文
+const readModelAuditSnapshot = async (env: Env, modelId: string) => {
+  const row = await env.DB.prepare(
+    "SELECT name, category, model_name, base_url, is_default, is_active FROM models WHERE id = ?"
+  )
+    .bind(modelId)
+    .first();
+  if (!row) {
+    return null;
+  }
+  const access = await env.DB.prepare("SELECT plan FROM model_access WHERE model_id = ? ORDER BY plan")
+    .bind(modelId)
+    .all();
+  return { ...row, allowed_plans: (access.results ?? []).map((entry) => entry.plan) };
+};
 
-const app = new Hono<{ Bindings: Env; Variables: { user: User | null } }>();
-const ALLOWED_EVAL_TOOLS = new Set(["FMEA"]);
+const readScoringSchemeAuditSnapshot = (env: Env, schemeId: string) =>
+  env.DB.prepare(
+    "SELECT name, description, score_values, levels, action_threshold, is_default, is_active FROM scoring_schemes WHERE id = ?"
+  )
+    .bind(schemeId)
+    .first();
 
 const normalizeEvalTool = (value: string | null | undefined) => {
   return value && ALLOWED_EVAL_TOOLS.has(value) ? value : "FMEA";
@@ -51,14 +191,15 @@ const isValidHttpUrl = (value: string) => {
   return /^https?:\/\//i.test(value);
 };
 
-const deleteProjectResources = async (env: Env, projectId: string) => {
+// 收集删除项目所需的 R2 对象与数据库语句，由调用方放入同一个 batch 执行
+const collectProjectDeletion = async (env: Env, projectId: string) => {
   const fileRows = await env.DB.prepare(
-    "SELECT file_key, text_key FROM project_files WHERE project_id = ?"
+    "SELECT file_key, text_key, pages_key FROM project_files WHERE project_id = ?"
   )
     .bind(projectId)
     .all();
   const reportRows = await env.DB.prepare(
-    "SELECT id, md_key, json_key, template_snapshot_key FROM reports WHERE project_id = ?"
+    "SELECT id, md_key, json_key, template_snapshot_key, state_key FROM reports WHERE project_id = ?"
   )
     .bind(projectId)
     .all();
@@ -67,6 +208,9 @@ const deleteProjectResources = async (env: Env, projectId: string) => {
   )
     .bind(projectId)
     .all();
+  const evidenceRows = await env.DB.prepare("SELECT index_key FROM evidence_indexes WHERE project_id = ?")
+    .bind(projectId)
+    .all();
 
   const keysToDelete: string[] = [];
   for (const row of fileRows.results ?? []) {
@@ -76,6 +220,9 @@ const deleteProjectResources = async (env: Env, projectId: string) => {
     if (row.text_key) {
       keysToDelete.push(row.text_key as string);
     }
+    if (row.pages_key) {
+      keysToDelete.push(row.pages_key as string);
+    }
   }
   for (const row of reportRows.results ?? []) {
     if (row.md_key) {
@@ -87,34 +234,50 @@ const deleteProjectResources = async (env: Env, projectId: string) => {
     if (row.template_snapshot_key) {
       keysToDelete.push(row.template_snapshot_key as string);
     }
+    if (row.state_key) {
+      keysToDelete.push(row.state_key as string);
+    }
   }
   for (const row of exportRows.results ?? []) {
     if (row.file_key) {
       keysToDelete.push(row.file_key as string);
     }
   }
+  for (const row of evidenceRows.results ?? []) {
+    keysToDelete.push(row.index_key as string);
+  }
+
+  return {
+    keys: keysToDelete,
+    statements: [
+      env.DB.prepare(
+        "DELETE FROM report_exports WHERE report_id IN (SELECT id FROM reports WHERE project_id = ?)"
+      ).bind(projectId),
+      env.DB.prepare(
+        "DELETE FROM report_events WHERE report_id IN (SELECT id FROM reports WHERE project_id = ?)"
+      ).bind(projectId),
+      env.DB.prepare(
+        "DELETE FROM report_jobs WHERE report_id IN (SELECT id FROM reports WHERE project_id = ?)"
+      ).bind(projectId),
+      env.DB.prepare("DELETE FROM capa_actions WHERE project_id = ?").bind(projectId),
+      env.DB.prepare("DELETE FROM capa_risks WHERE project_id = ?").bind(projectId),
+      env.DB.prepare("DELETE FROM reports WHERE project_id = ?").bind(projectId),
+      env.DB.prepare("DELETE FROM evidence_indexes WHERE project_id = ?").bind(projectId),
+      env.DB.prepare("DELETE FROM project_files WHERE project_id = ?").bind(projectId),
+      env.DB.prepare("DELETE FROM project_inputs WHERE project_id = ?").bind(projectId),
+      env.DB.prepare("DELETE FROM project_members WHERE project_id = ?").bind(projectId),
+      env.DB.prepare("DELETE FROM projects WHERE id = ?").bind(projectId)
+    ]
+  };
+};
 
-  for (const key of keysToDelete) {
+// 先提交数据库删除，成功后再清理 R2 对象
+const deleteProjectResources = async (env: Env, projectId: string) => {
+  const { keys, statements } = await collectProjectDeletion(env, projectId);
+  await env.DB.batch(statements);
+  for (const key of keys) {
     await env.BUCKET.delete(key);
   }
-
-  await env.DB.prepare(
-    "DELETE FROM report_exports WHERE report_id IN (SELECT id FROM reports WHERE project_id = ?)"
-  )
-    .bind(projectId)
-    .run();
-  await env.DB.prepare("DELETE FROM reports WHERE project_id = ?")
-    .bind(projectId)
-    .run();
-  await env.DB.prepare("DELETE FROM project_files WHERE project_id = ?")
-    .bind(projectId)
-    .run();
-  await env.DB.prepare("DELETE FROM project_inputs WHERE project_id = ?")
-    .bind(projectId)
-    .run();
-  await env.DB.prepare("DELETE FROM projects WHERE id = ?")
-    .bind(projectId)
-    .run();
 };
 
 const resolveTextModel = async (
@@ -143,6 +306,522 @@ const resolveTextModel = async (
   return { model: fallback };
 };
 
+// 服务端解析上传文件：全文写入 text_key 供生成报告使用，分页文本与偏移写入 pages_key
+const extractProjectFile = async (
+  env: Env,
+  params: { projectId: string; fileId: string; filename: string; data: ArrayBuffer; fallbackText?: string }
+): Promise<{
+  status: "parsed" | "failed";
+  error_message: string | null;
+  pages: number;
+  characters: number;
+  text: string | null;
+}> => {
+  const textKey = `projects/${params.projectId}/texts/${params.fileId}.txt`;
+  const pagesKey = `projects/${params.projectId}/texts/${params.fileId}.pages.json`;
+  let document: ExtractedDocument;
+  try {
+    document = await extractDocumentText(params.filename, params.data);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "文件解析失败";
+    if (!params.fallbackText) {
+      // 重新解析失败时清除旧的解析结果，避免生成报告时引用过期文本
+      await env.BUCKET.delete([textKey, pagesKey]);
+      await env.DB.prepare(
+        "UPDATE project_files SET status = ?, text_key = NULL, pages_key = NULL, error_message = ? WHERE id = ?"
+      )
+        .bind("failed", message, params.fileId)
+        .run();
+      return { status: "failed", error_message: message, pages: 0, characters: 0, text: null };
+    }
+    // 服务端无法解析时沿用浏览器端提取的文本
+    document = buildSinglePageDocument(resolveExtractFormat(params.filename) ?? "text", params.fallbackText);
+  }
+
+  await putR2Text(env.BUCKET, textKey, document.text);
+  await putR2Json(env.BUCKET, pagesKey, { format: document.format, pages: document.pages });
+  await env.DB.prepare(
+    "UPDATE project_files SET status = ?, text_key = ?, pages_key = ?, error_message = NULL WHERE id = ?"
+  )
+    .bind("parsed", textKey, pagesKey, params.fileId)
+    .run();
+  return {
+    status: "parsed",
+    error_message: null,
+    pages: document.pages.length,
+    characters: document.text.length,
+    text: document.text
+  };
+};
+
+const prebuildEvidenceIndex = async (
+  env: Env,
+  projectId: string,
+  fileId: string,
+  text: string,
+  user: User | null | undefined
+) => {
+  const embeddingModel = await fetchDefaultModelForPlan(env, "embedding", resolveUserPlan(user));
+  await indexProjectFile(env, { projectId, fileId, text, embeddingModel });
+};
+
+const loadProjectSources = async (env: Env, projectId: string) => {
+  const files = await env.DB.prepare(
+    "SELECT id, type, text_key, filename FROM project_files WHERE project_id = ?"
+  )
+    .bind(projectId)
+    .all();
+
+  const sopTexts: string[] = [];
+  const literatureTexts: string[] = [];
+  const sopSources: SourceText[] = [];
+  const literatureSources: SourceText[] = [];
+  const sourceFiles: Array<{ type: string; filename: string }> = [];
+  for (const row of files.results ?? []) {
+    const textKey = row.text_key as string | null;
+    const filename = row.filename as string | null;
+    if (filename) {
+      sourceFiles.push({ type: row.type as string, filename });
+    }
+    if (!textKey) {
+      continue;
+    }
+    const text = await readR2Text(env.BUCKET, textKey);
+    if (!text) {
+      continue;
+    }
+    if (row.type === "sop") {
+      sopTexts.push(text);
+      sopSources.push({ text, filename, fileId: row.id as string });
+    } else if (row.type === "literature") {
+      literatureTexts.push(text);
+      literatureSources.push({ text, filename, fileId: row.id as string });
+    }
+  }
+  return { sopTexts, literatureTexts, sopSources, literatureSources, sourceFiles };
+};
+
+const buildReportInput = (
+  title: string,
+  inputs: Record<string, unknown> | null,
+  templateContent: string | null,
+  sources: Awaited<ReturnType<typeof loadProjectSources>>,
+  scoringScheme?: ScoringScheme
+): ReportInput => {
+  return {
+    title,
+    scope: (inputs?.scope as string) ?? null,
+    background: (inputs?.background as string) ?? null,
+    objective: (inputs?.objective as string) ?? null,
+    riskMethod: (inputs?.risk_method as string) ?? null,
+    evalTool: normalizeEvalTool((inputs?.eval_tool as string) ?? null),
+    processSteps: parseProcessStepsFromDb(inputs?.process_steps),
+    templateContent,
+    scoringScheme,
+    renderMode: inputs?.render_mode === "deterministic" ? "deterministic" : "llm",
+    autoRerender: Boolean(inputs?.auto_rerender),
+    ...sources
+  };
+};
+
+const saveWorkflowCheckpoint = async (env: Env, projectId: string, reportId: string, state: WorkflowState) => {
+  const stateKey = `projects/${projectId}/reports/${reportId}.state.json`;
+  await putR2Json(env.BUCKET, stateKey, state);
+  await env.DB.prepare("UPDATE reports SET state_key = ? WHERE id = ?").bind(stateKey, reportId).run();
+};
+
+// 流程在审核节点暂停时只更新状态；完成时写入 Markdown 与结构化 JSON
+const saveWorkflowResult = async (
+  env: Env,
+  projectId: string,
+  reportId: string,
+  report: GeneratedReport
+): Promise<"review" | "completed"> => {
+  if (report.pausedAt) {
+    await env.DB.prepare(
+      "UPDATE reports SET status = ?, current_stage = ?, prompt_tokens = ?, completion_tokens = ?, total_tokens = ? WHERE id = ?"
+    )
+      .bind(
+        "review",
+        report.pausedAt,
+        report.usage?.prompt_tokens ?? null,
+        report.usage?.completion_tokens ?? null,
+        report.usage?.total_tokens ?? null,
+        reportId
+      )
+      .run();
+    return "review";
+  }
+
+  const reportKey = `projects/${projectId}/reports/${reportId}.md`;
+  await putR2Text(env.BUCKET, reportKey, report.markdown);
+
+  let jsonKey: string | null = null;
+  if (report.json) {
+    jsonKey = `projects/${projectId}/reports/${reportId}.json`;
+    await putR2Json(env.BUCKET, jsonKey, report.json);
+  }
+
+  // 完成状态与 CAPA 登记在同一批次写入：登记失败时报告不会标记为完成，由队列重试
+  const capa = report.json
+    ? await buildCapaStatements(env, { projectId, reportId, data: report.json as ReportData })
+    : { statements: [] };
+  await env.DB.batch([
+    env.DB.prepare(
+      "UPDATE reports SET status = ?, md_key = ?, json_key = ?, current_stage = NULL, prompt_tokens = ?, completion_tokens = ?, total_tokens = ?, review_level = ?, review_due_at = ? WHERE id = ?"
+    ).bind(
+      "completed",
+      reportKey,
+      jsonKey,
+      report.usage?.prompt_tokens ?? null,
+      report.usage?.completion_tokens ?? null,
+      report.usage?.total_tokens ?? null,
+      report.reviewSchedule?.level ?? null,
+      report.reviewSchedule?.due_date ?? null,
+      reportId
+    ),
+    ...capa.statements
+  ]);
+
+  await env.DB.prepare("UPDATE projects SET status = ?, updated_at = ? WHERE id = ?")
+    .bind("completed", nowIso(), projectId)
+    .run();
+  return "completed";
+};
+
+const REPORT_EVENTS_POLL_MS = 1000;
+// 单次连接的最长等待时间，超时后客户端可携带最后的事件 id 重新连接
+const REPORT_EVENTS_MAX_MS = 10 * 60 * 1000;
+const REPORT_CANCEL_POLL_MS = 3000;
+
+// 重试用尽后标记报告失败并退还次数
+const failReportJob = async (
+  env: Env,
+  params: { jobId: string; reportId: string; attempt: number; message: string; stage: string | null }
+) => {
+  const { jobId, reportId, attempt, message } = params;
+  await env.DB.prepare(
+    "UPDATE reports SET status = ?, error_message = ?, failed_stage = ? WHERE id = ? AND status = 'running'"
+  )
+    .bind("failed", message, params.stage, reportId)
+    .run();
+  await refundReportQuota(env, reportId, `生成失败：${message}`, { jobId });
+  await updateReportJob(env, jobId, "failed", { attempts: attempt, errorMessage: message });
+};
+
+const failReportJobById = async (env: Env, jobId: string, attempt: number, message: string) => {
+  const job = await env.DB.prepare("SELECT report_id FROM report_jobs WHERE id = ?").bind(jobId).first();
+  const reportId = job?.report_id as string | undefined;
+  if (reportId && (await isCurrentReportJob(env, reportId, jobId))) {
+    await failReportJob(env, { jobId, reportId, attempt, message, stage: null });
+  }
+};
+
+// 在队列消费者中执行报告生成；失败时由队列重试，重试从最近一次阶段检查点继续
+const runReportJob = async (env: Env, jobId: string, attempt: number): Promise<"done" | "retry"> => {
+  const job = await env.DB.prepare("SELECT id, report_id, status, text_model_id, plan FROM report_jobs WHERE id = ?")
+    .bind(jobId)
+    .first();
+  if (!job || job.status === "completed" || job.status === "failed" || job.status === "aborted") {
+    return "done";
+  }
+  const reportId = job.report_id as string;
+  const report = await env.DB.prepare(
+    "SELECT r.id, r.project_id, r.version, r.status, r.state_key, r.review_stages, r.template_snapshot_key, p.title FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ?"
+  )
+    .bind(reportId)
+    .first();
+  if (!report || report.status !== "running") {
+    if (report) {
+      await refundReportQuota(env, reportId, "评估已停止", { jobId });
+    }
+    await updateReportJob(env, jobId, "aborted", { errorMessage: report ? "报告已停止" : "报告不存在" });
+    return "done";
+  }
+
+  // 任务在排队期间被新的继续或续跑替代时直接退出
+  if (!(await updateReportJob(env, jobId, "running", { attempts: attempt }))) {
+    return "done";
+  }
+  const projectId = report.project_id as string;
+  const version = report.version as number;
+  const events = createReportEventWriter(env, reportId, jobId);
+  const abortController = new AbortController();
+  let activeStage: string | null = null;
+  // 用户停止评估、删除报告或任务被新的运行替代后中断正在进行的模型调用
+  const cancelWatcher = setInterval(() => {
+    env.DB.prepare(
+      "SELECT j.status AS job_status, r.status FROM report_jobs j LEFT JOIN reports r ON r.id = j.report_id WHERE j.id = ?"
+    )
+      .bind(jobId)
+      .first()
+      .then((row) => {
+        if (!row || row.status !== "running" || row.job_status === "aborted") {
+          abortController.abort();
+        }
+      })
+      .catch(() => undefined);
+  }, REPORT_CANCEL_POLL_MS);
+
+  try {
+    if (attempt > 1) {
+      events.push("retry", { attempt, maxAttempts: REPORT_JOB_MAX_ATTEMPTS });
+    }
+    const plan = normalizePlanTier(job.plan as string) ?? "free";
+    const textModel = await fetchModelByIdForPlan(env, job.text_model_id as string, plan, "text");
+    if (!textModel) {
+      throw new Error("指定模型不存在或无权限使用");
+    }
+    const embeddingModel = await fetchDefaultModelForPlan(env, "embedding", plan);
+    const rerankModel = await fetchDefaultModelForPlan(env, "rerank", plan);
+    const inputs = await env.DB.prepare(
+      "SELECT scope, background, objective, risk_method, eval_tool, process_steps, scoring_scheme_id, render_mode, auto_rerender FROM project_inputs WHERE project_id = ?"
+    )
+      .bind(projectId)
+      .first();
+    const sources = await loadProjectSources(env, projectId);
+    const scoringScheme = await fetchScoringScheme(env, inputs?.scoring_scheme_id as string | null);
+    const templateContent = report.template_snapshot_key
+      ? await readR2Text(env.BUCKET, report.template_snapshot_key as string)
+      : null;
+    const stateText = report.state_key ? await readR2Text(env.BUCKET, report.state_key as string) : null;
+    const state = stateText ? safeJsonParse<WorkflowState>(stateText) : null;
+
+    const result = await generateReportStream(
+      { llm: textModel, embedding: embeddingModel, rerank: rerankModel },
+      buildReportInput(report.title as string, inputs, templateContent || null, sources, scoringScheme),
+      {
+        onDelta: (delta) => events.push("delta", { delta }),
+        onReplace: (content) => events.push("delta", { delta: content, replace: true }),
+        onUsage: (usage) => events.push("usage", usage),
+        onStep: (step, status) => {
+          if (status === "running") {
+            activeStage = step;
+          }
+          events.push("step", { step, status });
+        },
+        onLlmDelta: (step, delta) => events.push("llm", { step, delta }),
+        onContextStage: (message) => events.push("context", { message }),
+        onContextStages: (messages) => events.push("context_stages", { messages }),
+        onContextMeta: (meta) => events.push("context_meta", meta),
+        onContextEvidence: (items) => events.push("context_evidence", { items })
+      },
+      {
+        signal: abortController.signal,
+        state: state ?? undefined,
+        reviewStages: normalizeReviewStages(safeJsonParse(report.review_stages as string)),
+        onCheckpoint: (nextState) => saveWorkflowCheckpoint(env, projectId, reportId, nextState),
+        evidenceIndex: createEvidenceIndexStore(env, projectId)
+      }
+    );
+    if (abortController.signal.aborted || !(await isCurrentReportJob(env, reportId, jobId))) {
+      throw new Error("请求已取消");
+    }
+
+    const status = await saveWorkflowResult(env, projectId, reportId, result);
+    events.push("done", { reportId, version, status, stage: result.pausedAt ?? null, usage: result.usage ?? null });
+    await events.flush();
+    await updateReportJob(env, jobId, "completed", { attempts: attempt });
+    return "done";
+  } catch (error) {
+    // 已被新的运行替代：报告状态、进度与次数均归新任务处理
+    if (!(await isCurrentReportJob(env, reportId, jobId))) {
+      return "done";
+    }
+    if (abortController.signal.aborted) {
+      await env.DB.prepare("UPDATE reports SET failed_stage = ? WHERE id = ? AND status = 'aborted'")
+        .bind(activeStage, reportId)
+        .run();
+      events.push("error", { message: "评估已停止", stage: activeStage });
+      await events.flush();
+      await refundReportQuota(env, reportId, "评估已停止", { jobId });
+      await updateReportJob(env, jobId, "aborted", { attempts: attempt, errorMessage: "评估已停止" });
+      return "done";
+    }
+    const message = error instanceof Error ? error.message : "未知错误";
+    if (attempt < REPORT_JOB_MAX_ATTEMPTS) {
+      events.push("retry", { attempt, maxAttempts: REPORT_JOB_MAX_ATTEMPTS, message });
+      await events.flush();
+      await updateReportJob(env, jobId, "queued", { attempts: attempt, errorMessage: message });
+      return "retry";
+    }
+    await failReportJob(env, { jobId, reportId, attempt, message, stage: activeStage });
+    events.push("error", { message, stage: activeStage });
+    await events.flush();
+    return "done";
+  } finally {
+    clearInterval(cancelWatcher);
+  }
+};
+
+// 将报告的持久化进度事件以 SSE 推送给客户端；断开连接不影响后台任务
+const streamReportEvents = (
+  c: Context<AppEnv>,
+  params: { reportId: string; version: number; after?: number; start?: Record<string, unknown> }
+) => {
+  const { reportId, version } = params;
+  let closed = false;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const encoder = new TextEncoder();
+      const send = (event: string, data: Record<string, unknown>, id?: number) => {
+        const idLine = id === undefined ? "" : `id: ${id}\n`;
+        controller.enqueue(encoder.encode(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      send("start", { reportId, version, status: "running", ...params.start });
+
+      (async () => {
+        let cursor = params.after ?? 0;
+        let lastTerminal = false;
+        const deadline = Date.now() + REPORT_EVENTS_MAX_MS;
+        try {
+          while (!closed && Date.now() < deadline) {
+            const events = await listReportEvents(c.env, reportId, cursor);
+            for (const item of events) {
+              send(item.event, item.data, item.id);
+              cursor = item.id;
+              lastTerminal = TERMINAL_REPORT_EVENTS.has(item.event);
+            }
+            if (isReportEventPageFull(events)) {
+              continue;
+            }
+            const report = await c.env.DB.prepare(
+              "SELECT status, current_stage, failed_stage, error_message, prompt_tokens, completion_tokens, total_tokens FROM reports WHERE id = ?"
+            )
+              .bind(reportId)
+              .first();
+            if (!report) {
+              send("error", { message: "报告不存在" });
+              return;
+            }
+            if (report.status !== "running") {
+              // 状态已落库但结束事件尚未写入（或已被清理）时，按报告状态补发结束事件
+              if (!lastTerminal) {
+                if (report.status === "review" || report.status === "completed") {
+                  send("done", {
+                    reportId,
+                    version,
+                    status: report.status,
+                    stage: report.current_stage ?? null,
+                    usage: report.total_tokens
+                      ? {
+                          prompt_tokens: report.prompt_tokens,
+                          completion_tokens: report.completion_tokens,
+                          total_tokens: report.total_tokens
+                        }
+                      : null
+                  });
+                } else {
+                  send("error", {
+                    message: (report.error_message as string | null) ?? "评估失败",
+                    stage: report.failed_stage ?? null
+                  });
+                }
+              }
+              return;
+            }
+            await new Promise<void>((resolve) => setTimeout(resolve, REPORT_EVENTS_POLL_MS));
+          }
+        } catch (error) {
+          if (!closed) {
+            send("error", { message: error instanceof Error ? error.message : "进度读取失败" });
+          }
+        } finally {
+          if (!closed) {
+            controller.close();
+          }
+        }
+      })();
+    },
+    cancel() {
+      closed = true;
+    }
+  });
+
+  const originHeader = c.req.header("Origin");
+  const allowedOrigins = c.env.APP_ORIGIN
+    ? c.env.APP_ORIGIN.split(",").map((origin) => origin.trim()).filter(Boolean)
+    : [];
+  const corsHeaders: Record<string, string> = {};
+  if (originHeader && allowedOrigins.includes(originHeader)) {
+    corsHeaders["Access-Control-Allow-Origin"] = originHeader;
+    corsHeaders["Access-Control-Allow-Credentials"] = "true";
+    corsHeaders["Vary"] = "Origin";
+  }
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive"
+    }
+  });
+};
+
+// 审核后继续或失败后续跑：按请求重新选择模型后排队执行，已完成的阶段从检查点恢复
+// 状态仅在仍为读取时的状态时才切换为运行中，重复提交只有一次生效；beforeRun 返回响应时恢复原状态并中止
+// 审计在任务入队后记录，未实际开始的流转不留记录
+const requeueReport = async (
+  c: Context<AppEnv>,
+  report: { id: string; projectId: string; version: number; status: string },
+  action: string,
+  beforeRun?: () => Promise<Response | null>
+) => {
+  const { id: reportId, projectId, version } = report;
+  const body = await c.req.json().catch(() => null);
+  const requestedTextModelId = typeof body?.textModelId === "string" ? body.textModelId.trim() : null;
+  const plan = resolveUserPlan(c.get("user"));
+  const inputs = await c.env.DB.prepare("SELECT text_model_id FROM project_inputs WHERE project_id = ?")
+    .bind(projectId)
+    .first();
+  const storedTextModelId = typeof inputs?.text_model_id === "string" ? inputs.text_model_id.trim() : null;
+  const { model: textModel, error: modelError } = await resolveTextModel(
+    c.env,
+    requestedTextModelId,
+    storedTextModelId,
+    plan
+  );
+  if (!textModel) {
+    return c.json({ error: modelError ?? "模型不可用" }, 400);
+  }
+  // 切换状态的同时中止该报告仍在排队或执行的旧任务，旧任务退出时不再退还次数
+  const [, claimed] = await c.env.DB.batch([
+    supersedeReportJobsStatement(c.env, reportId, report.status),
+    c.env.DB.prepare("UPDATE reports SET status = 'running' WHERE id = ? AND status = ?").bind(reportId, report.status)
+  ]);
+  if (!claimed?.meta?.changes) {
+    return c.json({ error: "报告状态已变化，请刷新后重试" }, 409);
+  }
+  const rejected = beforeRun ? await beforeRun() : null;
+  if (rejected) {
+    await c.env.DB.prepare("UPDATE reports SET status = ? WHERE id = ? AND status = 'running'")
+      .bind(report.status, reportId)
+      .run();
+    return rejected;
+  }
+  await c.env.DB.prepare(
+    "UPDATE reports SET current_stage = NULL, failed_stage = NULL, error_message = NULL WHERE id = ?"
+  )
+    .bind(reportId)
+    .run();
+
+  if (!(await enqueueReportJob(c.env, { reportId, textModelId: textModel.id, plan }))) {
+    return c.json({ error: REPORT_JOB_ENQUEUE_ERROR }, 500);
+  }
+  await audit(c, {
+    action,
+    entityType: "report",
+    entityId: reportId,
+    projectId,
+    oldValue: { status: report.status },
+    newValue: { status: "running" }
+  });
+  return streamReportEvents(c, { reportId, version });
+};
+
 app.use("*", async (c, next) => {
   const originHeader = c.req.header("Origin");
   const allowedOrigins = c.env.APP_ORIGIN
@@ -192,6 +871,11 @@ app.post("/api/auth/register", async (c) => {
     .bind(userId, email, hash, salt, role, plan, createdAt)
     .run();
   await resetUserQuotaForPlan(c.env, userId, plan, createdAt);
+  await audit(
+    c,
+    { action: "auth.register", entityType: "user", entityId: userId, newValue: { email, role, plan } },
+    { id: userId, email }
+  );
 
   const session = await createSession(c.env, userId);
   setSessionCookie(c, session.token, session.expiresAt, c.env);
@@ -215,6 +899,7 @@ app.post("/api/auth/login", async (c) => {
     .first();
 
   if (!userRow) {
+    await audit(c, { action: "auth.login_failed", entityType: "auth", newValue: { email } }, null);
     return c.json({ error: "邮箱或密码错误" }, 401);
   }
 
@@ -223,17 +908,24 @@ app.post("/api/auth/login", async (c) => {
     userRow.password_hash as string,
     userRow.password_salt as string
   );
+  const actor = { id: userRow.id as string, email: userRow.email as string };
   if (!ok) {
+    await audit(c, { action: "auth.login_failed", entityType: "auth", entityId: actor.id, newValue: { email } }, actor);
     return c.json({ error: "邮箱或密码错误" }, 401);
   }
 
   const plan = normalizePlanTier(userRow.plan) ?? "free";
   const session = await createSession(c.env, userRow.id as string);
   setSessionCookie(c, session.token, session.expiresAt, c.env);
+  await audit(c, { action: "auth.login", entityType: "auth", entityId: actor.id }, actor);
   return c.json({ id: userRow.id, email: userRow.email, role: userRow.role, plan });
 });
 
 app.post("/api/auth/logout", async (c) => {
+  const user = c.get("user");
+  if (user) {
+    await audit(c, { action: "auth.logout", entityType: "auth", entityId: user.id });
+  }
   await clearSession(c.env, c.req.raw);
   clearSessionCookie(c);
   return c.json({ ok: true });
@@ -251,7 +943,7 @@ app.get("/api/me", requireAuth, async (c) => {
 
 app.get("/api/templates", requireAuth, async (c) => {
   const rows = await c.env.DB.prepare(
-    "SELECT id, name, description, created_at, updated_at FROM templates WHERE is_active = 1 ORDER BY updated_at DESC"
+    "SELECT id, name, description, latest_revision, created_at, updated_at FROM templates WHERE is_active = 1 ORDER BY updated_at DESC"
   ).all();
   return c.json({ templates: rows.results ?? [] });
 });
@@ -259,22 +951,63 @@ app.get("/api/templates", requireAuth, async (c) => {
 app.get("/api/templates/:id", requireAuth, async (c) => {
   const templateId = c.req.param("id");
   const template = await c.env.DB.prepare(
-    "SELECT id, name, description, file_key FROM templates WHERE id = ? AND is_active = 1"
+    "SELECT id, name, description, latest_revision FROM templates WHERE id = ? AND is_active = 1"
   )
     .bind(templateId)
     .first();
   if (!template) {
     return c.json({ error: "模板不存在" }, 404);
   }
-  const content = await readR2Text(c.env.BUCKET, template.file_key as string);
+  const requested = c.req.query("revision");
+  const revision = parseTemplateRevision(requested);
+  if (requested && !revision) {
+    return c.json({ error: "模板版本不正确" }, 400);
+  }
+  const current = await readTemplateRevision(c.env, templateId, revision);
+  if (!current) {
+    return c.json({ error: "模板版本不存在" }, 404);
+  }
   return c.json({
     id: template.id,
     name: template.name,
     description: template.description,
-    content: content ?? ""
+    latest_revision: template.latest_revision,
+    revision: current.revision,
+    change_note: current.change_note,
+    content: current.content
   });
 });
 
+app.get("/api/templates/:id/revisions", requireAuth, async (c) => {
+  const templateId = c.req.param("id");
+  const template = await c.env.DB.prepare("SELECT id FROM templates WHERE id = ? AND is_active = 1")
+    .bind(templateId)
+    .first();
+  if (!template) {
+    return c.json({ error: "模板不存在" }, 404);
+  }
+  const revisions = await listTemplateRevisions(c.env, templateId);
+  return c.json({ revisions });
+});
+
+app.get("/api/templates/:id/revisions/diff", requireAuth, async (c) => {
+  const templateId = c.req.param("id");
+  const template = await c.env.DB.prepare("SELECT id, latest_revision FROM templates WHERE id = ? AND is_active = 1")
+    .bind(templateId)
+    .first();
+  if (!template) {
+    return c.json({ error: "模板不存在" }, 404);
+  }
+  // 默认对比最新版本与其上一版本
+  const target = parseTemplateRevision(c.req.query("to")) ?? (template.latest_revision as number);
+  const base = parseTemplateRevision(c.req.query("from")) ?? Math.max(target - 1, 1);
+  const diff = await diffTemplateRevisions(c.env, templateId, base, target);
+  if (!diff) {
+    return c.json({ error: "模板版本不存在" }, 404);
+  }
+  return c.json({ from: base, to: target, diff });
+});
+
 app.get("/api/admin/templates/export", requireAdmin, async (c) => {
   const rows = await c.env.DB.prepare(
     "SELECT id, name, description, file_key, created_at, updated_at FROM templates WHERE is_active = 1 ORDER BY updated_at DESC"
@@ -316,17 +1049,21 @@ app.post("/api/admin/templates/import", requireAdmin, async (c) => {
   }
 
   const now = nowIso();
+  const userId = c.get("user")?.id ?? null;
   for (const template of normalized) {
     const id = crypto.randomUUID();
-    const fileKey = `templates/${id}.md`;
-    await c.env.BUCKET.put(fileKey, template.content, {
-      httpMetadata: { contentType: "text/markdown; charset=utf-8" }
-    });
     await c.env.DB.prepare(
       "INSERT INTO templates (id, name, description, file_key, created_by, created_at, updated_at, is_active) VALUES (?, ?, ?, ?, ?, ?, ?, 1)"
     )
-      .bind(id, template.name, template.description, fileKey, c.get("user")?.id, now, now)
+      .bind(id, template.name, template.description, templateRevisionKey(id, 1), userId, now, now)
       .run();
+    await createTemplateRevision(c.env, { templateId: id, content: template.content, changeNote: "导入", userId });
+    await audit(c, {
+      action: "template.import",
+      entityType: "template",
+      entityId: id,
+      newValue: { name: template.name, description: template.description, content: template.content }
+    });
   }
 
   return c.json({ count: normalized.length });
@@ -479,6 +1216,12 @@ app.post("/api/admin/models/import", requireAdmin, async (c) => {
       await setDefaultModel(c.env, model.category, id);
     }
     touchedCategories.add(model.category);
+    await audit(c, {
+      action: "model.import",
+      entityType: "model",
+      entityId: id,
+      newValue: await readModelAuditSnapshot(c.env, id)
+    });
   }
 
   for (const category of touchedCategories) {
@@ -530,6 +1273,12 @@ app.post("/api/admin/models", requireAdmin, async (c) => {
   } else {
     await ensureDefaultModel(c.env, category);
   }
+  await audit(c, {
+    action: "model.create",
+    entityType: "model",
+    entityId: id,
+    newValue: await readModelAuditSnapshot(c.env, id)
+  });
 
   return c.json({ id, name, category, model_name: modelName, base_url: baseUrl, is_default: isDefault });
 });
@@ -585,6 +1334,7 @@ app.patch("/api/admin/models/:id", requireAdmin, async (c) => {
   }
 
   const apiKey = apiKeyRaw && apiKeyRaw.trim() ? apiKeyRaw.trim() : null;
+  const before = await readModelAuditSnapshot(c.env, modelId);
   const previousCategory = existing.category as ModelCategory;
   const nextCategory = category ?? previousCategory;
   const wasDefault = existing.is_default === 1;
@@ -618,6 +1368,14 @@ app.patch("/api/admin/models/:id", requireAdmin, async (c) => {
   if (categoryChanged || (wasDefault && nextIsDefault === false)) {
     await ensureDefaultModel(c.env, previousCategory, modelId);
   }
+  const after = await readModelAuditSnapshot(c.env, modelId);
+  await audit(c, {
+    action: "model.update",
+    entityType: "model",
+    entityId: modelId,
+    oldValue: before,
+    newValue: apiKey ? { ...after, api_key_changed: true } : after
+  });
 
   return c.json({ ok: true });
 });
@@ -633,9 +1391,11 @@ app.delete("/api/admin/models/:id", requireAdmin, async (c) => {
     return c.json({ error: "模型不存在" }, 404);
   }
 
+  const before = await readModelAuditSnapshot(c.env, modelId);
   await c.env.DB.prepare("UPDATE models SET is_active = 0, is_default = 0, updated_at = ? WHERE id = ?")
     .bind(nowIso(), modelId)
     .run();
+  await audit(c, { action: "model.delete", entityType: "model", entityId: modelId, oldValue: before });
 
   const category = existing.category as ModelCategory;
   if (existing.is_default === 1) {
@@ -645,6 +1405,14 @@ app.delete("/api/admin/models/:id", requireAdmin, async (c) => {
   return c.json({ ok: true });
 });
 
+app.post("/api/admin/templates/validate", requireAdmin, async (c) => {
+  const body = await c.req.json().catch(() => null);
+  if (typeof body?.content !== "string") {
+    return c.json({ error: "模板内容不能为空" }, 400);
+  }
+  return c.json(validateTemplatePlaceholders(body.content));
+});
+
 app.post("/api/admin/templates", requireAdmin, async (c) => {
   const form = await c.req.formData();
   const file = form.get("file");
@@ -656,18 +1424,21 @@ app.post("/api/admin/templates", requireAdmin, async (c) => {
   }
 
   const id = crypto.randomUUID();
-  const fileKey = `templates/${id}.md`;
   const fileBuffer = await file.arrayBuffer();
-
-  await c.env.BUCKET.put(fileKey, fileBuffer, {
-    httpMetadata: { contentType: "text/markdown; charset=utf-8" }
-  });
+  const userId = c.get("user")?.id ?? null;
 
   await c.env.DB.prepare(
     "INSERT INTO templates (id, name, description, file_key, created_by, created_at, updated_at, is_active) VALUES (?, ?, ?, ?, ?, ?, ?, 1)"
   )
-    .bind(id, name, description, fileKey, c.get("user")?.id, nowIso(), nowIso())
+    .bind(id, name, description, templateRevisionKey(id, 1), userId, nowIso(), nowIso())
     .run();
+  await createTemplateRevision(c.env, { templateId: id, content: fileBuffer, changeNote: "初始版本", userId });
+  await audit(c, {
+    action: "template.create",
+    entityType: "template",
+    entityId: id,
+    newValue: { name, description, content: new TextDecoder().decode(fileBuffer) }
+  });
 
   return c.json({ id, name, description });
 });
@@ -675,26 +1446,31 @@ app.post("/api/admin/templates", requireAdmin, async (c) => {
 app.delete("/api/admin/templates/:id", requireAdmin, async (c) => {
   const templateId = c.req.param("id");
   const template = await c.env.DB.prepare(
-    "SELECT id, file_key, is_active FROM templates WHERE id = ?"
+    "SELECT id, name, description, file_key, is_active FROM templates WHERE id = ?"
   )
     .bind(templateId)
     .first();
   if (!template || template.is_active !== 1) {
     return c.json({ error: "模板不存在" }, 404);
   }
-  if (template.file_key) {
-    await c.env.BUCKET.delete(template.file_key as string);
-  }
+  // 停用模板时保留各修订版本内容，已生成报告仍可追溯
+  const content = template.file_key ? await readR2Text(c.env.BUCKET, template.file_key as string) : null;
   await c.env.DB.prepare("UPDATE templates SET is_active = 0, updated_at = ? WHERE id = ?")
     .bind(nowIso(), templateId)
     .run();
+  await audit(c, {
+    action: "template.delete",
+    entityType: "template",
+    entityId: templateId,
+    oldValue: { name: template.name, description: template.description, content }
+  });
   return c.json({ ok: true });
 });
 
 app.patch("/api/admin/templates/:id", requireAdmin, async (c) => {
   const templateId = c.req.param("id");
   const template = await c.env.DB.prepare(
-    "SELECT id, name, description, file_key, is_active FROM templates WHERE id = ?"
+    "SELECT id, name, description, file_key, latest_revision, is_active FROM templates WHERE id = ?"
   )
     .bind(templateId)
     .first();
@@ -706,16 +1482,29 @@ app.patch("/api/admin/templates/:id", requireAdmin, async (c) => {
   const name = typeof body?.name === "string" ? body.name.trim() : null;
   const descriptionRaw = typeof body?.description === "string" ? body.description.trim() : null;
   const description = descriptionRaw === "" ? null : descriptionRaw;
-  const content = typeof body?.content === "string" ? body.content : null;
+  const rawContent = typeof body?.content === "string" ? body.content : null;
+  const changeNote = typeof body?.changeNote === "string" && body.changeNote.trim() ? body.changeNote.trim() : null;
 
   if (body?.name !== undefined && !name) {
     return c.json({ error: "模板名称不能为空" }, 400);
   }
 
-  if (content !== null && template.file_key) {
-    await c.env.BUCKET.put(template.file_key as string, content, {
-      httpMetadata: { contentType: "text/markdown; charset=utf-8" }
+  // 内容有变化时才生成新的修订版本，原版本保持不变
+  const previousContent =
+    rawContent !== null && template.file_key ? await readR2Text(c.env.BUCKET, template.file_key as string) : null;
+  const content = rawContent !== null && rawContent !== previousContent ? rawContent : null;
+  let revision = template.latest_revision as number;
+  if (content !== null) {
+    const saved = await createTemplateRevision(c.env, {
+      templateId,
+      content,
+      changeNote,
+      userId: c.get("user")?.id ?? null
     });
+    if (!saved) {
+      return c.json({ error: "模板已被其他人修改，请刷新后重试" }, 409);
+    }
+    revision = saved.revision;
   }
 
   await c.env.DB.prepare(
@@ -723,14 +1512,29 @@ app.patch("/api/admin/templates/:id", requireAdmin, async (c) => {
   )
     .bind(name, description, nowIso(), templateId)
     .run();
+  await audit(c, {
+    action: "template.update",
+    entityType: "template",
+    entityId: templateId,
+    oldValue: {
+      name: template.name,
+      description: template.description,
+      ...(content !== null ? { content: previousContent, revision: template.latest_revision } : {})
+    },
+    newValue: {
+      name: name ?? template.name,
+      description: description ?? template.description,
+      ...(content !== null ? { content, revision, change_note: changeNote } : {})
+    }
+  });
 
-  return c.json({ ok: true });
+  return c.json({ ok: true, revision });
 });
 
 app.post("/api/admin/templates/:id/duplicate", requireAdmin, async (c) => {
   const templateId = c.req.param("id");
   const template = await c.env.DB.prepare(
-    "SELECT id, name, description, file_key, is_active FROM templates WHERE id = ?"
+    "SELECT id, name, description, file_key, latest_revision, is_active FROM templates WHERE id = ?"
   )
     .bind(templateId)
     .first();
@@ -742,24 +1546,172 @@ app.post("/api/admin/templates/:id/duplicate", requireAdmin, async (c) => {
     : null;
 
   const id = crypto.randomUUID();
-  const fileKey = `templates/${id}.md`;
   const baseName = typeof template.name === "string" ? template.name.trim() : "模板";
   const duplicateName = baseName.endsWith("副本") ? `${baseName} 2` : `${baseName} 副本`;
-
-  await c.env.BUCKET.put(fileKey, content ?? "", {
-    httpMetadata: { contentType: "text/markdown; charset=utf-8" }
-  });
+  const userId = c.get("user")?.id ?? null;
 
   const now = nowIso();
   await c.env.DB.prepare(
     "INSERT INTO templates (id, name, description, file_key, created_by, created_at, updated_at, is_active) VALUES (?, ?, ?, ?, ?, ?, ?, 1)"
   )
-    .bind(id, duplicateName, template.description ?? null, fileKey, c.get("user")?.id, now, now)
+    .bind(id, duplicateName, template.description ?? null, templateRevisionKey(id, 1), userId, now, now)
     .run();
+  await createTemplateRevision(c.env, {
+    templateId: id,
+    content: content ?? "",
+    changeNote: `复制自「${baseName}」第 ${template.latest_revision} 版`,
+    userId
+  });
+  await audit(c, {
+    action: "template.duplicate",
+    entityType: "template",
+    entityId: id,
+    newValue: { name: duplicateName, description: template.description ?? null, source_template_id: templateId }
+  });
 
   return c.json({ id, name: duplicateName });
 });
 
+app.get("/api/scoring-schemes", requireAuth, async (c) => {
+  const schemes = await listScoringSchemes(c.env);
+  return c.json({ schemes });
+});
+
+app.get("/api/admin/scoring-schemes", requireAdmin, async (c) => {
+  const schemes = await listScoringSchemes(c.env);
+  return c.json({ schemes });
+});
+
+app.post("/api/admin/scoring-schemes", requireAdmin, async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  const description = typeof body?.description === "string" ? body.description.trim() : "";
+  const isDefault = body?.isDefault === true;
+  if (!name) {
+    return c.json({ error: "方案名称不能为空" }, 400);
+  }
+  let config: ReturnType<typeof parseScoringSchemeConfig>;
+  try {
+    config = parseScoringSchemeConfig({
+      values: body?.values,
+      levels: body?.levels,
+      action_threshold: body?.actionThreshold
+    });
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : "评分方案配置不合法" }, 400);
+  }
+
+  const id = crypto.randomUUID();
+  const now = nowIso();
+  if (isDefault) {
+    await c.env.DB.prepare("UPDATE scoring_schemes SET is_default = 0 WHERE is_active = 1").run();
+  }
+  await c.env.DB.prepare(
+    "INSERT INTO scoring_schemes (id, name, description, score_values, levels, action_threshold, is_default, is_active, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?)"
+  )
+    .bind(
+      id,
+      name,
+      description || null,
+      JSON.stringify(config.values),
+      JSON.stringify(config.levels),
+      config.action_threshold,
+      isDefault ? 1 : 0,
+      now,
+      now
+    )
+    .run();
+  await audit(c, {
+    action: "scoring_scheme.create",
+    entityType: "scoring_scheme",
+    entityId: id,
+    newValue: await readScoringSchemeAuditSnapshot(c.env, id)
+  });
+
+  return c.json({ id, name, ...config, is_default: isDefault });
+});
+
+app.patch("/api/admin/scoring-schemes/:id", requireAdmin, async (c) => {
+  const schemeId = c.req.param("id");
+  const existing = await c.env.DB.prepare(
+    "SELECT id, score_values, levels, action_threshold FROM scoring_schemes WHERE id = ? AND is_active = 1"
+  )
+    .bind(schemeId)
+    .first();
+  if (!existing) {
+    return c.json({ error: "评分方案不存在" }, 404);
+  }
+
+  const body = await c.req.json().catch(() => null);
+  const name = typeof body?.name === "string" ? body.name.trim() : null;
+  const description = typeof body?.description === "string" ? body.description.trim() : null;
+  const isDefault = typeof body?.isDefault === "boolean" ? body.isDefault : null;
+  if (body?.name !== undefined && !name) {
+    return c.json({ error: "方案名称不能为空" }, 400);
+  }
+  // 未提交的配置项沿用原值，合并后整体校验
+  let config: ReturnType<typeof parseScoringSchemeConfig>;
+  try {
+    config = parseScoringSchemeConfig({
+      values: body?.values ?? safeJsonParse(existing.score_values as string),
+      levels: body?.levels ?? safeJsonParse(existing.levels as string),
+      action_threshold: body?.actionThreshold ?? existing.action_threshold
+    });
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : "评分方案配置不合法" }, 400);
+  }
+
+  const before = await readScoringSchemeAuditSnapshot(c.env, schemeId);
+  if (isDefault) {
+    await c.env.DB.prepare("UPDATE scoring_schemes SET is_default = 0 WHERE is_active = 1").run();
+  }
+  await c.env.DB.prepare(
+    "UPDATE scoring_schemes SET name = COALESCE(?, name), description = COALESCE(?, description), score_values = ?, levels = ?, action_threshold = ?, is_default = COALESCE(?, is_default), updated_at = ? WHERE id = ?"
+  )
+    .bind(
+      name,
+      description,
+      JSON.stringify(config.values),
+      JSON.stringify(config.levels),
+      config.action_threshold,
+      isDefault === null ? null : isDefault ? 1 : 0,
+      nowIso(),
+      schemeId
+    )
+    .run();
+  await audit(c, {
+    action: "scoring_scheme.update",
+    entityType: "scoring_scheme",
+    entityId: schemeId,
+    oldValue: before,
+    newValue: await readScoringSchemeAuditSnapshot(c.env, schemeId)
+  });
+
+  return c.json({ ok: true });
+});
+
+// 停用后引用该方案的项目回退到默认方案；已生成报告保留生成时的方案快照
+app.delete("/api/admin/scoring-schemes/:id", requireAdmin, async (c) => {
+  const schemeId = c.req.param("id");
+  const existing = await c.env.DB.prepare("SELECT id FROM scoring_schemes WHERE id = ? AND is_active = 1")
+    .bind(schemeId)
+    .first();
+  if (!existing) {
+    return c.json({ error: "评分方案不存在" }, 404);
+  }
+  const before = await readScoringSchemeAuditSnapshot(c.env, schemeId);
+  await c.env.DB.prepare("UPDATE scoring_schemes SET is_active = 0, is_default = 0, updated_at = ? WHERE id = ?")
+    .bind(nowIso(), schemeId)
+    .run();
+  await audit(c, {
+    action: "scoring_scheme.delete",
+    entityType: "scoring_scheme",
+    entityId: schemeId,
+    oldValue: before
+  });
+  return c.json({ ok: true });
+});
+
 app.get("/api/admin/users", requireAdmin, async (c) => {
   const rows = await c.env.DB.prepare(
     "SELECT u.id, u.email, u.role, u.plan, u.created_at, " +
@@ -805,6 +1757,12 @@ app.post("/api/admin/users", requireAdmin, async (c) => {
     .bind(userId, email, hash, salt, plan, createdAt)
     .run();
   await resetUserQuotaForPlan(c.env, userId, plan, plan === "free" ? createdAt : undefined);
+  await audit(c, {
+    action: "user.create",
+    entityType: "user",
+    entityId: userId,
+    newValue: { email, role: "user", plan }
+  });
 
   return c.json({ id: userId, email, role: "user", plan });
 });
@@ -816,17 +1774,25 @@ app.patch("/api/admin/users/:id", requireAdmin, async (c) => {
   if (!plan) {
     return c.json({ error: "用户等级不合法" }, 400);
   }
-  const row = await c.env.DB.prepare("SELECT id, plan, created_at FROM users WHERE id = ?").bind(userId).first();
+  const row = await c.env.DB.prepare("SELECT id, email, plan, created_at FROM users WHERE id = ?").bind(userId).first();
   if (!row) {
     return c.json({ error: "用户不存在" }, 404);
   }
   const previousPlan = normalizePlanTier(row.plan) ?? "free";
   await c.env.DB.prepare("UPDATE users SET plan = ? WHERE id = ?").bind(plan, userId).run();
+  let quota: Awaited<ReturnType<typeof resetUserQuotaForPlan>> | null = null;
   if (plan !== previousPlan) {
     const createdAt = typeof row.created_at === "string" ? row.created_at : undefined;
     const anchor = plan === "free" ? createdAt : undefined;
-    await resetUserQuotaForPlan(c.env, userId, plan, anchor);
-  }
+    quota = await resetUserQuotaForPlan(c.env, userId, plan, anchor);
+  }
+  await audit(c, {
+    action: "user.update_plan",
+    entityType: "user",
+    entityId: userId,
+    oldValue: { email: row.email, plan: previousPlan },
+    newValue: { email: row.email, plan, ...(quota ? { quota_remaining: quota.remaining } : {}) }
+  });
   return c.json({ ok: true });
 });
 
@@ -845,32 +1811,313 @@ app.patch("/api/admin/users/:id/quota", requireAdmin, async (c) => {
   if (plan === "max") {
     return c.json({ error: "Max 用户不可设置次数" }, 400);
   }
+  const before = await getUserQuotaSnapshot(c.env, userId, plan);
   const result = await setUserQuotaRemaining(c.env, userId, plan, remaining);
   if (!result.ok) {
     return c.json({ error: "Max 用户不可设置次数" }, 400);
   }
+  await audit(c, {
+    action: "user.update_quota",
+    entityType: "user_quota",
+    entityId: userId,
+    oldValue: { remaining: before.remaining, cycle_start: before.cycleStart },
+    newValue: { remaining: result.snapshot.remaining, cycle_start: result.snapshot.cycleStart }
+  });
   return c.json({ ok: true, quota: result.snapshot });
 });
 
-app.delete("/api/admin/users/:id", requireAdmin, async (c) => {
+app.get("/api/admin/users/:id/quota-ledger", requireAdmin, async (c) => {
   const userId = c.req.param("id");
   const row = await c.env.DB.prepare("SELECT id FROM users WHERE id = ?").bind(userId).first();
   if (!row) {
     return c.json({ error: "用户不存在" }, 404);
   }
+  const entries = await listQuotaLedger(c.env, userId);
+  return c.json({ entries });
+});
+
+app.delete("/api/admin/users/:id", requireAdmin, async (c) => {
+  const userId = c.req.param("id");
+  const row = await c.env.DB.prepare("SELECT id, email, role, plan FROM users WHERE id = ?").bind(userId).first();
+  if (!row) {
+    return c.json({ error: "用户不存在" }, 404);
+  }
+
+  // 签名记录与模板需保留创建人，存在时拒绝删除，避免删到一半因外键失败
+  const signed = await c.env.DB.prepare("SELECT 1 FROM report_signatures WHERE signer_id = ? LIMIT 1")
+    .bind(userId)
+    .first();
+  if (signed) {
+    return c.json({ error: "该用户已在报告上签名，签名记录需保留，不能删除" }, 409);
+  }
+  const ownsTemplate = await c.env.DB.prepare("SELECT 1 FROM templates WHERE created_by = ? LIMIT 1")
+    .bind(userId)
+    .first();
+  if (ownsTemplate) {
+    return c.json({ error: "该用户创建过模板，不能删除" }, 409);
+  }
+
+  const locked = await c.env.DB.prepare(
+    "SELECT r.id FROM reports r JOIN projects p ON p.id = r.project_id WHERE p.owner_id = ? " +
+      "AND r.lifecycle_status IN ('approved', 'effective', 'superseded') LIMIT 1"
+  )
+    .bind(userId)
+    .first();
+  if (locked) {
+    return c.json({ error: "该用户的项目中有已批准的报告，不能删除" }, 409);
+  }
+  const signedProject = await c.env.DB.prepare(
+    "SELECT 1 FROM report_signatures s JOIN projects p ON p.id = s.project_id WHERE p.owner_id = ? LIMIT 1"
+  )
+    .bind(userId)
+    .first();
+  if (signedProject) {
+    return c.json({ error: "该用户的项目中有已签名的报告，不能删除" }, 409);
+  }
 
   const projects = await c.env.DB.prepare("SELECT id FROM projects WHERE owner_id = ?")
     .bind(userId)
     .all();
+  const keysToDelete: string[] = [];
+  const statements: D1PreparedStatement[] = [];
   for (const project of projects.results ?? []) {
     if (project.id) {
-      await deleteProjectResources(c.env, project.id as string);
+      const deletion = await collectProjectDeletion(c.env, project.id as string);
+      keysToDelete.push(...deletion.keys);
+      statements.push(...deletion.statements);
+    }
+  }
+  // 没有其他成员的团队一并解散，其余由该用户创建的团队转交给剩余成员（优先所有者）
+  const emptyTeams = await c.env.DB.prepare(
+    "SELECT t.id FROM teams t WHERE (t.created_by = ? " +
+      "OR EXISTS (SELECT 1 FROM team_members tm WHERE tm.team_id = t.id AND tm.user_id = ?)) " +
+      "AND NOT EXISTS (SELECT 1 FROM team_members tm WHERE tm.team_id = t.id AND tm.user_id <> ?)"
+  )
+    .bind(userId, userId, userId)
+    .all();
+  for (const team of emptyTeams.results ?? []) {
+    statements.push(...deleteTeamStatements(c.env, team.id as string));
+  }
+  statements.push(
+    c.env.DB.prepare("DELETE FROM sessions WHERE user_id = ?").bind(userId),
+    c.env.DB.prepare("DELETE FROM user_quotas WHERE user_id = ?").bind(userId),
+    c.env.DB.prepare("DELETE FROM quota_ledger WHERE user_id = ?").bind(userId),
+    c.env.DB.prepare("DELETE FROM project_members WHERE user_id = ?").bind(userId),
+    c.env.DB.prepare("DELETE FROM team_members WHERE user_id = ?").bind(userId),
+    c.env.DB.prepare(
+      "UPDATE teams SET created_by = (SELECT tm.user_id FROM team_members tm WHERE tm.team_id = teams.id " +
+        "ORDER BY CASE tm.role WHEN 'owner' THEN 0 ELSE 1 END, tm.created_at LIMIT 1) WHERE created_by = ?"
+    ).bind(userId),
+    c.env.DB.prepare("UPDATE template_revisions SET created_by = NULL WHERE created_by = ?").bind(userId),
+    c.env.DB.prepare("DELETE FROM users WHERE id = ?").bind(userId)
+  );
+  await c.env.DB.batch(statements);
+  for (const key of keysToDelete) {
+    await c.env.BUCKET.delete(key);
+  }
+  await audit(c, {
+    action: "user.delete",
+    entityType: "user",
+    entityId: userId,
+    oldValue: {
+      email: row.email,
+      role: row.role,
+      plan: row.plan,
+      project_ids: (projects.results ?? []).map((project) => project.id)
+    }
+  });
+  return c.json({ ok: true });
+});
+
+app.get("/api/admin/audit-logs", requireAdmin, async (c) => {
+  const rawLimit = Number(c.req.query("limit"));
+  const rawOffset = Number(c.req.query("offset"));
+  const limit = Number.isInteger(rawLimit) && rawLimit > 0 ? Math.min(rawLimit, 200) : 50;
+  const offset = Number.isInteger(rawOffset) && rawOffset > 0 ? rawOffset : 0;
+  const result = await listAuditLogs(c.env, parseAuditFilters((key) => c.req.query(key)), { limit, offset });
+  return c.json({ ...result, limit, offset });
+});
+
+app.get("/api/admin/audit-logs/export", requireAdmin, async (c) => {
+  const filters = parseAuditFilters((key) => c.req.query(key));
+  const { logs, total } = await listAuditLogs(c.env, filters, { limit: AUDIT_EXPORT_LIMIT, offset: 0 });
+  if (total > AUDIT_EXPORT_LIMIT) {
+    return c.json({ error: `导出记录超过 ${AUDIT_EXPORT_LIMIT} 条，请缩小筛选范围` }, 400);
+  }
+  // 导出操作本身也记入审计
+  await audit(c, { action: "audit_log.export", entityType: "audit_log", newValue: { filters, count: logs.length } });
+  const filename = `audit-logs-${nowIso().slice(0, 10)}.csv`;
+  return new Response(buildAuditCsv(logs), {
+    headers: {
+      "content-type": "text/csv; charset=utf-8",
+      "content-disposition": `attachment; filename="${filename}"`
+    }
+  });
+});
+
+app.post("/api/admin/reports/backfill-json", requireAdmin, async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const rawLimit = Number(body?.limit);
+  const limit = Number.isInteger(rawLimit) && rawLimit > 0 ? Math.min(rawLimit, 100) : 20;
+  // 游标为“created_at|id”，同一时间创建的多份报告跨批次时不会被跳过
+  const cursor = typeof body?.cursor === "string" ? body.cursor : "";
+  const separator = cursor.lastIndexOf("|");
+  const cursorTime = separator >= 0 ? cursor.slice(0, separator) : cursor;
+  const cursorId = separator >= 0 ? cursor.slice(separator + 1) : "";
+  const rows = await c.env.DB.prepare(
+    "SELECT id, project_id, md_key, created_at FROM reports WHERE status = 'completed' AND json_key IS NULL AND md_key IS NOT NULL " +
+      "AND (created_at > ? OR (created_at = ? AND id > ?)) ORDER BY created_at ASC, id ASC LIMIT ?"
+  )
+    .bind(cursorTime, cursorTime, cursorId, limit)
+    .all();
+
+  const rebuilt: string[] = [];
+  const skipped: Array<{ id: string; reason: string }> = [];
+  let nextCursor: string | null = null;
+  for (const row of rows.results ?? []) {
+    const reportId = row.id as string;
+    nextCursor = `${row.created_at as string}|${reportId}`;
+    const markdown = await readR2Text(c.env.BUCKET, row.md_key as string);
+    if (!markdown) {
+      skipped.push({ id: reportId, reason: "报告内容不存在" });
+      continue;
+    }
+    const data = rebuildWorkflowJsonFromMarkdown(markdown);
+    if (!data) {
+      skipped.push({ id: reportId, reason: "未找到可解析的风险评价表" });
+      continue;
+    }
+    const jsonKey = `projects/${row.project_id as string}/reports/${reportId}.json`;
+    await putR2Json(c.env.BUCKET, jsonKey, data);
+    await c.env.DB.prepare("UPDATE reports SET json_key = ? WHERE id = ? AND json_key IS NULL")
+      .bind(jsonKey, reportId)
+      .run();
+    await audit(c, {
+      action: "report.backfill_json",
+      entityType: "report",
+      entityId: reportId,
+      projectId: row.project_id as string,
+      oldValue: { json_key: null },
+      newValue: { json_key: jsonKey }
+    });
+    rebuilt.push(reportId);
+  }
+
+  return c.json({
+    rebuilt,
+    skipped,
+    nextCursor: (rows.results ?? []).length === limit ? nextCursor : null
+  });
+});
+
+// 校验当前用户在团队中的角色，规则同 denyProjectAccess
+const denyTeamAccess = async (c: Context<AppEnv>, teamId: string, required: ProjectRole) => {
+  const role = await resolveTeamRole(c.env, c.get("user")?.id as string, teamId);
+  if (!role) {
+    return c.json({ error: "团队不存在" }, 404);
+  }
+  if (!hasProjectRole(role, required)) {
+    return c.json({ error: "当前团队角色无权执行此操作" }, 403);
+  }
+  return null;
+};
+
+app.get("/api/teams", requireAuth, async (c) => {
+  const teams = await listTeams(c.env, c.get("user")?.id as string);
+  return c.json({ teams });
+});
+
+app.post("/api/teams", requireAuth, async (c) => {
+  const body = await c.req.json().catch(() => null);
+  try {
+    const team = await createTeam(c.env, c.get("user") as User, body);
+    await audit(c, { action: "team.create", entityType: "team", entityId: team.id, newValue: { name: team.name } });
+    return c.json({ ...team, role: "owner" });
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : "创建团队失败" }, 400);
+  }
+});
+
+app.get("/api/teams/:id", requireAuth, async (c) => {
+  const teamId = c.req.param("id");
+  const role = await resolveTeamRole(c.env, c.get("user")?.id as string, teamId);
+  const team = role
+    ? await c.env.DB.prepare("SELECT id, name, created_at FROM teams WHERE id = ?").bind(teamId).first()
+    : null;
+  if (!team) {
+    return c.json({ error: "团队不存在" }, 404);
+  }
+  const members = await listTeamMembers(c.env, teamId);
+  const projects = await c.env.DB.prepare(
+    "SELECT id, title, status, updated_at FROM projects WHERE team_id = ? ORDER BY updated_at DESC"
+  )
+    .bind(teamId)
+    .all();
+  return c.json({ team: { ...team, role }, members, projects: projects.results ?? [] });
+});
+
+app.post("/api/teams/:id/members", requireAuth, async (c) => {
+  const teamId = c.req.param("id");
+  const denied = await denyTeamAccess(c, teamId, "owner");
+  if (denied) {
+    return denied;
+  }
+  const body = await c.req.json().catch(() => null);
+  try {
+    const { member, previousRole } = await upsertTeamMember(c.env, teamId, body);
+    await audit(c, {
+      action: previousRole ? "team.update_member" : "team.add_member",
+      entityType: "team",
+      entityId: teamId,
+      oldValue: previousRole ? { user_id: member.user_id, email: member.email, role: previousRole } : undefined,
+      newValue: { user_id: member.user_id, email: member.email, role: member.role }
+    });
+    return c.json({ member });
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : "成员设置失败" }, 400);
+  }
+});
+
+// 团队所有者可以移除任意成员，其他成员只能退出团队
+app.delete("/api/teams/:id/members/:userId", requireAuth, async (c) => {
+  const teamId = c.req.param("id");
+  const memberId = c.req.param("userId");
+  const denied = await denyTeamAccess(c, teamId, memberId === c.get("user")?.id ? "viewer" : "owner");
+  if (denied) {
+    return denied;
+  }
+  try {
+    const role = await removeTeamMember(c.env, teamId, memberId);
+    if (!role) {
+      return c.json({ error: "成员不存在" }, 404);
     }
+    await audit(c, {
+      action: "team.remove_member",
+      entityType: "team",
+      entityId: teamId,
+      oldValue: { user_id: memberId, role }
+    });
+    return c.json({ ok: true });
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : "移除成员失败" }, 400);
   }
+});
 
-  await c.env.DB.prepare("DELETE FROM sessions WHERE user_id = ?").bind(userId).run();
-  await c.env.DB.prepare("DELETE FROM user_quotas WHERE user_id = ?").bind(userId).run();
-  await c.env.DB.prepare("DELETE FROM users WHERE id = ?").bind(userId).run();
+app.delete("/api/teams/:id", requireAuth, async (c) => {
+  const teamId = c.req.param("id");
+  const denied = await denyTeamAccess(c, teamId, "owner");
+  if (denied) {
+    return denied;
+  }
+  const team = await c.env.DB.prepare("SELECT name FROM teams WHERE id = ?").bind(teamId).first();
+  const members = await listTeamMembers(c.env, teamId);
+  await deleteTeam(c.env, teamId);
+  await audit(c, {
+    action: "team.delete",
+    entityType: "team",
+    entityId: teamId,
+    oldValue: { name: team?.name, members: members.map(({ email, role }) => ({ email, role })) }
+  });
   return c.json({ ok: true });
 });
 
@@ -888,46 +2135,187 @@ app.post("/api/projects", requireAuth, async (c) => {
     .bind(id, title, "draft", c.get("user")?.id, now, now)
     .run();
   await c.env.DB.prepare("INSERT INTO project_inputs (project_id, updated_at) VALUES (?, ?)").bind(id, now).run();
+  await audit(c, { action: "project.create", entityType: "project", entityId: id, projectId: id, newValue: { title } });
   return c.json({ id, title, status: "draft" });
 });
 
+// 包含自己创建的项目，以及直接共享或通过团队共享给自己的项目
 app.get("/api/projects", requireAuth, async (c) => {
+  const userId = c.get("user")?.id as string;
   const rows = await c.env.DB.prepare(
-    "SELECT id, title, status, created_at, updated_at, " +
-      "(SELECT COUNT(1) FROM reports r WHERE r.project_id = projects.id) as report_count, " +
-      "(SELECT MAX(created_at) FROM reports r WHERE r.project_id = projects.id AND r.status = 'completed') as latest_completed_at " +
-      "FROM projects WHERE owner_id = ? ORDER BY updated_at DESC"
+    "SELECT p.id, p.title, p.status, p.created_at, p.updated_at, p.team_id, t.name AS team_name, u.email AS owner_email, " +
+      `${PROJECT_ROLE_COLUMNS_SQL}, ` +
+      "(SELECT COUNT(1) FROM reports r WHERE r.project_id = p.id) as report_count, " +
+      "(SELECT MAX(created_at) FROM reports r WHERE r.project_id = p.id AND r.status = 'completed') as latest_completed_at " +
+      "FROM projects p LEFT JOIN teams t ON t.id = p.team_id LEFT JOIN users u ON u.id = p.owner_id " +
+      `WHERE ${ACCESSIBLE_PROJECT_SQL} ORDER BY p.updated_at DESC`
   )
-    .bind(c.get("user")?.id)
+    .bind(userId, userId, userId, userId, userId)
     .all();
-  return c.json({ projects: rows.results ?? [] });
+  const projects = (rows.results ?? []).map((row) => {
+    const { owner_id: ownerId, member_role: _memberRole, team_role: _teamRole, ...rest } = row;
+    return { ...rest, role: pickProjectRole(userId, row), shared: ownerId !== userId };
+  });
+  return c.json({ projects });
 });
 
-app.get("/api/projects/:id", requireAuth, async (c) => {
+const readCapaFilters = (c: Context<AppEnv>) => {
+  const status = c.req.query("status");
+  return {
+    status: status && (CAPA_STATUSES as readonly string[]).includes(status) ? (status as CapaStatus) : null,
+    overdue: c.req.query("overdue") === "1"
+  };
+};
+
+app.get("/api/capa", requireAuth, async (c) => {
+  const actions = await listCapaActions(c.env, c.get("user")?.id as string, readCapaFilters(c));
+  return c.json({ actions });
+});
+
+app.get("/api/projects/:id/capa", requireAuth, async (c) => {
   const projectId = c.req.param("id");
-  const project = await c.env.DB.prepare(
-    "SELECT id, title, status, created_at, updated_at FROM projects WHERE id = ? AND owner_id = ?"
+  const project = await c.env.DB.prepare("SELECT id, title FROM projects WHERE id = ?")
+    .bind(projectId)
+    .first();
+  if (!project) {
+    return c.json({ error: "项目不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, projectId, "viewer");
+  if (denied) {
+    return denied;
+  }
+  const actions = await listCapaActions(c.env, c.get("user")?.id as string, {
+    ...readCapaFilters(c),
+    projectId
+  });
+  return c.json({ project, actions });
+});
+
+app.patch("/api/capa/:id", requireAuth, async (c) => {
+  const actionId = c.req.param("id");
+  const body = await c.req.json().catch(() => null);
+  const before = await c.env.DB.prepare(
+    "SELECT project_id, status, completed_at, effectiveness_notes FROM capa_actions WHERE id = ?"
   )
-    .bind(projectId, c.get("user")?.id)
+    .bind(actionId)
+    .first();
+  if (!before) {
+    return c.json({ error: "措施不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, before.project_id as string, "editor", "措施不存在");
+  if (denied) {
+    return denied;
+  }
+  const { project_id: _projectId, ...oldValue } = before;
+  try {
+    const action = await updateCapaAction(c.env, actionId, body);
+    if (!action) {
+      return c.json({ error: "措施不存在" }, 404);
+    }
+    await audit(c, {
+      action: "capa_action.update",
+      entityType: "capa_action",
+      entityId: actionId,
+      projectId: action.project_id,
+      oldValue,
+      newValue: {
+        status: action.status,
+        completed_at: action.completed_at,
+        effectiveness_notes: action.effectiveness_notes,
+        residual_status: action.residual_status
+      }
+    });
+    return c.json({ action });
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : "修改内容不合法" }, 400);
+  }
+});
+
+// 按已完成报告的结构化 JSON 重新登记 CAPA 记录，已有措施的跟踪状态保留
+app.post("/api/reports/:id/capa/rebuild", requireAuth, async (c) => {
+  const reportId = c.req.param("id");
+  const report = await c.env.DB.prepare("SELECT id, project_id, status, json_key FROM reports WHERE id = ?")
+    .bind(reportId)
     .first();
+  if (!report) {
+    return c.json({ error: "报告不存在" }, 404);
+  }
+  const projectId = report.project_id as string;
+  const denied = await denyProjectAccess(c, projectId, "editor", "报告不存在");
+  if (denied) {
+    return denied;
+  }
+  if (report.status !== "completed") {
+    return c.json({ error: "报告未生成完成" }, 400);
+  }
+  const dataText = report.json_key ? await readR2Text(c.env.BUCKET, report.json_key as string) : null;
+  const data = dataText ? safeJsonParse<ReportData>(dataText) : null;
+  if (!data) {
+    return c.json({ error: "报告缺少结构化数据，无法登记 CAPA" }, 400);
+  }
+  const count = await rebuildCapaRecords(c.env, { projectId, reportId, data });
+  await audit(c, {
+    action: "report.rebuild_capa",
+    entityType: "report",
+    entityId: reportId,
+    projectId,
+    newValue: { actions: count }
+  });
+  return c.json({ ok: true, actions: count });
+});
+
+// 各项目最新完成版本的再评估到期情况：已逾期与即将到期（默认 30 天内）
+app.get("/api/reviews", requireAuth, async (c) => {
+  const rawDays = Number(c.req.query("days"));
+  const days = Number.isInteger(rawDays) && rawDays > 0 ? Math.min(rawDays, 365) : REVIEW_UPCOMING_DAYS;
+  const today = nowIso().slice(0, 10);
+  const userId = c.get("user")?.id as string;
+  const rows = await c.env.DB.prepare(
+    "SELECT r.id, r.project_id, r.version, r.review_level, r.review_due_at, r.created_at, p.title AS project_title, " +
+      "(SELECT r3.id FROM reports r3 WHERE r3.source_report_id = r.id AND r3.status IN ('running', 'review') LIMIT 1) as pending_review_id " +
+      "FROM reports r JOIN projects p ON r.project_id = p.id " +
+      `WHERE ${ACCESSIBLE_PROJECT_SQL} AND r.status = 'completed' AND r.review_due_at IS NOT NULL AND r.review_due_at <= ? ` +
+      "AND r.version = (SELECT MAX(r2.version) FROM reports r2 WHERE r2.project_id = r.project_id AND r2.status = 'completed') " +
+      "ORDER BY r.review_due_at ASC"
+  )
+    .bind(userId, userId, userId, daysFromNow(days).slice(0, 10))
+    .all();
+  const reviews = rows.results ?? [];
+  return c.json({
+    today,
+    overdue: reviews.filter((row) => (row.review_due_at as string) < today),
+    upcoming: reviews.filter((row) => (row.review_due_at as string) >= today)
+  });
+});
+
+app.get("/api/projects/:id", requireAuth, async (c) => {
+  const projectId = c.req.param("id");
+  const role = await resolveProjectRole(c.env, c.get("user")?.id as string, projectId);
+  const project = role
+    ? await c.env.DB.prepare(
+        "SELECT p.id, p.title, p.status, p.created_at, p.updated_at, p.team_id, t.name AS team_name FROM projects p LEFT JOIN teams t ON t.id = p.team_id WHERE p.id = ?"
+      )
+        .bind(projectId)
+        .first()
+    : null;
   if (!project) {
     return c.json({ error: "项目不存在" }, 404);
   }
 
   const inputs = await c.env.DB.prepare(
-    "SELECT scope, background, objective, risk_method, eval_tool, process_steps, template_id, text_model_id, updated_at FROM project_inputs WHERE project_id = ?"
+    "SELECT scope, background, objective, risk_method, eval_tool, process_steps, template_id, template_revision, text_model_id, scoring_scheme_id, render_mode, auto_rerender, updated_at FROM project_inputs WHERE project_id = ?"
   )
     .bind(projectId)
     .first();
 
   const files = await c.env.DB.prepare(
-    "SELECT id, type, filename, status, created_at FROM project_files WHERE project_id = ? ORDER BY created_at DESC"
+    "SELECT id, type, filename, status, error_message, created_at FROM project_files WHERE project_id = ? ORDER BY created_at DESC"
   )
     .bind(projectId)
     .all();
 
   const reports = await c.env.DB.prepare(
-    "SELECT id, version, status, created_at, prompt_tokens, completion_tokens, total_tokens, model_name FROM reports WHERE project_id = ? ORDER BY version DESC"
+    "SELECT id, version, status, created_at, prompt_tokens, completion_tokens, total_tokens, model_name, current_stage, failed_stage, source_report_id, review_level, review_due_at, lifecycle_status FROM reports WHERE project_id = ? ORDER BY version DESC"
   )
     .bind(projectId)
     .all();
@@ -936,54 +2324,181 @@ app.get("/api/projects/:id", requireAuth, async (c) => {
     ? { ...inputs, process_steps: parseProcessStepsFromDb((inputs as any).process_steps) }
     : inputs;
 
-  return c.json({ project, inputs: normalizedInputs, files: files.results ?? [], reports: reports.results ?? [] });
+  return c.json({
+    project: { ...project, role },
+    inputs: normalizedInputs,
+    files: files.results ?? [],
+    reports: reports.results ?? []
+  });
 });
 
 app.delete("/api/projects/:id", requireAuth, async (c) => {
   const projectId = c.req.param("id");
-  const project = await c.env.DB.prepare("SELECT id FROM projects WHERE id = ? AND owner_id = ?")
-    .bind(projectId, c.get("user")?.id)
+  const project = await c.env.DB.prepare("SELECT id, title, status FROM projects WHERE id = ?")
+    .bind(projectId)
     .first();
   if (!project) {
     return c.json({ error: "项目不存在" }, 404);
   }
+  const denied = await denyProjectAccess(c, projectId, "owner");
+  if (denied) {
+    return denied;
+  }
+  const locked = await c.env.DB.prepare(
+    "SELECT id FROM reports WHERE project_id = ? AND lifecycle_status IN ('approved', 'effective', 'superseded') LIMIT 1"
+  )
+    .bind(projectId)
+    .first();
+  if (locked) {
+    return c.json({ error: "项目中有已批准的报告，不能删除" }, 400);
+  }
+  const signed = await c.env.DB.prepare("SELECT 1 FROM report_signatures WHERE project_id = ? LIMIT 1")
+    .bind(projectId)
+    .first();
+  if (signed) {
+    return c.json({ error: "项目中有已签名的报告，不能删除" }, 400);
+  }
 
   await deleteProjectResources(c.env, projectId);
+  await audit(c, {
+    action: "project.delete",
+    entityType: "project",
+    entityId: projectId,
+    projectId,
+    oldValue: { title: project.title, status: project.status }
+  });
 
   return c.json({ ok: true });
 });
 
-app.patch("/api/projects/:id/inputs", requireAuth, async (c) => {
+app.get("/api/projects/:id/members", requireAuth, async (c) => {
   const projectId = c.req.param("id");
-  const project = await c.env.DB.prepare("SELECT id FROM projects WHERE id = ? AND owner_id = ?")
-    .bind(projectId, c.get("user")?.id)
-    .first();
-  if (!project) {
-    return c.json({ error: "项目不存在" }, 404);
+  const denied = await denyProjectAccess(c, projectId, "viewer");
+  if (denied) {
+    return denied;
   }
+  return c.json(await listProjectMembers(c.env, projectId));
+});
 
-  const user = c.get("user");
-  const plan = resolveUserPlan(user);
+app.post("/api/projects/:id/members", requireAuth, async (c) => {
+  const projectId = c.req.param("id");
+  const denied = await denyProjectAccess(c, projectId, "owner");
+  if (denied) {
+    return denied;
+  }
+  const body = await c.req.json().catch(() => null);
+  try {
+    const { member, previousRole } = await upsertProjectMember(c.env, projectId, body);
+    await audit(c, {
+      action: previousRole ? "project_member.update" : "project_member.add",
+      entityType: "project_member",
+      entityId: member.user_id,
+      projectId,
+      oldValue: previousRole ? { email: member.email, role: previousRole } : undefined,
+      newValue: { email: member.email, role: member.role }
+    });
+    return c.json({ member });
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : "共享设置失败" }, 400);
+  }
+});
+
+// 项目所有者可以移除任意共享成员，成员也可以自行退出
+app.delete("/api/projects/:id/members/:userId", requireAuth, async (c) => {
+  const projectId = c.req.param("id");
+  const memberId = c.req.param("userId");
+  const denied = await denyProjectAccess(c, projectId, memberId === c.get("user")?.id ? "viewer" : "owner");
+  if (denied) {
+    return denied;
+  }
+  const role = await removeProjectMember(c.env, projectId, memberId);
+  if (!role) {
+    return c.json({ error: "成员不存在" }, 404);
+  }
+  await audit(c, {
+    action: "project_member.remove",
+    entityType: "project_member",
+    entityId: memberId,
+    projectId,
+    oldValue: { role }
+  });
+  return c.json({ ok: true });
+});
 
+app.patch("/api/projects/:id/team", requireAuth, async (c) => {
+  const projectId = c.req.param("id");
+  const denied = await denyProjectAccess(c, projectId, "owner");
+  if (denied) {
+    return denied;
+  }
   const body = await c.req.json().catch(() => null);
-  const scope = typeof body?.scope === "string" ? body.scope.trim() : null;
-  const background = typeof body?.background === "string" ? body.background.trim() : null;
+  const teamId = typeof body?.teamId === "string" && body.teamId.trim() ? body.teamId.trim() : null;
+  const before = await c.env.DB.prepare("SELECT team_id FROM projects WHERE id = ?").bind(projectId).first();
+  try {
+    await setProjectTeam(c.env, c.get("user")?.id as string, projectId, teamId);
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : "团队设置失败" }, 400);
+  }
+  await audit(c, {
+    action: "project.update_team",
+    entityType: "project",
+    entityId: projectId,
+    projectId,
+    oldValue: { team_id: before?.team_id ?? null },
+    newValue: { team_id: teamId }
+  });
+  return c.json({ ok: true, team_id: teamId });
+});
+
+app.patch("/api/projects/:id/inputs", requireAuth, async (c) => {
+  const projectId = c.req.param("id");
+  const project = await c.env.DB.prepare("SELECT id FROM projects WHERE id = ?")
+    .bind(projectId)
+    .first();
+  if (!project) {
+    return c.json({ error: "项目不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, projectId, "editor");
+  if (denied) {
+    return denied;
+  }
+
+  const user = c.get("user");
+  const plan = resolveUserPlan(user);
+
+  const body = await c.req.json().catch(() => null);
+  const scope = typeof body?.scope === "string" ? body.scope.trim() : null;
+  const background = typeof body?.background === "string" ? body.background.trim() : null;
   const objective = typeof body?.objective === "string" ? body.objective.trim() : null;
-  const riskMethod = typeof body?.riskMethod === "string" ? body.riskMethod.trim() : null;
+  const riskMethodRaw = typeof body?.riskMethod === "string" ? body.riskMethod.trim() : "";
+  const riskMethod = riskMethodRaw ? normalizeRiskMethodInput(riskMethodRaw) : null;
   const evalTool = typeof body?.evalTool === "string" ? body.evalTool.trim() : null;
+  const renderMode = typeof body?.renderMode === "string" ? body.renderMode.trim() : null;
+  const autoRerender = typeof body?.autoRerender === "boolean" ? body.autoRerender : null;
   const hasProcessSteps = Object.prototype.hasOwnProperty.call(body ?? {}, "processSteps");
   const processStepsRaw = hasProcessSteps ? body?.processSteps : null;
   const templateId = typeof body?.templateId === "string" ? body.templateId.trim() : null;
+  const hasTemplateRevision = Object.prototype.hasOwnProperty.call(body ?? {}, "templateRevision");
+  const templateRevision = hasTemplateRevision ? parseTemplateRevision(body?.templateRevision) : null;
   const hasTextModelId = Object.prototype.hasOwnProperty.call(body ?? {}, "textModelId");
   const textModelIdRaw = hasTextModelId ? body?.textModelId : null;
   let textModelId = typeof textModelIdRaw === "string" ? textModelIdRaw.trim() : null;
   if (textModelId === "") {
     textModelId = null;
   }
+  const hasScoringSchemeId = Object.prototype.hasOwnProperty.call(body ?? {}, "scoringSchemeId");
+  const scoringSchemeId =
+    typeof body?.scoringSchemeId === "string" && body.scoringSchemeId.trim() ? body.scoringSchemeId.trim() : null;
 
+  if (riskMethodRaw && !riskMethod) {
+    return c.json({ error: "风险识别方法不支持" }, 400);
+  }
   if (evalTool && !ALLOWED_EVAL_TOOLS.has(evalTool)) {
     return c.json({ error: "评估工具暂未开放" }, 400);
   }
+  if (renderMode && !ALLOWED_RENDER_MODES.has(renderMode)) {
+    return c.json({ error: "报告渲染方式不支持" }, 400);
+  }
   if (hasProcessSteps && !Array.isArray(processStepsRaw)) {
     return c.json({ error: "流程步骤格式不正确" }, 400);
   }
@@ -993,11 +2508,45 @@ app.patch("/api/projects/:id/inputs", requireAuth, async (c) => {
       return c.json({ error: "选择的模型不存在或不可用" }, 400);
     }
   }
+  if (scoringSchemeId) {
+    const scheme = await c.env.DB.prepare("SELECT id FROM scoring_schemes WHERE id = ? AND is_active = 1")
+      .bind(scoringSchemeId)
+      .first();
+    if (!scheme) {
+      return c.json({ error: "评分方案不存在或已停用" }, 400);
+    }
+  }
+  if (hasTemplateRevision && body?.templateRevision !== null && !templateRevision) {
+    return c.json({ error: "模板版本不正确" }, 400);
+  }
+  const current = await c.env.DB.prepare("SELECT template_id FROM project_inputs WHERE project_id = ?")
+    .bind(projectId)
+    .first();
+  // 切换模板且未指定版本时改为跟随最新版本
+  const templateChanged = Boolean(templateId) && templateId !== current?.template_id;
+  const effectiveTemplateId = templateId || (current?.template_id as string | null) || null;
+  if (templateRevision) {
+    const revision = effectiveTemplateId
+      ? await c.env.DB.prepare("SELECT revision FROM template_revisions WHERE template_id = ? AND revision = ?")
+          .bind(effectiveTemplateId, templateRevision)
+          .first()
+      : null;
+    if (!revision) {
+      return c.json({ error: "模板版本不存在" }, 400);
+    }
+  }
   const processSteps = hasProcessSteps ? normalizeProcessSteps(processStepsRaw) : null;
   const processStepsJson = hasProcessSteps ? JSON.stringify(processSteps ?? []) : null;
+  const readInputs = () =>
+    c.env.DB.prepare(
+      "SELECT scope, background, objective, risk_method, eval_tool, process_steps, template_id, template_revision, text_model_id, scoring_scheme_id, render_mode, auto_rerender FROM project_inputs WHERE project_id = ?"
+    )
+      .bind(projectId)
+      .first();
+  const before = await readInputs();
 
   await c.env.DB.prepare(
-    `UPDATE project_inputs SET scope = COALESCE(?, scope), background = COALESCE(?, background), objective = COALESCE(?, objective), risk_method = COALESCE(?, risk_method), eval_tool = COALESCE(?, eval_tool), process_steps = COALESCE(?, process_steps), template_id = COALESCE(?, template_id), text_model_id = COALESCE(?, text_model_id), updated_at = ? WHERE project_id = ?`
+    `UPDATE project_inputs SET scope = COALESCE(?, scope), background = COALESCE(?, background), objective = COALESCE(?, objective), risk_method = COALESCE(?, risk_method), eval_tool = COALESCE(?, eval_tool), process_steps = COALESCE(?, process_steps), template_id = COALESCE(?, template_id), template_revision = CASE WHEN ? = 1 THEN ? ELSE template_revision END, text_model_id = COALESCE(?, text_model_id), scoring_scheme_id = CASE WHEN ? = 1 THEN ? ELSE scoring_scheme_id END, render_mode = COALESCE(?, render_mode), auto_rerender = COALESCE(?, auto_rerender), updated_at = ? WHERE project_id = ?`
   )
     .bind(
       scope,
@@ -1007,25 +2556,45 @@ app.patch("/api/projects/:id/inputs", requireAuth, async (c) => {
       evalTool,
       processStepsJson,
       templateId,
+      hasTemplateRevision || templateChanged ? 1 : 0,
+      templateRevision,
       hasTextModelId ? textModelId : null,
+      hasScoringSchemeId ? 1 : 0,
+      scoringSchemeId,
+      renderMode,
+      autoRerender === null ? null : autoRerender ? 1 : 0,
       nowIso(),
       projectId
     )
     .run();
 
   await c.env.DB.prepare("UPDATE projects SET updated_at = ? WHERE id = ?").bind(nowIso(), projectId).run();
+  const changes = pickChangedFields(before, await readInputs());
+  if (Object.keys(changes.newValue).length > 0) {
+    await audit(c, {
+      action: "project.update_inputs",
+      entityType: "project",
+      entityId: projectId,
+      projectId,
+      ...changes
+    });
+  }
 
   return c.json({ ok: true });
 });
 
 app.post("/api/projects/:id/files", requireAuth, async (c) => {
   const projectId = c.req.param("id");
-  const project = await c.env.DB.prepare("SELECT id FROM projects WHERE id = ? AND owner_id = ?")
-    .bind(projectId, c.get("user")?.id)
+  const project = await c.env.DB.prepare("SELECT id FROM projects WHERE id = ?")
+    .bind(projectId)
     .first();
   if (!project) {
     return c.json({ error: "项目不存在" }, 404);
   }
+  const denied = await denyProjectAccess(c, projectId, "editor");
+  if (denied) {
+    return denied;
+  }
 
   const form = await c.req.formData();
   const file = form.get("file");
@@ -1041,42 +2610,128 @@ app.post("/api/projects/:id/files", requireAuth, async (c) => {
 
   const id = crypto.randomUUID();
   const fileKey = `projects/${projectId}/files/${id}-${file.name}`;
-  await c.env.BUCKET.put(fileKey, await file.arrayBuffer(), {
+  const data = await file.arrayBuffer();
+  await c.env.BUCKET.put(fileKey, data, {
     httpMetadata: { contentType: file.type || "application/octet-stream" }
   });
 
-  let textKey: string | null = null;
-  let status = "uploaded";
-  if (extractedText) {
-    textKey = `projects/${projectId}/texts/${id}.txt`;
-    await putR2Text(c.env.BUCKET, textKey, extractedText);
-    status = "parsed";
-  }
-
   await c.env.DB.prepare(
-    "INSERT INTO project_files (id, project_id, type, filename, file_key, text_key, status, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+    "INSERT INTO project_files (id, project_id, type, filename, file_key, status, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)"
   )
-    .bind(id, projectId, type, file.name, fileKey, textKey, status, nowIso())
+    .bind(id, projectId, type, file.name, fileKey, "uploaded", nowIso())
     .run();
 
-  return c.json({ id, filename: file.name, status });
+  const { text, ...result } = await extractProjectFile(c.env, {
+    projectId,
+    fileId: id,
+    filename: file.name,
+    data,
+    fallbackText: extractedText
+  });
+  if (text) {
+    c.executionCtx.waitUntil(prebuildEvidenceIndex(c.env, projectId, id, text, c.get("user")));
+  }
+  await audit(c, {
+    action: "project_file.upload",
+    entityType: "project_file",
+    entityId: id,
+    projectId,
+    newValue: { type, filename: file.name, size: data.byteLength, status: result.status }
+  });
+
+  return c.json({ id, filename: file.name, ...result });
+});
+
+app.post("/api/projects/:id/files/:fileId/extract", requireAuth, async (c) => {
+  const projectId = c.req.param("id");
+  const fileId = c.req.param("fileId");
+  const row = await c.env.DB.prepare(
+    "SELECT pf.filename as filename, pf.file_key as file_key, pf.status as status FROM project_files pf JOIN projects p ON pf.project_id = p.id WHERE pf.id = ? AND p.id = ?"
+  )
+    .bind(fileId, projectId)
+    .first();
+  if (!row) {
+    return c.json({ error: "文件不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, projectId, "editor", "文件不存在");
+  if (denied) {
+    return denied;
+  }
+
+  const object = row.file_key ? await c.env.BUCKET.get(row.file_key as string) : null;
+  if (!object) {
+    return c.json({ error: "原始文件不存在，请重新上传" }, 404);
+  }
+
+  const filename = row.filename as string;
+  const { text, ...result } = await extractProjectFile(c.env, {
+    projectId,
+    fileId,
+    filename,
+    data: await object.arrayBuffer()
+  });
+  if (text) {
+    c.executionCtx.waitUntil(prebuildEvidenceIndex(c.env, projectId, fileId, text, c.get("user")));
+  }
+  await audit(c, {
+    action: "project_file.extract",
+    entityType: "project_file",
+    entityId: fileId,
+    projectId,
+    oldValue: { filename, status: row.status },
+    newValue: { filename, status: result.status }
+  });
+
+  return c.json({ id: fileId, filename, ...result });
+});
+
+app.get("/api/projects/:id/files/:fileId/pages", requireAuth, async (c) => {
+  const projectId = c.req.param("id");
+  const fileId = c.req.param("fileId");
+  const row = await c.env.DB.prepare(
+    "SELECT pf.status as status, pf.pages_key as pages_key FROM project_files pf JOIN projects p ON pf.project_id = p.id WHERE pf.id = ? AND p.id = ?"
+  )
+    .bind(fileId, projectId)
+    .first();
+  if (!row) {
+    return c.json({ error: "文件不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, projectId, "viewer", "文件不存在");
+  if (denied) {
+    return denied;
+  }
+  if (row.status !== "parsed" || !row.pages_key) {
+    return c.json({ error: "文件尚未解析" }, 409);
+  }
+
+  const content = await readR2Text(c.env.BUCKET, row.pages_key as string);
+  const document = content ? safeJsonParse<Omit<ExtractedDocument, "text">>(content) : null;
+  if (!document) {
+    return c.json({ error: "解析结果不存在，请重新解析" }, 404);
+  }
+  return c.json(document);
 });
 
 app.delete("/api/projects/:id/files/:fileId", requireAuth, async (c) => {
   const projectId = c.req.param("id");
   const fileId = c.req.param("fileId");
   const row = await c.env.DB.prepare(
-    "SELECT pf.file_key as file_key, pf.text_key as text_key FROM project_files pf JOIN projects p ON pf.project_id = p.id WHERE pf.id = ? AND p.id = ? AND p.owner_id = ?"
+    "SELECT pf.type as type, pf.filename as filename, pf.status as status, pf.file_key as file_key, pf.text_key as text_key, pf.pages_key as pages_key FROM project_files pf JOIN projects p ON pf.project_id = p.id WHERE pf.id = ? AND p.id = ?"
   )
-    .bind(fileId, projectId, c.get("user")?.id)
+    .bind(fileId, projectId)
     .first();
 
   if (!row) {
     return c.json({ error: "文件不存在" }, 404);
   }
+  const denied = await denyProjectAccess(c, projectId, "editor", "文件不存在");
+  if (denied) {
+    return denied;
+  }
 
   const fileKey = row.file_key as string | null;
   const textKey = row.text_key as string | null;
+  const pagesKey = row.pages_key as string | null;
 
   if (fileKey) {
     await c.env.BUCKET.delete(fileKey);
@@ -1084,97 +2739,628 @@ app.delete("/api/projects/:id/files/:fileId", requireAuth, async (c) => {
   if (textKey) {
     await c.env.BUCKET.delete(textKey);
   }
+  if (pagesKey) {
+    await c.env.BUCKET.delete(pagesKey);
+  }
+  const evidenceRows = await c.env.DB.prepare("SELECT index_key FROM evidence_indexes WHERE file_id = ?")
+    .bind(fileId)
+    .all();
+  for (const evidenceRow of evidenceRows.results ?? []) {
+    await c.env.BUCKET.delete(evidenceRow.index_key as string);
+  }
 
+  await c.env.DB.prepare("DELETE FROM evidence_indexes WHERE file_id = ?").bind(fileId).run();
   await c.env.DB.prepare("DELETE FROM project_files WHERE id = ?").bind(fileId).run();
+  await audit(c, {
+    action: "project_file.delete",
+    entityType: "project_file",
+    entityId: fileId,
+    projectId,
+    oldValue: { type: row.type, filename: row.filename, status: row.status }
+  });
   return c.json({ ok: true });
 });
 
 app.post("/api/projects/:id/reports", requireAuth, async (c) => {
   const projectId = c.req.param("id");
-  const project = await c.env.DB.prepare("SELECT id, title FROM projects WHERE id = ? AND owner_id = ?")
-    .bind(projectId, c.get("user")?.id)
+  const project = await c.env.DB.prepare("SELECT id, title FROM projects WHERE id = ?")
+    .bind(projectId)
     .first();
   if (!project) {
     return c.json({ error: "项目不存在" }, 404);
   }
+  const denied = await denyProjectAccess(c, projectId, "editor");
+  if (denied) {
+    return denied;
+  }
 
   const body = await c.req.json().catch(() => null);
   let templateContent = typeof body?.templateContent === "string" ? body.templateContent : null;
   const requestedTextModelId = typeof body?.textModelId === "string" ? body.textModelId.trim() : null;
+  const reviewStages = normalizeReviewStages(body?.reviewStages);
   const user = c.get("user");
   const plan = resolveUserPlan(user);
 
   const inputs = await c.env.DB.prepare(
-    "SELECT scope, background, objective, risk_method, eval_tool, process_steps, template_id, text_model_id FROM project_inputs WHERE project_id = ?"
+    "SELECT scope, background, objective, risk_method, eval_tool, process_steps, template_id, template_revision, text_model_id, scoring_scheme_id, render_mode, auto_rerender FROM project_inputs WHERE project_id = ?"
   )
     .bind(projectId)
     .first();
+  if (reviewStages.some((stage) => !isReviewStageSupported(stage, inputs?.eval_tool as string | null))) {
+    return c.json({ error: "当前评估工具的评价结果暂不支持在线修改，不能在风险评价后暂停审核" }, 400);
+  }
 
-  const files = await c.env.DB.prepare(
-    "SELECT type, text_key, filename FROM project_files WHERE project_id = ?"
+  if (!templateContent && inputs?.template_id) {
+    templateContent = await readProjectTemplateContent(
+      c.env,
+      inputs.template_id as string,
+      inputs.template_revision
+    );
+  }
+
+  const storedTextModelId = typeof inputs?.text_model_id === "string" ? inputs.text_model_id.trim() : null;
+  const { model: textModel, error: modelError } = await resolveTextModel(
+    c.env,
+    requestedTextModelId,
+    storedTextModelId,
+    plan
+  );
+  if (!textModel) {
+    return c.json({ error: modelError ?? "模型不可用" }, 400);
+  }
+  const userId = c.get("user")?.id as string;
+  const reportId = crypto.randomUUID();
+  const quotaResult = await consumeUserQuota(c.env, userId, plan, { reportId });
+  if (!quotaResult.ok) {
+    return c.json({ error: "本月评估次数已用完", quota: quotaResult.snapshot }, 429);
+  }
+  if (requestedTextModelId && requestedTextModelId !== storedTextModelId) {
+    await c.env.DB.prepare("UPDATE project_inputs SET text_model_id = ?, updated_at = ? WHERE project_id = ?")
+      .bind(textModel.id, nowIso(), projectId)
+      .run();
+  }
+
+  const versionRow = await c.env.DB.prepare(
+    "SELECT MAX(version) as max_version FROM reports WHERE project_id = ?"
   )
     .bind(projectId)
-    .all();
+    .first();
+  const nextVersion = ((versionRow?.max_version as number | null) ?? 0) + 1;
 
-  const sopTexts: string[] = [];
-  const literatureTexts: string[] = [];
-  const sopSources: Array<{ text: string; filename: string | null }> = [];
-  const literatureSources: Array<{ text: string; filename: string | null }> = [];
-  const sourceFiles: Array<{ type: string; filename: string }> = [];
-  for (const row of files.results ?? []) {
-    const textKey = row.text_key as string | null;
-    const filename = row.filename as string | null;
-    if (filename) {
-      sourceFiles.push({ type: row.type as string, filename });
-    }
-    if (!textKey) {
-      continue;
-    }
-    const text = await readR2Text(c.env.BUCKET, textKey);
-    if (!text) {
-      continue;
+  const templateSnapshotKey = `projects/${projectId}/templates/${reportId}.md`;
+  await putR2Text(c.env.BUCKET, templateSnapshotKey, templateContent || "");
+
+  await c.env.DB.prepare(
+    "INSERT INTO reports (id, project_id, version, status, template_snapshot_key, created_by, created_at, model_name, review_stages) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)"
+  )
+    .bind(
+      reportId,
+      projectId,
+      nextVersion,
+      "running",
+      templateSnapshotKey,
+      c.get("user")?.id,
+      nowIso(),
+      textModel.name,
+      JSON.stringify(reviewStages)
+    )
+    .run();
+  await audit(c, {
+    action: "report.create",
+    entityType: "report",
+    entityId: reportId,
+    projectId,
+    newValue: { version: nextVersion, status: "running", model_name: textModel.name, review_stages: reviewStages }
+  });
+
+  if (!(await enqueueReportJob(c.env, { reportId, textModelId: textModel.id, plan }))) {
+    return c.json({ error: REPORT_JOB_ENQUEUE_ERROR }, 500);
+  }
+  return c.json(
+    {
+      id: reportId,
+      version: nextVersion,
+      status: "running",
+      stage: null,
+      quota: quotaResult.snapshot
+    },
+    202
+  );
+});
+
+app.post("/api/projects/:id/reports/stream", requireAuth, async (c) => {
+  const projectId = c.req.param("id");
+  const project = await c.env.DB.prepare("SELECT id, title FROM projects WHERE id = ?")
+    .bind(projectId)
+    .first();
+  if (!project) {
+    return c.json({ error: "项目不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, projectId, "editor");
+  if (denied) {
+    return denied;
+  }
+
+  const body = await c.req.json().catch(() => null);
+  let templateContent = typeof body?.templateContent === "string" ? body.templateContent : null;
+  const requestedTextModelId = typeof body?.textModelId === "string" ? body.textModelId.trim() : null;
+  const reviewStages = normalizeReviewStages(body?.reviewStages);
+  const user = c.get("user");
+  const plan = resolveUserPlan(user);
+
+  const inputs = await c.env.DB.prepare(
+    "SELECT scope, background, objective, risk_method, eval_tool, process_steps, template_id, template_revision, text_model_id, scoring_scheme_id, render_mode, auto_rerender FROM project_inputs WHERE project_id = ?"
+  )
+    .bind(projectId)
+    .first();
+  if (reviewStages.some((stage) => !isReviewStageSupported(stage, inputs?.eval_tool as string | null))) {
+    return c.json({ error: "当前评估工具的评价结果暂不支持在线修改，不能在风险评价后暂停审核" }, 400);
+  }
+
+  if (!templateContent && inputs?.template_id) {
+    templateContent = await readProjectTemplateContent(
+      c.env,
+      inputs.template_id as string,
+      inputs.template_revision
+    );
+  }
+
+  const storedTextModelId = typeof inputs?.text_model_id === "string" ? inputs.text_model_id.trim() : null;
+  const { model: textModel, error: modelError } = await resolveTextModel(
+    c.env,
+    requestedTextModelId,
+    storedTextModelId,
+    plan
+  );
+  if (!textModel) {
+    return c.json({ error: modelError ?? "模型不可用" }, 400);
+  }
+  const userId = c.get("user")?.id as string;
+  const reportId = crypto.randomUUID();
+  const quotaResult = await consumeUserQuota(c.env, userId, plan, { reportId });
+  if (!quotaResult.ok) {
+    return c.json({ error: "本月评估次数已用完", quota: quotaResult.snapshot }, 429);
+  }
+  if (requestedTextModelId && requestedTextModelId !== storedTextModelId) {
+    await c.env.DB.prepare("UPDATE project_inputs SET text_model_id = ?, updated_at = ? WHERE project_id = ?")
+      .bind(textModel.id, nowIso(), projectId)
+      .run();
+  }
+
+  const versionRow = await c.env.DB.prepare(
+    "SELECT MAX(version) as max_version FROM reports WHERE project_id = ?"
+  )
+    .bind(projectId)
+    .first();
+  const nextVersion = ((versionRow?.max_version as number | null) ?? 0) + 1;
+
+  const templateSnapshotKey = `projects/${projectId}/templates/${reportId}.md`;
+  await putR2Text(c.env.BUCKET, templateSnapshotKey, templateContent || "");
+
+  await c.env.DB.prepare(
+    "INSERT INTO reports (id, project_id, version, status, template_snapshot_key, created_by, created_at, model_name, review_stages) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)"
+  )
+    .bind(
+      reportId,
+      projectId,
+      nextVersion,
+      "running",
+      templateSnapshotKey,
+      c.get("user")?.id,
+      nowIso(),
+      textModel.name,
+      JSON.stringify(reviewStages)
+    )
+    .run();
+  await audit(c, {
+    action: "report.create",
+    entityType: "report",
+    entityId: reportId,
+    projectId,
+    newValue: { version: nextVersion, status: "running", model_name: textModel.name, review_stages: reviewStages }
+  });
+
+  if (!(await enqueueReportJob(c.env, { reportId, textModelId: textModel.id, plan }))) {
+    return c.json({ error: REPORT_JOB_ENQUEUE_ERROR }, 500);
+  }
+  return streamReportEvents(c, { reportId, version: nextVersion, start: { quota: quotaResult.snapshot } });
+});
+
+app.get("/api/reports/:id/stages", requireAuth, async (c) => {
+  const reportId = c.req.param("id");
+  const report = await c.env.DB.prepare(
+    "SELECT r.id, r.project_id, r.version, r.status, r.state_key, r.current_stage, r.review_stages, p.title AS project_title FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ?"
+  )
+    .bind(reportId)
+    .first();
+  if (!report) {
+    return c.json({ error: "报告不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, report.project_id as string, "viewer", "报告不存在");
+  if (denied) {
+    return denied;
+  }
+  const stateText = report.state_key ? await readR2Text(c.env.BUCKET, report.state_key as string) : null;
+  const { state_key: _stateKey, ...rest } = report;
+  return c.json({
+    report: { ...rest, review_stages: normalizeReviewStages(safeJsonParse(report.review_stages as string)) },
+    state: stateText ? safeJsonParse(stateText) : null
+  });
+});
+
+app.patch("/api/reports/:id/stages/:stage", requireAuth, async (c) => {
+  const reportId = c.req.param("id");
+  const stage = c.req.param("stage");
+  if (!isReviewStage(stage)) {
+    return c.json({ error: "该阶段不支持人工修改" }, 400);
+  }
+  const report = await c.env.DB.prepare(
+    "SELECT r.id, r.project_id, r.status, r.state_key FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ?"
+  )
+    .bind(reportId)
+    .first();
+  if (!report) {
+    return c.json({ error: "报告不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, report.project_id as string, "editor", "报告不存在");
+  if (denied) {
+    return denied;
+  }
+  if (report.status !== "review") {
+    return c.json({ error: "报告不在待审核状态" }, 400);
+  }
+  const stateText = report.state_key ? await readR2Text(c.env.BUCKET, report.state_key as string) : null;
+  const state = stateText ? (safeJsonParse(stateText) as WorkflowState | null) : null;
+  if (!state) {
+    return c.json({ error: "阶段结果缺失" }, 400);
+  }
+
+  const body = await c.req.json().catch(() => null);
+  let nextState: WorkflowState;
+  try {
+    nextState =
+      stage === "hazard_identification"
+        ? applyHazardIdentificationEdits(state, body)
+        : applyFmeaScoringEdits(state, body);
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : "修改内容不合法" }, 400);
+  }
+
+  await saveWorkflowCheckpoint(c.env, report.project_id as string, reportId, nextState);
+  await c.env.DB.prepare("UPDATE reports SET current_stage = ? WHERE id = ?").bind(stage, reportId).run();
+  const stageFields = (value: WorkflowState) => ({
+    risk_items: value.risk_items,
+    fmea_rows: value.fmea_rows,
+    scored_items: value.scored_items
+  });
+  await audit(c, {
+    action: `report.edit_stage.${stage}`,
+    entityType: "report",
+    entityId: reportId,
+    projectId: report.project_id as string,
+    ...pickChangedFields(stageFields(state), stageFields(nextState))
+  });
+  return c.json({ ok: true, stage, state: nextState });
+});
+
+app.post("/api/reports/:id/continue", requireAuth, async (c) => {
+  const reportId = c.req.param("id");
+  const report = await c.env.DB.prepare(
+    "SELECT r.id, r.project_id, r.version, r.status, r.state_key FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ?"
+  )
+    .bind(reportId)
+    .first();
+  if (!report) {
+    return c.json({ error: "报告不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, report.project_id as string, "editor", "报告不存在");
+  if (denied) {
+    return denied;
+  }
+  if (report.status !== "review") {
+    return c.json({ error: "报告不在待审核状态" }, 400);
+  }
+  const stateText = report.state_key ? await readR2Text(c.env.BUCKET, report.state_key as string) : null;
+  const state = stateText ? (safeJsonParse(stateText) as WorkflowState | null) : null;
+  if (!state) {
+    return c.json({ error: "阶段结果缺失" }, 400);
+  }
+  return requeueReport(
+    c,
+    {
+      id: reportId,
+      projectId: report.project_id as string,
+      version: report.version as number,
+      status: report.status as string
+    },
+    "report.continue"
+  );
+});
+
+// 失败或被停止的报告从最近的阶段检查点续跑，沿用原报告；失败时已退还的次数在续跑时重新扣减
+app.post("/api/reports/:id/resume", requireAuth, async (c) => {
+  const reportId = c.req.param("id");
+  const report = await c.env.DB.prepare(
+    "SELECT r.id, r.project_id, r.version, r.status FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ?"
+  )
+    .bind(reportId)
+    .first();
+  if (!report) {
+    return c.json({ error: "报告不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, report.project_id as string, "editor", "报告不存在");
+  if (denied) {
+    return denied;
+  }
+  if (report.status !== "failed" && report.status !== "aborted") {
+    return c.json({ error: "仅失败或已停止的报告可以续跑" }, 400);
+  }
+  // 模型确认可用且状态切换成功后才扣减次数，避免未开始的续跑或重复提交多扣
+  const target = {
+    id: reportId,
+    projectId: report.project_id as string,
+    version: report.version as number,
+    status: report.status as string
+  };
+  return requeueReport(c, target, "report.resume", async () => {
+    if (!(await isReportQuotaRefunded(c.env, reportId))) {
+      return null;
     }
-    if (row.type === "sop") {
-      sopTexts.push(text);
-      sopSources.push({ text, filename });
-    } else if (row.type === "literature") {
-      literatureTexts.push(text);
-      literatureSources.push({ text, filename });
+    const user = c.get("user");
+    const quotaResult = await consumeUserQuota(c.env, user?.id as string, resolveUserPlan(user), {
+      reportId,
+      reason: "续跑报告"
+    });
+    return quotaResult.ok ? null : c.json({ error: "本月评估次数已用完", quota: quotaResult.snapshot }, 429);
+  });
+});
+
+// 重新连接运行中报告的进度事件，after / Last-Event-ID 为已收到的最后一个事件 id
+app.get("/api/reports/:id/events", requireAuth, async (c) => {
+  const reportId = c.req.param("id");
+  const report = await c.env.DB.prepare(
+    "SELECT r.id, r.project_id, r.version, r.status FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ?"
+  )
+    .bind(reportId)
+    .first();
+  if (!report) {
+    return c.json({ error: "报告不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, report.project_id as string, "viewer", "报告不存在");
+  if (denied) {
+    return denied;
+  }
+  const after = Number(c.req.query("after") ?? c.req.header("Last-Event-ID") ?? 0);
+  return streamReportEvents(c, {
+    reportId,
+    version: report.version as number,
+    after: Number.isFinite(after) && after > 0 ? after : 0,
+    start: { status: report.status }
+  });
+});
+
+app.post("/api/reports/:id/cancel", requireAuth, async (c) => {
+  const reportId = c.req.param("id");
+  const report = await c.env.DB.prepare(
+    "SELECT r.id, r.project_id, r.status FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ?"
+  )
+    .bind(reportId)
+    .first();
+  if (!report) {
+    return c.json({ error: "报告不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, report.project_id as string, "editor", "报告不存在");
+  if (denied) {
+    return denied;
+  }
+  if (report.status !== "running") {
+    return c.json({ error: "报告不在生成中" }, 400);
+  }
+  await c.env.DB.prepare(
+    "UPDATE reports SET status = ?, error_message = ? WHERE id = ? AND status = 'running'"
+  )
+    .bind("aborted", "用户停止评估", reportId)
+    .run();
+  await audit(c, {
+    action: "report.cancel",
+    entityType: "report",
+    entityId: reportId,
+    projectId: report.project_id as string,
+    oldValue: { status: "running" },
+    newValue: { status: "aborted" }
+  });
+  return c.json({ ok: true });
+});
+
+app.get("/api/reports/:id", requireAuth, async (c) => {
+  const reportId = c.req.param("id");
+  const report = await c.env.DB.prepare(
+    "SELECT r.id, r.project_id, r.version, r.status, r.md_key, r.json_key, r.created_at, r.error_message, r.prompt_tokens, r.completion_tokens, r.total_tokens, r.model_name, r.current_stage, r.source_report_id, r.lifecycle_status, p.title AS project_title FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ?"
+  )
+    .bind(reportId)
+    .first();
+  if (!report) {
+    return c.json({ error: "报告不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, report.project_id as string, "viewer", "报告不存在");
+  if (denied) {
+    return denied;
+  }
+  const includeContent = c.req.query("includeContent") === "1";
+  const content = includeContent && report.md_key ? await readR2Text(c.env.BUCKET, report.md_key as string) : null;
+  const data = includeContent && report.json_key ? await readR2Text(c.env.BUCKET, report.json_key as string) : null;
+  const parsedJson = data ? safeJsonParse(data) : null;
+  return c.json({ report, content, data: parsedJson });
+});
+
+app.get("/api/reports/:id/signatures", requireAuth, async (c) => {
+  const report = await c.env.DB.prepare(
+    "SELECT id, project_id, lifecycle_status, md_key FROM reports WHERE id = ?"
+  )
+    .bind(c.req.param("id"))
+    .first();
+  if (!report) {
+    return c.json({ error: "报告不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, report.project_id as string, "viewer", "报告不存在");
+  if (denied) {
+    return denied;
+  }
+  const signatures = await listReportSignatures(c.env, { id: report.id as string, md_key: report.md_key });
+  return c.json({ lifecycle_status: report.lifecycle_status, signatures });
+});
+
+app.post("/api/reports/:id/sign", requireAuth, async (c) => {
+  const report = await c.env.DB.prepare("SELECT project_id FROM reports WHERE id = ?").bind(c.req.param("id")).first();
+  if (!report) {
+    return c.json({ error: "报告不存在" }, 404);
+  }
+  // 审核、批准与生效签名需要审核者及以上角色
+  const denied = await denyProjectAccess(c, report.project_id as string, "reviewer", "报告不存在");
+  if (denied) {
+    return denied;
+  }
+  const body = await c.req.json().catch(() => null);
+  try {
+    const result = await signReport(c.env, c.get("user") as User, c.req.param("id"), body);
+    if (!result) {
+      return c.json({ error: "报告不存在" }, 404);
     }
+    await audit(c, {
+      action: "report.sign",
+      entityType: "report",
+      entityId: c.req.param("id"),
+      projectId: report.project_id as string,
+      oldValue: { lifecycle_status: result.signature.from_status },
+      newValue: {
+        lifecycle_status: result.lifecycle_status,
+        signature_id: result.signature.id,
+        meaning: result.signature.meaning,
+        md_hash: result.signature.md_hash
+      }
+    });
+    return c.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "签名失败";
+    await audit(c, {
+      action: "report.sign_failed",
+      entityType: "report",
+      entityId: c.req.param("id"),
+      projectId: report.project_id as string,
+      newValue: { error: message }
+    });
+    return c.json({ error: message }, 400);
+  }
+});
+
+app.get("/api/reports/:id/diff", requireAuth, async (c) => {
+  const reportId = c.req.param("id");
+  const againstId = c.req.query("against")?.trim();
+  if (!againstId) {
+    return c.json({ error: "缺少对比的基准版本" }, 400);
+  }
+  if (againstId === reportId) {
+    return c.json({ error: "不能与自身对比" }, 400);
+  }
+  const loadReport = (id: string) =>
+    c.env.DB.prepare(
+      "SELECT id, project_id, version, status, md_key, json_key, created_at FROM reports WHERE id = ?"
+    )
+      .bind(id)
+      .first();
+  const target = await loadReport(reportId);
+  const base = await loadReport(againstId);
+  if (!target || !base) {
+    return c.json({ error: "报告不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, target.project_id as string, "viewer", "报告不存在");
+  if (denied) {
+    return denied;
+  }
+  if (target.project_id !== base.project_id) {
+    return c.json({ error: "只能对比同一项目的报告版本" }, 400);
+  }
+  if (target.status !== "completed" || base.status !== "completed") {
+    return c.json({ error: "只能对比已生成完成的报告" }, 400);
+  }
+  const loadSide = async (report: Record<string, unknown>) => {
+    const markdown = report.md_key ? await readR2Text(c.env.BUCKET, report.md_key as string) : null;
+    const dataText = report.json_key ? await readR2Text(c.env.BUCKET, report.json_key as string) : null;
+    return { markdown: markdown ?? "", data: dataText ? safeJsonParse<ReportData>(dataText) : null };
+  };
+  const summarize = (report: Record<string, unknown>) => ({
+    id: report.id,
+    version: report.version,
+    created_at: report.created_at
+  });
+  const diff = diffReports(await loadSide(base), await loadSide(target));
+  return c.json({ base: summarize(base), target: summarize(target), diff });
+});
+
+app.post("/api/reports/:id/versions", requireAuth, async (c) => {
+  const reportId = c.req.param("id");
+  const report = await c.env.DB.prepare(
+    "SELECT r.id, r.project_id, r.status, r.json_key, r.template_snapshot_key, r.model_name, p.title FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ?"
+  )
+    .bind(reportId)
+    .first();
+  if (!report) {
+    return c.json({ error: "报告不存在" }, 404);
   }
-
-  if (!templateContent && inputs?.template_id) {
-    const templateRow = await c.env.DB.prepare(
-      "SELECT file_key FROM templates WHERE id = ? AND is_active = 1"
-    )
-      .bind(inputs.template_id)
-      .first();
-    if (templateRow?.file_key) {
-      templateContent = await readR2Text(c.env.BUCKET, templateRow.file_key as string);
-    }
+  const denied = await denyProjectAccess(c, report.project_id as string, "editor", "报告不存在");
+  if (denied) {
+    return denied;
   }
-
-  const storedTextModelId = typeof inputs?.text_model_id === "string" ? inputs.text_model_id.trim() : null;
-  const { model: textModel, error: modelError } = await resolveTextModel(
-    c.env,
-    requestedTextModelId,
-    storedTextModelId,
-    plan
-  );
-  if (!textModel) {
-    return c.json({ error: modelError ?? "模型不可用" }, 400);
+  if (report.status !== "completed") {
+    return c.json({ error: "报告未生成完成" }, 400);
   }
-  const userId = c.get("user")?.id as string;
-  const quotaResult = await consumeUserQuota(c.env, userId, plan);
-  if (!quotaResult.ok) {
-    return c.json({ error: "本月评估次数已用完", quota: quotaResult.snapshot }, 429);
+  const dataText = report.json_key ? await readR2Text(c.env.BUCKET, report.json_key as string) : null;
+  const data = dataText ? safeJsonParse<ReportData>(dataText) : null;
+  if (!data) {
+    return c.json({ error: "报告缺少结构化数据，无法编辑" }, 400);
   }
-  if (requestedTextModelId && requestedTextModelId !== storedTextModelId) {
-    await c.env.DB.prepare("UPDATE project_inputs SET text_model_id = ?, updated_at = ? WHERE project_id = ?")
-      .bind(textModel.id, nowIso(), projectId)
-      .run();
+
+  const body = await c.req.json().catch(() => null);
+  let edited: ReportData;
+  try {
+    edited = applyReportEdits(data, body);
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : "修改内容不合法" }, 400);
   }
-  const embeddingModel = await fetchDefaultModelForPlan(c.env, "embedding", plan);
+
+  const projectId = report.project_id as string;
+  const templateContent = report.template_snapshot_key
+    ? await readR2Text(c.env.BUCKET, report.template_snapshot_key as string)
+    : null;
+  let context = edited.context;
+  if (!context) {
+    const inputs = await c.env.DB.prepare(
+      "SELECT scope, background, objective, risk_method, eval_tool FROM project_inputs WHERE project_id = ?"
+    )
+      .bind(projectId)
+      .first();
+    context = buildFallbackContext(inputs, templateContent);
+  }
+  let sourceFiles = edited.source_files;
+  if (!sourceFiles) {
+    const files = await c.env.DB.prepare("SELECT type, filename FROM project_files WHERE project_id = ?")
+      .bind(projectId)
+      .all();
+    sourceFiles = (files.results ?? [])
+      .filter((row) => row.filename)
+      .map((row) => ({ type: row.type as string, filename: row.filename as string }));
+  }
+  const reviewSchedule = resolveReviewSchedule(edited.scored_items ?? [], context, new Date());
+  const markdown = renderReportMarkdown({
+    title: report.title as string,
+    templateContent,
+    context,
+    items: edited.scored_items ?? [],
+    actions: edited.actions ?? [],
+    sources: sourceFiles,
+    reviewSchedule,
+    narratives: edited.narratives ?? null
+  });
 
   const versionRow = await c.env.DB.prepare(
     "SELECT MAX(version) as max_version FROM reports WHERE project_id = ?"
@@ -1182,166 +3368,131 @@ app.post("/api/projects/:id/reports", requireAuth, async (c) => {
     .bind(projectId)
     .first();
   const nextVersion = ((versionRow?.max_version as number | null) ?? 0) + 1;
-
-  const reportId = crypto.randomUUID();
-  const templateSnapshotKey = `projects/${projectId}/templates/${reportId}.md`;
+  const newReportId = crypto.randomUUID();
+  const templateSnapshotKey = `projects/${projectId}/templates/${newReportId}.md`;
+  const reportKey = `projects/${projectId}/reports/${newReportId}.md`;
+  const jsonKey = `projects/${projectId}/reports/${newReportId}.json`;
   await putR2Text(c.env.BUCKET, templateSnapshotKey, templateContent || "");
+  await putR2Text(c.env.BUCKET, reportKey, markdown);
+  await putR2Json(c.env.BUCKET, jsonKey, {
+    ...edited,
+    context,
+    source_files: sourceFiles,
+    review_schedule: reviewSchedule,
+    render_mode: "deterministic",
+    render_check: checkRenderedTables(markdown, {
+      items: edited.scored_items ?? [],
+      actions: edited.actions ?? [],
+      evalTool: context.evalTool,
+      mode: "deterministic",
+      templateContent
+    })
+  });
 
-  await c.env.DB.prepare(
-    "INSERT INTO reports (id, project_id, version, status, template_snapshot_key, created_by, created_at, model_name) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
-  )
-    .bind(
-      reportId,
+  const capa = await buildCapaStatements(c.env, {
+    projectId,
+    reportId: newReportId,
+    data: { ...edited, context }
+  });
+  await c.env.DB.batch([
+    c.env.DB.prepare(
+      "INSERT INTO reports (id, project_id, version, status, template_snapshot_key, md_key, json_key, created_by, created_at, model_name, source_report_id, review_level, review_due_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
+    ).bind(
+      newReportId,
       projectId,
       nextVersion,
-      "running",
+      "completed",
       templateSnapshotKey,
+      reportKey,
+      jsonKey,
       c.get("user")?.id,
       nowIso(),
-      textModel.name
-    )
-    .run();
-
-  try {
-    const report = await generateReport({ llm: textModel, embedding: embeddingModel }, {
-      title: project.title as string,
-      scope: (inputs?.scope as string) ?? null,
-      background: (inputs?.background as string) ?? null,
-      objective: (inputs?.objective as string) ?? null,
-      riskMethod: (inputs?.risk_method as string) ?? null,
-      evalTool: normalizeEvalTool((inputs?.eval_tool as string) ?? null),
-      processSteps: parseProcessStepsFromDb((inputs as any)?.process_steps),
-      templateContent: templateContent ?? null,
-      sopTexts,
-      literatureTexts,
-      sopSources,
-      literatureSources,
-      sourceFiles
-    });
-
-    const reportKey = `projects/${projectId}/reports/${reportId}.md`;
-    await putR2Text(c.env.BUCKET, reportKey, report.markdown);
-
-    let jsonKey: string | null = null;
-    if (report.json) {
-      jsonKey = `projects/${projectId}/reports/${reportId}.json`;
-      await putR2Json(c.env.BUCKET, jsonKey, report.json);
-    }
-
-    await c.env.DB.prepare(
-      "UPDATE reports SET status = ?, md_key = ?, json_key = ?, prompt_tokens = ?, completion_tokens = ?, total_tokens = ? WHERE id = ?"
-    )
-      .bind(
-        "completed",
-        reportKey,
-        jsonKey,
-        report.usage?.prompt_tokens ?? null,
-        report.usage?.completion_tokens ?? null,
-        report.usage?.total_tokens ?? null,
-        reportId
-      )
-      .run();
-
-    await c.env.DB.prepare("UPDATE projects SET status = ?, updated_at = ? WHERE id = ?")
-      .bind("completed", nowIso(), projectId)
-      .run();
+      report.model_name ?? null,
+      reportId,
+      reviewSchedule?.level ?? null,
+      reviewSchedule?.due_date ?? null
+    ),
+    ...capa.statements
+  ]);
+  const changes = pickChangedFields(
+    { scored_items: data.scored_items, actions: data.actions },
+    { scored_items: edited.scored_items, actions: edited.actions }
+  );
+  await audit(c, {
+    action: "report.create_version",
+    entityType: "report",
+    entityId: newReportId,
+    projectId,
+    oldValue: { source_report_id: reportId, ...changes.oldValue },
+    newValue: { version: nextVersion, status: "completed", ...changes.newValue }
+  });
 
-    return c.json({ id: reportId, version: nextVersion, status: "completed", quota: quotaResult.snapshot });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "未知错误";
-    await c.env.DB.prepare("UPDATE reports SET status = ?, error_message = ? WHERE id = ?")
-      .bind("failed", message, reportId)
-      .run();
-    return c.json({ error: message }, 500);
-  }
+  return c.json({ id: newReportId, version: nextVersion, status: "completed" });
 });
 
-app.post("/api/projects/:id/reports/stream", requireAuth, async (c) => {
-  const projectId = c.req.param("id");
-  const project = await c.env.DB.prepare("SELECT id, title FROM projects WHERE id = ? AND owner_id = ?")
-    .bind(projectId, c.get("user")?.id)
+// 定期回顾：以已完成报告的评估结果新建版本，停在审核节点，复核后继续生成措施与报告
+app.post("/api/reports/:id/periodic-review", requireAuth, async (c) => {
+  const reportId = c.req.param("id");
+  const report = await c.env.DB.prepare(
+    "SELECT r.id, r.project_id, r.status, r.json_key, r.template_snapshot_key FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ?"
+  )
+    .bind(reportId)
     .first();
-  if (!project) {
-    return c.json({ error: "项目不存在" }, 404);
+  if (!report) {
+    return c.json({ error: "报告不存在" }, 404);
+  }
+  const denied = await denyProjectAccess(c, report.project_id as string, "editor", "报告不存在");
+  if (denied) {
+    return denied;
+  }
+  if (report.status !== "completed") {
+    return c.json({ error: "报告未生成完成" }, 400);
+  }
+  const pending = await c.env.DB.prepare(
+    "SELECT id FROM reports WHERE source_report_id = ? AND status IN ('running', 'review')"
+  )
+    .bind(reportId)
+    .first();
+  if (pending) {
+    return c.json({ error: "该报告已有进行中的定期回顾", id: pending.id }, 400);
+  }
+  const dataText = report.json_key ? await readR2Text(c.env.BUCKET, report.json_key as string) : null;
+  const data = dataText ? safeJsonParse<ReportData>(dataText) : null;
+  if (!data) {
+    return c.json({ error: "报告缺少结构化数据，无法开始定期回顾" }, 400);
   }
 
-  const body = await c.req.json().catch(() => null);
-  let templateContent = typeof body?.templateContent === "string" ? body.templateContent : null;
-  const requestedTextModelId = typeof body?.textModelId === "string" ? body.textModelId.trim() : null;
-  const user = c.get("user");
-  const plan = resolveUserPlan(user);
-
+  const projectId = report.project_id as string;
+  const templateContent = report.template_snapshot_key
+    ? await readR2Text(c.env.BUCKET, report.template_snapshot_key as string)
+    : null;
   const inputs = await c.env.DB.prepare(
-    "SELECT scope, background, objective, risk_method, eval_tool, process_steps, template_id, text_model_id FROM project_inputs WHERE project_id = ?"
+    "SELECT scope, background, objective, risk_method, eval_tool, text_model_id FROM project_inputs WHERE project_id = ?"
   )
     .bind(projectId)
     .first();
-
-  if (!templateContent && inputs?.template_id) {
-    const templateRow = await c.env.DB.prepare(
-      "SELECT file_key FROM templates WHERE id = ? AND is_active = 1"
-    )
-      .bind(inputs.template_id)
-      .first();
-    if (templateRow?.file_key) {
-      templateContent = await readR2Text(c.env.BUCKET, templateRow.file_key as string);
-    }
+  let seeded: ReturnType<typeof buildPeriodicReviewState>;
+  try {
+    seeded = buildPeriodicReviewState(data, data.context ?? buildFallbackContext(inputs, templateContent));
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : "报告数据不完整" }, 400);
   }
 
+  const user = c.get("user");
+  const plan = resolveUserPlan(user);
   const storedTextModelId = typeof inputs?.text_model_id === "string" ? inputs.text_model_id.trim() : null;
-  const { model: textModel, error: modelError } = await resolveTextModel(
-    c.env,
-    requestedTextModelId,
-    storedTextModelId,
-    plan
-  );
+  const { model: textModel, error: modelError } = await resolveTextModel(c.env, null, storedTextModelId, plan);
   if (!textModel) {
     return c.json({ error: modelError ?? "模型不可用" }, 400);
   }
-  const userId = c.get("user")?.id as string;
-  const quotaResult = await consumeUserQuota(c.env, userId, plan);
+  const newReportId = crypto.randomUUID();
+  const quotaResult = await consumeUserQuota(c.env, user?.id as string, plan, {
+    reportId: newReportId,
+    reason: "定期回顾"
+  });
   if (!quotaResult.ok) {
     return c.json({ error: "本月评估次数已用完", quota: quotaResult.snapshot }, 429);
   }
-  if (requestedTextModelId && requestedTextModelId !== storedTextModelId) {
-    await c.env.DB.prepare("UPDATE project_inputs SET text_model_id = ?, updated_at = ? WHERE project_id = ?")
-      .bind(textModel.id, nowIso(), projectId)
-      .run();
-  }
-  const embeddingModel = await fetchDefaultModelForPlan(c.env, "embedding", plan);
-
-  const files = await c.env.DB.prepare(
-    "SELECT type, text_key, filename FROM project_files WHERE project_id = ?"
-  )
-    .bind(projectId)
-    .all();
-
-  const sopTexts: string[] = [];
-  const literatureTexts: string[] = [];
-  const sopSources: Array<{ text: string; filename: string | null }> = [];
-  const literatureSources: Array<{ text: string; filename: string | null }> = [];
-  const sourceFiles: Array<{ type: string; filename: string }> = [];
-  for (const row of files.results ?? []) {
-    const textKey = row.text_key as string | null;
-    const filename = row.filename as string | null;
-    if (filename) {
-      sourceFiles.push({ type: row.type as string, filename });
-    }
-    if (!textKey) {
-      continue;
-    }
-    const text = await readR2Text(c.env.BUCKET, textKey);
-    if (!text) {
-      continue;
-    }
-    if (row.type === "sop") {
-      sopTexts.push(text);
-      sopSources.push({ text, filename });
-    } else if (row.type === "literature") {
-      literatureTexts.push(text);
-      literatureSources.push({ text, filename });
-    }
-  }
 
   const versionRow = await c.env.DB.prepare(
     "SELECT MAX(version) as max_version FROM reports WHERE project_id = ?"
@@ -1349,199 +3500,69 @@ app.post("/api/projects/:id/reports/stream", requireAuth, async (c) => {
     .bind(projectId)
     .first();
   const nextVersion = ((versionRow?.max_version as number | null) ?? 0) + 1;
-
-  const reportId = crypto.randomUUID();
-  const templateSnapshotKey = `projects/${projectId}/templates/${reportId}.md`;
+  const templateSnapshotKey = `projects/${projectId}/templates/${newReportId}.md`;
   await putR2Text(c.env.BUCKET, templateSnapshotKey, templateContent || "");
-
   await c.env.DB.prepare(
-    "INSERT INTO reports (id, project_id, version, status, template_snapshot_key, created_by, created_at, model_name) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+    "INSERT INTO reports (id, project_id, version, status, template_snapshot_key, created_by, created_at, model_name, review_stages, current_stage, source_report_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
   )
     .bind(
-      reportId,
+      newReportId,
       projectId,
       nextVersion,
-      "running",
+      "review",
       templateSnapshotKey,
-      c.get("user")?.id,
+      user?.id,
       nowIso(),
-      textModel.name
+      textModel.name,
+      JSON.stringify([seeded.stage]),
+      seeded.stage,
+      reportId
     )
     .run();
-
-  let aborted = false;
-  const abortController = new AbortController();
-
-  const markAborted = async (reason = "客户端断开") => {
-    await c.env.DB.prepare(
-      "UPDATE reports SET status = ?, error_message = ? WHERE id = ? AND status = 'running'"
-    )
-      .bind("aborted", reason, reportId)
-      .run();
-  };
-
-  const stream = new ReadableStream({
-    start(controller) {
-      const encoder = new TextEncoder();
-      const send = (event: string, data: Record<string, unknown>) => {
-        controller.enqueue(
-          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
-        );
-      };
-
-      send("start", { reportId, version: nextVersion, status: "running", quota: quotaResult.snapshot });
-
-      (async () => {
-        try {
-          let report = await generateReportStream(
-            { llm: textModel, embedding: embeddingModel },
-            {
-              title: project.title as string,
-              scope: (inputs?.scope as string) ?? null,
-              background: (inputs?.background as string) ?? null,
-              objective: (inputs?.objective as string) ?? null,
-              riskMethod: (inputs?.risk_method as string) ?? null,
-              evalTool: normalizeEvalTool((inputs?.eval_tool as string) ?? null),
-              processSteps: parseProcessStepsFromDb((inputs as any)?.process_steps),
-              templateContent: templateContent ?? null,
-              sopTexts,
-              literatureTexts,
-              sopSources,
-              literatureSources,
-              sourceFiles
-            },
-            {
-              onDelta: (delta) => {
-                send("delta", { delta });
-              },
-              onUsage: (usage) => {
-                send("usage", usage);
-              },
-              onStep: (step, status) => {
-                send("step", { step, status });
-              },
-              onLlmDelta: (step, delta) => {
-                send("llm", { step, delta });
-              },
-              onContextStage: (message) => {
-                send("context", { message });
-              },
-              onContextStages: (messages) => {
-                send("context_stages", { messages });
-              },
-              onContextMeta: (meta) => {
-                send("context_meta", meta);
-              },
-              onContextEvidence: (items) => {
-                send("context_evidence", { items });
-              }
-            },
-            { signal: abortController.signal }
-          );
-
-          if (aborted || abortController.signal.aborted) {
-            await markAborted();
-            return;
-          }
-
-          if (aborted || abortController.signal.aborted) {
-            await markAborted();
-            return;
-          }
-
-          const reportKey = `projects/${projectId}/reports/${reportId}.md`;
-          await putR2Text(c.env.BUCKET, reportKey, report.markdown);
-
-          await c.env.DB.prepare(
-            "UPDATE reports SET status = ?, md_key = ?, json_key = ?, prompt_tokens = ?, completion_tokens = ?, total_tokens = ? WHERE id = ?"
-          )
-            .bind(
-              "completed",
-              reportKey,
-              null,
-              report.usage?.prompt_tokens ?? null,
-              report.usage?.completion_tokens ?? null,
-              report.usage?.total_tokens ?? null,
-              reportId
-            )
-            .run();
-
-          await c.env.DB.prepare("UPDATE projects SET status = ?, updated_at = ? WHERE id = ?")
-            .bind("completed", nowIso(), projectId)
-            .run();
-
-          send("done", { reportId, version: nextVersion, status: "completed", usage: report.usage ?? null });
-        } catch (error) {
-          if (aborted || abortController.signal.aborted) {
-            await markAborted();
-          } else {
-            const message = error instanceof Error ? error.message : "未知错误";
-            await c.env.DB.prepare("UPDATE reports SET status = ?, error_message = ? WHERE id = ?")
-              .bind("failed", message, reportId)
-              .run();
-            send("error", { message });
-          }
-        } finally {
-          controller.close();
-        }
-      })();
-    },
-    async cancel() {
-      aborted = true;
-      abortController.abort();
-      await markAborted();
-    }
+  await saveWorkflowCheckpoint(c.env, projectId, newReportId, seeded.state);
+  await audit(c, {
+    action: "report.periodic_review",
+    entityType: "report",
+    entityId: newReportId,
+    projectId,
+    oldValue: { source_report_id: reportId },
+    newValue: { version: nextVersion, status: "review", stage: seeded.stage }
   });
 
-  const originHeader = c.req.header("Origin");
-  const allowedOrigins = c.env.APP_ORIGIN
-    ? c.env.APP_ORIGIN.split(",").map((origin) => origin.trim()).filter(Boolean)
-    : [];
-  const corsHeaders: Record<string, string> = {};
-  if (originHeader && allowedOrigins.includes(originHeader)) {
-    corsHeaders["Access-Control-Allow-Origin"] = originHeader;
-    corsHeaders["Access-Control-Allow-Credentials"] = "true";
-    corsHeaders["Vary"] = "Origin";
-  }
-
-  return new Response(stream, {
-    headers: {
-      ...corsHeaders,
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive"
-    }
+  return c.json({
+    id: newReportId,
+    version: nextVersion,
+    status: "review",
+    stage: seeded.stage,
+    quota: quotaResult.snapshot
   });
 });
 
-app.get("/api/reports/:id", requireAuth, async (c) => {
-  const reportId = c.req.param("id");
-  const report = await c.env.DB.prepare(
-    "SELECT r.id, r.project_id, r.version, r.status, r.md_key, r.json_key, r.created_at, r.error_message, r.prompt_tokens, r.completion_tokens, r.total_tokens, r.model_name, p.title AS project_title FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ? AND p.owner_id = ?"
-  )
-    .bind(reportId, c.get("user")?.id)
-    .first();
-  if (!report) {
-    return c.json({ error: "报告不存在" }, 404);
-  }
-  const includeContent = c.req.query("includeContent") === "1";
-  const content = includeContent && report.md_key ? await readR2Text(c.env.BUCKET, report.md_key as string) : null;
-  const data = includeContent && report.json_key ? await readR2Text(c.env.BUCKET, report.json_key as string) : null;
-  const parsedJson = data ? safeJsonParse(data) : null;
-  return c.json({ report, content, data: parsedJson });
-});
-
 app.delete("/api/reports/:id", requireAuth, async (c) => {
   const reportId = c.req.param("id");
   const force = c.req.query("force") === "1";
   const report = await c.env.DB.prepare(
-    "SELECT r.id, r.project_id, r.status, r.md_key, r.json_key, r.template_snapshot_key, r.created_at FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ? AND p.owner_id = ?"
+    "SELECT r.id, r.project_id, r.version, r.status, r.lifecycle_status, r.md_key, r.json_key, r.template_snapshot_key, r.state_key, r.created_at FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ?"
   )
-    .bind(reportId, c.get("user")?.id)
+    .bind(reportId)
     .first();
   if (!report) {
     return c.json({ error: "报告不存在" }, 404);
   }
+  const denied = await denyProjectAccess(c, report.project_id as string, "editor", "报告不存在");
+  if (denied) {
+    return denied;
+  }
+  if (isLifecycleLocked(report.lifecycle_status)) {
+    return c.json({ error: "报告已批准，不能删除" }, 400);
+  }
+  // 签名记录需要保留，已签名的报告不能删除
+  const signed = await c.env.DB.prepare("SELECT 1 FROM report_signatures WHERE report_id = ? LIMIT 1")
+    .bind(reportId)
+    .first();
+  if (signed) {
+    return c.json({ error: "报告已有签名记录，不能删除" }, 400);
+  }
   if (report.status === "running") {
     const createdAt = new Date(report.created_at as string).getTime();
     const tooOld = Number.isFinite(createdAt) && Date.now() - createdAt > 30 * 60 * 1000;
@@ -1559,7 +3580,8 @@ app.delete("/api/reports/:id", requireAuth, async (c) => {
   const keysToDelete = [
     report.md_key as string | null,
     report.json_key as string | null,
-    report.template_snapshot_key as string | null
+    report.template_snapshot_key as string | null,
+    report.state_key as string | null
   ].filter(Boolean) as string[];
 
   for (const row of exports.results ?? []) {
@@ -1573,33 +3595,93 @@ app.delete("/api/reports/:id", requireAuth, async (c) => {
   }
 
   await c.env.DB.prepare("DELETE FROM report_exports WHERE report_id = ?").bind(reportId).run();
+  await c.env.DB.prepare("DELETE FROM report_events WHERE report_id = ?").bind(reportId).run();
+  await c.env.DB.prepare("DELETE FROM report_jobs WHERE report_id = ?").bind(reportId).run();
+  await c.env.DB.prepare("DELETE FROM capa_actions WHERE report_id = ?").bind(reportId).run();
+  await c.env.DB.prepare("DELETE FROM capa_risks WHERE report_id = ?").bind(reportId).run();
   await c.env.DB.prepare("DELETE FROM reports WHERE id = ?").bind(reportId).run();
+  await audit(c, {
+    action: "report.delete",
+    entityType: "report",
+    entityId: reportId,
+    projectId: report.project_id as string,
+    oldValue: { version: report.version, status: report.status, lifecycle_status: report.lifecycle_status }
+  });
 
   return c.json({ ok: true });
 });
 
+const EXPORT_CONTENT_TYPES = {
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pdf: "application/pdf"
+} as const;
+
+type ExportFormat = keyof typeof EXPORT_CONTENT_TYPES;
+
+// PDF 嵌入 PDF_FONT_KEY 指向的 TrueType 中文字体子集，调用前需确认已配置
+const renderReportPdf = async (
+  env: Env,
+  report: Record<string, unknown>,
+  markdown: string,
+  title: string
+) => {
+  const fontObject = await env.BUCKET.get(env.PDF_FONT_KEY as string);
+  if (!fontObject) {
+    throw new Error(`PDF 字体文件不存在：${env.PDF_FONT_KEY}`);
+  }
+  const fontData = await fontObject.arrayBuffer();
+  const timeZone = env.REPORT_TIMEZONE || "Asia/Shanghai";
+  const signatures = await listReportSignatures(env, { id: report.id as string, md_key: report.md_key });
+  return renderPdf(
+    markdown,
+    {
+      title,
+      version: typeof report.version === "number" ? report.version : null,
+      documentNo: `QRA-${(report.id as string).slice(0, 8).toUpperCase()}`,
+      statusLabel: LIFECYCLE_LABELS[report.lifecycle_status as ReportLifecycleStatus] ?? null,
+      exportedAt: formatLocalTime(new Date(), timeZone),
+      signatures: signatures.map((signature) => ({
+        signer: signature.signer_email,
+        meaning: signature.meaning,
+        signed_at: formatLocalTime(signature.signed_at, timeZone),
+        hash_matches: signature.hash_matches
+      }))
+    },
+    fontData
+  );
+};
+
 app.post("/api/reports/:id/exports", requireAuth, async (c) => {
   const reportId = c.req.param("id");
   const body = await c.req.json().catch(() => null);
-  const format = body?.format === "docx" ? body.format : null;
+  const format = typeof body?.format === "string" && body.format in EXPORT_CONTENT_TYPES
+    ? (body.format as ExportFormat)
+    : null;
   if (!format) {
     return c.json({ error: "导出格式不支持" }, 400);
   }
 
   const report = await c.env.DB.prepare(
-    "SELECT r.id, r.project_id, r.md_key, r.status, p.title FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ? AND p.owner_id = ?"
+    "SELECT r.id, r.project_id, r.md_key, r.status, r.version, r.lifecycle_status, p.title FROM reports r JOIN projects p ON r.project_id = p.id WHERE r.id = ?"
   )
-    .bind(reportId, c.get("user")?.id)
+    .bind(reportId)
     .first();
   if (!report) {
     return c.json({ error: "报告不存在" }, 404);
   }
+  const denied = await denyProjectAccess(c, report.project_id as string, "viewer", "报告不存在");
+  if (denied) {
+    return denied;
+  }
   if (report.status !== "completed") {
     return c.json({ error: "报告未生成完成" }, 400);
   }
   if (!report.md_key) {
     return c.json({ error: "报告内容缺失" }, 400);
   }
+  if (format === "pdf" && !c.env.PDF_FONT_KEY) {
+    return c.json({ error: "未配置 PDF 字体（PDF_FONT_KEY），暂不能导出 PDF，请联系管理员" }, 500);
+  }
 
   const exportId = crypto.randomUUID();
   await c.env.DB.prepare(
@@ -1614,21 +3696,29 @@ app.post("/api/reports/:id/exports", requireAuth, async (c) => {
       throw new Error("报告内容读取失败");
     }
 
-    const rendered = await renderDocx(markdown, {
-      title: typeof report.title === "string" ? report.title : `Report ${report.version ?? ""}`.trim(),
-      creator: "QRAi",
-      description: `Project ${report.project_id}`
-    });
+    const title = typeof report.title === "string" ? report.title : `Report ${report.version ?? ""}`.trim();
+    const rendered = format === "pdf"
+      ? await renderReportPdf(c.env, report, markdown, title)
+      : await renderDocx(markdown, {
+        title,
+        creator: "QRAi",
+        description: `Project ${report.project_id}`
+      });
     const fileKey = `projects/${report.project_id}/exports/${exportId}.${format}`;
     await c.env.BUCKET.put(fileKey, rendered, {
-      httpMetadata: {
-        contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
-      }
+      httpMetadata: { contentType: EXPORT_CONTENT_TYPES[format] }
     });
 
     await c.env.DB.prepare("UPDATE report_exports SET status = ?, file_key = ? WHERE id = ?")
       .bind("completed", fileKey, exportId)
       .run();
+    await audit(c, {
+      action: "report_export.create",
+      entityType: "report_export",
+      entityId: exportId,
+      projectId: report.project_id as string,
+      newValue: { report_id: reportId, format, status: "completed" }
+    });
 
     return c.json({ id: exportId, status: "completed" });
   } catch (error) {
@@ -1643,13 +3733,17 @@ app.post("/api/reports/:id/exports", requireAuth, async (c) => {
 app.get("/api/exports/:id/download", requireAuth, async (c) => {
   const exportId = c.req.param("id");
   const exportRow = await c.env.DB.prepare(
-    "SELECT e.id, e.format, e.file_key, r.project_id, r.version, p.title FROM report_exports e JOIN reports r ON e.report_id = r.id JOIN projects p ON r.project_id = p.id WHERE e.id = ? AND p.owner_id = ?"
+    "SELECT e.id, e.format, e.file_key, r.project_id, r.version, p.title FROM report_exports e JOIN reports r ON e.report_id = r.id JOIN projects p ON r.project_id = p.id WHERE e.id = ?"
   )
-    .bind(exportId, c.get("user")?.id)
+    .bind(exportId)
     .first();
   if (!exportRow || !exportRow.file_key) {
     return c.json({ error: "导出文件不存在" }, 404);
   }
+  const denied = await denyProjectAccess(c, exportRow.project_id as string, "viewer", "导出文件不存在");
+  if (denied) {
+    return denied;
+  }
   const object = await c.env.BUCKET.get(exportRow.file_key as string);
   if (!object) {
     return c.json({ error: "导出文件缺失" }, 404);
@@ -1664,6 +3758,10 @@ app.get("/api/exports/:id/download", requireAuth, async (c) => {
   const encodedFilename = encodeURIComponent(filename).replace(/%20/g, "%20");
   const headers = new Headers();
   object.writeHttpMetadata(headers);
+  const contentType = EXPORT_CONTENT_TYPES[exportRow.format as ExportFormat];
+  if (contentType) {
+    headers.set("content-type", contentType);
+  }
   headers.set(
     "content-disposition",
     `attachment; filename="${asciiFallback}"; filename*=UTF-8''${encodedFilename}`
@@ -1673,4 +3771,30 @@ app.get("/api/exports/:id/download", requireAuth, async (c) => {
 
 app.notFound((c) => c.json({ error: "Not Found" }, 404));
 
-export default app;
+// 队列消费者：max_batch_size 为 1，逐条执行报告生成任务
+// 任务开始前的读写（如 D1 暂不可用）抛出时同样重试，重试用尽后标记报告失败，避免消息被静默丢弃
+const handleReportJobs = async (batch: MessageBatch<ReportJobMessage>, env: Env) => {
+  for (const message of batch.messages) {
+    const { jobId } = message.body;
+    let outcome: "done" | "retry";
+    try {
+      outcome = await runReportJob(env, jobId, message.attempts);
+    } catch (error) {
+      outcome = message.attempts < REPORT_JOB_MAX_ATTEMPTS ? "retry" : "done";
+      if (outcome === "done") {
+        const errorMessage = error instanceof Error ? error.message : "未知错误";
+        await failReportJobById(env, jobId, message.attempts, errorMessage).catch(() => undefined);
+      }
+    }
+    if (outcome === "retry") {
+      message.retry({ delaySeconds: REPORT_JOB_RETRY_DELAY_SECONDS });
+    } else {
+      message.ack();
+    }
+  }
+};
+
+export default {
+  fetch: app.fetch,
+  queue: handleReportJobs
+} satisfies ExportedHandler<Env, ReportJobMessage>;
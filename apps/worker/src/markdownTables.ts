@@ -0,0 +1,597 @@
+import { DEFAULT_SCORING_SCHEME } from "./scoring";
+import { hasTemplatePlaceholders, listTemplatePlaceholders } from "./templatePlaceholders";
+import { computeRpnLevel, resolveEvalTool } from "./workflow";
+import type {
+  ActionItem,
+  ActionOutput,
+  AssessedRiskItem,
+  ControlMeasureItem,
+  ControlMeasureOutput,
+  FmeaScoringRow,
+  ReevaluatedRiskItem,
+  RenderCheck,
+  RenderCheckIssue,
+  RenderCheckTable,
+  RenderMode,
+  RiskItem,
+  ScoredRiskItem
+} from "./aiTypes";
+
+type Score = 1 | 3 | 6 | 9;
+
+export type MarkdownTable = {
+  heading: string | null;
+  headers: string[];
+  rows: string[][];
+};
+
+// 占位符模板中各核对表对应的占位符，模板未使用该占位符时报告中本就没有这张表
+const CHECK_TABLE_PLACEHOLDERS: Partial<Record<RenderCheckTable, string>> = {
+  risk: "risk_table",
+  evaluation: "fmea_table",
+  actions: "capa_plan"
+};
+
+const FIVE_FACTOR_DIMENSIONS = new Set(["人员", "设备与设施", "物料", "法规与程序", "环境"]);
+const ACTION_TYPES: ControlMeasureItem["type"][] = [
+  "SOP/规程",
+  "培训与资质",
+  "设备/系统",
+  "监测与报警",
+  "数据完整性",
+  "双人复核/独立审核",
+  "其他"
+];
+
+export function parseMarkdownTables(markdown: string): MarkdownTable[] {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  const tables: MarkdownTable[] = [];
+  let heading: string | null = null;
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index].trim();
+    const headingMatch = line.match(/^#{1,6}\s+(.+)$/);
+    if (headingMatch) {
+      heading = headingMatch[1].trim();
+      index += 1;
+      continue;
+    }
+    const next = lines[index + 1]?.trim() ?? "";
+    if (isTableRow(line) && isDelimiterRow(next)) {
+      const headers = splitTableRow(line);
+      const rows: string[][] = [];
+      index += 2;
+      while (index < lines.length && isTableRow(lines[index].trim())) {
+        const cells = splitTableRow(lines[index].trim());
+        if (cells.some(Boolean)) {
+          rows.push(cells);
+        }
+        index += 1;
+      }
+      tables.push({ heading, headers, rows });
+      continue;
+    }
+    index += 1;
+  }
+  return tables;
+}
+
+// 从已渲染的 Markdown 表格中尽可能还原结构化结果，用于补全历史流式报告的 JSON
+export function rebuildWorkflowJsonFromMarkdown(markdown: string): Record<string, unknown> | null {
+  const tables = parseMarkdownTables(markdown);
+  const scoringTable = tables.find(isScoringTable);
+  if (!scoringTable) {
+    return null;
+  }
+  const scoredItems = parseScoringTable(scoringTable);
+  if (!scoredItems.length) {
+    return null;
+  }
+
+  const issues: string[] = [];
+  const controlTable = tables.find((table) => table !== scoringTable && isControlTable(table));
+  const { controlMeasures, reevaluatedItems } = controlTable
+    ? parseControlTable(controlTable, scoredItems, issues)
+    : { controlMeasures: [], reevaluatedItems: [] };
+  const planTable = tables.find(isPlanTable);
+  const actions = planTable ? parsePlanTable(planTable, controlMeasures, issues) : [];
+
+  const riskItems: RiskItem[] = scoredItems.map((item) => ({
+    risk_id: item.risk_id,
+    dimension_type: item.dimension_type,
+    dimension: item.dimension,
+    dimension_id: item.dimension_id,
+    failure_mode: item.failure_mode,
+    consequence: item.consequence
+  }));
+  const fmeaRows: FmeaScoringRow[] = scoredItems.map((item) => ({
+    risk_id: item.risk_id,
+    s: item.s,
+    s_reason: item.s_reason,
+    p: item.p,
+    p_reason: item.p_reason,
+    d: item.d,
+    d_reason: item.d_reason
+  }));
+
+  return {
+    rebuilt_from_markdown: true,
+    risk_items: riskItems,
+    fmea_rows: fmeaRows,
+    scored_items: scoredItems,
+    control_measures: controlMeasures,
+    reevaluated_items: reevaluatedItems,
+    actions,
+    mapping_validation: { ok: issues.length === 0, issues }
+  };
+}
+
+// 风险控制表的一行：控制措施与再评估后的评分、等级
+export type RenderControlRow = {
+  failure_mode: string;
+  actions: Array<{ action_text: string }>;
+  scores: { s: number; p: number; d: number; rpn: number } | null;
+  level: string;
+};
+
+const CHECK_TABLE_LABELS: Record<RenderCheckTable, string> = {
+  risk: "危害源识别表",
+  evaluation: "风险评价表",
+  control: "风险控制表",
+  actions: "行动计划表"
+};
+
+const CHECK_COLUMNS: Record<string, { label: string; matcher: (header: string) => boolean }> = {
+  seq: { label: "序号", matcher: (header) => header === "序号" || header === "排序" },
+  failure_mode: {
+    label: "失效模式",
+    matcher: (header) => header.includes("失效模式") || header.includes("风险点") || header.includes("危害")
+  },
+  consequence: { label: "后果", matcher: (header) => header.includes("后果") },
+  s: { label: "S", matcher: isScoreHeader("S", "严重") },
+  p: { label: "P", matcher: isScoreHeader("P", "可能") },
+  d: { label: "D", matcher: isScoreHeader("D", "可测") },
+  rpn: { label: "RPN", matcher: (header) => header.includes("RPN") },
+  level: { label: "等级", matcher: (header) => header === "等级" || header.includes("风险等级") },
+  action_type: { label: "动作类型", matcher: (header) => header.includes("类型") },
+  action_text: { label: "措施", matcher: (header) => header.includes("措施") },
+  owner_role: { label: "责任角色", matcher: (header) => header.includes("责任角色") },
+  planned_date: { label: "计划完成", matcher: (header) => header.includes("计划") }
+};
+
+// 核对渲染出的危害源识别表、风险评价表、风险控制表与行动计划表是否与结构化结果逐行一致（引用标注不参与比较）
+// mode 为实际的渲染方式：确定性渲染不输出风险控制表，模型撰写的行动计划表序号单独编制
+export function checkRenderedTables(
+  markdown: string,
+  data: {
+    items: AssessedRiskItem[];
+    actions: ActionOutput;
+    evalTool: string | null | undefined;
+    mode: RenderMode;
+    controls?: RenderControlRow[];
+    templateContent?: string | null;
+  }
+): RenderCheck {
+  const tables = parseMarkdownTables(markdown);
+  const placeholders = hasTemplatePlaceholders(data.templateContent ?? null)
+    ? new Set(listTemplatePlaceholders(data.templateContent ?? null))
+    : null;
+  const omitted = (kind: RenderCheckTable) => {
+    const placeholder = CHECK_TABLE_PLACEHOLDERS[kind];
+    return Boolean(placeholders && placeholder && !placeholders.has(placeholder));
+  };
+  const evalTool = resolveEvalTool(data.evalTool);
+  const items = evalTool === "RRF" ? [...data.items].sort((a, b) => readRank(a) - readRank(b)) : data.items;
+  const result: RenderCheck = { ok: true, tables: [], issues: [] };
+
+  const evaluationTable = tables.find(isEvaluationTable);
+  const riskTable = tables.find((table) => table !== evaluationTable && isRiskTable(table));
+  checkTableRows(
+    result,
+    "risk",
+    riskTable,
+    data.items.map((item, index) => ({
+      seq: String(index + 1),
+      failure_mode: item.failure_mode,
+      consequence: item.consequence
+    })),
+    omitted("risk")
+  );
+
+  checkTableRows(
+    result,
+    "evaluation",
+    evaluationTable,
+    items.map((item, index) => {
+      const row: Record<string, string> = {
+        seq: String(evalTool === "RRF" ? readRank(item) : index + 1),
+        failure_mode: item.failure_mode
+      };
+      if (evalTool === "FMEA") {
+        const scored = item as ScoredRiskItem;
+        Object.assign(row, {
+          s: String(scored.s),
+          p: String(scored.p),
+          d: String(scored.d),
+          rpn: String(scored.rpn)
+        });
+      }
+      if (evalTool !== "HACCP") {
+        row.level = item.level;
+      }
+      return row;
+    }),
+    omitted("evaluation")
+  );
+
+  if (data.mode === "llm") {
+    checkTableRows(
+      result,
+      "control",
+      tables.find(isControlCheckTable),
+      (data.controls ?? []).map((control, index) => {
+        const row: Record<string, string> = {
+          seq: String(index + 1),
+          failure_mode: control.failure_mode,
+          action_text: control.actions.length
+            ? control.actions.map((action, actionIndex) => `${actionIndex + 1}. ${action.action_text}`).join("\n")
+            : "—"
+        };
+        if (evalTool === "FMEA" && control.scores) {
+          Object.assign(row, {
+            s: String(control.scores.s),
+            p: String(control.scores.p),
+            d: String(control.scores.d),
+            rpn: String(control.scores.rpn)
+          });
+        }
+        if (evalTool !== "HACCP") {
+          row.level = control.level;
+        }
+        return row;
+      })
+    );
+  }
+
+  // 没有需要措施的风险项时行动计划以文字说明代替表格
+  const orders = new Map(data.items.map((item, index) => [item.risk_id, String(index + 1)]));
+  const actionRows = data.items.some((item) => item.need_actions)
+    ? data.actions
+        .flatMap((entry) =>
+          entry.actions.map((action) => ({
+            seq: orders.get(entry.risk_id) ?? "-",
+            action_type: action.type,
+            action_text: action.action_text,
+            owner_role: action.owner_role,
+            planned_date: action.planned_date
+          }))
+        )
+        .map((row, index) => (data.mode === "llm" ? { ...row, seq: String(index + 1) } : row))
+    : [];
+  checkTableRows(result, "actions", tables.find(isPlanTable), actionRows, omitted("actions"));
+
+  result.ok = result.issues.length === 0;
+  return result;
+}
+
+function checkTableRows(
+  result: RenderCheck,
+  kind: RenderCheckTable,
+  table: MarkdownTable | undefined,
+  expected: Array<Record<string, string>>,
+  optional = false
+) {
+  if (!table && optional) {
+    return;
+  }
+  const label = CHECK_TABLE_LABELS[kind];
+  const push = (issue: Omit<RenderCheckIssue, "table">) => result.issues.push({ table: kind, ...issue });
+  result.tables.push({ table: kind, expected_rows: expected.length, actual_rows: table ? table.rows.length : null });
+  if (!table) {
+    if (expected.length > 0) {
+      push({
+        row: null,
+        field: "table",
+        expected: `${expected.length} 行`,
+        actual: "未找到",
+        message: `未找到${label}`
+      });
+    }
+    return;
+  }
+  if (table.rows.length !== expected.length) {
+    push({
+      row: null,
+      field: "rows",
+      expected: String(expected.length),
+      actual: String(table.rows.length),
+      message: `${label}行数与结构化结果不一致`
+    });
+  }
+  const fields = Object.keys(expected[0] ?? {});
+  const columns = new Map(fields.map((field) => [field, findColumn(table.headers, CHECK_COLUMNS[field].matcher)]));
+  for (const field of fields) {
+    if ((columns.get(field) ?? -1) < 0) {
+      const column = CHECK_COLUMNS[field].label;
+      push({ row: null, field, expected: column, actual: "缺失", message: `${label}缺少${column}列` });
+    }
+  }
+  expected.forEach((row, index) => {
+    const actualRow = table.rows[index];
+    if (!actualRow) {
+      return;
+    }
+    for (const field of fields) {
+      const column = columns.get(field) ?? -1;
+      if (column < 0) {
+        continue;
+      }
+      const actual = cellAt(actualRow, column);
+      if (normalizeCheckValue(actual) !== normalizeCheckValue(row[field] ?? "")) {
+        push({
+          row: index + 1,
+          field,
+          expected: row[field] ?? "",
+          actual,
+          message: `${label}第 ${index + 1} 行${CHECK_COLUMNS[field].label}与结构化结果不一致`
+        });
+      }
+    }
+  });
+}
+
+function readRank(item: AssessedRiskItem): number {
+  return Number((item as { rank?: unknown }).rank ?? 0);
+}
+
+function normalizeCheckValue(value: string): string {
+  return normalizeText(value.replace(/\[\d+\]/g, ""));
+}
+
+function isTableRow(line: string): boolean {
+  return line.startsWith("|") && line.length > 1;
+}
+
+function isDelimiterRow(line: string): boolean {
+  return isTableRow(line) && /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/.test(line);
+}
+
+function splitTableRow(line: string): string[] {
+  const trimmed = line.replace(/^\|/, "").replace(/\|$/, "");
+  return trimmed.split("|").map((cell) => cell.trim());
+}
+
+function normalizeHeader(header: string): string {
+  return header.replace(/\s+/g, "").replace(/[（]/g, "(").replace(/[）]/g, ")").toUpperCase();
+}
+
+function findColumn(headers: string[], matcher: (header: string) => boolean): number {
+  return headers.map(normalizeHeader).findIndex(matcher);
+}
+
+function isScoreHeader(letter: "S" | "P" | "D", label: string) {
+  return (header: string) =>
+    !header.includes("理由") && (header === letter || header.includes(`(${letter})`) || header.startsWith(label));
+}
+
+function isReasonHeader(letter: "S" | "P" | "D", label: string) {
+  return (header: string) => header.includes("理由") && (header.includes(letter) || header.includes(label));
+}
+
+function isScoringTable(table: MarkdownTable): boolean {
+  return (
+    findColumn(table.headers, (header) => header.includes("RPN")) >= 0 &&
+    findColumn(table.headers, isReasonHeader("S", "严重")) >= 0
+  );
+}
+
+function isControlTable(table: MarkdownTable): boolean {
+  return (
+    findColumn(table.headers, (header) => header.includes("RPN")) >= 0 &&
+    findColumn(table.headers, (header) => header.includes("措施")) >= 0
+  );
+}
+
+function isEvaluationTable(table: MarkdownTable): boolean {
+  return (
+    findColumn(table.headers, CHECK_COLUMNS.failure_mode.matcher) >= 0 &&
+    findColumn(table.headers, (header) => CHECK_COLUMNS.level.matcher(header) || header === "判定") >= 0 &&
+    findColumn(table.headers, (header) => header.includes("措施")) < 0
+  );
+}
+
+function isControlCheckTable(table: MarkdownTable): boolean {
+  return (
+    findColumn(table.headers, CHECK_COLUMNS.failure_mode.matcher) >= 0 &&
+    findColumn(table.headers, (header) => header.includes("措施")) >= 0 &&
+    findColumn(table.headers, (header) => header.includes("责任角色")) < 0
+  );
+}
+
+function isRiskTable(table: MarkdownTable): boolean {
+  return (
+    findColumn(table.headers, CHECK_COLUMNS.failure_mode.matcher) >= 0 &&
+    findColumn(table.headers, CHECK_COLUMNS.consequence.matcher) >= 0 &&
+    findColumn(table.headers, (header) => header.includes("RPN") || header.includes("措施")) < 0
+  );
+}
+
+function isPlanTable(table: MarkdownTable): boolean {
+  return (
+    findColumn(table.headers, (header) => header.includes("责任角色")) >= 0 &&
+    findColumn(table.headers, (header) => header.includes("计划")) >= 0
+  );
+}
+
+function parseScore(value: string | undefined): Score | null {
+  const parsed = Number.parseInt((value ?? "").replace(/[^\d]/g, ""), 10);
+  return parsed === 1 || parsed === 3 || parsed === 6 || parsed === 9 ? parsed : null;
+}
+
+function cellAt(row: string[], index: number): string {
+  return index >= 0 ? restoreCell(row[index] ?? "") : "";
+}
+
+function restoreCell(value: string): string {
+  return value.replace(/<br\s*\/?>/gi, "\n").replace(/｜/g, "|").trim();
+}
+
+function normalizeText(value: string): string {
+  return value
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/^\d+[.、．]\s*/, "")
+    .replace(/[\s|｜]+/g, "")
+    .trim();
+}
+
+function parseScoringTable(table: MarkdownTable): ScoredRiskItem[] {
+  const dimensionIndex = findColumn(table.headers, (header) => header.includes("维度") || header.includes("步骤"));
+  const failureIndex = findColumn(
+    table.headers,
+    (header) => header.includes("失效模式") || header.includes("风险点") || header.includes("危害")
+  );
+  const consequenceIndex = findColumn(table.headers, (header) => header.includes("后果"));
+  const sIndex = findColumn(table.headers, isScoreHeader("S", "严重"));
+  const pIndex = findColumn(table.headers, isScoreHeader("P", "可能"));
+  const dIndex = findColumn(table.headers, isScoreHeader("D", "可测"));
+  const sReasonIndex = findColumn(table.headers, isReasonHeader("S", "严重"));
+  const pReasonIndex = findColumn(table.headers, isReasonHeader("P", "可能"));
+  const dReasonIndex = findColumn(table.headers, isReasonHeader("D", "可测"));
+  if (failureIndex < 0 || sIndex < 0 || pIndex < 0 || dIndex < 0) {
+    return [];
+  }
+
+  const items: ScoredRiskItem[] = [];
+  for (const row of table.rows) {
+    const s = parseScore(row[sIndex]);
+    const p = parseScore(row[pIndex]);
+    const d = parseScore(row[dIndex]);
+    const failureMode = cellAt(row, failureIndex);
+    if (!s || !p || !d || !failureMode) {
+      continue;
+    }
+    const dimension = cellAt(row, dimensionIndex);
+    const rpn = s * p * d;
+    items.push({
+      risk_id: crypto.randomUUID(),
+      dimension_type: FIVE_FACTOR_DIMENSIONS.has(dimension) ? "five_factors" : "process_flow",
+      dimension,
+      dimension_id: null,
+      failure_mode: failureMode,
+      consequence: cellAt(row, consequenceIndex),
+      s,
+      s_reason: cellAt(row, sReasonIndex),
+      p,
+      p_reason: cellAt(row, pReasonIndex),
+      d,
+      d_reason: cellAt(row, dReasonIndex),
+      rpn,
+      level: computeRpnLevel(rpn),
+      need_actions: rpn >= DEFAULT_SCORING_SCHEME.action_threshold
+    });
+  }
+  return items;
+}
+
+function parseControlTable(
+  table: MarkdownTable,
+  scoredItems: ScoredRiskItem[],
+  issues: string[]
+): { controlMeasures: ControlMeasureOutput; reevaluatedItems: ReevaluatedRiskItem[] } {
+  const hazardIndex = findColumn(
+    table.headers,
+    (header) => header.includes("危害") || header.includes("失效模式") || header.includes("风险点")
+  );
+  const measureIndex = findColumn(table.headers, (header) => header.includes("措施"));
+  const sIndex = findColumn(table.headers, isScoreHeader("S", "严重"));
+  const pIndex = findColumn(table.headers, isScoreHeader("P", "可能"));
+  const dIndex = findColumn(table.headers, isScoreHeader("D", "可测"));
+  if (hazardIndex < 0 || sIndex < 0 || pIndex < 0 || dIndex < 0) {
+    issues.push("风险控制表缺少必要列，未还原再评估结果");
+    return { controlMeasures: [], reevaluatedItems: [] };
+  }
+
+  const itemMap = new Map(scoredItems.map((item) => [normalizeText(item.failure_mode), item]));
+  const controlMeasures: ControlMeasureOutput = [];
+  const reevaluatedItems: ReevaluatedRiskItem[] = [];
+  for (const row of table.rows) {
+    const hazard = cellAt(row, hazardIndex);
+    const item = itemMap.get(normalizeText(hazard));
+    if (!item) {
+      issues.push(`风险控制表中的危害源未能匹配：${hazard || "（空）"}`);
+      continue;
+    }
+    const s = parseScore(row[sIndex]);
+    const p = parseScore(row[pIndex]);
+    const d = parseScore(row[dIndex]);
+    if (s && p && d) {
+      const rpn = s * p * d;
+      reevaluatedItems.push({
+        risk_id: item.risk_id,
+        dimension_type: item.dimension_type,
+        dimension: item.dimension,
+        dimension_id: item.dimension_id,
+        failure_mode: item.failure_mode,
+        consequence: item.consequence,
+        s,
+        p,
+        d,
+        rpn,
+        level: computeRpnLevel(rpn)
+      });
+    }
+    const measures = (row[measureIndex] ?? "")
+      .split(/<br\s*\/?>/i)
+      .map((text) => restoreCell(text).replace(/^\d+[.、．]\s*/, ""))
+      .filter((text) => text && text !== "—");
+    if (measures.length) {
+      controlMeasures.push({
+        risk_id: item.risk_id,
+        actions: measures.map((text) => ({ type: "其他", action_text: text }))
+      });
+    }
+  }
+  return { controlMeasures, reevaluatedItems };
+}
+
+function parsePlanTable(table: MarkdownTable, controlMeasures: ControlMeasureOutput, issues: string[]): ActionOutput {
+  const typeIndex = findColumn(table.headers, (header) => header.includes("类型"));
+  const measureIndex = findColumn(table.headers, (header) => header.includes("措施"));
+  const roleIndex = findColumn(table.headers, (header) => header.includes("责任角色"));
+  const deptIndex = findColumn(table.headers, (header) => header.includes("责任部门"));
+  const dateIndex = findColumn(table.headers, (header) => header.includes("计划"));
+  if (measureIndex < 0) {
+    issues.push("行动计划表缺少措施列，未还原行动计划");
+    return [];
+  }
+
+  const measureOwner = new Map<string, { riskId: string; action: ControlMeasureItem }>();
+  for (const entry of controlMeasures) {
+    for (const action of entry.actions) {
+      measureOwner.set(normalizeText(action.action_text), { riskId: entry.risk_id, action });
+    }
+  }
+
+  const grouped = new Map<string, ActionItem[]>();
+  for (const row of table.rows) {
+    const actionText = cellAt(row, measureIndex);
+    const owner = measureOwner.get(normalizeText(actionText));
+    if (!owner) {
+      issues.push(`行动计划中的措施未能匹配风险项：${actionText || "（空）"}`);
+      continue;
+    }
+    const rawType = cellAt(row, typeIndex);
+    const type = ACTION_TYPES.find((item) => item === rawType) ?? owner.action.type;
+    owner.action.type = type;
+    const list = grouped.get(owner.riskId) ?? [];
+    list.push({
+      type,
+      action_text: owner.action.action_text,
+      owner_role: cellAt(row, roleIndex),
+      owner_dept: cellAt(row, deptIndex),
+      planned_date: cellAt(row, dateIndex)
+    });
+    grouped.set(owner.riskId, list);
+  }
+  return Array.from(grouped.entries()).map(([risk_id, actions]) => ({ risk_id, actions }));
+}
@@ -0,0 +1,306 @@
+// TrueType 字体解析与子集化：PDF 导出按 Identity-H 以字形编号引用文字，子集只清空未用到的字形，编号保持不变
+// 仅支持 TrueType 轮廓（glyf）；CFF 轮廓（.otf）与字体集合（.ttc）需先转换为单个 .ttf
+
+export type TrueTypeFont = {
+  unitsPerEm: number;
+  ascent: number;
+  descent: number;
+  bbox: [number, number, number, number];
+  glyphFor: (codePoint: number) => number;
+  advanceWidth: (glyph: number) => number;
+  subset: (glyphs: Iterable<number>) => Uint8Array<ArrayBuffer>;
+};
+
+type TableRecord = { offset: number; length: number };
+type CmapLookup = (codePoint: number) => number;
+
+const REQUIRED_TABLES = ["head", "hhea", "maxp", "hmtx", "loca", "glyf", "cmap"];
+// 子集只保留渲染所需的表，cmap 由 PDF 的 CIDToGIDMap 代替
+const SUBSET_TABLES = ["head", "hhea", "maxp", "hmtx", "loca", "glyf", "cvt ", "fpgm", "prep"];
+
+// 复合字形的组件标志位
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+function parseCmap(view: DataView, offset: number): CmapLookup {
+  const count = view.getUint16(offset + 2);
+  const candidates: Array<{ rank: number; offset: number }> = [];
+  for (let index = 0; index < count; index += 1) {
+    const record = offset + 4 + index * 8;
+    const platform = view.getUint16(record);
+    const encoding = view.getUint16(record + 2);
+    const subtable = offset + view.getUint32(record + 4);
+    const format = view.getUint16(subtable);
+    if (format === 12 && (platform === 3 || platform === 0)) {
+      candidates.push({ rank: platform === 3 && encoding === 10 ? 0 : 1, offset: subtable });
+    } else if (format === 4 && (platform === 3 || platform === 0)) {
+      candidates.push({ rank: platform === 3 && encoding === 1 ? 2 : 3, offset: subtable });
+    }
+  }
+  const selected = candidates.sort((a, b) => a.rank - b.rank)[0];
+  if (!selected) {
+    throw new Error("PDF 字体缺少 Unicode 字符映射");
+  }
+  const subtable = selected.offset;
+
+  if (view.getUint16(subtable) === 12) {
+    const groups = view.getUint32(subtable + 12);
+    return (codePoint) => {
+      let low = 0;
+      let high = groups - 1;
+      while (low <= high) {
+        const middle = (low + high) >> 1;
+        const group = subtable + 16 + middle * 12;
+        const start = view.getUint32(group);
+        const end = view.getUint32(group + 4);
+        if (codePoint < start) {
+          high = middle - 1;
+        } else if (codePoint > end) {
+          low = middle + 1;
+        } else {
+          return view.getUint32(group + 8) + codePoint - start;
+        }
+      }
+      return 0;
+    };
+  }
+
+  const segments = view.getUint16(subtable + 6) / 2;
+  const endCodes = subtable + 14;
+  const startCodes = endCodes + segments * 2 + 2;
+  const idDeltas = startCodes + segments * 2;
+  const idRangeOffsets = idDeltas + segments * 2;
+  return (codePoint) => {
+    if (codePoint > 0xffff) {
+      return 0;
+    }
+    let low = 0;
+    let high = segments - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (view.getUint16(endCodes + middle * 2) < codePoint) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    const start = view.getUint16(startCodes + low * 2);
+    if (start > codePoint || view.getUint16(endCodes + low * 2) < codePoint) {
+      return 0;
+    }
+    const delta = view.getUint16(idDeltas + low * 2);
+    const rangeOffset = view.getUint16(idRangeOffsets + low * 2);
+    if (rangeOffset === 0) {
+      return (codePoint + delta) & 0xffff;
+    }
+    const glyph = view.getUint16(idRangeOffsets + low * 2 + rangeOffset + (codePoint - start) * 2);
+    return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+  };
+}
+
+function tableChecksum(data: Uint8Array): number {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let sum = 0;
+  const whole = data.byteLength - (data.byteLength % 4);
+  for (let offset = 0; offset < whole; offset += 4) {
+    sum = (sum + view.getUint32(offset)) >>> 0;
+  }
+  if (whole < data.byteLength) {
+    let last = 0;
+    for (let offset = whole; offset < whole + 4; offset += 1) {
+      last = (last << 8) | (offset < data.byteLength ? data[offset] : 0);
+    }
+    sum = (sum + (last >>> 0)) >>> 0;
+  }
+  return sum;
+}
+
+function writeFont(tables: Array<[string, Uint8Array]>): Uint8Array<ArrayBuffer> {
+  const sorted = [...tables].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const count = sorted.length;
+  const entrySelector = Math.floor(Math.log2(count));
+  const searchRange = 2 ** entrySelector * 16;
+  const headerSize = 12 + count * 16;
+  const size = sorted.reduce((total, [, data]) => total + Math.ceil(data.byteLength / 4) * 4, headerSize);
+  const output = new Uint8Array(size);
+  const view = new DataView(output.buffer);
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, count);
+  view.setUint16(6, searchRange);
+  view.setUint16(8, entrySelector);
+  view.setUint16(10, count * 16 - searchRange);
+  let offset = headerSize;
+  let headOffset = -1;
+  sorted.forEach(([tag, data], index) => {
+    const record = 12 + index * 16;
+    for (let char = 0; char < 4; char += 1) {
+      view.setUint8(record + char, tag.charCodeAt(char));
+    }
+    view.setUint32(record + 4, tableChecksum(data));
+    view.setUint32(record + 8, offset);
+    view.setUint32(record + 12, data.byteLength);
+    output.set(data, offset);
+    if (tag === "head") {
+      headOffset = offset;
+    }
+    offset += Math.ceil(data.byteLength / 4) * 4;
+  });
+  if (headOffset >= 0) {
+    view.setUint32(headOffset + 8, (0xb1b0afba - tableChecksum(output)) >>> 0);
+  }
+  return output;
+}
+
+export function parseTrueTypeFont(data: ArrayBuffer): TrueTypeFont {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  if (data.byteLength < 12) {
+    throw new Error("PDF 字体文件无效");
+  }
+  const signature = readTag(view, 0);
+  if (signature === "ttcf") {
+    throw new Error("PDF 字体不支持字体集合（.ttc），请先提取为单个 .ttf 字体");
+  }
+  if (signature === "OTTO") {
+    throw new Error("PDF 字体需为 TrueType 轮廓字体（.ttf），暂不支持 CFF 轮廓的 .otf 字体");
+  }
+  if (view.getUint32(0) !== 0x00010000 && signature !== "true") {
+    throw new Error("PDF 字体文件无效");
+  }
+
+  const tables = new Map<string, TableRecord>();
+  const tableCount = view.getUint16(4);
+  for (let index = 0; index < tableCount; index += 1) {
+    const record = 12 + index * 16;
+    tables.set(readTag(view, record), { offset: view.getUint32(record + 8), length: view.getUint32(record + 12) });
+  }
+  for (const tag of REQUIRED_TABLES) {
+    if (!tables.has(tag)) {
+      throw new Error(`PDF 字体缺少 ${tag} 表`);
+    }
+  }
+  const table = (tag: string) => tables.get(tag) as TableRecord;
+
+  const head = table("head").offset;
+  const unitsPerEm = view.getUint16(head + 18);
+  const bbox: [number, number, number, number] = [
+    view.getInt16(head + 36),
+    view.getInt16(head + 38),
+    view.getInt16(head + 40),
+    view.getInt16(head + 42)
+  ];
+  const longLoca = view.getInt16(head + 50) === 1;
+  const hhea = table("hhea").offset;
+  const metricCount = view.getUint16(hhea + 34);
+  const glyphCount = view.getUint16(table("maxp").offset + 4);
+  const hmtx = table("hmtx").offset;
+  const loca = table("loca").offset;
+  const glyf = table("glyf").offset;
+  const lookup = parseCmap(view, table("cmap").offset);
+
+  const glyphRange = (glyph: number): [number, number] =>
+    longLoca
+      ? [view.getUint32(loca + glyph * 4), view.getUint32(loca + glyph * 4 + 4)]
+      : [view.getUint16(loca + glyph * 2) * 2, view.getUint16(loca + glyph * 2 + 2) * 2];
+
+  const componentsOf = (glyph: number): number[] => {
+    const [start, end] = glyphRange(glyph);
+    if (end <= start || view.getInt16(glyf + start) >= 0) {
+      return [];
+    }
+    const components: number[] = [];
+    let offset = glyf + start + 10;
+    let flags = MORE_COMPONENTS;
+    while (flags & MORE_COMPONENTS) {
+      flags = view.getUint16(offset);
+      components.push(view.getUint16(offset + 2));
+      offset += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+      if (flags & WE_HAVE_A_SCALE) {
+        offset += 2;
+      } else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) {
+        offset += 4;
+      } else if (flags & WE_HAVE_A_TWO_BY_TWO) {
+        offset += 8;
+      }
+    }
+    return components;
+  };
+
+  const subset = (glyphs: Iterable<number>): Uint8Array<ArrayBuffer> => {
+    const used = new Set<number>([0]);
+    const pending = [...glyphs];
+    while (pending.length > 0) {
+      const glyph = pending.pop() as number;
+      if (glyph < 0 || glyph >= glyphCount || used.has(glyph)) {
+        continue;
+      }
+      used.add(glyph);
+      pending.push(...componentsOf(glyph));
+    }
+
+    const locaData = new Uint8Array((glyphCount + 1) * 4);
+    const locaView = new DataView(locaData.buffer);
+    const pieces: Array<[number, number]> = [];
+    let size = 0;
+    for (let glyph = 0; glyph < glyphCount; glyph += 1) {
+      locaView.setUint32(glyph * 4, size);
+      if (!used.has(glyph)) {
+        continue;
+      }
+      const [start, end] = glyphRange(glyph);
+      if (end > start) {
+        pieces.push([start, end]);
+        size += Math.ceil((end - start) / 4) * 4;
+      }
+    }
+    locaView.setUint32(glyphCount * 4, size);
+    const glyfData = new Uint8Array(size);
+    let cursor = 0;
+    for (const [start, end] of pieces) {
+      glyfData.set(bytes.subarray(glyf + start, glyf + end), cursor);
+      cursor += Math.ceil((end - start) / 4) * 4;
+    }
+
+    const headData = bytes.slice(head, head + table("head").length);
+    const headView = new DataView(headData.buffer);
+    headView.setUint32(8, 0);
+    headView.setInt16(50, 1);
+    const output: Array<[string, Uint8Array]> = [
+      ["head", headData],
+      ["loca", locaData],
+      ["glyf", glyfData]
+    ];
+    for (const tag of SUBSET_TABLES) {
+      const record = tables.get(tag);
+      if (record && !output.some(([name]) => name === tag)) {
+        output.push([tag, bytes.slice(record.offset, record.offset + record.length)]);
+      }
+    }
+    return writeFont(output);
+  };
+
+  return {
+    unitsPerEm,
+    ascent: view.getInt16(hhea + 4),
+    descent: view.getInt16(hhea + 6),
+    bbox,
+    glyphFor: (codePoint) => {
+      const glyph = lookup(codePoint);
+      return glyph < glyphCount ? glyph : 0;
+    },
+    advanceWidth: (glyph) => view.getUint16(hmtx + Math.min(glyph, metricCount - 1) * 4),
+    subset
+  };
+}
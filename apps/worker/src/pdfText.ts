@@ -0,0 +1,679 @@
+// 轻量 PDF 文本提取：解析页面树与内容流中的文本操作符，支持 FlateDecode、对象流与 ToUnicode 映射
+// 不处理扫描件（无文本层）与加密文档
+
+type PdfName = { kind: "name"; value: string };
+type PdfString = { kind: "string"; value: string };
+type PdfRef = { kind: "ref"; id: number };
+type PdfDict = { kind: "dict"; value: Map<string, PdfValue> };
+type PdfOperator = { kind: "op"; value: string };
+type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfDict | PdfValue[];
+
+type PdfObject = { value: PdfValue; stream: string | null };
+type Lexer = { source: string; pos: number };
+type Token =
+  | { type: "number"; value: number }
+  | { type: "name" | "string" | "punct" | "keyword"; value: string };
+
+type CMap = { ranges: Array<{ length: number; low: number; high: number }>; map: Map<string, string> };
+type FontDecoder = (bytes: string) => string;
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set(["(", ")", "<", ">", "[", "]", "{", "}", "/", "%"]);
+const MAX_PAGES = 2000;
+const MAX_XOBJECT_DEPTH = 3;
+// TJ 数组中的字距调整（千分之一字号）超过该值视为词间空格，中文之间不补空格
+const TJ_SPACE_THRESHOLD = -250;
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  let result = "";
+  for (let index = 0; index < bytes.length; index += 8192) {
+    result += String.fromCharCode(...bytes.subarray(index, index + 8192));
+  }
+  return result;
+}
+
+function latin1ToBytes(text: string) {
+  const bytes = new Uint8Array(text.length);
+  for (let index = 0; index < text.length; index += 1) {
+    bytes[index] = text.charCodeAt(index) & 0xff;
+  }
+  return bytes;
+}
+
+function hexToBytes(hex: string): string {
+  const normalized = hex.length % 2 === 1 ? `${hex}0` : hex;
+  let result = "";
+  for (let index = 0; index < normalized.length; index += 2) {
+    result += String.fromCharCode(parseInt(normalized.slice(index, index + 2), 16));
+  }
+  return result;
+}
+
+function bytesToHex(bytes: string): string {
+  return [...bytes].map((char) => char.charCodeAt(0).toString(16).padStart(2, "0")).join("");
+}
+
+function decodeUtf16Hex(hex: string): string {
+  const units: number[] = [];
+  for (let index = 0; index + 4 <= hex.length; index += 4) {
+    units.push(parseInt(hex.slice(index, index + 4), 16));
+  }
+  if (units.length === 0 && hex.length >= 2) {
+    units.push(parseInt(hex.slice(0, 2), 16));
+  }
+  return String.fromCharCode(...units);
+}
+
+function skipWhitespace(lexer: Lexer) {
+  const { source } = lexer;
+  while (lexer.pos < source.length) {
+    const code = source.charCodeAt(lexer.pos);
+    if (WHITESPACE.has(code)) {
+      lexer.pos += 1;
+    } else if (code === 37) {
+      while (lexer.pos < source.length && source[lexer.pos] !== "\n" && source[lexer.pos] !== "\r") {
+        lexer.pos += 1;
+      }
+    } else {
+      break;
+    }
+  }
+}
+
+function readLiteralString(lexer: Lexer): string {
+  const { source } = lexer;
+  let depth = 1;
+  let result = "";
+  lexer.pos += 1;
+  while (lexer.pos < source.length) {
+    const char = source[lexer.pos];
+    lexer.pos += 1;
+    if (char === "\\") {
+      const next = source[lexer.pos];
+      lexer.pos += 1;
+      if (next === undefined) {
+        break;
+      }
+      const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+      if (escapes[next]) {
+        result += escapes[next];
+      } else if (/[0-7]/.test(next)) {
+        let octal = next;
+        while (octal.length < 3 && /[0-7]/.test(source[lexer.pos] ?? "")) {
+          octal += source[lexer.pos];
+          lexer.pos += 1;
+        }
+        result += String.fromCharCode(parseInt(octal, 8) & 0xff);
+      } else if (next === "\r") {
+        if (source[lexer.pos] === "\n") {
+          lexer.pos += 1;
+        }
+      } else if (next !== "\n") {
+        result += next;
+      }
+    } else if (char === "(") {
+      depth += 1;
+      result += char;
+    } else if (char === ")") {
+      depth -= 1;
+      if (depth === 0) {
+        break;
+      }
+      result += char;
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+function readToken(lexer: Lexer): Token | null {
+  skipWhitespace(lexer);
+  const { source } = lexer;
+  if (lexer.pos >= source.length) {
+    return null;
+  }
+  const char = source[lexer.pos];
+  if (char === "(") {
+    return { type: "string", value: readLiteralString(lexer) };
+  }
+  if (char === "<" || char === ">") {
+    if (source[lexer.pos + 1] === char) {
+      lexer.pos += 2;
+      return { type: "punct", value: char + char };
+    }
+    lexer.pos += 1;
+    if (char === ">") {
+      return readToken(lexer);
+    }
+    const end = source.indexOf(">", lexer.pos);
+    const hex = source.slice(lexer.pos, end < 0 ? source.length : end).replace(/[^0-9a-fA-F]/g, "");
+    lexer.pos = end < 0 ? source.length : end + 1;
+    return { type: "string", value: hexToBytes(hex) };
+  }
+  if (char === "[" || char === "]" || char === "{" || char === "}") {
+    lexer.pos += 1;
+    return { type: "punct", value: char };
+  }
+  if (char === ")") {
+    lexer.pos += 1;
+    return readToken(lexer);
+  }
+  const isName = char === "/";
+  const start = isName ? lexer.pos + 1 : lexer.pos;
+  lexer.pos = start;
+  while (
+    lexer.pos < source.length &&
+    !WHITESPACE.has(source.charCodeAt(lexer.pos)) &&
+    !DELIMITERS.has(source[lexer.pos])
+  ) {
+    lexer.pos += 1;
+  }
+  const word = source.slice(start, lexer.pos);
+  if (isName) {
+    return { type: "name", value: word.replace(/#([0-9a-fA-F]{2})/g, (_match, hex: string) => hexToBytes(hex)) };
+  }
+  if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+    return { type: "number", value: Number(word) };
+  }
+  return { type: "keyword", value: word };
+}
+
+function isOperator(value: PdfValue | PdfOperator | undefined, name?: string): value is PdfOperator {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.kind === "op" &&
+    (name === undefined || value.value === name)
+  );
+}
+
+function parseValue(lexer: Lexer): PdfValue | PdfOperator | undefined {
+  const token = readToken(lexer);
+  if (!token) {
+    return undefined;
+  }
+  if (token.type === "number") {
+    // 间接引用 "12 0 R"
+    if (Number.isInteger(token.value) && token.value >= 0) {
+      const saved = lexer.pos;
+      const generation = readToken(lexer);
+      if (generation?.type === "number" && Number.isInteger(generation.value)) {
+        const keyword = readToken(lexer);
+        if (keyword?.type === "keyword" && keyword.value === "R") {
+          return { kind: "ref", id: token.value };
+        }
+      }
+      lexer.pos = saved;
+    }
+    return token.value;
+  }
+  if (token.type === "name" || token.type === "string") {
+    return { kind: token.type, value: token.value };
+  }
+  if (token.type === "punct" && token.value === "<<") {
+    const entries = new Map<string, PdfValue>();
+    while (true) {
+      const key = parseValue(lexer);
+      if (key === undefined || isOperator(key)) {
+        break;
+      }
+      if (typeof key !== "object" || key === null || Array.isArray(key) || key.kind !== "name") {
+        continue;
+      }
+      const value = parseValue(lexer);
+      if (value === undefined || isOperator(value, ">>")) {
+        break;
+      }
+      if (!isOperator(value)) {
+        entries.set(key.value, value);
+      }
+    }
+    return { kind: "dict", value: entries };
+  }
+  if (token.type === "punct" && token.value === "[") {
+    const items: PdfValue[] = [];
+    while (true) {
+      const item = parseValue(lexer);
+      if (item === undefined || isOperator(item, "]")) {
+        break;
+      }
+      if (!isOperator(item)) {
+        items.push(item);
+      }
+    }
+    return items;
+  }
+  if (token.type === "keyword") {
+    if (token.value === "true" || token.value === "false") {
+      return token.value === "true";
+    }
+    if (token.value === "null") {
+      return null;
+    }
+  }
+  return { kind: "op", value: token.value };
+}
+
+function asDict(value: PdfValue | undefined): PdfDict | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "dict" ? value : null;
+}
+
+function asName(value: PdfValue | undefined): string | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "name"
+    ? value.value
+    : null;
+}
+
+function asString(value: PdfValue | undefined): string | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "string"
+    ? value.value
+    : null;
+}
+
+function asRef(value: PdfValue | undefined): PdfRef | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === "ref" ? value : null;
+}
+
+async function inflate(data: string): Promise<string | null> {
+  const reader = new Blob([latin1ToBytes(data)]).stream().pipeThrough(new DecompressionStream("deflate")).getReader();
+  const chunks: Uint8Array[] = [];
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+    }
+  } catch {
+    // 部分生成器在压缩流末尾附带多余字节，保留已解压的内容
+    if (chunks.length === 0) {
+      return null;
+    }
+  }
+  return chunks.map((chunk) => bytesToLatin1(chunk)).join("");
+}
+
+function createPdfDocument(source: string) {
+  const offsets = new Map<number, number>();
+  const embedded = new Map<number, { data: string; position: number }>();
+  const cache = new Map<number, PdfObject | null>();
+  const fontDecoders = new WeakMap<PdfDict, FontDecoder>();
+
+  // 按出现顺序记录对象位置，增量更新中较晚的定义覆盖较早的
+  for (const match of source.matchAll(/(\d+)\s+\d+\s+obj\b/g)) {
+    offsets.set(Number(match[1]), (match.index ?? 0) + match[0].length);
+  }
+
+  const parseObjectAt = (text: string, position: number, withStream: boolean): PdfObject | null => {
+    const lexer: Lexer = { source: text, pos: position };
+    const value = parseValue(lexer);
+    if (value === undefined || isOperator(value)) {
+      return null;
+    }
+    let stream: string | null = null;
+    const dict = asDict(value);
+    if (withStream && dict) {
+      skipWhitespace(lexer);
+      if (text.startsWith("stream", lexer.pos)) {
+        let start = lexer.pos + "stream".length;
+        if (text[start] === "\r") {
+          start += 1;
+        }
+        if (text[start] === "\n") {
+          start += 1;
+        }
+        const length = dict.value.get("Length");
+        if (typeof length === "number" && /^\s*endstream/.test(text.slice(start + length, start + length + 20))) {
+          stream = text.slice(start, start + length);
+        } else {
+          const end = text.indexOf("endstream", start);
+          stream = text.slice(start, end < 0 ? text.length : end).replace(/\r?\n$/, "");
+        }
+      }
+    }
+    return { value, stream };
+  };
+
+  const getObject = (id: number): PdfObject | null => {
+    if (cache.has(id)) {
+      return cache.get(id) ?? null;
+    }
+    let object: PdfObject | null = null;
+    const offset = offsets.get(id);
+    if (offset !== undefined) {
+      object = parseObjectAt(source, offset, true);
+    } else {
+      const entry = embedded.get(id);
+      if (entry) {
+        object = parseObjectAt(entry.data, entry.position, false);
+      }
+    }
+    cache.set(id, object);
+    return object;
+  };
+
+  const resolve = (value: PdfValue | undefined): PdfValue | undefined => {
+    let current = value;
+    for (let depth = 0; depth < 16; depth += 1) {
+      const ref = asRef(current);
+      if (!ref) {
+        return current;
+      }
+      current = getObject(ref.id)?.value ?? null;
+    }
+    return null;
+  };
+
+  const resolveObject = (value: PdfValue | undefined): PdfObject | null => {
+    const ref = asRef(value);
+    if (!ref) {
+      return value === undefined ? null : { value, stream: null };
+    }
+    const object = getObject(ref.id);
+    return object && asRef(object.value) ? resolveObject(object.value) : object;
+  };
+
+  const decodeStream = async (object: PdfObject | null): Promise<string | null> => {
+    const dict = asDict(object?.value);
+    if (!object?.stream || !dict) {
+      return null;
+    }
+    const filterValue = resolve(dict.value.get("Filter"));
+    const filters = (Array.isArray(filterValue) ? filterValue : [filterValue])
+      .map((item) => asName(resolve(item)))
+      .filter((item): item is string => Boolean(item));
+    let data: string | null = object.stream;
+    for (const filter of filters) {
+      if (data === null) {
+        return null;
+      }
+      if (filter === "FlateDecode" || filter === "Fl") {
+        data = await inflate(data);
+      } else if (filter === "ASCIIHexDecode" || filter === "AHx") {
+        data = hexToBytes(data.replace(/>[\s\S]*$/, "").replace(/[^0-9a-fA-F]/g, ""));
+      } else {
+        return null;
+      }
+    }
+    return data;
+  };
+
+  // 展开对象流（PDF 1.5+）中压缩存放的对象
+  const loadObjectStreams = async () => {
+    for (const id of [...offsets.keys()]) {
+      const object = getObject(id);
+      const dict = asDict(object?.value);
+      if (!dict || asName(dict.value.get("Type")) !== "ObjStm") {
+        continue;
+      }
+      const data = await decodeStream(object);
+      const count = resolve(dict.value.get("N"));
+      const first = resolve(dict.value.get("First"));
+      if (!data || typeof count !== "number" || typeof first !== "number") {
+        continue;
+      }
+      const lexer: Lexer = { source: data, pos: 0 };
+      for (let index = 0; index < count; index += 1) {
+        const objectId = readToken(lexer);
+        const objectOffset = readToken(lexer);
+        if (objectId?.type !== "number" || objectOffset?.type !== "number") {
+          break;
+        }
+        if (!offsets.has(objectId.value) && !embedded.has(objectId.value)) {
+          embedded.set(objectId.value, { data, position: first + objectOffset.value });
+        }
+      }
+    }
+  };
+
+  const findCatalog = (): PdfDict | null => {
+    const rootRefs = [...source.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g)];
+    for (const match of rootRefs.reverse()) {
+      const catalog = asDict(resolve({ kind: "ref", id: Number(match[1]) }));
+      if (catalog) {
+        return catalog;
+      }
+    }
+    for (const id of [...offsets.keys(), ...embedded.keys()]) {
+      const dict = asDict(getObject(id)?.value);
+      if (dict && asName(dict.value.get("Type")) === "Catalog") {
+        return dict;
+      }
+    }
+    return null;
+  };
+
+  const collectPages = (catalog: PdfDict) => {
+    const pages: Array<{ page: PdfDict; resources: PdfDict | null }> = [];
+    const visited = new Set<PdfDict>();
+    const walk = (node: PdfValue | undefined, inherited: PdfDict | null) => {
+      const dict = asDict(resolve(node));
+      if (!dict || visited.has(dict) || pages.length >= MAX_PAGES) {
+        return;
+      }
+      visited.add(dict);
+      const resources = asDict(resolve(dict.value.get("Resources"))) ?? inherited;
+      const kids = resolve(dict.value.get("Kids"));
+      if (Array.isArray(kids)) {
+        kids.forEach((kid) => walk(kid, resources));
+      } else {
+        pages.push({ page: dict, resources });
+      }
+    };
+    walk(catalog.value.get("Pages"), null);
+    return pages;
+  };
+
+  const getFontDecoder = async (resources: PdfDict | null, name: string): Promise<FontDecoder> => {
+    const fonts = asDict(resolve(resources?.value.get("Font")));
+    const font = asDict(resolve(fonts?.value.get(name)));
+    if (!font) {
+      return decodeSimpleFont;
+    }
+    const cached = fontDecoders.get(font);
+    if (cached) {
+      return cached;
+    }
+    const isComposite = asName(font.value.get("Subtype")) === "Type0";
+    const cmapData = await decodeStream(resolveObject(font.value.get("ToUnicode")));
+    const cmap = cmapData ? parseToUnicode(cmapData) : null;
+    const encoding = asName(resolve(font.value.get("Encoding"))) ?? "";
+    let decoder: FontDecoder;
+    if (cmap && cmap.map.size > 0) {
+      decoder = (bytes) => decodeWithCMap(bytes, cmap, isComposite ? 2 : 1);
+    } else if (isComposite && /UCS2|UTF16/.test(encoding)) {
+      decoder = (bytes) => decodeUtf16Hex(bytesToHex(bytes));
+    } else if (isComposite) {
+      // 无 ToUnicode 的 CID 字体无法还原字符
+      decoder = () => "";
+    } else {
+      decoder = decodeSimpleFont;
+    }
+    fontDecoders.set(font, decoder);
+    return decoder;
+  };
+
+  const extractContentText = async (content: string, resources: PdfDict | null, depth: number): Promise<string> => {
+    const lexer: Lexer = { source: content, pos: 0 };
+    const operands: PdfValue[] = [];
+    let text = "";
+    let decoder: FontDecoder = decodeSimpleFont;
+    let lastY: number | null = null;
+    const newline = () => {
+      if (text && !text.endsWith("\n")) {
+        text += "\n";
+      }
+    };
+    while (true) {
+      const value = parseValue(lexer);
+      if (value === undefined) {
+        break;
+      }
+      if (!isOperator(value)) {
+        operands.push(value);
+        continue;
+      }
+      const operator = value.value;
+      const lastString = asString(operands[operands.length - 1]);
+      if (operator === "Tf") {
+        decoder = await getFontDecoder(resources, asName(operands[0]) ?? "");
+      } else if (operator === "Tj" && lastString !== null) {
+        text += decoder(lastString);
+      } else if ((operator === "'" || operator === '"') && lastString !== null) {
+        newline();
+        text += decoder(lastString);
+      } else if (operator === "TJ" && Array.isArray(operands[0])) {
+        for (const item of operands[0]) {
+          const itemString = asString(item);
+          if (itemString !== null) {
+            text += decoder(itemString);
+          } else if (typeof item === "number" && item < TJ_SPACE_THRESHOLD && !/[\s\u3000-\u9fff\uff00-\uffef]$/.test(text)) {
+            text += " ";
+          }
+        }
+      } else if (operator === "Td" || operator === "TD") {
+        if (typeof operands[1] === "number" && operands[1] !== 0) {
+          newline();
+        }
+      } else if (operator === "T*") {
+        newline();
+      } else if (operator === "Tm") {
+        const y = operands[5];
+        if (typeof y === "number") {
+          if (lastY !== null && y !== lastY) {
+            newline();
+          }
+          lastY = y;
+        }
+      } else if (operator === "Do" && depth < MAX_XOBJECT_DEPTH) {
+        const xobjects = asDict(resolve(resources?.value.get("XObject")));
+        const xobject = resolveObject(xobjects?.value.get(asName(operands[0]) ?? ""));
+        const xobjectDict = asDict(xobject?.value);
+        if (xobjectDict && asName(xobjectDict.value.get("Subtype")) === "Form") {
+          const formContent = await decodeStream(xobject);
+          if (formContent) {
+            const formResources = asDict(resolve(xobjectDict.value.get("Resources"))) ?? resources;
+            newline();
+            text += await extractContentText(formContent, formResources, depth + 1);
+            newline();
+          }
+        }
+      } else if (operator === "ID") {
+        // 跳过内联图片的二进制数据
+        const end = content.slice(lexer.pos).search(/\sEI(\s|$)/);
+        lexer.pos = end < 0 ? content.length : lexer.pos + end + 3;
+      }
+      operands.length = 0;
+    }
+    return text;
+  };
+
+  const extractPageText = async (page: PdfDict, resources: PdfDict | null) => {
+    const contents = resolve(page.value.get("Contents"));
+    const parts = Array.isArray(contents) ? contents : [page.value.get("Contents")];
+    const streams: string[] = [];
+    for (const part of parts) {
+      const data = await decodeStream(resolveObject(part));
+      if (data) {
+        streams.push(data);
+      }
+    }
+    const text = await extractContentText(streams.join("\n"), resources, 0);
+    return text.replace(/[\u0000-\u0008\u000b-\u001f]/g, "");
+  };
+
+  return { loadObjectStreams, findCatalog, collectPages, extractPageText };
+}
+
+function parseToUnicode(data: string): CMap {
+  const ranges: CMap["ranges"] = [];
+  const map = new Map<string, string>();
+  for (const block of data.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g)) {
+    for (const pair of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g)) {
+      ranges.push({ length: pair[1].length / 2, low: parseInt(pair[1], 16), high: parseInt(pair[2], 16) });
+    }
+  }
+  for (const block of data.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(pair[1].toLowerCase(), decodeUtf16Hex(pair[2]));
+    }
+  }
+  for (const block of data.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const entry of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const width = entry[1].length;
+      const low = parseInt(entry[1], 16);
+      const high = Math.min(parseInt(entry[2], 16), low + 0xffff);
+      const targets = entry[3].startsWith("[") ? [...entry[3].matchAll(/<([0-9a-fA-F]*)>/g)].map((item) => item[1]) : null;
+      const base = targets ? "" : entry[3].slice(1, -1);
+      for (let code = low; code <= high; code += 1) {
+        const key = code.toString(16).padStart(width, "0");
+        if (targets) {
+          if (targets[code - low] !== undefined) {
+            map.set(key, decodeUtf16Hex(targets[code - low]));
+          }
+        } else if (base.length >= 4) {
+          // 目标值逐码递增最后一个 UTF-16 码元
+          const lastUnit = parseInt(base.slice(-4), 16) + (code - low);
+          map.set(key, decodeUtf16Hex(base.slice(0, -4)) + String.fromCharCode(lastUnit));
+        } else {
+          map.set(key, String.fromCharCode(parseInt(base || "0", 16) + (code - low)));
+        }
+      }
+    }
+  }
+  return { ranges, map };
+}
+
+function decodeWithCMap(bytes: string, cmap: CMap, defaultLength: number): string {
+  let result = "";
+  let index = 0;
+  while (index < bytes.length) {
+    let length = defaultLength;
+    for (const range of cmap.ranges) {
+      if (index + range.length > bytes.length) {
+        continue;
+      }
+      let code = 0;
+      for (let offset = 0; offset < range.length; offset += 1) {
+        code = code * 256 + bytes.charCodeAt(index + offset);
+      }
+      if (code >= range.low && code <= range.high) {
+        length = range.length;
+        break;
+      }
+    }
+    result += cmap.map.get(bytesToHex(bytes.slice(index, index + length))) ?? "";
+    index += length;
+  }
+  return result;
+}
+
+// 简单字体按 Latin-1 近似还原
+function decodeSimpleFont(bytes: string): string {
+  return bytes;
+}
+
+export async function extractPdfPageTexts(data: ArrayBuffer): Promise<string[]> {
+  const source = bytesToLatin1(new Uint8Array(data));
+  if (!source.slice(0, 1024).includes("%PDF-")) {
+    throw new Error("文件不是有效的 PDF");
+  }
+  if (/\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(source)) {
+    throw new Error("PDF 已加密，无法提取文本");
+  }
+  const document = createPdfDocument(source);
+  await document.loadObjectStreams();
+  const catalog = document.findCatalog();
+  const pages = catalog ? document.collectPages(catalog) : [];
+  if (pages.length === 0) {
+    throw new Error("PDF 中没有可识别的页面");
+  }
+  const texts: string[] = [];
+  for (const { page, resources } of pages) {
+    texts.push(await document.extractPageText(page, resources));
+  }
+  return texts;
+}
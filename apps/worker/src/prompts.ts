@@ -112,7 +112,8 @@ ${JSON_OUTPUT_GUARD}
   - dimension_id: 固定为 null
   - failure_mode: 风险点/失效模式（必须具体、可审计、可用于后续逐条FMEA评分）
   - consequence: 潜在后果（需体现对产品质量/患者安全/数据完整性/合规性中相关项的影响；避免泛泛而谈）
-- 不得输出任何其他字段（例如 evidence 等）
+  - evidence_ids: 支撑该风险点的片段编号数组（例如 ["E1","E3"]），只能使用下方片段中标注的编号；无片段支撑（仅基于通用 GMP 要求）时输出 []
+- 不得输出任何其他字段
 
 覆盖性要求（宁多勿少）：
 - 每个dimension至少给出2条 failure_mode（推荐3～5条）；不要为了满足最低要求而停止在2条。
@@ -129,7 +130,7 @@ ${buildUserContextBlock({
 
 ${buildEvidenceBlocksSection(
     input.evidenceBlocks,
-    "SOP/文献片段（向量库召回，已按相关性排序；用于辅助推理，不需要在输出中引用）："
+    "SOP/文献片段（向量库召回，已按相关性排序；用于辅助推理，通过 evidence_ids 引用片段编号）："
   )}
 `;
 }
@@ -156,7 +157,8 @@ ${JSON_OUTPUT_GUARD}
   - dimension_id: 必须严格等于该步骤的 step_id（UUID字符串）
   - failure_mode: 该步骤下的风险点/失效模式（必须具体、可审计、可用于后续逐条FMEA评分）
   - consequence: 潜在后果（需体现对产品质量/患者安全/数据完整性/合规性中相关项的影响，并说明为何与该步骤相关）
-- 不得输出任何其他字段（例如 evidence 等）
+  - evidence_ids: 支撑该风险点的片段编号数组（例如 ["E1","E3"]），只能使用下方片段中标注的编号；无片段支撑（仅基于通用 GMP 要求）时输出 []
+- 不得输出任何其他字段
 
 覆盖性要求（目标导向，宁多勿少）：
 - 产出数量目标：总 items 建议不少于“流程步骤数 × 2”，并优先覆盖关键步骤。
@@ -177,13 +179,99 @@ ${normalizeBlock(input.processStepsJson)}
 
 ${buildEvidenceBlocksSection(
     input.evidenceBlocks,
-    "SOP/文献片段（向量库召回；用于辅助推理，不需要在输出中引用）："
+    "SOP/文献片段（向量库召回；用于辅助推理，通过 evidence_ids 引用片段编号）："
+  )}
+`;
+}
+
+export function buildHazardIdentificationFishbonePrompt(input: {
+  scope: string;
+  background: string;
+  objectiveBias: string;
+  templateRequirements: string;
+  evidenceBlocks: string;
+}): string {
+  return `任务：基于给定上下文，使用鱼骨图法（石川图，6M：人员/机器/物料/方法/测量/环境）输出“危害源识别清单”。鱼头为评估范围内可能出现的质量问题，每个 item 是某一类别下的一根骨刺（原因）。
+
+${JSON_OUTPUT_GUARD}
+输出要求（严格）：
+- 输出JSON对象：{"items":[...]}。
+- items中每个item必须包含字段：
+  - risk_id: UUID占位符字符串（固定写"${UUID_PLACEHOLDER}"，系统会替换为真实UUID）
+  - dimension_type: 固定为 "fishbone"
+  - dimension: 必须为以下枚举之一：人员 / 机器 / 物料 / 方法 / 测量 / 环境
+  - dimension_id: 固定为 null
+  - failure_mode: 该类别下导致问题的原因/失效模式（必须具体、可审计、可用于后续逐条评价）
+  - consequence: 该原因导致的质量问题或潜在后果（需体现对产品质量/患者安全/数据完整性/合规性中相关项的影响）
+  - evidence_ids: 支撑该风险点的片段编号数组（例如 ["E1","E3"]），只能使用下方片段中标注的编号；无片段支撑（仅基于通用 GMP 要求）时输出 []
+- 不得输出任何其他字段
+
+覆盖性要求（宁多勿少）：
+- 6 个类别均须覆盖，每个类别至少给出2条原因（推荐3～5条）。
+- “测量”类别聚焦检验方法、仪器校准、取样代表性、数据记录与判定；“方法”类别聚焦工艺规程、SOP、参数设定与变更控制；“机器”类别聚焦设备、设施与计算机化系统。
+- 若范围明显不涉及某类别：仍至少输出1条“边界条件风险/不适用说明”，并在consequence中写明“不涉及的理由/边界条件”。
+- 危害源识别应包含依据文献片段中的要求/控制建议反推风险点；SOP 主要用于确认既有控制与合规要求，不得虚构未提供的制度细节。
+
+${buildUserContextBlock({
+    scope: input.scope,
+    background: input.background,
+    objectiveBias: input.objectiveBias,
+    templateRequirements: input.templateRequirements,
+  })}
+
+${buildEvidenceBlocksSection(
+    input.evidenceBlocks,
+    "SOP/文献片段（向量库召回，已按相关性排序；用于辅助推理，通过 evidence_ids 引用片段编号）："
+  )}
+`;
+}
+
+export function buildHazardIdentificationFiveWhyPrompt(input: {
+  scope: string;
+  background: string;
+  objectiveBias: string;
+  templateRequirements: string;
+  evidenceBlocks: string;
+}): string {
+  return `任务：基于给定上下文，使用 5-Why 法（连续追问“为什么”）输出“危害源识别清单”：先列出评估范围内可能出现的问题现象，再对每个问题逐层追问直至根本原因。
+
+${JSON_OUTPUT_GUARD}
+输出要求（严格）：
+- 输出JSON对象：{"items":[...]}。
+- items中每个item必须包含字段：
+  - risk_id: UUID占位符字符串（固定写"${UUID_PLACEHOLDER}"，系统会替换为真实UUID）
+  - dimension_type: 固定为 "five_why"
+  - dimension: 问题现象（一句话描述可观察到的问题，同一问题可对应多条根本原因）
+  - dimension_id: 固定为 null
+  - why_chain: 字符串数组，3–5 层；第 n 层回答“为什么会发生上一层”，最后一层为根本原因
+  - failure_mode: 根本原因对应的失效模式（必须具体、可审计、可用于后续逐条评价）
+  - consequence: 潜在后果（需体现对产品质量/患者安全/数据完整性/合规性中相关项的影响）
+  - evidence_ids: 支撑该风险点的片段编号数组（例如 ["E1","E3"]），只能使用下方片段中标注的编号；无片段支撑（仅基于通用 GMP 要求）时输出 []
+- 不得输出任何其他字段
+
+追问要求：
+- 每层只写一个原因，上下层之间必须是直接因果关系，不得跳跃或重复上一层的表述。
+- 根本原因应落在可通过管理或技术措施消除的层面（如程序缺失、培训不足、设计缺陷、监控缺失），不得停留在“人员疏忽”等表面原因。
+- 不同 item 的根本原因不得重复；建议识别 4–8 个问题现象，每个问题 1–3 条原因链。
+- 危害源识别应包含依据文献片段中的要求/控制建议反推风险点；SOP 主要用于确认既有控制与合规要求，不得虚构未提供的制度细节。
+
+${buildUserContextBlock({
+    scope: input.scope,
+    background: input.background,
+    objectiveBias: input.objectiveBias,
+    templateRequirements: input.templateRequirements,
+  })}
+
+${buildEvidenceBlocksSection(
+    input.evidenceBlocks,
+    "SOP/文献片段（向量库召回，已按相关性排序；用于辅助推理，通过 evidence_ids 引用片段编号）："
   )}
 `;
 }
 
 export function buildFmeaScoringPrompt(input: {
   riskItemsJson: string;
+  scoreValues: string;
   evidenceBlocks: string;
   scope: string;
   background: string;
@@ -207,15 +295,16 @@ ${JSON_OUTPUT_GUARD}
   - 问题：当失效已经发生或正在发生时，在造成影响前，被及时发现并阻断/纠正的难易程度如何？
   - D 只讨论“能不能被发现、发现有多及时可靠”，聚焦：在线监测/报警/联锁、采样与检测能力、人员复核/审核机制（含审计追踪审核）、记录可追溯性、独立复核、放行前检验覆盖度、趋势分析、点检频率、缺陷是否可见、是否有客观证据链等。
   - D 的理由禁止写“发生概率高低/经常发生/人员容易犯错/步骤复杂/暴露频繁”等发生性论据（这些属于 P）。
-- 分值只能从：9 / 6 / 3 / 1 中选择（高/中/低/极低）
+- 分值只能从：${input.scoreValues} 中选择（分值越高代表越严重/越可能发生/越难发现）
 - 输出JSON对象：{"rows":[...]}，每行字段必须包含：
   - risk_id
-  - s, s_reason
-  - p, p_reason
-  - d, d_reason
+  - s, s_reason, s_evidence_ids
+  - p, p_reason, p_evidence_ids
+  - d, d_reason, d_evidence_ids
+- *_evidence_ids 为支撑对应理由的片段编号数组（例如 ["E2"]），只能使用下方片段中标注的编号；理由未用到片段时输出 []
 - 不要计算RPN，不要输出风险等级
 - 理由必须基于：风险描述 + 用户上下文（范围/背景/目标倾向）+（若提供）SOP/文献片段的支持性信息，但不要要使用“根据文献、根据SOP、根据背景信息”等表达方式，应直接陈述。
-  - 注意：你不需要、也不得输出 evidence 或 chunk_id 等结构化引用
+  - 片段来源只通过 *_evidence_ids 标注，理由正文中不要写片段编号
 - 写作风格：理由必须使用“直接陈述”的句式（把背景中的控制措施当作现状或计划），禁止使用“根据背景信息/根据评估目标倾向/从背景可知/表明/意味着/说明”等开头或措辞。
 - SOP：仅用于体现既有控制措施对 P 与 D 的影响。
   - SOP 规定的是“预防发生”的控制（如强制参数限值、权限、物料放行前置条件、工艺约束）→ 可下调 P。
@@ -235,19 +324,132 @@ ${buildUserContextBlock({
 
 ${buildEvidenceBlocksSection(
     input.evidenceBlocks,
-    "可用SOP/文献片段摘要（用于辅助评分理由，不需要在输出中引用）："
+    "可用SOP/文献片段摘要（用于辅助评分理由，通过 *_evidence_ids 引用片段编号）："
   )}
 `;
 }
 
+function buildEvalToolInputSection(input: {
+  riskItemsJson: string;
+  scope: string;
+  background: string;
+  objectiveBias: string;
+  evidenceBlocks: string;
+}): string {
+  return `风险清单（结构化JSON；包含dimension_type/dimension等上下文）：
+${normalizeBlock(input.riskItemsJson)}
+
+${buildUserContextBlock({
+  scope: input.scope,
+  background: input.background,
+  objectiveBias: input.objectiveBias,
+})}
+
+${buildEvidenceBlocksSection(
+  input.evidenceBlocks,
+  "可用SOP/文献片段摘要（用于辅助评价理由，不需要在输出中引用）："
+)}
+`;
+}
+
+const EVAL_TOOL_STYLE_RULES = `- 理由必须基于：风险描述 + 用户上下文（范围/背景/目标倾向）+（若提供）SOP/文献片段的支持性信息，使用“直接陈述”的句式，不要使用“根据文献、根据SOP、根据背景信息”等表达方式。
+  - 注意：你不需要、也不得输出 evidence 或 chunk_id 等结构化引用
+- SOP 规定的既有控制可作为现状体现在理由中；文献提出但 SOP 未覆盖的控制不得视为现状。`;
+
+export function buildPhaScoringPrompt(input: {
+  riskItemsJson: string;
+  evidenceBlocks: string;
+  scope: string;
+  background: string;
+  objectiveBias: string;
+}): string {
+  return `任务：对给定风险清单逐条进行初步危害分析（PHA）评价，给出严重性与可能性评分及理由。
+
+${JSON_OUTPUT_GUARD}
+评分规则（严格）：
+- 严重性 severity：一旦后果发生，对患者/产品质量/GMP合规的影响程度。1=可忽略，2=轻微，3=严重，4=灾难性。只由后果严重程度决定，不因现有控制而改变。
+- 可能性 likelihood：在现有/计划的控制条件下危害发生的可能性。1=罕见，2=不太可能，3=可能，4=频繁。
+- 分值只能为 1、2、3、4 的整数
+- 输出JSON对象：{"rows":[...]}，每行字段必须包含：
+  - risk_id
+  - severity, severity_reason
+  - likelihood, likelihood_reason
+- 不要计算风险指数，不要输出风险等级
+${EVAL_TOOL_STYLE_RULES}
+- 若评估目标倾向明确“风险可控/不需要措施”：仅可在不违背事实前提下下调 likelihood；severity 不受影响。
+
+${buildEvalToolInputSection(input)}`;
+}
+
+export function buildHaccpAnalysisPrompt(input: {
+  riskItemsJson: string;
+  evidenceBlocks: string;
+  scope: string;
+  background: string;
+  objectiveBias: string;
+}): string {
+  return `任务：对给定风险清单逐条应用 HACCP 关键控制点判断树，回答判断问题并给出判定理由；对可能成为关键控制点的风险给出关键限值与监控方式。
+
+${JSON_OUTPUT_GUARD}
+判断树（严格按顺序作答）：
+- q1：该步骤或后续步骤是否存在针对该危害的预防/控制措施？
+- q2：该步骤是否专门设计用于消除该危害或将其降低至可接受水平？（q1=false 时填 false）
+- q3：该危害是否可能超过可接受水平，或增加至不可接受水平？（仅当 q1=true 且 q2=false 时回答 true/false，否则填 null）
+- q4：后续步骤能否消除该危害或将其降低至可接受水平？（仅当 q3=true 时回答 true/false，否则填 null）
+- 输出JSON对象：{"rows":[...]}，每行字段必须包含：
+  - risk_id
+  - q1, q2: 布尔值
+  - q3, q4: 布尔值或 null
+  - decision_reason: 判定理由（说明各问题的回答依据）
+  - critical_limit: 关键限值（q2=true，或 q3=true 且 q4=false 时必须填写可量化/可判定的限值；否则填空字符串）
+  - monitoring: 监控方式（同上，写明监控对象、方法与频次；否则填空字符串）
+- 不要输出是否为关键控制点的结论，由系统按判断树推导
+${EVAL_TOOL_STYLE_RULES}
+
+${buildEvalToolInputSection(input)}`;
+}
+
+export function buildRrfScoringPrompt(input: {
+  riskItemsJson: string;
+  evidenceBlocks: string;
+  scope: string;
+  background: string;
+  objectiveBias: string;
+}): string {
+  return `任务：对给定风险清单逐条进行风险排序与过滤（RRF）评分，分别评价各风险因素并给出理由。
+
+${JSON_OUTPUT_GUARD}
+评分规则（严格）：
+- patient_impact：对患者安全/产品质量的影响，1=无影响，5=可能造成严重伤害或批次报废。
+- compliance_impact：对 GMP 合规/注册符合性的影响，1=无影响，5=可能导致严重缺陷或监管措施。
+- occurrence：在现有/计划的控制条件下发生的可能性，1=极少发生，5=经常发生。
+- 分值只能为 1-5 的整数
+- 输出JSON对象：{"rows":[...]}，每行字段必须包含：
+  - risk_id
+  - patient_impact, patient_impact_reason
+  - compliance_impact, compliance_impact_reason
+  - occurrence, occurrence_reason
+- 不要计算加权得分、排序或风险等级
+${EVAL_TOOL_STYLE_RULES}
+- 若评估目标倾向明确“风险可控/不需要措施”：仅可在不违背事实前提下下调 occurrence；影响类因素不受影响。
+
+${buildEvalToolInputSection(input)}`;
+}
+
 export function buildRiskControlPrompt(input: {
   scoredItemsJson: string;
+  scoreValues: string;
   scope: string;
   background: string;
   objectiveBias: string;
   evidenceBlocks: string;
+  // 仅 FMEA 需要输出残余风险 S/P/D 评分
+  residual?: boolean;
 }): string {
-  return `任务：仅针对中、高风险（系统在输入中标注 need_actions=true 的项）输出“风险控制结果”，包括控制措施与残余风险（实施控制措施之后的风险）评分。
+  const residual = input.residual ?? true;
+  return `任务：仅针对达到措施阈值的风险（系统在输入中标注 need_actions=true 的项）输出“风险控制结果”，${
+    residual ? "包括控制措施与残余风险（实施控制措施之后的风险）评分" : "即针对性的控制措施"
+  }。
 
 ${JSON_OUTPUT_GUARD}
 输出要求（严格）：
@@ -255,20 +457,24 @@ ${JSON_OUTPUT_GUARD}
 - rows 中每个元素必须包含字段：
   - risk_id
   - hazard: 危害源/失效模式（直接复用输入中的 failure_mode）
-  - actions: 控制措施数组
-  - s, p, d: 控制措施实施后的残余风险评分
+  - actions: 控制措施数组${residual ? "\n  - s, p, d: 控制措施实施后的残余风险评分" : ""}
 - actions 中每条必须包含字段：
   - type: SOP/规程 | 培训与资质 | 设备/系统 | 监测与报警 | 数据完整性 | 双人复核/独立审核 | 其他
   - action_text: 具体可执行动作（必须包含“做什么/怎么做”，并尽量写明输出/留存的记录、文件或证据）
-- 评分规则：S/P/D 分值只能从 9 / 6 / 3 / 1 中选择
-- 不要计算RPN或风险等级，不要输出任何理由或解释
+  - evidence_ids: 该措施所依据的片段编号数组（例如 ["E4"]），只能使用下方片段中标注的编号；无片段依据时输出 []
+${
+    residual
+      ? `- 评分规则：S/P/D 分值只能从 ${input.scoreValues} 中选择
+- 不要计算RPN或风险等级，不要输出任何理由或解释`
+      : "- 不要输出风险评分、风险等级、理由或解释；输入中 evaluation 为系统给出的评价结果，措施应针对其中暴露的薄弱环节"
+  }
 - 措施必须与该风险的 failure_mode 强关联，避免泛泛而谈
 - 文献片段用于提出改进措施的依据与方向，优先采用文献中的建议/要求，但不要使用“根据文献、按照文献”等表达方式，应直接陈述。
 - 若 SOP 已覆盖相关控制，仅在存在执行/有效性风险时提出“强化执行/补充记录/复核/培训”等措施，避免重复已有制度。
 - 若评估目标倾向中明确指定措施/行动（例如“采取xx措施”），必须在 actions 中体现。
 - 若输入中某 risk_id 的 need_actions=false，你不得为其输出对应的行。
 
-输入（带评分、RPN、是否需要措施标记；scored_items_json由系统生成，你只负责补全actions）：
+输入（带评价结果、是否需要措施标记；scored_items_json由系统生成，你只负责补全actions）：
 ${normalizeBlock(input.scoredItemsJson)}
 
 ${buildUserContextBlock({
@@ -279,7 +485,7 @@ ${buildUserContextBlock({
 
 ${buildEvidenceBlocksSection(
     input.evidenceBlocks,
-    "可用SOP/文献片段摘要（用于提出措施，不需要在输出中引用）："
+    "可用SOP/文献片段摘要（用于提出措施，通过 evidence_ids 引用片段编号）："
   )}
 `;
 }
@@ -316,7 +522,27 @@ ${buildUserContextBlock({
 `;
 }
 
+const EVALUATION_TABLE_RULES: Record<string, { rule: string; controlColumns: string }> = {
+  FMEA: {
+    rule: "风险评价表须展示 S/P/D、理由、RPN、等级。",
+    controlColumns: "含序号、危害源、控制措施、S/P/D、RPN、等级"
+  },
+  PHA: {
+    rule: "风险评价表须展示严重性、可能性及其理由、风险指数、等级。",
+    controlColumns: "含序号、危害源、控制措施、等级"
+  },
+  HACCP: {
+    rule: "风险评价表须展示判断树 Q1-Q4 的回答、判定理由、判定结果（CCP 编号）、关键限值与监控方式。",
+    controlColumns: "含序号、危害源、控制措施、判定结果"
+  },
+  RRF: {
+    rule: "风险评价表须按输入的排序展示各因素评分及理由、加权得分、等级。",
+    controlColumns: "含序号、危害源、控制措施、等级"
+  }
+};
+
 export function buildMarkdownRenderPrompt(input: {
+  evalTool?: string;
   title: string;
   templateContent: string;
   scope: string;
@@ -325,16 +551,23 @@ export function buildMarkdownRenderPrompt(input: {
   hazardMethodText: string;
   methodText: string;
   riskItemsJson: string;
+  // 鱼骨图/5-Why 的结构化图示文本，其他方法为空
+  hazardDiagram?: string;
   scoredItemsJson: string;
   actionsJson: string;
   reevaluatedItemsJson: string;
+  reviewText: string;
+  // 上一次输出的表格核对问题，重新渲染时提供
+  corrections?: string[];
 }): string {
+  const evaluation = EVALUATION_TABLE_RULES[input.evalTool ?? "FMEA"] ?? EVALUATION_TABLE_RULES.FMEA;
   return `任务：根据模板与结构化输入，输出完整的 Markdown 风险评估报告，标题为 ${input.title}。
 
 强制规则：
 - 危害源识别表、风险评价表、风险控制表和行动计划表均使用“序号”，不要输出 risk_id。
-- 风险评价表须展示 S/P/D、理由、RPN、等级。
+- ${evaluation.rule}
 - 风险控制表中的“控制措施”列必须使用输入数据中的 actions_text 原样输出（包含序号与 <br> 换行），不得自行改写。
+- 输入文本末尾形如 [1][2] 的证据引用标注必须随对应内容原样输出，不得删除、改号或自行新增；系统会在报告末尾附上引用来源，你不需要输出引用列表。
 - 评估方法章节必须基于“评估方法说明”原样组织表述，不得杜撰或更改评分与风险等级规则。
 - 4.1 风险识别章节中，先写一段“危害源识别方法简介”，再给出表格；简介必须基于“危害源识别方法”，不得硬编码固定句式。
 - 语言风格：使用中文撰写，语言专业、清晰，风格接近药品生产企业质量管理文件。
@@ -355,20 +588,80 @@ ${input.templateContent}
   ${normalizeBlock(input.hazardMethodText)}
 危害源识别表（含序号）：
   ${input.riskItemsJson}
-
+${
+  input.hazardDiagram
+    ? `危害源结构图（必须在危害源识别表之后原样输出，保持列表层级与序号，不得改写）：
+${input.hazardDiagram}
+`
+    : ""
+}
 评估方法说明（用于“评估方法 Assessment Tool”章节）：
 ${normalizeBlock(input.methodText)}
 
-风险评价表（含序号、RPN、等级等）：
+风险评价表（含序号、评价结果、等级等）：
 ${input.scoredItemsJson}
 在风险评价表格后面写一段小结，总结风险评价结果（3–5 句）。
 
-风险控制表（含序号、危害源、控制措施、S/P/D、RPN、等级；actions_text 已预格式化）：
+风险控制表（${evaluation.controlColumns}；actions_text 已预格式化）：
 ${input.reevaluatedItemsJson}
 在风险控制表格后面写一段小结，总结风险控制结果（3–5 句）。
 
 行动计划表（含序号列（该序号单独编制，和危害源序号无关）、控制措施内容、责任角色、责任部门、计划完成日期）：
 ${input.actionsJson}
 
+再评估（用于“再评估”章节，等级、周期与到期日期必须原样保留）：
+${input.reviewText}
+${
+  input.corrections?.length
+    ? `
+上一次输出的表格与结构化输入不一致。本次必须逐行按结构化输入输出各表格，不得遗漏、合并或调换行，并修正以下问题：
+${input.corrections.map((item) => `- ${item}`).join("\n")}
+`
+    : ""
+}
+`;
+}
+
+// 占位符模板只由模型撰写叙述性段落，表格、结论等由系统按结构化结果填充
+export function buildNarrativePrompt(input: {
+  title: string;
+  scope: string;
+  background: string;
+  objectiveBias: string;
+  hazardMethodText: string;
+  methodText: string;
+  sections: Array<{ key: string; label: string }>;
+  riskItemsJson: string;
+  scoredItemsJson: string;
+  reevaluatedItemsJson: string;
+}): string {
+  return `任务：为风险评估报告“${input.title}”撰写以下叙述性段落，表格与结论由系统生成，你不需要输出。
+
+${JSON_OUTPUT_GUARD}
+输出要求（严格）：
+- 输出JSON对象，只包含以下字段，每个字段的值为一段中文纯文本（3–5 句，不含标题、表格或列表）：
+${input.sections.map((section) => `  - ${section.key}: ${section.label}`).join("\n")}
+- 内容必须基于下方输入，不得杜撰评分规则、风险等级或未提供的内部制度细节。
+- 不要输出 [1]、[E1] 等形式的引用标注。
+- 语言风格：专业、清晰，风格接近药品生产企业质量管理文件。
+
+${buildUserContextBlock({
+    scope: input.scope,
+    background: input.background,
+    objectiveBias: input.objectiveBias,
+  })}
+危害源识别方法：${normalizeBlock(input.hazardMethodText)}
+
+评估方法说明：
+${normalizeBlock(input.methodText)}
+
+危害源识别表：
+${normalizeBlock(input.riskItemsJson)}
+
+风险评价结果：
+${normalizeBlock(input.scoredItemsJson)}
+
+风险控制结果：
+${normalizeBlock(input.reevaluatedItemsJson)}
 `;
 }
@@ -1,5 +1,5 @@
 import type { Env, PlanTier } from "./types";
-import { getPlanMonthlyLimit } from "./plan";
+import { getPlanMonthlyLimit, normalizePlanTier } from "./plan";
 import { nowIso } from "./utils";
 
 export type QuotaSnapshot = {
@@ -9,6 +9,19 @@ export type QuotaSnapshot = {
   isUnlimited: boolean;
 };
 
+export type QuotaLedgerKind = "consume" | "refund" | "adjust";
+
+export type QuotaLedgerEntry = {
+  id: string;
+  report_id: string | null;
+  kind: QuotaLedgerKind;
+  amount: number;
+  reason: string;
+  cycle_start: string;
+  remaining_after: number | null;
+  created_at: string;
+};
+
 type QuotaRow = {
   remaining: number | null;
   cycle_start: string;
@@ -120,13 +133,53 @@ export async function getUserQuotaSnapshot(env: Env, userId: string, plan: PlanT
   return await syncQuotaCycle(env, userId, plan, row);
 }
 
+// afterQuotaUpdate 用于批次中紧随 user_quotas 条件更新之后的流水：仅在实际更新时写入，剩余次数取更新后的值
+function quotaLedgerStatement(
+  env: Env,
+  userId: string,
+  entry: Omit<QuotaLedgerEntry, "id" | "created_at">,
+  afterQuotaUpdate = false
+) {
+  const columns = "id, user_id, report_id, kind, amount, reason, cycle_start, remaining_after, created_at";
+  const values = [crypto.randomUUID(), userId, entry.report_id, entry.kind, entry.amount, entry.reason, entry.cycle_start];
+  if (afterQuotaUpdate) {
+    return env.DB.prepare(
+      `INSERT INTO quota_ledger (${columns}) SELECT ?, ?, ?, ?, ?, ?, ?, remaining, ? FROM user_quotas WHERE user_id = ? AND changes() > 0`
+    ).bind(...values, nowIso(), userId);
+  }
+  return env.DB.prepare(`INSERT INTO quota_ledger (${columns}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`).bind(
+    ...values,
+    entry.remaining_after,
+    nowIso()
+  );
+}
+
+async function recordQuotaLedger(
+  env: Env,
+  userId: string,
+  entry: Omit<QuotaLedgerEntry, "id" | "created_at">
+): Promise<void> {
+  await quotaLedgerStatement(env, userId, entry).run();
+}
+
+// 不限次数的用户同样记录扣减（数量为 0），便于按报告追溯
 export async function consumeUserQuota(
   env: Env,
   userId: string,
-  plan: PlanTier
+  plan: PlanTier,
+  options: { reportId?: string; reason?: string } = {}
 ): Promise<{ ok: boolean; snapshot: QuotaSnapshot }> {
   const snapshot = await getUserQuotaSnapshot(env, userId, plan);
+  const reason = options.reason ?? "生成报告";
   if (snapshot.isUnlimited) {
+    await recordQuotaLedger(env, userId, {
+      report_id: options.reportId ?? null,
+      kind: "consume",
+      amount: 0,
+      reason,
+      cycle_start: snapshot.cycleStart,
+      remaining_after: null
+    });
     return { ok: true, snapshot };
   }
   if ((snapshot.remaining ?? 0) <= 0) {
@@ -136,9 +189,102 @@ export async function consumeUserQuota(
   await env.DB.prepare("UPDATE user_quotas SET remaining = ?, updated_at = ? WHERE user_id = ?")
     .bind(nextRemaining, nowIso(), userId)
     .run();
+  await recordQuotaLedger(env, userId, {
+    report_id: options.reportId ?? null,
+    kind: "consume",
+    amount: -1,
+    reason,
+    cycle_start: snapshot.cycleStart,
+    remaining_after: nextRemaining
+  });
   return { ok: true, snapshot: { ...snapshot, remaining: nextRemaining } };
 }
 
+// 按整个报告汇总扣减与退还；共享编辑者续跑时可能由不同用户扣减，退还给最近一次扣减的用户
+async function getReportQuotaBalance(
+  env: Env,
+  reportId: string
+): Promise<{ userId: string; net: number; refunds: number; cycleStart: string } | null> {
+  const row = await env.DB.prepare(
+    "SELECT l.user_id, l.cycle_start, t.net, t.refunds FROM quota_ledger l, " +
+      "(SELECT SUM(amount) AS net, SUM(CASE WHEN kind = 'refund' THEN 1 ELSE 0 END) AS refunds FROM quota_ledger WHERE report_id = ?) t " +
+      "WHERE l.report_id = ? AND l.kind = 'consume' ORDER BY l.created_at DESC, l.rowid DESC LIMIT 1"
+  )
+    .bind(reportId, reportId)
+    .first();
+  if (!row) {
+    return null;
+  }
+  return {
+    userId: row.user_id as string,
+    net: Number(row.net ?? 0),
+    refunds: Number(row.refunds ?? 0),
+    cycleStart: row.cycle_start as string
+  };
+}
+
+// 报告失败或被停止时退还该报告扣减的次数；已退还或扣减所在周期已结束（次数已重置）时不退还
+// 指定 jobId 时仅在该任务未被续跑中止时退还，与续跑切换状态互斥，避免续跑判定无需重扣后旧任务再退还
+export async function refundReportQuota(
+  env: Env,
+  reportId: string,
+  reason: string,
+  options: { jobId?: string } = {}
+): Promise<boolean> {
+  const balance = await getReportQuotaBalance(env, reportId);
+  if (!balance || balance.net >= 0) {
+    return false;
+  }
+  const user = await env.DB.prepare("SELECT plan FROM users WHERE id = ?").bind(balance.userId).first();
+  if (!user) {
+    return false;
+  }
+  const plan = normalizePlanTier(user.plan) ?? "free";
+  const snapshot = await getUserQuotaSnapshot(env, balance.userId, plan);
+  if (snapshot.isUnlimited || snapshot.cycleStart !== balance.cycleStart) {
+    return false;
+  }
+  // 余额与周期在更新语句中再次校验，并发退还只有一次生效
+  const jobGuard = options.jobId
+    ? " AND EXISTS (SELECT 1 FROM report_jobs WHERE id = ? AND status != 'aborted')"
+    : "";
+  const [refunded] = await env.DB.batch([
+    env.DB.prepare(
+      "UPDATE user_quotas SET remaining = remaining + 1, updated_at = ? WHERE user_id = ? AND cycle_start = ? " +
+        `AND (SELECT COALESCE(SUM(amount), 0) FROM quota_ledger WHERE report_id = ?) < 0${jobGuard}`
+    ).bind(nowIso(), balance.userId, balance.cycleStart, reportId, ...(options.jobId ? [options.jobId] : [])),
+    quotaLedgerStatement(
+      env,
+      balance.userId,
+      {
+        report_id: reportId,
+        kind: "refund",
+        amount: 1,
+        reason,
+        cycle_start: balance.cycleStart,
+        remaining_after: null
+      },
+      true
+    )
+  ]);
+  return Boolean(refunded?.meta?.changes);
+}
+
+// 已退还次数的报告续跑时需重新扣减，保证每个报告最终只计一次
+export async function isReportQuotaRefunded(env: Env, reportId: string): Promise<boolean> {
+  const balance = await getReportQuotaBalance(env, reportId);
+  return Boolean(balance && balance.refunds > 0 && balance.net >= 0);
+}
+
+export async function listQuotaLedger(env: Env, userId: string, limit = 100): Promise<QuotaLedgerEntry[]> {
+  const rows = await env.DB.prepare(
+    "SELECT id, report_id, kind, amount, reason, cycle_start, remaining_after, created_at FROM quota_ledger WHERE user_id = ? ORDER BY created_at DESC LIMIT ?"
+  )
+    .bind(userId, limit)
+    .all();
+  return (rows.results ?? []) as unknown as QuotaLedgerEntry[];
+}
+
 export async function resetUserQuotaForPlan(
   env: Env,
   userId: string,
@@ -179,5 +325,13 @@ export async function setUserQuotaRemaining(
   await env.DB.prepare("UPDATE user_quotas SET remaining = ?, updated_at = ? WHERE user_id = ?")
     .bind(normalized, nowIso(), userId)
     .run();
+  await recordQuotaLedger(env, userId, {
+    report_id: null,
+    kind: "adjust",
+    amount: normalized - (snapshot.remaining ?? 0),
+    reason: "管理员设置剩余次数",
+    cycle_start: snapshot.cycleStart,
+    remaining_after: normalized
+  });
   return { ok: true, snapshot: { ...snapshot, remaining: normalized } };
 }
@@ -0,0 +1,269 @@
+import type {
+  ActionOutput,
+  MarkdownDiffLine,
+  ReportDiff,
+  RiskItem,
+  RiskItemDiff,
+  ScoreChange,
+  ScoreField
+} from "./aiTypes";
+import type { ReportData } from "./reportEdits";
+
+// 失效模式相似度低于该值视为不同风险项
+const FAILURE_MODE_MATCH_THRESHOLD = 0.5;
+// 逐行比对的规模上限，超出时中间部分按整段替换处理
+const MAX_LINE_DIFF_CELLS = 2_000_000;
+const SCORE_FIELDS: ScoreField[] = ["s", "p", "d", "rpn", "level"];
+
+type DiffSide = {
+  data: ReportData | null;
+  markdown: string;
+};
+
+type DiffItem = RiskItem & Partial<Record<ScoreField, unknown>>;
+
+// 对比两个报告版本：base 为基准（旧）版本，target 为对比（新）版本
+export function diffReports(base: DiffSide, target: DiffSide): ReportDiff {
+  const baseItems = readItems(base.data);
+  const targetItems = readItems(target.data);
+  const baseActions = readActionTexts(base.data);
+  const targetActions = readActionTexts(target.data);
+  const pairs = matchItems(baseItems, targetItems);
+  const matchedBase = new Set(Array.from(pairs.values()).map((pair) => pair.index));
+
+  const items: RiskItemDiff[] = [];
+  targetItems.forEach((item, index) => {
+    const pair = pairs.get(index);
+    const after = targetActions.get(item.risk_id) ?? [];
+    if (!pair) {
+      items.push(buildItemDiff("added", null, item, null, [], after));
+      return;
+    }
+    const previous = baseItems[pair.index];
+    items.push(
+      buildItemDiff("changed", previous, item, pair.similarity, baseActions.get(previous.risk_id) ?? [], after)
+    );
+  });
+  baseItems.forEach((item, index) => {
+    if (!matchedBase.has(index)) {
+      items.push(buildItemDiff("removed", item, null, null, baseActions.get(item.risk_id) ?? [], []));
+    }
+  });
+
+  return {
+    summary: {
+      unchanged: items.filter((item) => item.status === "unchanged").length,
+      changed: items.filter((item) => item.status === "changed").length,
+      added: items.filter((item) => item.status === "added").length,
+      removed: items.filter((item) => item.status === "removed").length,
+      added_actions: items.reduce((sum, item) => sum + item.added_actions.length, 0),
+      removed_actions: items.reduce((sum, item) => sum + item.removed_actions.length, 0)
+    },
+    items,
+    markdown: diffLines(base.markdown, target.markdown)
+  };
+}
+
+function readItems(data: ReportData | null): DiffItem[] {
+  const items = data?.scored_items ?? (data?.assessed_items as DiffItem[] | undefined) ?? data?.risk_items ?? [];
+  return Array.isArray(items) ? (items as DiffItem[]).filter((item) => item && typeof item.risk_id === "string") : [];
+}
+
+function readActionTexts(data: ReportData | null): Map<string, string[]> {
+  const entries: ActionOutput | NonNullable<ReportData["control_measures"]> =
+    data?.actions ?? data?.control_measures ?? [];
+  const map = new Map<string, string[]>();
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    const texts = (entry.actions ?? [])
+      .map((action) => (typeof action.action_text === "string" ? action.action_text.trim() : ""))
+      .filter(Boolean);
+    map.set(entry.risk_id, [...(map.get(entry.risk_id) ?? []), ...texts]);
+  }
+  return map;
+}
+
+// 新版本风险项编号可能重排，按失效模式相似度由高到低贪心配对
+function matchItems(
+  baseItems: DiffItem[],
+  targetItems: DiffItem[]
+): Map<number, { index: number; similarity: number }> {
+  const candidates: Array<{ base: number; target: number; similarity: number }> = [];
+  targetItems.forEach((target, targetIndex) => {
+    baseItems.forEach((base, baseIndex) => {
+      const similarity = textSimilarity(base.failure_mode, target.failure_mode);
+      if (similarity >= FAILURE_MODE_MATCH_THRESHOLD) {
+        candidates.push({ base: baseIndex, target: targetIndex, similarity });
+      }
+    });
+  });
+  candidates.sort(
+    (a, b) =>
+      b.similarity - a.similarity ||
+      Number(targetItems[b.target].risk_id === baseItems[b.base].risk_id) -
+        Number(targetItems[a.target].risk_id === baseItems[a.base].risk_id)
+  );
+  const pairs = new Map<number, { index: number; similarity: number }>();
+  const usedBase = new Set<number>();
+  for (const candidate of candidates) {
+    if (pairs.has(candidate.target) || usedBase.has(candidate.base)) {
+      continue;
+    }
+    pairs.set(candidate.target, { index: candidate.base, similarity: candidate.similarity });
+    usedBase.add(candidate.base);
+  }
+  return pairs;
+}
+
+function normalizeText(text: string | undefined): string {
+  return (text ?? "").toLowerCase().replace(/[\s，。；：、,.;:()（）"“”'‘’\-_/]/g, "");
+}
+
+// 字符二元组的 Dice 系数，适用于无分词的中文短句
+function textSimilarity(left: string | undefined, right: string | undefined): number {
+  const a = normalizeText(left);
+  const b = normalizeText(right);
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return 1;
+  }
+  if (a.length < 2 || b.length < 2) {
+    return 0;
+  }
+  const counts = new Map<string, number>();
+  for (let index = 0; index < a.length - 1; index += 1) {
+    const bigram = a.slice(index, index + 2);
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  let overlap = 0;
+  for (let index = 0; index < b.length - 1; index += 1) {
+    const bigram = b.slice(index, index + 2);
+    const count = counts.get(bigram) ?? 0;
+    if (count > 0) {
+      overlap += 1;
+      counts.set(bigram, count - 1);
+    }
+  }
+  return (2 * overlap) / (a.length - 1 + b.length - 1);
+}
+
+function readScore(item: DiffItem | null, field: ScoreField): number | string | null {
+  const value = item?.[field];
+  return typeof value === "number" || typeof value === "string" ? value : null;
+}
+
+function buildItemDiff(
+  status: RiskItemDiff["status"],
+  base: DiffItem | null,
+  target: DiffItem | null,
+  similarity: number | null,
+  baseActions: string[],
+  targetActions: string[]
+): RiskItemDiff {
+  const scoreChanges: ScoreChange[] =
+    base && target
+      ? SCORE_FIELDS.map((field) => ({ field, before: readScore(base, field), after: readScore(target, field) })).filter(
+          (change) => change.before !== change.after
+        )
+      : [];
+  const baseKeys = new Set(baseActions.map(normalizeText));
+  const targetKeys = new Set(targetActions.map(normalizeText));
+  const addedActions = targetActions.filter((text) => !baseKeys.has(normalizeText(text)));
+  const removedActions = baseActions.filter((text) => !targetKeys.has(normalizeText(text)));
+  const resolvedStatus =
+    status === "changed" &&
+    scoreChanges.length === 0 &&
+    addedActions.length === 0 &&
+    removedActions.length === 0 &&
+    base?.failure_mode === target?.failure_mode &&
+    base?.consequence === target?.consequence
+      ? "unchanged"
+      : status;
+  return {
+    status: resolvedStatus,
+    base_risk_id: base?.risk_id ?? null,
+    target_risk_id: target?.risk_id ?? null,
+    base_failure_mode: base?.failure_mode ?? null,
+    target_failure_mode: target?.failure_mode ?? null,
+    similarity: similarity === null ? null : Math.round(similarity * 100) / 100,
+    score_changes: scoreChanges,
+    added_actions: addedActions,
+    removed_actions: removedActions
+  };
+}
+
+// 按行求最长公共子序列，首尾相同部分先行剔除以缩小计算规模
+export function diffLines(baseText: string, targetText: string): MarkdownDiffLine[] {
+  const baseLines = baseText.replace(/\r\n/g, "\n").split("\n");
+  const targetLines = targetText.replace(/\r\n/g, "\n").split("\n");
+  let start = 0;
+  while (start < baseLines.length && start < targetLines.length && baseLines[start] === targetLines[start]) {
+    start += 1;
+  }
+  let baseEnd = baseLines.length;
+  let targetEnd = targetLines.length;
+  while (baseEnd > start && targetEnd > start && baseLines[baseEnd - 1] === targetLines[targetEnd - 1]) {
+    baseEnd -= 1;
+    targetEnd -= 1;
+  }
+
+  const result: MarkdownDiffLine[] = [];
+  const pushEqual = (baseIndex: number, targetIndex: number) =>
+    result.push({ type: "equal", text: baseLines[baseIndex], base_line: baseIndex + 1, target_line: targetIndex + 1 });
+  const pushRemoved = (baseIndex: number) =>
+    result.push({ type: "removed", text: baseLines[baseIndex], base_line: baseIndex + 1, target_line: null });
+  const pushAdded = (targetIndex: number) =>
+    result.push({ type: "added", text: targetLines[targetIndex], base_line: null, target_line: targetIndex + 1 });
+
+  for (let index = 0; index < start; index += 1) {
+    pushEqual(index, index);
+  }
+  const rows = baseEnd - start;
+  const cols = targetEnd - start;
+  if (rows * cols > MAX_LINE_DIFF_CELLS) {
+    for (let index = start; index < baseEnd; index += 1) {
+      pushRemoved(index);
+    }
+    for (let index = start; index < targetEnd; index += 1) {
+      pushAdded(index);
+    }
+  } else {
+    // lengths[i][j]：base 第 i 行起与 target 第 j 行起的公共子序列长度
+    const width = cols + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i -= 1) {
+      for (let j = cols - 1; j >= 0; j -= 1) {
+        lengths[i * width + j] =
+          baseLines[start + i] === targetLines[start + j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+      if (baseLines[start + i] === targetLines[start + j]) {
+        pushEqual(start + i, start + j);
+        i += 1;
+        j += 1;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        pushRemoved(start + i);
+        i += 1;
+      } else {
+        pushAdded(start + j);
+        j += 1;
+      }
+    }
+    for (; i < rows; i += 1) {
+      pushRemoved(start + i);
+    }
+    for (; j < cols; j += 1) {
+      pushAdded(start + j);
+    }
+  }
+  for (let offset = 0; offset < baseLines.length - baseEnd; offset += 1) {
+    pushEqual(baseEnd + offset, targetEnd + offset);
+  }
+  return result;
+}
@@ -0,0 +1,289 @@
+import type {
+  ActionItem,
+  ActionOutput,
+  ControlMeasureOutput,
+  FmeaScoringRow,
+  MappingValidation,
+  ProcedureClaimWarning,
+  ReevaluatedRiskItem,
+  ReviewStage,
+  RiskItem,
+  ScoredRiskItem,
+  ScoringScheme,
+  WorkflowContext,
+  WorkflowState
+} from "./aiTypes";
+import { retainEvidenceIds } from "./citations";
+import { DEFAULT_TEMPLATE } from "./prompts";
+import { DEFAULT_SCORING_SCHEME } from "./scoring";
+import { readScore, readText, readWhyChain } from "./stages";
+import { retainClaimWarnings } from "./verification";
+import {
+  computeRpnLevel,
+  resolveEvalTool,
+  summarizeTemplateRequirements,
+  validateActionsOutput,
+  validateControlMeasuresOutput,
+  validateHazardIdentification
+} from "./workflow";
+
+export type ReportData = {
+  context?: WorkflowContext;
+  risk_items?: RiskItem[];
+  fmea_rows?: FmeaScoringRow[];
+  scored_items?: ScoredRiskItem[];
+  control_measures?: ControlMeasureOutput;
+  reevaluated_items?: ReevaluatedRiskItem[];
+  actions?: ActionOutput;
+  mapping_validation?: MappingValidation;
+  claim_warnings?: ProcedureClaimWarning[];
+  source_files?: Array<{ type: string; filename: string }>;
+  narratives?: Record<string, string> | null;
+  [key: string]: unknown;
+};
+
+// 人工修订报告结构化数据：重新计算 RPN/等级并按工作流规则校验措施
+export function applyReportEdits(data: ReportData, raw: unknown): ReportData {
+  const body = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  if (resolveEvalTool(data.context?.evalTool) !== "FMEA") {
+    throw new Error("当前评估工具的报告暂不支持结构化编辑");
+  }
+  if (!Array.isArray(body.scored_items) || body.scored_items.length === 0) {
+    throw new Error("风险评价数据不能为空");
+  }
+  const dimensionType =
+    data.scored_items?.[0]?.dimension_type ?? data.risk_items?.[0]?.dimension_type ?? "five_factors";
+  const scheme = data.context?.scoringScheme ?? DEFAULT_SCORING_SCHEME;
+  const previousItems = new Map((data.scored_items ?? []).map((item) => [item.risk_id, item]));
+  const scoredItems = body.scored_items.map((entry, index) =>
+    retainItemEvidence(readScoredItem(entry, `风险项#${index + 1}`, dimensionType, scheme), previousItems)
+  );
+  const idSet = new Set<string>();
+  for (const item of scoredItems) {
+    if (idSet.has(item.risk_id)) {
+      throw new Error(`存在重复 risk_id: ${item.risk_id}`);
+    }
+    idSet.add(item.risk_id);
+  }
+
+  const actions = retainActionEvidence(readActions(body.actions), data.actions ?? []);
+  const controlMeasures: ControlMeasureOutput = Array.isArray(body.control_measures)
+    ? retainActionEvidence(readControlMeasures(body.control_measures), data.control_measures ?? [])
+    : actions.map((entry) => ({
+        risk_id: entry.risk_id,
+        actions: entry.actions.map((action) => ({
+          type: action.type,
+          action_text: action.action_text,
+          evidence_ids: action.evidence_ids
+        }))
+      }));
+  validateControlMeasuresOutput(controlMeasures, scoredItems);
+  validateActionsOutput(actions, scoredItems);
+
+  const needActionIds = new Set(scoredItems.filter((item) => item.need_actions).map((item) => item.risk_id));
+  return {
+    ...data,
+    risk_items: scoredItems.map(toRiskItem),
+    fmea_rows: scoredItems.map(toFmeaRow),
+    scored_items: scoredItems,
+    control_measures: controlMeasures,
+    reevaluated_items: (data.reevaluated_items ?? []).filter((item) => needActionIds.has(item.risk_id)),
+    actions,
+    ...(data.claim_warnings ? { claim_warnings: retainClaimWarnings(data.claim_warnings, scoredItems, actions) } : {})
+  };
+}
+
+// 定期回顾以已完成报告的评估结果为起点：FMEA 报告沿用风险项与评分并停在评分审核，其他工具沿用风险项并停在危害识别审核
+export function buildPeriodicReviewState(
+  data: ReportData,
+  context: WorkflowContext
+): { state: WorkflowState; stage: ReviewStage } {
+  const scoredItems = data.scored_items ?? [];
+  const fmea = resolveEvalTool(context.evalTool) === "FMEA";
+  const riskItems = fmea ? scoredItems.map(toRiskItem) : data.risk_items ?? [];
+  if (riskItems.length === 0) {
+    throw new Error("报告缺少风险评价数据，无法开始定期回顾");
+  }
+  const mapping = validateHazardIdentification({ items: riskItems }, riskItems[0].dimension_type);
+  if (!mapping.ok) {
+    throw new Error(`一致性校验失败: ${mapping.issues.join("；")}`);
+  }
+  if (!fmea) {
+    return {
+      state: { context, risk_items: riskItems, mapping_validation: mapping },
+      stage: "hazard_identification"
+    };
+  }
+  return {
+    state: {
+      context,
+      risk_items: riskItems,
+      mapping_validation: mapping,
+      fmea_rows: scoredItems.map(toFmeaRow),
+      scored_items: scoredItems
+    },
+    stage: "fmea_scoring"
+  };
+}
+
+function toRiskItem(item: ScoredRiskItem): RiskItem {
+  return {
+    risk_id: item.risk_id,
+    dimension_type: item.dimension_type,
+    dimension: item.dimension,
+    dimension_id: item.dimension_id,
+    failure_mode: item.failure_mode,
+    consequence: item.consequence,
+    evidence_ids: item.evidence_ids,
+    ...(item.why_chain ? { why_chain: item.why_chain } : {})
+  };
+}
+
+function toFmeaRow(item: ScoredRiskItem): FmeaScoringRow {
+  return {
+    risk_id: item.risk_id,
+    s: item.s,
+    s_reason: item.s_reason,
+    s_evidence_ids: item.s_evidence_ids,
+    p: item.p,
+    p_reason: item.p_reason,
+    p_evidence_ids: item.p_evidence_ids,
+    d: item.d,
+    d_reason: item.d_reason,
+    d_evidence_ids: item.d_evidence_ids
+  };
+}
+
+// 旧报告（如由 Markdown 回填的 JSON）没有保存上下文时，按项目输入重建，不做检索
+export function buildFallbackContext(
+  inputs: Record<string, unknown> | null,
+  templateContent: string | null
+): WorkflowContext {
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+  return {
+    scope: text(inputs?.scope) || "（未填写）",
+    background: text(inputs?.background) || "（未填写）",
+    objectiveBias: text(inputs?.objective) || "（未填写）",
+    templateRequirements: summarizeTemplateRequirements(templateContent || DEFAULT_TEMPLATE),
+    riskMethod: text(inputs?.risk_method) || "五因素法",
+    // 缺少上下文的旧报告均由 FMEA 生成，不随项目当前的评估工具变化
+    evalTool: "FMEA",
+    evidenceBlocks: "",
+    evidenceChunks: [],
+    retrievalMeta: {
+      usedEmbedding: false,
+      sopTextCount: 0,
+      literatureTextCount: 0,
+      evidenceChunkCount: 0
+    }
+  };
+}
+
+function expectEntry(raw: unknown, label: string): Record<string, unknown> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`${label} 格式错误`);
+  }
+  return raw as Record<string, unknown>;
+}
+
+function readScoredItem(
+  raw: unknown,
+  label: string,
+  dimensionType: RiskItem["dimension_type"],
+  scheme: ScoringScheme
+): ScoredRiskItem {
+  const entry = expectEntry(raw, label);
+  const s = readScore(entry.s, `${label} S`, scheme);
+  const p = readScore(entry.p, `${label} P`, scheme);
+  const d = readScore(entry.d, `${label} D`, scheme);
+  const rpn = s * p * d;
+  return {
+    risk_id: typeof entry.risk_id === "string" && entry.risk_id.trim() ? entry.risk_id.trim() : crypto.randomUUID(),
+    dimension_type: dimensionType,
+    dimension: readText(entry.dimension, `${label} 风险维度`),
+    dimension_id: typeof entry.dimension_id === "string" && entry.dimension_id.trim() ? entry.dimension_id : null,
+    failure_mode: readText(entry.failure_mode, `${label} 失效模式`),
+    consequence: readText(entry.consequence, `${label} 后果`),
+    ...(dimensionType === "five_why" ? { why_chain: readWhyChain(entry.why_chain, label) } : {}),
+    s,
+    s_reason: readText(entry.s_reason, `${label} S理由`),
+    p,
+    p_reason: readText(entry.p_reason, `${label} P理由`),
+    d,
+    d_reason: readText(entry.d_reason, `${label} D理由`),
+    rpn,
+    level: computeRpnLevel(rpn, scheme),
+    need_actions: typeof entry.need_actions === "boolean" ? entry.need_actions : rpn >= scheme.action_threshold
+  };
+}
+
+// 引用编号只从原报告沿用，客户端提交的 evidence_ids 一律忽略
+function retainItemEvidence(item: ScoredRiskItem, previousItems: Map<string, ScoredRiskItem>): ScoredRiskItem {
+  const previous = previousItems.get(item.risk_id);
+  return {
+    ...item,
+    evidence_ids: retainEvidenceIds(previous?.evidence_ids, previous?.failure_mode, item.failure_mode),
+    s_evidence_ids: retainEvidenceIds(previous?.s_evidence_ids, previous?.s_reason, item.s_reason),
+    p_evidence_ids: retainEvidenceIds(previous?.p_evidence_ids, previous?.p_reason, item.p_reason),
+    d_evidence_ids: retainEvidenceIds(previous?.d_evidence_ids, previous?.d_reason, item.d_reason)
+  };
+}
+
+function retainActionEvidence<T extends { risk_id: string; actions: Array<{ action_text: string }> }>(
+  entries: T[],
+  previousEntries: Array<{ risk_id: string; actions: Array<{ action_text: string; evidence_ids?: string[] }> }>
+): T[] {
+  const previousMap = new Map(previousEntries.map((entry) => [entry.risk_id, entry.actions]));
+  return entries.map((entry) => ({
+    ...entry,
+    actions: entry.actions.map((action) => ({
+      ...action,
+      evidence_ids: previousMap.get(entry.risk_id)?.find((previous) => previous.action_text === action.action_text)
+        ?.evidence_ids
+    }))
+  }));
+}
+
+function readActions(raw: unknown): ActionOutput {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    throw new Error("行动计划格式错误");
+  }
+  return raw.map((item, index) => {
+    const entry = expectEntry(item, `行动计划#${index + 1}`);
+    const riskId = readText(entry.risk_id, `行动计划#${index + 1} risk_id`);
+    const list = Array.isArray(entry.actions) ? entry.actions : [];
+    const actions: ActionItem[] = list.map((action, actionIndex) => {
+      const label = `风险 ${riskId} 措施#${actionIndex + 1}`;
+      const record = expectEntry(action, label);
+      return {
+        type: (typeof record.type === "string" ? record.type : "其他") as ActionItem["type"],
+        action_text: typeof record.action_text === "string" ? record.action_text.trim() : "",
+        owner_role: typeof record.owner_role === "string" ? record.owner_role.trim() : "",
+        owner_dept: typeof record.owner_dept === "string" ? record.owner_dept.trim() : "",
+        planned_date: typeof record.planned_date === "string" ? record.planned_date.trim() : ""
+      };
+    });
+    return { risk_id: riskId, actions };
+  });
+}
+
+function readControlMeasures(raw: unknown[]): ControlMeasureOutput {
+  return raw.map((item, index) => {
+    const entry = expectEntry(item, `控制措施#${index + 1}`);
+    const riskId = readText(entry.risk_id, `控制措施#${index + 1} risk_id`);
+    const list = Array.isArray(entry.actions) ? entry.actions : [];
+    return {
+      risk_id: riskId,
+      actions: list.map((action, actionIndex) => {
+        const record = expectEntry(action, `风险 ${riskId} 控制措施#${actionIndex + 1}`);
+        return {
+          type: (typeof record.type === "string" ? record.type : "其他") as ActionItem["type"],
+          action_text: typeof record.action_text === "string" ? record.action_text.trim() : ""
+        };
+      })
+    };
+  });
+}
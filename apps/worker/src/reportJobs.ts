@@ -0,0 +1,141 @@
+import { refundReportQuota } from "./quota";
+import type { Env, PlanTier } from "./types";
+import { nowIso, safeJsonParse } from "./utils";
+
+export type ReportEvent = {
+  id: number;
+  event: string;
+  data: Record<string, unknown>;
+};
+
+// 首次执行 + 重试次数，需与 wrangler.toml 中队列消费者的 max_retries 保持一致
+export const REPORT_JOB_MAX_ATTEMPTS = 3;
+export const REPORT_JOB_RETRY_DELAY_SECONDS = 10;
+export const TERMINAL_REPORT_EVENTS = new Set(["done", "error"]);
+
+const EVENT_FLUSH_INTERVAL_MS = 800;
+const EVENT_PAGE_SIZE = 200;
+// 流式增量事件按步骤合并后再写库，避免逐 token 写入 D1
+const MERGEABLE_EVENTS = new Set(["llm", "delta"]);
+
+export const REPORT_JOB_ENQUEUE_ERROR = "任务排队失败，请稍后重试";
+
+// 新任务开始前清空已结束任务的进度事件，重新连接时只回放本次运行
+// 入队失败时标记任务与报告失败并退还次数，返回 null
+export const enqueueReportJob = async (
+  env: Env,
+  params: { reportId: string; textModelId: string; plan: PlanTier }
+) => {
+  const jobId = crypto.randomUUID();
+  const now = nowIso();
+  await env.DB.prepare(
+    "DELETE FROM report_events WHERE report_id = ? AND job_id NOT IN (SELECT id FROM report_jobs WHERE report_id = ? AND status IN ('queued', 'running'))"
+  )
+    .bind(params.reportId, params.reportId)
+    .run();
+  await env.DB.prepare(
+    "INSERT INTO report_jobs (id, report_id, status, text_model_id, plan, attempts, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+  )
+    .bind(jobId, params.reportId, "queued", params.textModelId, params.plan, 0, now, now)
+    .run();
+  try {
+    await env.REPORT_JOBS.send({ jobId });
+  } catch {
+    await env.DB.prepare("UPDATE reports SET status = 'failed', error_message = ? WHERE id = ? AND status = 'running'")
+      .bind(REPORT_JOB_ENQUEUE_ERROR, params.reportId)
+      .run();
+    await refundReportQuota(env, params.reportId, REPORT_JOB_ENQUEUE_ERROR, { jobId });
+    await updateReportJob(env, jobId, "failed", { errorMessage: REPORT_JOB_ENQUEUE_ERROR });
+    return null;
+  }
+  return jobId;
+};
+
+// 已中止的任务不再变更状态；返回是否更新成功
+export const updateReportJob = async (
+  env: Env,
+  jobId: string,
+  status: "queued" | "running" | "completed" | "failed" | "aborted",
+  fields: { attempts?: number; errorMessage?: string | null } = {}
+) => {
+  const result = await env.DB.prepare(
+    "UPDATE report_jobs SET status = ?, attempts = COALESCE(?, attempts), error_message = ?, updated_at = ? WHERE id = ? AND status != 'aborted'"
+  )
+    .bind(status, fields.attempts ?? null, fields.errorMessage ?? null, nowIso(), jobId)
+    .run();
+  return Boolean(result.meta?.changes);
+};
+
+// 继续或续跑时中止同一报告尚未结束的旧任务，需与报告状态切换放在同一批次；
+// 仅当报告仍为 fromStatus（即本次切换会成功）时生效
+export const supersedeReportJobsStatement = (env: Env, reportId: string, fromStatus: string) =>
+  env.DB.prepare(
+    "UPDATE report_jobs SET status = 'aborted', error_message = ?, updated_at = ? WHERE report_id = ? AND status IN ('queued', 'running') AND EXISTS (SELECT 1 FROM reports WHERE id = ? AND status = ?)"
+  ).bind("已被新的运行替代", nowIso(), reportId, reportId, fromStatus);
+
+// 只有报告最新的未中止任务可以写入进度、更新报告状态或退还次数
+export const isCurrentReportJob = async (env: Env, reportId: string, jobId: string) => {
+  const latest = await env.DB.prepare(
+    "SELECT id FROM report_jobs WHERE report_id = ? AND status != 'aborted' ORDER BY created_at DESC, rowid DESC LIMIT 1"
+  )
+    .bind(reportId)
+    .first();
+  return latest?.id === jobId;
+};
+
+// 进度事件尽力写入：写库失败不影响报告生成本身；任务被新的运行替代后不再写入
+export const createReportEventWriter = (env: Env, reportId: string, jobId: string) => {
+  let pending: Array<{ event: string; data: Record<string, unknown> }> = [];
+  let lastFlushAt = Date.now();
+  let chain: Promise<void> = Promise.resolve();
+
+  const write = async (items: Array<{ event: string; data: Record<string, unknown> }>) => {
+    const createdAt = nowIso();
+    await env.DB.batch(
+      items.map((item) =>
+        env.DB.prepare(
+          "INSERT INTO report_events (report_id, job_id, event, data, created_at) SELECT ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM report_jobs WHERE id = ? AND status != 'aborted')"
+        ).bind(reportId, jobId, item.event, JSON.stringify(item.data), createdAt, jobId)
+      )
+    );
+  };
+
+  const flush = () => {
+    if (pending.length > 0) {
+      const items = pending;
+      pending = [];
+      lastFlushAt = Date.now();
+      chain = chain.then(() => write(items)).catch(() => undefined);
+    }
+    return chain;
+  };
+
+  const push = (event: string, data: Record<string, unknown>) => {
+    const last = pending[pending.length - 1];
+    if (last && MERGEABLE_EVENTS.has(event) && last.event === event && last.data.step === data.step) {
+      last.data = { ...last.data, delta: `${last.data.delta ?? ""}${data.delta ?? ""}` };
+    } else {
+      pending.push({ event, data });
+    }
+    if (!MERGEABLE_EVENTS.has(event) || Date.now() - lastFlushAt >= EVENT_FLUSH_INTERVAL_MS) {
+      void flush();
+    }
+  };
+
+  return { push, flush };
+};
+
+export const listReportEvents = async (env: Env, reportId: string, afterId: number): Promise<ReportEvent[]> => {
+  const rows = await env.DB.prepare(
+    "SELECT id, event, data FROM report_events WHERE report_id = ? AND id > ? ORDER BY id ASC LIMIT ?"
+  )
+    .bind(reportId, afterId, EVENT_PAGE_SIZE)
+    .all();
+  return (rows.results ?? []).map((row) => ({
+    id: row.id as number,
+    event: row.event as string,
+    data: safeJsonParse<Record<string, unknown>>(row.data as string) ?? {}
+  }));
+};
+
+export const isReportEventPageFull = (events: ReportEvent[]) => events.length >= EVENT_PAGE_SIZE;
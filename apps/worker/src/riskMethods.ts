@@ -0,0 +1,78 @@
+import type { RiskMethod } from "./aiTypes";
+
+export const RISK_METHODS: Array<{ id: RiskMethod; label: string }> = [
+  { id: "five_factors", label: "五因素法" },
+  { id: "process_flow", label: "流程法" },
+  { id: "fishbone", label: "鱼骨图法" },
+  { id: "five_why", label: "5-Why法" }
+];
+
+export const FIVE_FACTOR_DIMENSIONS = ["人员", "设备与设施", "物料", "法规与程序", "环境"];
+// 鱼骨图 6M：人、机、料、法、测、环
+export const FISHBONE_DIMENSIONS = ["人员", "机器", "物料", "方法", "测量", "环境"];
+export const WHY_CHAIN_MIN = 3;
+export const WHY_CHAIN_MAX = 5;
+
+const FISHBONE_ALIASES: Record<string, string> = {
+  人: "人员",
+  man: "人员",
+  机: "机器",
+  设备: "机器",
+  machine: "机器",
+  料: "物料",
+  material: "物料",
+  法: "方法",
+  method: "方法",
+  测: "测量",
+  measurement: "测量",
+  环: "环境",
+  environment: "环境"
+};
+
+// 兼容历史数据中保存的中文名称（如“流程法”），无法识别时按五因素法处理
+export function resolveRiskMethod(value: string | null | undefined): RiskMethod {
+  const normalized = value?.trim() ?? "";
+  const matched = RISK_METHODS.find((method) => method.id === normalized || method.label === normalized);
+  if (matched) {
+    return matched.id;
+  }
+  if (normalized.includes("流程")) {
+    return "process_flow";
+  }
+  if (normalized.includes("鱼骨")) {
+    return "fishbone";
+  }
+  if (/why/i.test(normalized)) {
+    return "five_why";
+  }
+  return "five_factors";
+}
+
+export function riskMethodLabel(method: RiskMethod): string {
+  return RISK_METHODS.find((item) => item.id === method)?.label ?? method;
+}
+
+// 项目输入接口只接受枚举内的方法，返回用于保存的中文名称
+export function normalizeRiskMethodInput(value: string): string | null {
+  const normalized = value.trim();
+  const matched = RISK_METHODS.find((method) => method.id === normalized || method.label === normalized);
+  return matched?.label ?? null;
+}
+
+// 流程法缺少流程步骤时退回五因素法
+export function resolveHazardMode(riskMethod: string | null | undefined, hasProcessSteps: boolean): RiskMethod {
+  const method = resolveRiskMethod(riskMethod);
+  return method === "process_flow" && !hasProcessSteps ? "five_factors" : method;
+}
+
+export function normalizeFishboneDimension(value: string): string | null {
+  const normalized = value.replace(/\s+/g, "").replace(/[()（）]/g, "");
+  if (FISHBONE_DIMENSIONS.includes(normalized)) {
+    return normalized;
+  }
+  const alias = FISHBONE_ALIASES[normalized.toLowerCase()];
+  if (alias) {
+    return alias;
+  }
+  return FISHBONE_DIMENSIONS.find((dimension) => normalized.startsWith(dimension)) ?? null;
+}
@@ -0,0 +1,161 @@
+import type { ScoringLevelBand, ScoringScheme } from "./aiTypes";
+import type { Env } from "./types";
+import { safeJsonParse } from "./utils";
+
+export const DEFAULT_SCORING_SCHEME: ScoringScheme = {
+  id: null,
+  name: "默认（9/6/3/1）",
+  values: [1, 3, 6, 9],
+  levels: [
+    { level: "极低", min_rpn: 0 },
+    { level: "低", min_rpn: 27 },
+    { level: "中", min_rpn: 54 },
+    { level: "高", min_rpn: 108 }
+  ],
+  action_threshold: 54
+};
+
+const MAX_SCORE_VALUE = 10;
+
+export function isAllowedScore(scheme: ScoringScheme, value: unknown): value is number {
+  return typeof value === "number" && scheme.values.includes(value);
+}
+
+export function formatScoreValues(scheme: ScoringScheme): string {
+  return [...scheme.values].sort((a, b) => b - a).join(" / ");
+}
+
+export function resolveRpnLevel(scheme: ScoringScheme, rpn: number): string {
+  let level = scheme.levels[0]?.level ?? "";
+  for (const band of scheme.levels) {
+    if (rpn >= band.min_rpn) {
+      level = band.level;
+    }
+  }
+  return level;
+}
+
+// 达到措施阈值的等级（由低到高），用于结论措辞
+export function actionLevels(scheme: ScoringScheme): string[] {
+  return scheme.levels.filter((band) => band.min_rpn >= scheme.action_threshold).map((band) => band.level);
+}
+
+export function describeScoringScheme(scheme: ScoringScheme, evalTool: string): string {
+  const bands = scheme.levels.map((band, index) => {
+    const next = scheme.levels[index + 1];
+    if (index === 0) {
+      return next ? `RPN<${next.min_rpn} ${band.level}` : `${band.level}`;
+    }
+    return next ? `${band.min_rpn}-${next.min_rpn - 1} ${band.level}` : `≥${band.min_rpn} ${band.level}`;
+  });
+  const lines = [
+    `评估工具：${evalTool}，采用严重性(S)、可能性(P)、可测性(D)三维评分，取值为 ${formatScoreValues(scheme).replace(/ /g, "")}。`,
+    `系统按 RPN=S×P×D 计算风险等级：${bands.join("，")}。`,
+    `RPN≥${scheme.action_threshold} 的风险项需制定控制措施。`
+  ];
+  return lines.join("\n");
+}
+
+// 管理端提交的方案配置校验，失败时抛出可直接返回给前端的错误信息
+export function parseScoringSchemeConfig(raw: unknown): Pick<ScoringScheme, "values" | "levels" | "action_threshold"> {
+  const body = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  if (!Array.isArray(body.values)) {
+    throw new Error("评分取值不能为空");
+  }
+  const values = Array.from(new Set(body.values.map((value) => Number(value)))).sort((a, b) => a - b);
+  if (values.length < 2) {
+    throw new Error("评分取值至少需要 2 个");
+  }
+  if (values.some((value) => !Number.isInteger(value) || value < 1 || value > MAX_SCORE_VALUE)) {
+    throw new Error(`评分取值必须为 1-${MAX_SCORE_VALUE} 的整数`);
+  }
+
+  if (!Array.isArray(body.levels) || body.levels.length < 2) {
+    throw new Error("风险等级至少需要 2 档");
+  }
+  const levels: ScoringLevelBand[] = body.levels
+    .map((item) => {
+      const record = item && typeof item === "object" ? (item as Record<string, unknown>) : {};
+      return {
+        level: typeof record.level === "string" ? record.level.trim() : "",
+        min_rpn: Number(record.min_rpn)
+      };
+    })
+    .sort((a, b) => a.min_rpn - b.min_rpn);
+  if (levels.some((band) => !band.level)) {
+    throw new Error("风险等级名称不能为空");
+  }
+  if (new Set(levels.map((band) => band.level)).size !== levels.length) {
+    throw new Error("风险等级名称不能重复");
+  }
+  if (levels.some((band) => !Number.isInteger(band.min_rpn) || band.min_rpn < 0)) {
+    throw new Error("风险等级 RPN 下限必须为非负整数");
+  }
+  if (levels[0].min_rpn !== 0) {
+    throw new Error("最低风险等级的 RPN 下限必须为 0");
+  }
+  if (new Set(levels.map((band) => band.min_rpn)).size !== levels.length) {
+    throw new Error("风险等级 RPN 下限不能重复");
+  }
+
+  const maxRpn = values[values.length - 1] ** 3;
+  const actionThreshold = Number(body.action_threshold);
+  if (!Number.isInteger(actionThreshold) || actionThreshold < 1 || actionThreshold > maxRpn) {
+    throw new Error(`措施阈值必须为 1-${maxRpn} 的整数`);
+  }
+  return { values, levels, action_threshold: actionThreshold };
+}
+
+function toScoringScheme(row: Record<string, unknown>): ScoringScheme | null {
+  const values = safeJsonParse<number[]>(row.score_values as string);
+  const levels = safeJsonParse<ScoringLevelBand[]>(row.levels as string);
+  if (!Array.isArray(values) || !Array.isArray(levels) || levels.length === 0) {
+    return null;
+  }
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    values,
+    levels,
+    action_threshold: Number(row.action_threshold)
+  };
+}
+
+export async function listScoringSchemes(env: Env) {
+  const rows = await env.DB.prepare(
+    "SELECT id, name, description, score_values, levels, action_threshold, is_default, created_at, updated_at FROM scoring_schemes WHERE is_active = 1 ORDER BY is_default DESC, created_at ASC"
+  ).all();
+  return (rows.results ?? []).map((row) => {
+    const scheme = toScoringScheme(row as Record<string, unknown>);
+    return {
+      id: row.id as string,
+      name: row.name as string,
+      description: (row.description as string | null) ?? null,
+      values: scheme?.values ?? [],
+      levels: scheme?.levels ?? [],
+      action_threshold: Number(row.action_threshold),
+      is_default: row.is_default === 1,
+      created_at: row.created_at as string,
+      updated_at: row.updated_at as string
+    };
+  });
+}
+
+// 项目未指定或方案已停用时，依次回退到管理员设置的默认方案与内置 9/6/3/1 方案
+export async function fetchScoringScheme(env: Env, id: string | null | undefined): Promise<ScoringScheme> {
+  if (id) {
+    const row = await env.DB.prepare(
+      "SELECT id, name, score_values, levels, action_threshold FROM scoring_schemes WHERE id = ? AND is_active = 1"
+    )
+      .bind(id)
+      .first();
+    const scheme = row ? toScoringScheme(row as Record<string, unknown>) : null;
+    if (scheme) {
+      return scheme;
+    }
+  }
+  const fallback = await env.DB.prepare(
+    "SELECT id, name, score_values, levels, action_threshold FROM scoring_schemes WHERE is_default = 1 AND is_active = 1 ORDER BY updated_at DESC LIMIT 1"
+  ).first();
+  return (fallback ? toScoringScheme(fallback as Record<string, unknown>) : null) ?? DEFAULT_SCORING_SCHEME;
+}
@@ -0,0 +1,252 @@
+import type { Env, User } from "./types";
+import { nowIso } from "./utils";
+
+// 角色按权限从低到高排列：查看 < 审核签名 < 编辑与生成 < 共享与删除项目
+export const PROJECT_ROLES = ["viewer", "reviewer", "editor", "owner"] as const;
+
+export type ProjectRole = (typeof PROJECT_ROLES)[number];
+
+export type TeamSummary = {
+  id: string;
+  name: string;
+  role: ProjectRole;
+  member_count: number;
+  project_count: number;
+  created_at: string;
+};
+
+export type MemberRecord = {
+  user_id: string;
+  email: string;
+  role: ProjectRole;
+  created_at: string;
+};
+
+// 当前用户可访问的项目（别名 p）：创建人、直接共享的成员或项目所属团队的成员；需依次绑定 3 次用户 ID
+export const ACCESSIBLE_PROJECT_SQL =
+  "(p.owner_id = ? OR EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = p.id AND pm.user_id = ?) " +
+  "OR EXISTS (SELECT 1 FROM team_members tm WHERE tm.team_id = p.team_id AND tm.user_id = ?))";
+
+// 计算角色所需的列（别名 p），配合 pickProjectRole 使用；需依次绑定 2 次用户 ID
+export const PROJECT_ROLE_COLUMNS_SQL =
+  "p.owner_id, (SELECT pm.role FROM project_members pm WHERE pm.project_id = p.id AND pm.user_id = ?) AS member_role, " +
+  "(SELECT tm.role FROM team_members tm WHERE tm.team_id = p.team_id AND tm.user_id = ?) AS team_role";
+
+const isProjectRole = (value: unknown): value is ProjectRole =>
+  typeof value === "string" && (PROJECT_ROLES as readonly string[]).includes(value);
+
+export function hasProjectRole(role: ProjectRole | null, required: ProjectRole): boolean {
+  return role !== null && PROJECT_ROLES.indexOf(role) >= PROJECT_ROLES.indexOf(required);
+}
+
+// 创建人始终为所有者，其余取直接共享与团队角色中较高的一个
+export function pickProjectRole(userId: string, row: Record<string, unknown>): ProjectRole | null {
+  if (row.owner_id === userId) {
+    return "owner";
+  }
+  const roles = [row.member_role, row.team_role].filter(isProjectRole);
+  if (roles.length === 0) {
+    return null;
+  }
+  return roles.reduce((best, role) => (hasProjectRole(role, best) ? role : best));
+}
+
+export async function resolveProjectRole(env: Env, userId: string, projectId: string): Promise<ProjectRole | null> {
+  const row = await env.DB.prepare(`SELECT ${PROJECT_ROLE_COLUMNS_SQL} FROM projects p WHERE p.id = ?`)
+    .bind(userId, userId, projectId)
+    .first();
+  return row ? pickProjectRole(userId, row) : null;
+}
+
+const parseMemberInput = async (env: Env, raw: unknown) => {
+  const body = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+  if (!email) {
+    throw new Error("请输入成员邮箱");
+  }
+  if (!isProjectRole(body.role)) {
+    throw new Error("成员角色不合法");
+  }
+  const user = await env.DB.prepare("SELECT id, email FROM users WHERE email = ?").bind(email).first();
+  if (!user) {
+    throw new Error("用户不存在");
+  }
+  return { userId: user.id as string, email: user.email as string, role: body.role };
+};
+
+const countTeamOwners = async (env: Env, teamId: string) => {
+  const row = await env.DB.prepare("SELECT COUNT(1) AS total FROM team_members WHERE team_id = ? AND role = 'owner'")
+    .bind(teamId)
+    .first();
+  return Number(row?.total ?? 0);
+};
+
+export async function resolveTeamRole(env: Env, userId: string, teamId: string): Promise<ProjectRole | null> {
+  const row = await env.DB.prepare("SELECT role FROM team_members WHERE team_id = ? AND user_id = ?")
+    .bind(teamId, userId)
+    .first();
+  return row && isProjectRole(row.role) ? row.role : null;
+}
+
+export async function listTeams(env: Env, userId: string): Promise<TeamSummary[]> {
+  const rows = await env.DB.prepare(
+    "SELECT t.id, t.name, t.created_at, tm.role, " +
+      "(SELECT COUNT(1) FROM team_members m WHERE m.team_id = t.id) AS member_count, " +
+      "(SELECT COUNT(1) FROM projects p WHERE p.team_id = t.id) AS project_count " +
+      "FROM teams t JOIN team_members tm ON tm.team_id = t.id AND tm.user_id = ? ORDER BY t.created_at ASC"
+  )
+    .bind(userId)
+    .all();
+  return (rows.results ?? []) as unknown as TeamSummary[];
+}
+
+export async function listTeamMembers(env: Env, teamId: string): Promise<MemberRecord[]> {
+  const rows = await env.DB.prepare(
+    "SELECT tm.user_id, u.email, tm.role, tm.created_at FROM team_members tm JOIN users u ON u.id = tm.user_id WHERE tm.team_id = ? ORDER BY tm.created_at ASC"
+  )
+    .bind(teamId)
+    .all();
+  return (rows.results ?? []) as unknown as MemberRecord[];
+}
+
+export async function createTeam(env: Env, user: User, raw: unknown): Promise<{ id: string; name: string }> {
+  const body = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    throw new Error("团队名称不能为空");
+  }
+  const id = crypto.randomUUID();
+  const now = nowIso();
+  await env.DB.batch([
+    env.DB.prepare("INSERT INTO teams (id, name, created_by, created_at, updated_at) VALUES (?, ?, ?, ?, ?)").bind(
+      id,
+      name,
+      user.id,
+      now,
+      now
+    ),
+    env.DB.prepare(
+      "INSERT INTO team_members (team_id, user_id, role, created_at, updated_at) VALUES (?, ?, 'owner', ?, ?)"
+    ).bind(id, user.id, now, now)
+  ]);
+  return { id, name };
+}
+
+// 添加成员或调整已有成员的角色；返回调整前的角色便于审计
+export async function upsertTeamMember(
+  env: Env,
+  teamId: string,
+  raw: unknown
+): Promise<{ member: MemberRecord; previousRole: ProjectRole | null }> {
+  const input = await parseMemberInput(env, raw);
+  const previousRole = await resolveTeamRole(env, input.userId, teamId);
+  if (previousRole === "owner" && input.role !== "owner" && (await countTeamOwners(env, teamId)) <= 1) {
+    throw new Error("团队至少需要保留一名所有者");
+  }
+  const now = nowIso();
+  await env.DB.prepare(
+    "INSERT INTO team_members (team_id, user_id, role, created_at, updated_at) VALUES (?, ?, ?, ?, ?) " +
+      "ON CONFLICT(team_id, user_id) DO UPDATE SET role = excluded.role, updated_at = excluded.updated_at"
+  )
+    .bind(teamId, input.userId, input.role, now, now)
+    .run();
+  return {
+    member: { user_id: input.userId, email: input.email, role: input.role, created_at: now },
+    previousRole
+  };
+}
+
+// 移除成员；成员不存在时返回 null
+export async function removeTeamMember(env: Env, teamId: string, userId: string): Promise<ProjectRole | null> {
+  const role = await resolveTeamRole(env, userId, teamId);
+  if (!role) {
+    return null;
+  }
+  if (role === "owner" && (await countTeamOwners(env, teamId)) <= 1) {
+    throw new Error("团队至少需要保留一名所有者");
+  }
+  await env.DB.prepare("DELETE FROM team_members WHERE team_id = ? AND user_id = ?").bind(teamId, userId).run();
+  return role;
+}
+
+// 解散团队所需的语句，团队内的项目保留并仅归属创建人
+export const deleteTeamStatements = (env: Env, teamId: string) => [
+  env.DB.prepare("UPDATE projects SET team_id = NULL WHERE team_id = ?").bind(teamId),
+  env.DB.prepare("DELETE FROM team_members WHERE team_id = ?").bind(teamId),
+  env.DB.prepare("DELETE FROM teams WHERE id = ?").bind(teamId)
+];
+
+export async function deleteTeam(env: Env, teamId: string): Promise<void> {
+  await env.DB.batch(deleteTeamStatements(env, teamId));
+}
+
+export async function listProjectMembers(env: Env, projectId: string) {
+  const project = await env.DB.prepare(
+    "SELECT p.owner_id, u.email AS owner_email, p.team_id, t.name AS team_name FROM projects p " +
+      "LEFT JOIN users u ON u.id = p.owner_id LEFT JOIN teams t ON t.id = p.team_id WHERE p.id = ?"
+  )
+    .bind(projectId)
+    .first();
+  const rows = await env.DB.prepare(
+    "SELECT pm.user_id, u.email, pm.role, pm.created_at FROM project_members pm JOIN users u ON u.id = pm.user_id WHERE pm.project_id = ? ORDER BY pm.created_at ASC"
+  )
+    .bind(projectId)
+    .all();
+  return {
+    owner: { user_id: project?.owner_id ?? null, email: project?.owner_email ?? null },
+    team: project?.team_id ? { id: project.team_id, name: project.team_name } : null,
+    members: (rows.results ?? []) as unknown as MemberRecord[]
+  };
+}
+
+export async function upsertProjectMember(
+  env: Env,
+  projectId: string,
+  raw: unknown
+): Promise<{ member: MemberRecord; previousRole: ProjectRole | null }> {
+  const input = await parseMemberInput(env, raw);
+  const project = await env.DB.prepare("SELECT owner_id FROM projects WHERE id = ?").bind(projectId).first();
+  if (project?.owner_id === input.userId) {
+    throw new Error("项目创建人无需共享");
+  }
+  const previous = await env.DB.prepare("SELECT role FROM project_members WHERE project_id = ? AND user_id = ?")
+    .bind(projectId, input.userId)
+    .first();
+  const now = nowIso();
+  await env.DB.prepare(
+    "INSERT INTO project_members (project_id, user_id, role, created_at, updated_at) VALUES (?, ?, ?, ?, ?) " +
+      "ON CONFLICT(project_id, user_id) DO UPDATE SET role = excluded.role, updated_at = excluded.updated_at"
+  )
+    .bind(projectId, input.userId, input.role, now, now)
+    .run();
+  return {
+    member: { user_id: input.userId, email: input.email, role: input.role, created_at: now },
+    previousRole: isProjectRole(previous?.role) ? previous.role : null
+  };
+}
+
+export async function removeProjectMember(env: Env, projectId: string, userId: string): Promise<ProjectRole | null> {
+  const previous = await env.DB.prepare("SELECT role FROM project_members WHERE project_id = ? AND user_id = ?")
+    .bind(projectId, userId)
+    .first();
+  if (!previous) {
+    return null;
+  }
+  await env.DB.prepare("DELETE FROM project_members WHERE project_id = ? AND user_id = ?").bind(projectId, userId).run();
+  return isProjectRole(previous.role) ? previous.role : null;
+}
+
+// 将项目放入团队空间（或移出）；只有团队所有者或编辑者可以放入
+export async function setProjectTeam(
+  env: Env,
+  userId: string,
+  projectId: string,
+  teamId: string | null
+): Promise<void> {
+  if (teamId && !hasProjectRole(await resolveTeamRole(env, userId, teamId), "editor")) {
+    throw new Error("只有团队所有者或编辑者可以将项目加入团队");
+  }
+  await env.DB.prepare("UPDATE projects SET team_id = ?, updated_at = ? WHERE id = ?")
+    .bind(teamId, nowIso(), projectId)
+    .run();
+}
@@ -0,0 +1,157 @@
+import { verifyPassword } from "./auth";
+import type { Env, User } from "./types";
+import { nowIso, readR2Text } from "./utils";
+import { hashText } from "./workflow";
+
+export type ReportLifecycleStatus = "draft" | "reviewed" | "approved" | "effective" | "superseded";
+
+export type ReportSignature = {
+  id: string;
+  signer_id: string;
+  signer_email: string;
+  meaning: string;
+  from_status: ReportLifecycleStatus;
+  to_status: ReportLifecycleStatus;
+  comment: string | null;
+  md_hash: string;
+  signed_at: string;
+  // 签名时的正文哈希与当前正文是否一致
+  hash_matches: boolean;
+};
+
+export const LIFECYCLE_LABELS: Record<ReportLifecycleStatus, string> = {
+  draft: "草稿",
+  reviewed: "已审核",
+  approved: "已批准",
+  effective: "已生效",
+  superseded: "已替代"
+};
+
+// 每次状态流转都需要签名，签名含义随流转固定
+const LIFECYCLE_TRANSITIONS: Partial<Record<ReportLifecycleStatus, { to: ReportLifecycleStatus; meaning: string }>> = {
+  draft: { to: "reviewed", meaning: "审核：已审核报告内容，确认准确完整" },
+  reviewed: { to: "approved", meaning: "批准：批准本报告" },
+  approved: { to: "effective", meaning: "生效：本报告自签名之日起生效" }
+};
+
+// 已批准（含生效、被替代）的版本锁定，不可删除
+const LOCKED_STATUSES: ReportLifecycleStatus[] = ["approved", "effective", "superseded"];
+
+export const isLifecycleLocked = (status: unknown) => LOCKED_STATUSES.includes(status as ReportLifecycleStatus);
+
+const readMarkdownHash = async (env: Env, mdKey: unknown) => {
+  const markdown = mdKey ? await readR2Text(env.BUCKET, mdKey as string) : null;
+  return markdown === null ? null : hashText(markdown);
+};
+
+export async function listReportSignatures(env: Env, report: { id: string; md_key: unknown }): Promise<ReportSignature[]> {
+  const rows = await env.DB.prepare(
+    "SELECT id, signer_id, signer_email, meaning, from_status, to_status, comment, md_hash, signed_at FROM report_signatures WHERE report_id = ? ORDER BY signed_at ASC"
+  )
+    .bind(report.id)
+    .all();
+  const results = rows.results ?? [];
+  const currentHash = results.length > 0 ? await readMarkdownHash(env, report.md_key) : null;
+  return results.map((row) => {
+    const signature = row as unknown as Omit<ReportSignature, "hash_matches">;
+    return { ...signature, hash_matches: signature.md_hash === currentHash };
+  });
+}
+
+// 重新验证密码后签名并推进报告状态（项目角色由调用方校验）；报告不存在时返回 null
+export async function signReport(
+  env: Env,
+  user: User,
+  reportId: string,
+  raw: unknown
+): Promise<{ lifecycle_status: ReportLifecycleStatus; signature: ReportSignature } | null> {
+  const report = await env.DB.prepare(
+    "SELECT id, project_id, status, lifecycle_status, md_key FROM reports WHERE id = ?"
+  )
+    .bind(reportId)
+    .first();
+  if (!report) {
+    return null;
+  }
+  const body = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const password = typeof body.password === "string" ? body.password : "";
+  if (!password) {
+    throw new Error("请输入密码完成签名");
+  }
+  const credentials = await env.DB.prepare("SELECT password_hash, password_salt FROM users WHERE id = ?")
+    .bind(user.id)
+    .first();
+  const verified = credentials
+    ? await verifyPassword(password, credentials.password_hash as string, credentials.password_salt as string)
+    : false;
+  if (!verified) {
+    throw new Error("密码错误，签名失败");
+  }
+
+  if (report.status !== "completed") {
+    throw new Error("报告未生成完成，无法签名");
+  }
+  const fromStatus = report.lifecycle_status as ReportLifecycleStatus;
+  const transition = LIFECYCLE_TRANSITIONS[fromStatus];
+  if (!transition) {
+    throw new Error("报告当前状态不可再签名");
+  }
+  if (body.to_status !== undefined && body.to_status !== transition.to) {
+    throw new Error("报告状态流转不合法");
+  }
+  const mdHash = await readMarkdownHash(env, report.md_key);
+  if (!mdHash) {
+    throw new Error("报告缺少正文，无法签名");
+  }
+  const comment = typeof body.comment === "string" ? body.comment.trim() || null : null;
+
+  const signature: ReportSignature = {
+    id: crypto.randomUUID(),
+    signer_id: user.id,
+    signer_email: user.email,
+    meaning: transition.meaning,
+    from_status: fromStatus,
+    to_status: transition.to,
+    comment,
+    md_hash: mdHash,
+    signed_at: nowIso(),
+    hash_matches: true
+  };
+  const statements = [
+    // 以当前状态作为条件写入与更新，避免并发签名重复推进
+    env.DB.prepare(
+      "INSERT INTO report_signatures (id, report_id, project_id, signer_id, signer_email, meaning, from_status, to_status, comment, md_hash, signed_at) SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM reports WHERE id = ? AND lifecycle_status = ?)"
+    ).bind(
+      signature.id,
+      reportId,
+      report.project_id,
+      signature.signer_id,
+      signature.signer_email,
+      signature.meaning,
+      signature.from_status,
+      signature.to_status,
+      signature.comment,
+      signature.md_hash,
+      signature.signed_at,
+      reportId,
+      fromStatus
+    ),
+    env.DB.prepare("UPDATE reports SET lifecycle_status = ? WHERE id = ? AND lifecycle_status = ?").bind(
+      transition.to,
+      reportId,
+      fromStatus
+    )
+  ];
+  if (transition.to === "effective") {
+    statements.push(
+      env.DB.prepare(
+        "UPDATE reports SET lifecycle_status = 'superseded' WHERE project_id = ? AND id != ? AND lifecycle_status = 'effective'"
+      ).bind(report.project_id, reportId)
+    );
+  }
+  const [inserted] = await env.DB.batch(statements);
+  if (!inserted?.meta?.changes) {
+    throw new Error("报告状态已变化，请刷新后重试");
+  }
+  return { lifecycle_status: transition.to, signature };
+}
@@ -0,0 +1,210 @@
+import { applyObjectivePolicy } from "./ai";
+import type { FmeaScoringRow, ReviewStage, RiskItem, ScoringScheme, WorkflowState } from "./aiTypes";
+import { retainEvidenceIds } from "./citations";
+import {
+  FISHBONE_DIMENSIONS,
+  FIVE_FACTOR_DIMENSIONS,
+  resolveRiskMethod,
+  WHY_CHAIN_MAX,
+  WHY_CHAIN_MIN
+} from "./riskMethods";
+import { DEFAULT_SCORING_SCHEME, formatScoreValues, isAllowedScore } from "./scoring";
+import { mergeScoring, resolveEvalTool, validateHazardIdentification } from "./workflow";
+
+export const REVIEW_STAGES: ReviewStage[] = ["hazard_identification", "fmea_scoring"];
+
+export function isReviewStage(value: unknown): value is ReviewStage {
+  return typeof value === "string" && REVIEW_STAGES.includes(value as ReviewStage);
+}
+
+// 非 FMEA 工具的评价结果暂不支持在线修改，不提供评分审核节点
+export function isReviewStageSupported(stage: ReviewStage, evalTool: string | null | undefined): boolean {
+  return stage !== "fmea_scoring" || resolveEvalTool(evalTool) === "FMEA";
+}
+
+export function normalizeReviewStages(raw: unknown): ReviewStage[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return REVIEW_STAGES.filter((stage) => raw.includes(stage));
+}
+
+// 审核人修改危害源识别结果后，下游评分与措施全部作废，续跑时重新生成
+export function applyHazardIdentificationEdits(state: WorkflowState, raw: unknown): WorkflowState {
+  const context = state.context;
+  if (!context) {
+    throw new Error("工作流上下文缺失，无法修改");
+  }
+  const items = readArray(raw, "items", "风险项");
+  const dimensionType = resolveDimensionType(state);
+  const existingMap = new Map((state.risk_items ?? []).map((item) => [item.risk_id, item]));
+  const existingIds = new Set(existingMap.keys());
+  const riskItems = items.map((item, index) =>
+    withRetainedEvidence(
+      readRiskItem(item, `风险项#${index + 1}`, dimensionType, existingIds, null),
+      existingMap
+    )
+  );
+  const mapping = validateHazardIdentification({ items: riskItems }, dimensionType);
+  if (!mapping.ok) {
+    throw new Error(`一致性校验失败: ${mapping.issues.join("；")}`);
+  }
+  return {
+    context,
+    risk_items: riskItems,
+    mapping_validation: mapping,
+    usage: state.usage
+  };
+}
+
+// 评分阶段允许同时增删风险项；未出现在 rows 中的风险项视为删除
+export function applyFmeaScoringEdits(state: WorkflowState, raw: unknown): WorkflowState {
+  const context = state.context;
+  if (!context || !state.risk_items) {
+    throw new Error("危害源识别尚未完成，无法修改评分");
+  }
+  if (resolveEvalTool(context.evalTool) !== "FMEA") {
+    throw new Error("当前评估工具暂不支持在线修改评价结果，可直接继续生成");
+  }
+  const rows = readArray(raw, "rows", "评分行");
+  const scheme = context.scoringScheme ?? DEFAULT_SCORING_SCHEME;
+  const dimensionType = resolveDimensionType(state);
+  const existingMap = new Map(state.risk_items.map((item) => [item.risk_id, item]));
+  const existingIds = new Set(existingMap.keys());
+  const existingRows = new Map((state.fmea_rows ?? []).map((row) => [row.risk_id, row]));
+  const riskItems: RiskItem[] = [];
+  const fmeaRows: FmeaScoringRow[] = [];
+  rows.forEach((row, index) => {
+    const label = `评分行#${index + 1}`;
+    const entry = row as Record<string, unknown>;
+    const previous = typeof entry.risk_id === "string" ? existingMap.get(entry.risk_id) ?? null : null;
+    const item = withRetainedEvidence(readRiskItem(entry, label, dimensionType, existingIds, previous), existingMap);
+    riskItems.push(item);
+    const previousRow = existingRows.get(item.risk_id);
+    const sReason = readText(entry.s_reason, `${label} S理由`);
+    const pReason = readText(entry.p_reason, `${label} P理由`);
+    const dReason = readText(entry.d_reason, `${label} D理由`);
+    fmeaRows.push({
+      risk_id: item.risk_id,
+      s: readScore(entry.s, `${label} S`, scheme),
+      s_reason: sReason,
+      s_evidence_ids: retainEvidenceIds(previousRow?.s_evidence_ids, previousRow?.s_reason, sReason),
+      p: readScore(entry.p, `${label} P`, scheme),
+      p_reason: pReason,
+      p_evidence_ids: retainEvidenceIds(previousRow?.p_evidence_ids, previousRow?.p_reason, pReason),
+      d: readScore(entry.d, `${label} D`, scheme),
+      d_reason: dReason,
+      d_evidence_ids: retainEvidenceIds(previousRow?.d_evidence_ids, previousRow?.d_reason, dReason)
+    });
+  });
+  const mapping = validateHazardIdentification({ items: riskItems }, dimensionType);
+  if (!mapping.ok) {
+    throw new Error(`一致性校验失败: ${mapping.issues.join("；")}`);
+  }
+  const scoredItems = applyObjectivePolicy(
+    mergeScoring(riskItems, { rows: fmeaRows }, scheme),
+    context.objectiveBias
+  );
+  return {
+    context,
+    risk_items: riskItems,
+    mapping_validation: mapping,
+    fmea_rows: fmeaRows,
+    scored_items: scoredItems,
+    usage: state.usage
+  };
+}
+
+function resolveDimensionType(state: WorkflowState): RiskItem["dimension_type"] {
+  const existing = state.risk_items?.[0]?.dimension_type;
+  if (existing) {
+    return existing;
+  }
+  return resolveRiskMethod(state.context?.riskMethod);
+}
+
+function readArray(raw: unknown, key: string, label: string): unknown[] {
+  const value = raw && typeof raw === "object" ? (raw as Record<string, unknown>)[key] : null;
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`${label}不能为空`);
+  }
+  return value;
+}
+
+export function readText(value: unknown, label: string): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`${label} 为空`);
+  }
+  return value.trim();
+}
+
+export function readScore(value: unknown, label: string, scheme: ScoringScheme): number {
+  const score = Number(value);
+  if (!isAllowedScore(scheme, score)) {
+    throw new Error(`${label} 必须为 ${formatScoreValues(scheme).replace(/ /g, "")}`);
+  }
+  return score;
+}
+
+function readRiskItem(
+  raw: unknown,
+  label: string,
+  dimensionType: RiskItem["dimension_type"],
+  existingIds: Set<string>,
+  previous: RiskItem | null
+): RiskItem {
+  if (!raw || typeof raw !== "object") {
+    throw new Error(`${label} 格式错误`);
+  }
+  const entry = raw as Record<string, unknown>;
+  const pick = (key: "dimension" | "failure_mode" | "consequence", name: string) =>
+    entry[key] === undefined && previous ? previous[key] : readText(entry[key], `${label} ${name}`);
+  const riskId =
+    typeof entry.risk_id === "string" && existingIds.has(entry.risk_id) ? entry.risk_id : crypto.randomUUID();
+  let dimensionId: string | null = null;
+  if (dimensionType === "process_flow") {
+    if (typeof entry.dimension_id === "string" && entry.dimension_id.trim()) {
+      dimensionId = entry.dimension_id.trim();
+    } else {
+      dimensionId = previous?.dimension_id ?? null;
+    }
+  }
+  const dimension = pick("dimension", "风险维度");
+  if (dimensionType === "five_factors" && !FIVE_FACTOR_DIMENSIONS.includes(dimension)) {
+    throw new Error(`${label} 风险维度必须为：${FIVE_FACTOR_DIMENSIONS.join("/")}`);
+  }
+  if (dimensionType === "fishbone" && !FISHBONE_DIMENSIONS.includes(dimension)) {
+    throw new Error(`${label} 鱼骨图类别必须为：${FISHBONE_DIMENSIONS.join("/")}`);
+  }
+  const item: RiskItem = {
+    risk_id: riskId,
+    dimension_type: dimensionType,
+    dimension,
+    dimension_id: dimensionId,
+    failure_mode: pick("failure_mode", "失效模式"),
+    consequence: pick("consequence", "后果")
+  };
+  if (dimensionType === "five_why") {
+    item.why_chain =
+      entry.why_chain === undefined && previous?.why_chain
+        ? previous.why_chain
+        : readWhyChain(entry.why_chain, label);
+  }
+  return item;
+}
+
+function withRetainedEvidence(item: RiskItem, existingMap: Map<string, RiskItem>): RiskItem {
+  const existing = existingMap.get(item.risk_id);
+  const evidenceIds = retainEvidenceIds(existing?.evidence_ids, existing?.failure_mode, item.failure_mode);
+  return evidenceIds ? { ...item, evidence_ids: evidenceIds } : item;
+}
+
+export function readWhyChain(value: unknown, label: string): string[] {
+  const chain = Array.isArray(value)
+    ? value.map((step) => (typeof step === "string" ? step.trim() : "")).filter(Boolean)
+    : [];
+  if (chain.length < WHY_CHAIN_MIN || chain.length > WHY_CHAIN_MAX) {
+    throw new Error(`${label} 原因链需为 ${WHY_CHAIN_MIN}-${WHY_CHAIN_MAX} 层`);
+  }
+  return chain;
+}
@@ -0,0 +1,99 @@
+// 模板占位符：data 类由工作流 JSON 确定性填充，narrative 类由模型撰写叙述性段落
+export type PlaceholderKind = "data" | "narrative";
+
+export type PlaceholderDefinition = {
+  name: string;
+  kind: PlaceholderKind;
+  label: string;
+};
+
+export type TemplateValidation = {
+  placeholders: Array<PlaceholderDefinition & { count: number }>;
+  unknown: Array<{ name: string; line: number }>;
+  supported: PlaceholderDefinition[];
+};
+
+export const TEMPLATE_PLACEHOLDERS: PlaceholderDefinition[] = [
+  { name: "project.title", kind: "data", label: "项目名称" },
+  { name: "project.scope", kind: "data", label: "评估范围" },
+  { name: "project.background", kind: "data", label: "背景信息" },
+  { name: "project.objective", kind: "data", label: "评估目标倾向" },
+  { name: "report.date", kind: "data", label: "报告生成日期" },
+  { name: "risk_method", kind: "data", label: "风险识别方法" },
+  { name: "eval_tool", kind: "data", label: "评估工具" },
+  { name: "method", kind: "data", label: "评估方法与评分规则说明" },
+  { name: "risk_table", kind: "data", label: "危害源识别表" },
+  { name: "hazard_diagram", kind: "data", label: "鱼骨图 / 5-Why 结构图" },
+  { name: "fmea_table", kind: "data", label: "风险评价表（随评估工具变化）" },
+  { name: "capa_plan", kind: "data", label: "控制措施行动计划表" },
+  { name: "conclusion", kind: "data", label: "风险评估结论" },
+  { name: "review", kind: "data", label: "再评估周期与到期日" },
+  { name: "references", kind: "data", label: "参考文件列表" },
+  { name: "narrative.overview", kind: "narrative", label: "概述段落" },
+  { name: "narrative.hazard_intro", kind: "narrative", label: "危害源识别方法简介" },
+  { name: "narrative.evaluation_summary", kind: "narrative", label: "风险评价小结" },
+  { name: "narrative.control_summary", kind: "narrative", label: "风险控制小结" }
+];
+
+const PLACEHOLDER_MAP = new Map(TEMPLATE_PLACEHOLDERS.map((definition) => [definition.name, definition]));
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+export function listTemplatePlaceholders(templateContent: string | null): string[] {
+  const names = new Set<string>();
+  for (const match of (templateContent ?? "").matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+// 模板中出现任一受支持的占位符时，按占位符确定性渲染
+export function hasTemplatePlaceholders(templateContent: string | null): boolean {
+  return listTemplatePlaceholders(templateContent).some((name) => PLACEHOLDER_MAP.has(name));
+}
+
+export function listNarrativePlaceholders(templateContent: string | null): PlaceholderDefinition[] {
+  return listTemplatePlaceholders(templateContent)
+    .map((name) => PLACEHOLDER_MAP.get(name))
+    .filter((definition): definition is PlaceholderDefinition => definition?.kind === "narrative");
+}
+
+export function validateTemplatePlaceholders(templateContent: string): TemplateValidation {
+  const counts = new Map<string, number>();
+  const unknown: TemplateValidation["unknown"] = [];
+  templateContent
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .forEach((line, index) => {
+      for (const match of line.matchAll(PLACEHOLDER_PATTERN)) {
+        const name = match[1];
+        if (PLACEHOLDER_MAP.has(name)) {
+          counts.set(name, (counts.get(name) ?? 0) + 1);
+        } else {
+          unknown.push({ name, line: index + 1 });
+        }
+      }
+    });
+  return {
+    placeholders: Array.from(counts.entries()).map(([name, count]) => ({
+      ...(PLACEHOLDER_MAP.get(name) as PlaceholderDefinition),
+      count
+    })),
+    unknown,
+    supported: TEMPLATE_PLACEHOLDERS
+  };
+}
+
+// 按占位符在模板中出现的顺序取值（引用编号依赖该顺序）；未知占位符原样保留
+export function fillTemplatePlaceholders(templateContent: string, resolve: (name: string) => string): string {
+  const values = new Map<string, string>();
+  return templateContent.replace(PLACEHOLDER_PATTERN, (raw, name: string) => {
+    if (!PLACEHOLDER_MAP.has(name)) {
+      return raw;
+    }
+    if (!values.has(name)) {
+      values.set(name, resolve(name));
+    }
+    return values.get(name) as string;
+  });
+}
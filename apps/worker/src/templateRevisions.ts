@@ -0,0 +1,129 @@
+import type { MarkdownDiffLine } from "./aiTypes";
+import { diffLines } from "./reportDiff";
+import type { Env } from "./types";
+import { nowIso, readR2Text } from "./utils";
+
+export type TemplateRevision = {
+  revision: number;
+  change_note: string | null;
+  created_by_email: string | null;
+  created_at: string;
+};
+
+// 每个修订版本单独存放且不再覆盖，项目固定版本后内容不随模板编辑变化
+export const templateRevisionKey = (templateId: string, revision: number) =>
+  `templates/${templateId}/revisions/${revision}.md`;
+
+export function parseTemplateRevision(value: unknown): number | null {
+  const revision = typeof value === "string" && value.trim() ? Number(value) : value;
+  return typeof revision === "number" && Number.isInteger(revision) && revision > 0 ? revision : null;
+}
+
+export async function listTemplateRevisions(env: Env, templateId: string): Promise<TemplateRevision[]> {
+  const rows = await env.DB.prepare(
+    "SELECT r.revision, r.change_note, u.email AS created_by_email, r.created_at FROM template_revisions r " +
+      "LEFT JOIN users u ON u.id = r.created_by WHERE r.template_id = ? ORDER BY r.revision DESC"
+  )
+    .bind(templateId)
+    .all();
+  return (rows.results ?? []) as unknown as TemplateRevision[];
+}
+
+// 读取指定修订版本的内容；revision 为空时读取模板当前指向的最新版本，版本不存在时返回 null
+export async function readTemplateRevision(
+  env: Env,
+  templateId: string,
+  revision: number | null
+): Promise<{ revision: number; change_note: string | null; content: string } | null> {
+  const row = await env.DB.prepare(
+    revision
+      ? "SELECT revision, change_note, file_key FROM template_revisions WHERE template_id = ? AND revision = ?"
+      : "SELECT r.revision, r.change_note, r.file_key FROM template_revisions r " +
+          "JOIN templates t ON t.id = r.template_id AND t.latest_revision = r.revision WHERE r.template_id = ?"
+  )
+    .bind(...(revision ? [templateId, revision] : [templateId]))
+    .first();
+  if (!row) {
+    return null;
+  }
+  const content = await readR2Text(env.BUCKET, row.file_key as string);
+  return {
+    revision: row.revision as number,
+    change_note: (row.change_note as string | null) ?? null,
+    content: content ?? ""
+  };
+}
+
+// 保存新的修订版本并将模板指向该版本；模板记录需已存在
+// 先插入记录占用版本号，唯一索引保证并发保存时只有一方成功，之后才写入 R2，已有版本的内容不会被覆盖；版本号冲突时返回 null
+export async function createTemplateRevision(
+  env: Env,
+  input: { templateId: string; content: string | ArrayBuffer; changeNote: string | null; userId: string | null }
+): Promise<{ revision: number; file_key: string } | null> {
+  const latest = await env.DB.prepare("SELECT MAX(revision) AS revision FROM template_revisions WHERE template_id = ?")
+    .bind(input.templateId)
+    .first();
+  const revision = ((latest?.revision as number | null) ?? 0) + 1;
+  const fileKey = templateRevisionKey(input.templateId, revision);
+  const revisionId = crypto.randomUUID();
+  const now = nowIso();
+  try {
+    await env.DB.prepare(
+      "INSERT INTO template_revisions (id, template_id, revision, file_key, change_note, created_by, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)"
+    )
+      .bind(revisionId, input.templateId, revision, fileKey, input.changeNote, input.userId, now)
+      .run();
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("UNIQUE")) {
+      return null;
+    }
+    throw error;
+  }
+  try {
+    await env.BUCKET.put(fileKey, input.content, {
+      httpMetadata: { contentType: "text/markdown; charset=utf-8" }
+    });
+  } catch (error) {
+    await env.DB.prepare("DELETE FROM template_revisions WHERE id = ?").bind(revisionId).run();
+    throw error;
+  }
+  await env.DB.prepare(
+    "UPDATE templates SET file_key = ?, latest_revision = ?, updated_at = ? WHERE id = ? AND latest_revision <= ?"
+  )
+    .bind(fileKey, revision, now, input.templateId, revision)
+    .run();
+  return { revision, file_key: fileKey };
+}
+
+// 逐行对比两个修订版本；任一版本不存在时返回 null
+export async function diffTemplateRevisions(
+  env: Env,
+  templateId: string,
+  baseRevision: number,
+  targetRevision: number
+): Promise<MarkdownDiffLine[] | null> {
+  const [base, target] = await Promise.all([
+    readTemplateRevision(env, templateId, baseRevision),
+    readTemplateRevision(env, templateId, targetRevision)
+  ]);
+  if (!base || !target) {
+    return null;
+  }
+  return diffLines(base.content, target.content);
+}
+
+// 项目生成报告时使用的模板内容：固定了版本时读取该版本，否则跟随最新版本；模板已停用时返回 null
+export async function readProjectTemplateContent(
+  env: Env,
+  templateId: string,
+  revision: unknown
+): Promise<string | null> {
+  const template = await env.DB.prepare("SELECT id FROM templates WHERE id = ? AND is_active = 1")
+    .bind(templateId)
+    .first();
+  if (!template) {
+    return null;
+  }
+  const current = await readTemplateRevision(env, templateId, parseTemplateRevision(revision));
+  return current?.content ?? null;
+}
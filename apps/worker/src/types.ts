@@ -1,12 +1,16 @@
 export type Env = {
   DB: D1Database;
   BUCKET: R2Bucket;
+  REPORT_JOBS: Queue<ReportJobMessage>;
   APP_ENV: string;
   APP_ORIGIN: string;
   ADMIN_BOOTSTRAP_KEY?: string;
   REPORT_TIMEZONE?: string;
+  PDF_FONT_KEY?: string;
 };
 
+export type ReportJobMessage = { jobId: string };
+
 export type ModelCategory = "text" | "embedding" | "rerank";
 export type PlanTier = "free" | "pro" | "max";
 
@@ -8,6 +8,21 @@ export function daysFromNow(days: number): string {
   return date.toISOString();
 }
 
+// 按报告时区格式化为 YYYY-MM-DD HH:mm，供导出文件中显示
+export function formatLocalTime(value: string | Date, timeZone = "Asia/Shanghai"): string {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23"
+  }).formatToParts(new Date(value));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((item) => item.type === type)?.value ?? "";
+  return `${part("year")}-${part("month")}-${part("day")} ${part("hour")}:${part("minute")}`;
+}
+
 export function parseCookies(cookieHeader: string | null): Record<string, string> {
   if (!cookieHeader) {
     return {};
@@ -0,0 +1,286 @@
+import type {
+  ActionOutput,
+  AssessedRiskItem,
+  EvidenceIndexStore,
+  IndexedEvidenceChunk,
+  ProcedureClaimKind,
+  ProcedureClaimWarning,
+  SourceText
+} from "./aiTypes";
+import type { ModelRuntimeConfig } from "./types";
+import { chunkText, cosineSimilarity, embedChunks, getEmbeddings, resolveIndexedChunks } from "./workflow";
+
+const CLAIM_SIMILARITY_THRESHOLD = 0.75;
+const CONTROL_BIGRAM_HIT_RATE = 0.6;
+const CONTROL_CLAIM_MAX_CHARS = 80;
+// 控制描述过短（如“修订现行SOP”）时缺少可核查的内容
+const CONTROL_CLAIM_MIN_BIGRAMS = 4;
+
+// 常见的厂内计算机化系统简称
+const SYSTEM_ACRONYMS = [
+  "LIMS",
+  "MES",
+  "ERP",
+  "QMS",
+  "eQMS",
+  "EDMS",
+  "DMS",
+  "SCADA",
+  "DCS",
+  "BMS",
+  "EMS",
+  "WMS",
+  "CDS",
+  "CMMS",
+  "LMS",
+  "PLC",
+  "HMI"
+];
+const SYSTEM_ACRONYM_PATTERN = new RegExp(`(?<![A-Za-z])(?:${SYSTEM_ACRONYMS.join("|")})(?![A-Za-z])`, "g");
+const NAMED_SYSTEM_PATTERN = /[\u4e00-\u9fa5A-Za-z0-9]{1,10}系统/g;
+const SYSTEM_PREFIX_PATTERN =
+  /^.*(?:通过|使用|利用|采用|借助|依托|现有|现行|已有|已建立|在(?!线)|由|经|将|的|和|与|及|增加|新增|增设|建立|引入|采购|购置|部署|上线|开发|安装)/;
+// 泛指的系统表述不视为对具体系统的声明
+const GENERIC_SYSTEMS = new Set([
+  "计算机化系统",
+  "信息系统",
+  "自动化系统",
+  "控制系统",
+  "相关系统",
+  "该系统",
+  "质量管理系统"
+]);
+const DOCUMENT_CODE_PATTERN =
+  /(?<![A-Za-z0-9])(?:(?:SOP|SMP|STP|SOR|WI)[-_.\s]?[A-Z0-9]+(?:[-_.][A-Z0-9]+)*|[A-Z]{2,6}(?:-[A-Z0-9]{1,8}){1,4})(?![A-Za-z0-9])/gi;
+// 措施中新建/引入的文件或系统属于提议而非对现状的声明
+const PROPOSAL_PATTERN = /增加|新增|增设|建立|引入|采购|购置|部署|上线|开发|安装|制定|编制|起草/;
+// 法规与外部标准编号（如 ICH-Q9、Annex-11）不属于厂内文件
+const EXTERNAL_CODE_PATTERN = /^(?:ICH|ISO|IEC|USP|EP|ChP|GB|YY|WHO|PIC|CFR|ASTM|Annex)/i;
+const CONTROL_PATTERN = /现行|现有|已有|已建立|已制定|已配置|已实施|既有|(?:SOP|规程|程序|制度)中?已?(?:规定|要求|明确)/;
+
+type ClaimTarget = {
+  risk_id: string;
+  field: ProcedureClaimWarning["field"];
+  action_index: number | null;
+  location: string;
+  text: string;
+};
+
+type Claim = ClaimTarget & { kind: ProcedureClaimKind; claim: string };
+
+const KIND_LABELS: Record<ProcedureClaimKind, string> = {
+  document_code: "文件编号",
+  system: "系统",
+  control: "既有控制"
+};
+
+// 生成后核查：评分理由与措施中提到的 SOP 编号、系统与既有控制需能在项目 SOP 中找到依据
+export async function verifyProcedureClaims(
+  embeddingModel: ModelRuntimeConfig | null,
+  params: {
+    items: AssessedRiskItem[];
+    actions: ActionOutput;
+    sopSources: SourceText[];
+    evidenceIndex?: EvidenceIndexStore;
+  }
+): Promise<ProcedureClaimWarning[]> {
+  const claims = collectClaimTargets(params.items, params.actions).flatMap(extractClaims);
+  if (claims.length === 0) {
+    return [];
+  }
+  if (params.sopSources.length === 0) {
+    return claims.map((claim) => toWarning(claim, "项目未上传 SOP，无法核实"));
+  }
+  const corpus = normalizeForMatch(params.sopSources.map((source) => source.text).join("\n"));
+  const sopChunks = params.sopSources.flatMap((source) => chunkText(source.text));
+  const unresolved = claims.filter((claim) => !matchesByKeyword(claim, corpus, sopChunks));
+  if (unresolved.length === 0) {
+    return [];
+  }
+  // 文件编号只做字面匹配，系统与控制描述再按语义相似度核查
+  const semanticClaims = unresolved.filter((claim) => claim.kind !== "document_code");
+  // 向量核查失败时仅以关键词结果为准
+  const supported = await matchBySimilarity(
+    embeddingModel,
+    semanticClaims,
+    params.sopSources,
+    params.evidenceIndex
+  ).catch(() => new Set<Claim>());
+  return unresolved
+    .filter((claim) => !supported.has(claim))
+    .map((claim) => toWarning(claim, `SOP 中未找到该${KIND_LABELS[claim.kind]}的依据`));
+}
+
+// 人工修订后仍出现在对应文本中的声明才保留警告，位置按修订后的序号更新
+export function retainClaimWarnings(
+  warnings: ProcedureClaimWarning[],
+  items: AssessedRiskItem[],
+  actions: ActionOutput
+): ProcedureClaimWarning[] {
+  const targets = collectClaimTargets(items, actions);
+  return warnings.flatMap((warning) => {
+    const target = targets.find(
+      (entry) =>
+        entry.risk_id === warning.risk_id &&
+        entry.field === warning.field &&
+        entry.action_index === warning.action_index &&
+        entry.text.includes(warning.claim)
+    );
+    return target ? [{ ...warning, location: target.location }] : [];
+  });
+}
+
+function collectClaimTargets(items: AssessedRiskItem[], actions: ActionOutput): ClaimTarget[] {
+  const targets: ClaimTarget[] = [];
+  const seqMap = new Map(items.map((item, index) => [item.risk_id, index + 1]));
+  items.forEach((item, index) => {
+    const record = item as AssessedRiskItem & { p_reason?: string; d_reason?: string };
+    for (const [field, label] of [
+      ["p_reason", "P理由"],
+      ["d_reason", "D理由"]
+    ] as const) {
+      const text = record[field];
+      if (typeof text === "string" && text.trim()) {
+        targets.push({
+          risk_id: item.risk_id,
+          field,
+          action_index: null,
+          location: `风险项#${index + 1} ${label}`,
+          text
+        });
+      }
+    }
+  });
+  for (const entry of actions) {
+    entry.actions.forEach((action, actionIndex) => {
+      targets.push({
+        risk_id: entry.risk_id,
+        field: "action_text",
+        action_index: actionIndex,
+        location: `风险项#${seqMap.get(entry.risk_id) ?? "-"} 措施${actionIndex + 1}`,
+        text: action.action_text
+      });
+    });
+  }
+  return targets;
+}
+
+function extractClaims(target: ClaimTarget): Claim[] {
+  const claims: Claim[] = [];
+  const seen = new Set<string>();
+  const push = (kind: ProcedureClaimKind, claim: string) => {
+    const trimmed = claim.trim();
+    if (trimmed && !seen.has(trimmed)) {
+      seen.add(trimmed);
+      claims.push({ ...target, kind, claim: trimmed });
+    }
+  };
+  const isProposal = (index: number, prefix = "") =>
+    PROPOSAL_PATTERN.test(`${target.text.slice(Math.max(0, index - 6), index)}${prefix}`);
+  for (const match of target.text.matchAll(DOCUMENT_CODE_PATTERN)) {
+    if (/\d/.test(match[0]) && !EXTERNAL_CODE_PATTERN.test(match[0]) && !isProposal(match.index ?? 0)) {
+      push("document_code", match[0]);
+    }
+  }
+  for (const match of target.text.matchAll(NAMED_SYSTEM_PATTERN)) {
+    const name = match[0].replace(SYSTEM_PREFIX_PATTERN, "");
+    const prefix = match[0].slice(0, match[0].length - name.length);
+    if (name.length > 2 && !GENERIC_SYSTEMS.has(name) && !isProposal(match.index ?? 0, prefix)) {
+      push("system", name);
+    }
+  }
+  for (const match of target.text.matchAll(SYSTEM_ACRONYM_PATTERN)) {
+    if (!claims.some((claim) => claim.claim.includes(match[0])) && !isProposal(match.index ?? 0)) {
+      push("system", match[0]);
+    }
+  }
+  // 控制描述按分句提取；已含编号或系统的分句由前两类覆盖
+  for (const clause of target.text.split(/[，。；;,\n]/)) {
+    const trimmed = clause.trim();
+    if (
+      !CONTROL_PATTERN.test(trimmed) ||
+      toBigrams(trimmed).length < CONTROL_CLAIM_MIN_BIGRAMS ||
+      claims.some((claim) => trimmed.includes(claim.claim))
+    ) {
+      continue;
+    }
+    push("control", trimmed.slice(0, CONTROL_CLAIM_MAX_CHARS));
+  }
+  return claims;
+}
+
+function normalizeForMatch(text: string): string {
+  return text.toLowerCase().replace(/[\s\-_.]/g, "");
+}
+
+function matchesByKeyword(claim: Claim, corpus: string, sopChunks: string[]): boolean {
+  if (claim.kind === "document_code") {
+    return corpus.includes(normalizeForMatch(claim.claim));
+  }
+  if (claim.kind === "system") {
+    const core = claim.claim.replace(/系统$/, "");
+    return (
+      corpus.includes(normalizeForMatch(claim.claim)) || (core.length >= 2 && corpus.includes(normalizeForMatch(core)))
+    );
+  }
+  const bigrams = toBigrams(claim.claim);
+  if (bigrams.length === 0) {
+    return false;
+  }
+  return sopChunks.some((chunk) => {
+    const hits = bigrams.filter((bigram) => chunk.includes(bigram)).length;
+    return hits / bigrams.length >= CONTROL_BIGRAM_HIT_RATE;
+  });
+}
+
+function toBigrams(text: string): string[] {
+  const bigrams = new Set<string>();
+  for (const run of text.match(/[\u4e00-\u9fa5]{2,}/g) ?? []) {
+    for (let index = 0; index < run.length - 1; index += 1) {
+      bigrams.add(run.slice(index, index + 2));
+    }
+  }
+  return Array.from(bigrams);
+}
+
+async function matchBySimilarity(
+  embeddingModel: ModelRuntimeConfig | null,
+  claims: Claim[],
+  sopSources: SourceText[],
+  evidenceIndex?: EvidenceIndexStore
+): Promise<Set<Claim>> {
+  const supported = new Set<Claim>();
+  if (claims.length === 0 || !embeddingModel?.apiKey || !embeddingModel.baseUrl || !embeddingModel.model) {
+    return supported;
+  }
+  const claimEmbeddings = await getEmbeddings(embeddingModel, claims.map((claim) => claim.claim));
+  const dimensions = claimEmbeddings[0]?.length ?? 0;
+  const sopChunks: IndexedEvidenceChunk[] = [];
+  for (const source of sopSources) {
+    sopChunks.push(
+      ...(evidenceIndex && source.fileId
+        ? await resolveIndexedChunks(embeddingModel, source.fileId, source.text, evidenceIndex, dimensions)
+        : await embedChunks(embeddingModel, chunkText(source.text)))
+    );
+  }
+  claims.forEach((claim, index) => {
+    const embedding = claimEmbeddings[index];
+    const best = Math.max(0, ...sopChunks.map((chunk) => cosineSimilarity(embedding ?? [], chunk.embedding)));
+    if (best >= CLAIM_SIMILARITY_THRESHOLD) {
+      supported.add(claim);
+    }
+  });
+  return supported;
+}
+
+function toWarning(claim: Claim, message: string): ProcedureClaimWarning {
+  return {
+    risk_id: claim.risk_id,
+    field: claim.field,
+    action_index: claim.action_index,
+    location: claim.location,
+    kind: claim.kind,
+    claim: claim.claim,
+    message
+  };
+}
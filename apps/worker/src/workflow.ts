@@ -1,22 +1,47 @@
 import type {
   ActionOutput,
+  AssessedRiskItem,
   ControlMeasureOutput,
+  EvalTool,
   EvidenceChunk,
+  EvidenceIndexStore,
   FmeaScoringOutput,
+  HaccpAnalysisOutput,
+  HaccpAssessedItem,
+  IndexedEvidenceChunk,
   MappingValidation,
+  PhaAssessedItem,
+  PhaScoringOutput,
   ReportInput,
   HazardIdentificationOutput,
   RiskItem,
+  RiskMethod,
   ReevaluatedRiskItem,
+  RenderMode,
   ResidualFmeaOutput,
+  ReviewSchedule,
   ScoredRiskItem,
+  RrfAssessedItem,
+  RrfScoringOutput,
+  ScoringScheme,
   WorkflowContext,
   SourceText
 } from "./aiTypes";
+import { assignEvidenceIds, buildCitationSection, createCitationIndex, evidenceChunkId, withCitation } from "./citations";
+import type { CitationIndex } from "./citations";
 import { DEFAULT_TEMPLATE } from "./prompts";
+import {
+  FISHBONE_DIMENSIONS,
+  FIVE_FACTOR_DIMENSIONS,
+  resolveRiskMethod,
+  riskMethodLabel,
+  WHY_CHAIN_MAX,
+  WHY_CHAIN_MIN
+} from "./riskMethods";
+import { actionLevels, DEFAULT_SCORING_SCHEME, describeScoringScheme, resolveRpnLevel } from "./scoring";
+import { fillTemplatePlaceholders, hasTemplatePlaceholders } from "./templatePlaceholders";
 import type { ModelRuntimeConfig } from "./types";
 
-const FIVE_FACTOR_DIMENSIONS = ["人员", "设备与设施", "物料", "法规与程序", "环境"];
 const ACTION_TYPES = [
   "SOP/规程",
   "培训与资质",
@@ -27,6 +52,35 @@ const ACTION_TYPES = [
   "其他"
 ];
 const EMBEDDING_CACHE = new Map<string, number[]>();
+const RERANK_RECALL_FACTOR = 3;
+const RERANK_QUERY_MAX_CHARS = 2000;
+
+export const EVAL_TOOLS: EvalTool[] = ["FMEA", "PHA", "HACCP", "RRF"];
+
+export const RENDER_MODES: RenderMode[] = ["llm", "deterministic"];
+
+// PHA 风险矩阵：风险指数 = 严重性 × 可能性（各 1-4）
+const PHA_LEVELS = [
+  { level: "高", min_index: 9 },
+  { level: "中", min_index: 4 },
+  { level: "低", min_index: 0 }
+];
+const PHA_ACTION_INDEX = 4;
+
+// 风险排序与过滤：各因素 1-5 分，按权重加权后排序
+const RRF_WEIGHTS = { patient_impact: 0.5, compliance_impact: 0.2, occurrence: 0.3 };
+const RRF_LEVELS = [
+  { level: "高", min_score: 3.5 },
+  { level: "中", min_score: 2.5 },
+  { level: "低", min_score: 0 }
+];
+const RRF_ACTION_SCORE = 2.5;
+
+const HACCP_LEVELS = ["CCP", "缺少控制措施", "非CCP"];
+
+// 定期再评估周期（月），依次对应由高到低的风险等级，等级更多时沿用最后一档
+const REVIEW_INTERVAL_MONTHS = [3, 6, 12, 24];
+const DEFAULT_REVIEW_TEXT = "建议在措施实施完成后 3-6 个月内复核，再评估风险等级与残余风险。";
 
 export function summarizeTemplateRequirements(templateContent: string | null): string {
   const raw = templateContent?.trim();
@@ -44,17 +98,23 @@ export function summarizeTemplateRequirements(templateContent: string | null): s
   return raw.length > 240 ? `${raw.slice(0, 240)}...` : raw;
 }
 
+type EvidenceBuildOptions = {
+  onStage?: (message: string) => void;
+  evidenceIndex?: EvidenceIndexStore;
+  rerankModel?: ModelRuntimeConfig | null;
+};
+
 export async function buildWorkflowContext(
   embeddingModel: ModelRuntimeConfig | null,
   input: ReportInput,
   evidenceTopK = 8,
-  options?: { onStage?: (message: string) => void }
+  options?: EvidenceBuildOptions
 ): Promise<WorkflowContext> {
   const scope = input.scope?.trim() || "（未填写）";
   const background = input.background?.trim() || "（未填写）";
   const objectiveBias = input.objective?.trim() || "（未填写）";
-  const riskMethod = input.riskMethod?.trim() || "五因素法";
-  const evalTool = input.evalTool?.trim() || "FMEA";
+  const riskMethod = riskMethodLabel(resolveRiskMethod(input.riskMethod));
+  const evalTool = resolveEvalTool(input.evalTool);
   const templateRequirements = summarizeTemplateRequirements(input.templateContent || DEFAULT_TEMPLATE);
 
   const query = [scope, background, objectiveBias].filter(Boolean).join(" ");
@@ -70,13 +130,8 @@ export async function buildWorkflowContext(
     input.literatureSources && input.literatureSources.length > 0
       ? input.literatureSources
       : input.literatureTexts.map((text) => ({ text, filename: null }));
-  const evidenceChunks = await buildEvidenceChunks(
-    embeddingModel,
-    sopSources,
-    literatureSources,
-    query,
-    evidenceTopK,
-    options
+  const evidenceChunks = assignEvidenceIds(
+    await buildEvidenceChunks(embeddingModel, sopSources, literatureSources, query, evidenceTopK, options)
   );
   if (options?.onStage) {
     options.onStage(formatEvidencePreview(evidenceChunks));
@@ -91,10 +146,12 @@ export async function buildWorkflowContext(
     templateRequirements,
     riskMethod,
     evalTool,
+    scoringScheme: input.scoringScheme ?? DEFAULT_SCORING_SCHEME,
     evidenceBlocks,
     evidenceChunks,
     retrievalMeta: {
-      usedEmbedding: hasEmbeddingConfig(embeddingModel),
+      usedEmbedding: hasModelConfig(embeddingModel),
+      usedRerank: evidenceChunks.some((chunk) => typeof chunk.rerankScore === "number"),
       sopTextCount: input.sopTexts.length,
       literatureTextCount: input.literatureTexts.length,
       evidenceChunkCount: evidenceChunks.length
@@ -110,7 +167,12 @@ function formatEvidencePreview(chunks: EvidenceChunk[], maxItems = 4, previewCha
     const cleaned = chunk.content.replace(/\s+/g, " ").trim();
     const preview = cleaned.slice(0, previewChars);
     const suffix = cleaned.length > previewChars ? "..." : "";
-    const score = Number.isFinite(chunk.score) ? chunk.score.toFixed(3) : "n/a";
+    const score =
+      typeof chunk.rerankScore === "number"
+        ? `rerank ${chunk.rerankScore.toFixed(3)}`
+        : Number.isFinite(chunk.score)
+          ? chunk.score.toFixed(3)
+          : "n/a";
     const label = chunk.source === "sop" ? "SOP" : "文献";
     return `${index + 1}. [${label}] (${score}) ${preview}${suffix}`;
   });
@@ -124,9 +186,9 @@ async function buildEvidenceChunks(
   literatureTexts: SourceText[],
   query: string,
   topK: number,
-  options?: { onStage?: (message: string) => void }
+  options?: EvidenceBuildOptions
 ): Promise<EvidenceChunk[]> {
-  if (hasEmbeddingConfig(embeddingModel)) {
+  if (hasModelConfig(embeddingModel)) {
     try {
       return await buildEmbeddingEvidence(embeddingModel, sopTexts, literatureTexts, query, topK, options);
     } catch (err) {
@@ -145,8 +207,8 @@ async function buildEvidenceChunks(
   return [...sopChunks, ...literatureChunks];
 }
 
-function hasEmbeddingConfig(embeddingModel: ModelRuntimeConfig | null): boolean {
-  return Boolean(embeddingModel?.apiKey && embeddingModel?.baseUrl && embeddingModel?.model);
+function hasModelConfig(model: ModelRuntimeConfig | null): boolean {
+  return Boolean(model?.apiKey && model?.baseUrl && model?.model);
 }
 
 async function buildEmbeddingEvidence(
@@ -155,7 +217,7 @@ async function buildEmbeddingEvidence(
   literatureTexts: SourceText[],
   query: string,
   topK: number,
-  options?: { onStage?: (message: string) => void }
+  options?: EvidenceBuildOptions
 ): Promise<EvidenceChunk[]> {
   options?.onStage?.("向量化中...");
   const queryVariants = buildQueryVariants(query);
@@ -168,25 +230,91 @@ async function buildEmbeddingEvidence(
   options?.onStage?.("向量检索中...");
   const queryTokens = extractKeywords(query);
   const queryPhrases = buildExactPhrases(query);
+  const rerankModel = options?.rerankModel && hasModelConfig(options.rerankModel) ? options.rerankModel : null;
+  // 配置 Rerank 模型时扩大召回范围，再由重排序截取 topK
+  const recallK = rerankModel ? topK * RERANK_RECALL_FACTOR : topK;
   const sopChunks = await collectChunksByEmbedding(
     embeddingModel,
     "sop",
     sopTexts,
     queryEmbeddings,
-    topK,
+    recallK,
     queryTokens,
-    queryPhrases
+    queryPhrases,
+    options?.evidenceIndex
   );
   const literatureChunks = await collectChunksByEmbedding(
     embeddingModel,
     "literature",
     literatureTexts,
     queryEmbeddings,
-    topK,
+    recallK,
     queryTokens,
-    queryPhrases
+    queryPhrases,
+    options?.evidenceIndex
   );
-  return [...sopChunks, ...literatureChunks];
+  if (!rerankModel) {
+    return [...sopChunks, ...literatureChunks];
+  }
+  options?.onStage?.("重排序中...");
+  try {
+    return [
+      ...(await rerankChunks(rerankModel, query, sopChunks, topK)),
+      ...(await rerankChunks(rerankModel, query, literatureChunks, topK))
+    ];
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    options?.onStage?.(`重排序失败，已使用混合评分排序：${message}`);
+    return [...sopChunks.slice(0, topK), ...literatureChunks.slice(0, topK)];
+  }
+}
+
+// Cohere/Jina 兼容的 /rerank 接口：返回 results[].index 与 relevance_score
+async function rerankChunks(
+  rerankModel: ModelRuntimeConfig,
+  query: string,
+  chunks: EvidenceChunk[],
+  topK: number
+): Promise<EvidenceChunk[]> {
+  if (chunks.length === 0) {
+    return [];
+  }
+  const baseUrl = rerankModel.baseUrl.replace(/\/$/, "");
+  const response = await fetch(`${baseUrl}/rerank`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${rerankModel.apiKey}`
+    },
+    body: JSON.stringify({
+      model: rerankModel.model,
+      query: query.slice(0, RERANK_QUERY_MAX_CHARS),
+      documents: chunks.map((chunk) => chunk.content),
+      top_n: Math.min(topK, chunks.length)
+    })
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Rerank 请求失败: ${response.status} ${errorText}`);
+  }
+  const data = (await response.json()) as {
+    results?: Array<{ index?: number; relevance_score?: number; score?: number }>;
+  };
+  const ranked = (data.results ?? [])
+    .map((item) => ({
+      chunk: typeof item.index === "number" ? chunks[item.index] : undefined,
+      score: item.relevance_score ?? item.score
+    }))
+    .filter((item): item is { chunk: EvidenceChunk; score: number } =>
+      Boolean(item.chunk) && typeof item.score === "number" && Number.isFinite(item.score)
+    );
+  if (ranked.length === 0) {
+    throw new Error("Rerank 返回结果为空或格式不兼容");
+  }
+  return ranked
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map((item) => ({ ...item.chunk, rerankScore: item.score }));
 }
 
 async function collectChunksByEmbedding(
@@ -196,38 +324,61 @@ async function collectChunksByEmbedding(
   queryEmbeddings: number[][],
   topK: number,
   queryTokens: string[] = [],
-  queryPhrases: string[] = []
+  queryPhrases: string[] = [],
+  evidenceIndex?: EvidenceIndexStore
 ): Promise<EvidenceChunk[]> {
   const chunks: EvidenceChunk[] = [];
-  const chunkTexts: string[] = [];
-  const chunkMetas: Array<{ source: "sop" | "literature"; filename: string | null }> = [];
+  const dimensions = queryEmbeddings[0]?.length ?? 0;
   for (const entry of texts) {
-    for (const chunk of chunkText(entry.text)) {
-      chunkTexts.push(chunk);
-      chunkMetas.push({ source, filename: entry.filename ?? null });
+    const indexed =
+      evidenceIndex && entry.fileId && embeddingModel
+        ? await resolveIndexedChunks(embeddingModel, entry.fileId, entry.text, evidenceIndex, dimensions)
+        : await embedChunks(embeddingModel, chunkText(entry.text));
+    for (const { content, embedding } of indexed) {
+      const embScore = maxCosineSimilarity(queryEmbeddings, embedding);
+      // 关键词命中率（0~1）：用于把“字面高度一致”的片段往前拉，避免被长查询语义稀释
+      const hitRate = keywordHitRate(content, queryTokens);
+      // 精确短语加权：若 chunk 直接包含 query 中的关键短语，则额外加分
+      const phraseBoost = exactPhraseBoost(content, queryPhrases);
+      // 混合评分（保持 embedding 为主，关键词/短语为辅）
+      const score = combineRetrievalScore(embScore, hitRate, phraseBoost);
+      chunks.push({ source, content, score, filename: entry.filename ?? null });
     }
   }
-  if (chunkTexts.length === 0) {
+  const sorted = chunks.sort((a, b) => b.score - a.score);
+  return sorted.slice(0, topK);
+}
+
+// 读取文件的持久化分块向量；文本变化、Embedding 模型切换或向量维度不符时重新分块向量化并写回索引
+export async function resolveIndexedChunks(
+  embeddingModel: ModelRuntimeConfig,
+  fileId: string,
+  text: string,
+  evidenceIndex: EvidenceIndexStore,
+  dimensions = 0
+): Promise<IndexedEvidenceChunk[]> {
+  const textHash = await hashText(text);
+  const stored = await evidenceIndex.load(fileId, textHash, embeddingModel.id);
+  if (stored && (!dimensions || stored.every((chunk) => chunk.embedding.length === dimensions))) {
+    return stored;
+  }
+  const chunks = await embedChunks(embeddingModel, chunkText(text));
+  await evidenceIndex.save(fileId, textHash, embeddingModel.id, chunks);
+  return chunks;
+}
+
+export async function embedChunks(
+  embeddingModel: ModelRuntimeConfig | null,
+  contents: string[]
+): Promise<IndexedEvidenceChunk[]> {
+  if (contents.length === 0) {
     return [];
   }
-  const embeddings = await getEmbeddings(embeddingModel, chunkTexts);
-  if (embeddings.length !== chunkTexts.length) {
+  const embeddings = await getEmbeddings(embeddingModel, contents);
+  if (embeddings.length !== contents.length) {
     throw new Error("Embedding 返回数量不匹配");
   }
-  embeddings.forEach((embedding, index) => {
-    const content = chunkTexts[index];
-    const embScore = maxCosineSimilarity(queryEmbeddings, embedding);
-    // 关键词命中率（0~1）：用于把“字面高度一致”的片段往前拉，避免被长查询语义稀释
-    const hitRate = keywordHitRate(content, queryTokens);
-    // 精确短语加权：若 chunk 直接包含 query 中的关键短语，则额外加分
-    const phraseBoost = exactPhraseBoost(content, queryPhrases);
-    // 混合评分（保持 embedding 为主，关键词/短语为辅）
-    const score = combineRetrievalScore(embScore, hitRate, phraseBoost);
-    const meta = chunkMetas[index] ?? { source, filename: null };
-    chunks.push({ source: meta.source, content, score, filename: meta.filename });
-  });
-  const sorted = chunks.sort((a, b) => b.score - a.score);
-  return sorted.slice(0, topK);
+  return contents.map((content, index) => ({ content, embedding: embeddings[index] }));
 }
 
 function buildQueryVariants(query: string): string[] {
@@ -267,7 +418,7 @@ function maxCosineSimilarity(vectors: number[][], embedding: number[]): number {
   return best;
 }
 
-async function getEmbeddings(
+export async function getEmbeddings(
   embeddingModel: ModelRuntimeConfig | null,
   inputs: string[]
 ): Promise<number[][]> {
@@ -364,7 +515,7 @@ async function getEmbeddings(
   return results;
 }
 
-async function hashText(text: string): Promise<string> {
+export async function hashText(text: string): Promise<string> {
   const encoder = new TextEncoder();
   const data = encoder.encode(text);
   const digest = await crypto.subtle.digest("SHA-256", data);
@@ -374,7 +525,7 @@ async function hashText(text: string): Promise<string> {
     .join("");
 }
 
-function cosineSimilarity(a: number[], b: number[]): number {
+export function cosineSimilarity(a: number[], b: number[]): number {
   if (a.length === 0 || b.length === 0 || a.length !== b.length) {
     return 0;
   }
@@ -414,7 +565,7 @@ function collectChunks(
   return sorted.slice(0, topK);
 }
 
-function chunkText(text: string, maxLen = 800, overlap = 200, maxChunks = 48): string[] {
+export function chunkText(text: string, maxLen = 800, overlap = 200, maxChunks = 48): string[] {
   const normalized = normalizeExtractedText(text);
   if (!normalized) {
     return [];
@@ -559,27 +710,29 @@ function scoreChunk(chunk: string, tokens: string[]): number {
   return score || 1;
 }
 
+// 片段以全局编号标注，模型在 evidence_ids 中引用这些编号
 function formatEvidenceBlocks(chunks: EvidenceChunk[]): string {
   if (chunks.length === 0) {
     return "（无可用片段）";
   }
-  const sopChunks = chunks.filter((chunk) => chunk.source === "sop");
-  const literatureChunks = chunks.filter((chunk) => chunk.source === "literature");
-  const buildSection = (title: string, items: EvidenceChunk[]) => {
+  const labeled = chunks.map((chunk, index) => ({ chunk, id: evidenceChunkId(chunk, index) }));
+  const buildSection = (title: string, source: EvidenceChunk["source"]) => {
+    const items = labeled.filter((entry) => entry.chunk.source === source);
     if (items.length === 0) {
       return `${title}：无`;
     }
     return [
       `${title}：`,
-      ...items.map((chunk, index) => `[${title.replace("片段", "")}#${index + 1}] ${chunk.content}`)
+      ...items.map(({ chunk, id }) => `[${id}]${chunk.filename ? `（${chunk.filename}）` : ""} ${chunk.content}`)
     ].join("\n\n");
   };
-  return [buildSection("SOP片段", sopChunks), buildSection("文献片段", literatureChunks)].join("\n\n");
+  return [buildSection("SOP片段", "sop"), buildSection("文献片段", "literature")].join("\n\n");
 }
 
+// 按危害源识别方式校验覆盖性：五因素/鱼骨图需覆盖全部维度，流程法需关联流程步骤，5-Why 需完整的原因链
 export function validateHazardIdentification(
   output: HazardIdentificationOutput,
-  riskMethod: string
+  mode: RiskMethod
 ): MappingValidation {
   const issues: string[] = [];
   if (!output.items || output.items.length === 0) {
@@ -602,31 +755,52 @@ export function validateHazardIdentification(
     }
     idSet.add(item.risk_id);
   }
-  if (riskMethod.includes("五因素")) {
+  if (output.items.some((item) => item.dimension_type !== mode)) {
+    issues.push("存在识别方式不一致的风险项");
+  }
+  if (mode === "five_factors" || mode === "fishbone") {
     const dims = new Set(output.items.map((item) => item.dimension));
-    for (const dim of FIVE_FACTOR_DIMENSIONS) {
+    for (const dim of mode === "fishbone" ? FISHBONE_DIMENSIONS : FIVE_FACTOR_DIMENSIONS) {
       if (!dims.has(dim)) {
         issues.push(`缺失维度：${dim}`);
       }
     }
   }
+  if (mode === "process_flow" && output.items.some((item) => !item.dimension_id)) {
+    issues.push("存在未关联流程步骤的风险项");
+  }
+  if (mode === "five_why") {
+    const rootCauses = new Set<string>();
+    for (const item of output.items) {
+      const chain = item.why_chain ?? [];
+      if (chain.length < WHY_CHAIN_MIN || chain.length > WHY_CHAIN_MAX) {
+        issues.push(`原因链层数需为 ${WHY_CHAIN_MIN}-${WHY_CHAIN_MAX} 层：${item.failure_mode}`);
+        break;
+      }
+      if (chain.some((step) => !step.trim())) {
+        issues.push(`原因链存在空层级：${item.failure_mode}`);
+        break;
+      }
+      const rootCause = chain[chain.length - 1].trim();
+      if (rootCauses.has(rootCause)) {
+        issues.push(`存在重复的根本原因：${rootCause}`);
+        break;
+      }
+      rootCauses.add(rootCause);
+    }
+  }
   return { ok: issues.length === 0, issues };
 }
 
-export function computeRpnLevel(rpn: number): "极低" | "低" | "中" | "高" {
-  if (rpn < 27) {
-    return "极低";
-  }
-  if (rpn < 54) {
-    return "低";
-  }
-  if (rpn < 108) {
-    return "中";
-  }
-  return "高";
+export function computeRpnLevel(rpn: number, scheme: ScoringScheme = DEFAULT_SCORING_SCHEME): string {
+  return resolveRpnLevel(scheme, rpn);
 }
 
-export function mergeScoring(items: RiskItem[], scoring: FmeaScoringOutput): ScoredRiskItem[] {
+export function mergeScoring(
+  items: RiskItem[],
+  scoring: FmeaScoringOutput,
+  scheme: ScoringScheme = DEFAULT_SCORING_SCHEME
+): ScoredRiskItem[] {
   const rowMap = new Map(scoring.rows.map((row) => [row.risk_id, row]));
   return items.map((item) => {
     const row = rowMap.get(item.risk_id);
@@ -634,23 +808,30 @@ export function mergeScoring(items: RiskItem[], scoring: FmeaScoringOutput): Sco
       throw new Error(`缺失风险评分: ${item.risk_id}`);
     }
     const rpn = row.s * row.p * row.d;
-    const level = computeRpnLevel(rpn);
+    const level = computeRpnLevel(rpn, scheme);
     return {
       ...item,
       s: row.s,
       s_reason: row.s_reason,
+      s_evidence_ids: row.s_evidence_ids,
       p: row.p,
       p_reason: row.p_reason,
+      p_evidence_ids: row.p_evidence_ids,
       d: row.d,
       d_reason: row.d_reason,
+      d_evidence_ids: row.d_evidence_ids,
       rpn,
       level,
-      need_actions: rpn >= 54
+      need_actions: rpn >= scheme.action_threshold
     };
   });
 }
 
-export function mergeResidualScoring(items: RiskItem[], scoring: ResidualFmeaOutput): ReevaluatedRiskItem[] {
+export function mergeResidualScoring(
+  items: RiskItem[],
+  scoring: ResidualFmeaOutput,
+  scheme: ScoringScheme = DEFAULT_SCORING_SCHEME
+): ReevaluatedRiskItem[] {
   const rowMap = new Map(scoring.rows.map((row) => [row.risk_id, row]));
   return items.map((item) => {
     const row = rowMap.get(item.risk_id);
@@ -658,7 +839,7 @@ export function mergeResidualScoring(items: RiskItem[], scoring: ResidualFmeaOut
       throw new Error(`缺失再评估评分: ${item.risk_id}`);
     }
     const rpn = row.s * row.p * row.d;
-    const level = computeRpnLevel(rpn);
+    const level = computeRpnLevel(rpn, scheme);
     return {
       ...item,
       s: row.s,
@@ -670,7 +851,108 @@ export function mergeResidualScoring(items: RiskItem[], scoring: ResidualFmeaOut
   });
 }
 
-export function validateControlMeasuresOutput(actions: ControlMeasureOutput, scoredItems: ScoredRiskItem[]): void {
+export function resolveEvalTool(value: string | null | undefined): EvalTool {
+  const normalized = value?.trim().toUpperCase() ?? "";
+  return EVAL_TOOLS.find((tool) => tool === normalized) ?? "FMEA";
+}
+
+export function mergePhaScoring(items: RiskItem[], scoring: PhaScoringOutput): PhaAssessedItem[] {
+  const rowMap = new Map(scoring.rows.map((row) => [row.risk_id, row]));
+  return items.map((item) => {
+    const row = rowMap.get(item.risk_id);
+    if (!row) {
+      throw new Error(`缺失风险评分: ${item.risk_id}`);
+    }
+    const riskIndex = row.severity * row.likelihood;
+    const level = PHA_LEVELS.find((band) => riskIndex >= band.min_index)?.level ?? "低";
+    return {
+      ...item,
+      tool: "PHA",
+      severity: row.severity,
+      severity_reason: row.severity_reason,
+      likelihood: row.likelihood,
+      likelihood_reason: row.likelihood_reason,
+      risk_index: riskIndex,
+      level,
+      need_actions: riskIndex >= PHA_ACTION_INDEX
+    };
+  });
+}
+
+// 按判断树推导是否为关键控制点：Q1 否则缺少控制措施；Q2 是则为 CCP；Q3 否则非 CCP；Q4 是则非 CCP，否则为 CCP
+export function mergeHaccpAnalysis(items: RiskItem[], analysis: HaccpAnalysisOutput): HaccpAssessedItem[] {
+  const rowMap = new Map(analysis.rows.map((row) => [row.risk_id, row]));
+  let ccpCount = 0;
+  return items.map((item) => {
+    const row = rowMap.get(item.risk_id);
+    if (!row) {
+      throw new Error(`缺失 HACCP 判定: ${item.risk_id}`);
+    }
+    const isCcp = row.q1 && (row.q2 || (row.q3 === true && row.q4 === false));
+    if (isCcp && (!row.critical_limit.trim() || !row.monitoring.trim())) {
+      throw new Error(`关键控制点缺少关键限值或监控方式: ${item.risk_id}`);
+    }
+    if (isCcp) {
+      ccpCount += 1;
+    }
+    return {
+      ...item,
+      tool: "HACCP",
+      q1: row.q1,
+      q2: row.q2,
+      q3: row.q3,
+      q4: row.q4,
+      decision_reason: row.decision_reason,
+      critical_limit: isCcp ? row.critical_limit : "",
+      monitoring: isCcp ? row.monitoring : "",
+      is_ccp: isCcp,
+      ccp_no: isCcp ? `CCP-${ccpCount}` : null,
+      level: isCcp ? "CCP" : row.q1 ? "非CCP" : "缺少控制措施",
+      need_actions: isCcp || !row.q1
+    };
+  });
+}
+
+export function mergeRrfScoring(items: RiskItem[], scoring: RrfScoringOutput): RrfAssessedItem[] {
+  const rowMap = new Map(scoring.rows.map((row) => [row.risk_id, row]));
+  const merged = items.map((item) => {
+    const row = rowMap.get(item.risk_id);
+    if (!row) {
+      throw new Error(`缺失风险评分: ${item.risk_id}`);
+    }
+    const weightedScore =
+      Math.round(
+        (row.patient_impact * RRF_WEIGHTS.patient_impact +
+          row.compliance_impact * RRF_WEIGHTS.compliance_impact +
+          row.occurrence * RRF_WEIGHTS.occurrence) *
+          100
+      ) / 100;
+    return {
+      ...item,
+      tool: "RRF" as const,
+      patient_impact: row.patient_impact,
+      patient_impact_reason: row.patient_impact_reason,
+      compliance_impact: row.compliance_impact,
+      compliance_impact_reason: row.compliance_impact_reason,
+      occurrence: row.occurrence,
+      occurrence_reason: row.occurrence_reason,
+      weighted_score: weightedScore,
+      rank: 0,
+      level: RRF_LEVELS.find((band) => weightedScore >= band.min_score)?.level ?? "低",
+      need_actions: weightedScore >= RRF_ACTION_SCORE
+    };
+  });
+  // 得分相同时保持风险识别顺序
+  const ranked = merged
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => b.item.weighted_score - a.item.weighted_score || a.index - b.index);
+  ranked.forEach((entry, order) => {
+    entry.item.rank = order + 1;
+  });
+  return merged;
+}
+
+export function validateControlMeasuresOutput(actions: ControlMeasureOutput, scoredItems: AssessedRiskItem[]): void {
   const needed = scoredItems.filter((item) => item.need_actions).map((item) => item.risk_id);
   const requiredSet = new Set(needed);
   const outputSet = new Set(actions.map((item) => item.risk_id));
@@ -697,7 +979,7 @@ export function validateControlMeasuresOutput(actions: ControlMeasureOutput, sco
   }
 }
 
-export function validateActionsOutput(actions: ActionOutput, scoredItems: ScoredRiskItem[]): void {
+export function validateActionsOutput(actions: ActionOutput, scoredItems: AssessedRiskItem[]): void {
   const needed = scoredItems.filter((item) => item.need_actions).map((item) => item.risk_id);
   const requiredSet = new Set(needed);
   const outputSet = new Set(actions.map((item) => item.risk_id));
@@ -733,15 +1015,25 @@ export function validateActionsOutput(actions: ActionOutput, scoredItems: Scored
   }
 }
 
-export function renderReportMarkdown(params: {
+type ReportRenderParams = {
   title: string;
   templateContent: string | null;
   context: WorkflowContext;
-  items: ScoredRiskItem[];
+  items: AssessedRiskItem[];
   actions: ActionOutput;
   sources: Array<{ type: string; filename: string }>;
-}): string {
+  reviewSchedule?: ReviewSchedule | null;
+  // 占位符模板中叙述性段落的模型输出，键为去掉 narrative. 前缀的占位符名
+  narratives?: Record<string, string> | null;
+};
+
+export function renderReportMarkdown(params: ReportRenderParams): string {
+  if (hasTemplatePlaceholders(params.templateContent)) {
+    return renderPlaceholderReport(params);
+  }
   const title = params.title || "风险评估报告";
+  // 引用编号按正文出现顺序分配，表格须按章节顺序渲染
+  const citations = createCitationIndex(params.context.evidenceChunks);
   const header = extractTemplateTitle(params.templateContent) || "风险评估报告";
   const overview = mergeSectionContent(
     extractSectionContent(params.templateContent, "1. 概述", 2),
@@ -759,7 +1051,7 @@ export function renderReportMarkdown(params: {
   const methodText = buildMethodText(params.context);
   const riskTable = mergeSectionContent(
     extractSectionContent(params.templateContent, "4.1 风险识别", 3),
-    renderRiskTable(params.items)
+    [renderRiskTable(params.items, citations), renderHazardDiagram(params.items)].filter(Boolean).join("\n\n")
   );
   const methodSection = mergeSectionContent(
     extractSectionContent(params.templateContent, "4.2 评估方法", 3),
@@ -767,26 +1059,27 @@ export function renderReportMarkdown(params: {
   );
   const fmeaTable = mergeSectionContent(
     extractSectionContent(params.templateContent, "4.3 风险评价", 3),
-    renderFmeaTable(params.items)
+    renderEvaluationTable(params.items, params.context.evalTool, citations)
   );
   const actionTable = mergeSectionContent(
     extractSectionContent(params.templateContent, "5. 风险控制措施", 2),
-    renderActionTable(params.actions, params.items)
+    renderActionTable(params.actions, params.items, citations)
   );
   const conclusion = mergeSectionContent(
     extractSectionContent(params.templateContent, "6. 风险评估结论", 2),
-    buildConclusion(params.items, params.context.objectiveBias)
+    buildConclusion(params.items, params.context)
   );
   const reeval = mergeSectionContent(
     extractSectionContent(params.templateContent, "7. 再评估", 2),
-    "建议在措施实施完成后 3-6 个月内复核，再评估风险等级与残余风险。"
+    buildReviewText(params.reviewSchedule ?? null)
   );
   const references = mergeSectionContent(
     extractSectionContent(params.templateContent, "8. 参考文件", 2),
     buildReferences(params.sources)
   );
+  const customSections = extractCustomSections(params.templateContent);
 
-  return `# ${header}
+  const markdown = `# ${header}
 
 ## 1. 概述
 ${overview}
@@ -806,7 +1099,7 @@ ${riskTable}
 ### 4.2 评估方法
 ${methodSection}
 
-### 4.3 风险评价（FMEA 表）
+### 4.3 风险评价（${resolveEvalTool(params.context.evalTool)} 表）
 ${fmeaTable}
 
 ## 5. 风险控制措施
@@ -819,10 +1112,66 @@ ${conclusion}
 ${reeval}
 
 ## 8. 参考文件
-${references}
-`;
+${references}${customSections ? `\n\n${customSections}` : ""}`;
+  return `${markdown}${buildCitationSection(citations) || "\n"}`;
 }
 
+// 按模板原文输出，仅替换占位符；叙述段落缺失时留空
+function renderPlaceholderReport(params: ReportRenderParams): string {
+  const { context } = params;
+  const citations = createCitationIndex(context.evidenceChunks);
+  const resolve = (name: string): string => {
+    switch (name) {
+      case "project.title":
+        return params.title || "风险评估报告";
+      case "project.scope":
+        return context.scope;
+      case "project.background":
+        return context.background;
+      case "project.objective":
+        return context.objectiveBias;
+      case "report.date":
+        return new Date().toISOString().slice(0, 10);
+      case "risk_method":
+        return context.riskMethod;
+      case "eval_tool":
+        return resolveEvalTool(context.evalTool);
+      case "method":
+        return buildMethodText(context);
+      case "risk_table":
+        return renderRiskTable(params.items, citations);
+      case "hazard_diagram":
+        return renderHazardDiagram(params.items);
+      case "fmea_table":
+        return renderEvaluationTable(params.items, context.evalTool, citations);
+      case "capa_plan":
+        return renderActionTable(params.actions, params.items, citations);
+      case "conclusion":
+        return buildConclusion(params.items, context);
+      case "review":
+        return buildReviewText(params.reviewSchedule ?? null);
+      case "references":
+        return buildReferences(params.sources);
+      default:
+        return params.narratives?.[name.replace(/^narrative\./, "")]?.trim() ?? "";
+    }
+  };
+  const markdown = fillTemplatePlaceholders(params.templateContent ?? "", resolve).trimEnd();
+  return `${markdown}${buildCitationSection(citations) || "\n"}`;
+}
+
+const STANDARD_SECTION_HEADINGS = [
+  "1. 概述",
+  "2. 目的",
+  "3. 范围",
+  "4. 风险评估",
+  "5. 风险控制措施",
+  "6. 风险评估结论",
+  "7. 再评估",
+  "8. 参考文件",
+  "附：证据引用"
+];
+
 function extractSectionContent(templateContent: string | null, headingText: string, level: number): string {
   if (!templateContent) {
     return "";
@@ -852,6 +1201,32 @@ function extractSectionContent(templateContent: string | null, headingText: stri
   return content.join("\n").trim();
 }
 
+// 模板中标准章节以外的二级章节（如附录、审批页）按原文顺序附在参考文件之后
+function extractCustomSections(templateContent: string | null): string {
+  if (!templateContent) {
+    return "";
+  }
+  const sections: string[][] = [];
+  let current: string[] | null = null;
+  for (const line of templateContent.replace(/\r\n/g, "\n").split("\n")) {
+    const match = line.trim().match(/^(#+)\s+(.+)$/);
+    if (match && match[1].length <= 2) {
+      const heading = match[2].trim();
+      const standard = match[1].length === 1 || STANDARD_SECTION_HEADINGS.some((text) => heading.includes(text));
+      current = standard ? null : [line.trim()];
+      if (current) {
+        sections.push(current);
+      }
+      continue;
+    }
+    current?.push(line);
+  }
+  return sections
+    .map((lines) => lines.join("\n").trim())
+    .filter(Boolean)
+    .join("\n\n");
+}
+
 function mergeSectionContent(templateContent: string, generatedContent: string): string {
   if (templateContent) {
     return `${templateContent}\n\n${generatedContent}`.trim();
@@ -875,42 +1250,182 @@ function buildOverview(title: string, context: WorkflowContext): string {
   if (context.background && context.background !== "（未填写）") {
     return `${prefix}${context.background}`;
   }
-  return `${prefix}本报告基于项目既有信息，围绕评估范围与目标倾向完成风险识别与FMEA评分。`;
+  const tool = resolveEvalTool(context.evalTool);
+  return `${prefix}本报告基于项目既有信息，围绕评估范围与目标倾向完成风险识别与${tool === "FMEA" ? "FMEA评分" : `${tool}评价`}。`;
 }
 
-function buildMethodText(context: WorkflowContext): string {
-  return [
-    `风险识别方法：${context.riskMethod}。`,
-    `评估工具：${context.evalTool}，采用严重性(S)、可能性(P)、可测性(D)三维评分，取值为 9/6/3/1。`,
-    `系统按 RPN=S×P×D 计算风险等级：RPN<27 极低，27-53 低，54-107 中，≥108 高。`
-  ].join("\n");
+export function buildMethodText(context: WorkflowContext): string {
+  return [`风险识别方法：${context.riskMethod}。`, describeEvalTool(context)].join("\n");
 }
 
-function renderRiskTable(items: ScoredRiskItem[]): string {
-  const header = `| 序号 | 风险维度 | 风险点/失效模式 | 潜在后果 |\n| --- | --- | --- | --- |`;
+function describeEvalTool(context: WorkflowContext): string {
+  const tool = resolveEvalTool(context.evalTool);
+  if (tool === "PHA") {
+    return [
+      "评估工具：PHA（初步危害分析），采用严重性(1-4)与可能性(1-4)两维评分。",
+      `系统按风险指数=严重性×可能性划分等级：${describeBands(PHA_LEVELS.map((band) => ({ level: band.level, min: band.min_index })))}。`,
+      `风险指数≥${PHA_ACTION_INDEX} 的风险项需制定控制措施。`
+    ].join("\n");
+  }
+  if (tool === "HACCP") {
+    return [
+      "评估工具：HACCP（危害分析与关键控制点），对每个风险项按判断树 Q1-Q4 逐项判定。",
+      "Q1 无预防控制措施的风险项判为缺少控制措施；Q2 为专门消除危害的步骤，或危害可能超过可接受水平(Q3)且后续步骤无法消除(Q4)时判为关键控制点（CCP）。",
+      "关键控制点须规定关键限值与监控方式，关键控制点及缺少控制措施的风险项需制定控制措施。"
+    ].join("\n");
+  }
+  if (tool === "RRF") {
+    return [
+      "评估工具：RRF（风险排序与过滤），对患者/产品质量影响、GMP 合规影响与发生可能性分别评分(1-5)。",
+      `系统按加权得分=患者影响×${RRF_WEIGHTS.patient_impact}+合规影响×${RRF_WEIGHTS.compliance_impact}+发生可能性×${RRF_WEIGHTS.occurrence} 排序：${describeBands(RRF_LEVELS.map((band) => ({ level: band.level, min: band.min_score })))}。`,
+      `加权得分≥${RRF_ACTION_SCORE} 的风险项需制定控制措施。`
+    ].join("\n");
+  }
+  return describeScoringScheme(context.scoringScheme ?? DEFAULT_SCORING_SCHEME, context.evalTool);
+}
+
+// 鱼骨图按 6M 分组列出各骨刺，5-Why 逐层列出原因链；序号与危害源识别表一致，便于转绘为图
+export function renderHazardDiagram(items: RiskItem[]): string {
+  const mode = items[0]?.dimension_type;
+  if (mode === "fishbone") {
+    const lines = ["鱼骨图（6M 因果结构）："];
+    for (const dimension of FISHBONE_DIMENSIONS) {
+      const bones = items
+        .map((item, index) => ({ item, seq: index + 1 }))
+        .filter(({ item }) => item.dimension === dimension);
+      if (bones.length === 0) {
+        continue;
+      }
+      lines.push(`- ${dimension}`);
+      bones.forEach(({ item, seq }) => {
+        lines.push(`  - ${seq}. ${item.failure_mode.trim()} → ${item.consequence.trim()}`);
+      });
+    }
+    return lines.join("\n");
+  }
+  if (mode === "five_why") {
+    const lines = ["5-Why 原因链："];
+    items.forEach((item, index) => {
+      const chain = item.why_chain ?? [];
+      lines.push(`- ${index + 1}. 问题：${item.dimension.trim()}`);
+      chain.forEach((step, stepIndex) => {
+        const label = stepIndex === chain.length - 1 ? "根本原因" : `为什么 ${stepIndex + 1}`;
+        lines.push(`  - ${label}：${step.trim()}`);
+      });
+    });
+    return lines.join("\n");
+  }
+  return "";
+}
+
+// 等级区间按下限降序排列，最低一档以上一档下限表述
+function describeBands(bands: Array<{ level: string; min: number }>): string {
+  return bands
+    .map((band, index) =>
+      band.min === 0 && index > 0 ? `<${bands[index - 1].min} ${band.level}` : `≥${band.min} ${band.level}`
+    )
+    .join("，");
+}
+
+function renderRiskTable(items: AssessedRiskItem[], citations?: CitationIndex): string {
+  const dimensionLabel =
+    items[0]?.dimension_type === "process_flow"
+      ? "流程步骤"
+      : items[0]?.dimension_type === "five_why"
+        ? "问题/现象"
+        : "风险维度";
+  const header = `| 序号 | ${dimensionLabel} | 风险点/失效模式 | 潜在后果 |\n| --- | --- | --- | --- |`;
+  const rows = items.map((item, index) => {
+    const failureMode = withCitation(escapeTable(item.failure_mode), citations?.cite(item.evidence_ids) ?? "");
+    return `| ${index + 1} | ${item.dimension} | ${failureMode} | ${escapeTable(item.consequence)} |`;
+  });
+  return [header, ...rows].join("\n");
+}
+
+function renderFmeaTable(items: ScoredRiskItem[], citations?: CitationIndex): string {
+  const header =
+    "| 序号 | 风险维度 | 失效模式 | 后果 | S | S理由 | P | P理由 | D | D理由 | RPN | 等级 |\n" +
+    "| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |";
+  const reason = (text: string, ids?: string[]) => withCitation(escapeTable(text), citations?.cite(ids) ?? "");
   const rows = items.map((item, index) => {
     return `| ${index + 1} | ${item.dimension} | ${escapeTable(item.failure_mode)} | ${escapeTable(
       item.consequence
-    )} |`;
+    )} | ${item.s} | ${reason(item.s_reason, item.s_evidence_ids)} | ${item.p} | ${reason(
+      item.p_reason,
+      item.p_evidence_ids
+    )} | ${item.d} | ${reason(item.d_reason, item.d_evidence_ids)} | ${item.rpn} | ${item.level} |`;
   });
   return [header, ...rows].join("\n");
 }
 
-function renderFmeaTable(items: ScoredRiskItem[]): string {
+function renderPhaTable(items: PhaAssessedItem[]): string {
   const header =
-    "| 序号 | 风险维度 | 失效模式 | 后果 | S | S理由 | P | P理由 | D | D理由 | RPN | 等级 |\n" +
+    "| 序号 | 风险维度 | 失效模式 | 后果 | 严重性 | 严重性理由 | 可能性 | 可能性理由 | 风险指数 | 等级 |\n" +
+    "| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |";
+  const rows = items.map((item, index) => {
+    return `| ${index + 1} | ${item.dimension} | ${escapeTable(item.failure_mode)} | ${escapeTable(
+      item.consequence
+    )} | ${item.severity} | ${escapeTable(item.severity_reason)} | ${item.likelihood} | ${escapeTable(
+      item.likelihood_reason
+    )} | ${item.risk_index} | ${item.level} |`;
+  });
+  return [header, ...rows].join("\n");
+}
+
+function renderHaccpTable(items: HaccpAssessedItem[]): string {
+  const answer = (value: boolean | null) => (value === null ? "-" : value ? "是" : "否");
+  const header =
+    "| 序号 | 风险维度 | 危害 | 后果 | Q1 | Q2 | Q3 | Q4 | 判定理由 | 判定 | 关键限值 | 监控方式 |\n" +
     "| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |";
   const rows = items.map((item, index) => {
     return `| ${index + 1} | ${item.dimension} | ${escapeTable(item.failure_mode)} | ${escapeTable(
       item.consequence
-    )} | ${item.s} | ${escapeTable(item.s_reason)} | ${item.p} | ${escapeTable(item.p_reason)} | ${
-      item.d
-    } | ${escapeTable(item.d_reason)} | ${item.rpn} | ${item.level} |`;
+    )} | ${answer(item.q1)} | ${answer(item.q2)} | ${answer(item.q3)} | ${answer(item.q4)} | ${escapeTable(
+      item.decision_reason
+    )} | ${item.ccp_no ?? item.level} | ${escapeTable(item.critical_limit) || "-"} | ${
+      escapeTable(item.monitoring) || "-"
+    } |`;
   });
   return [header, ...rows].join("\n");
 }
 
-function renderActionTable(actions: ActionOutput, items: ScoredRiskItem[]): string {
+function renderRrfTable(items: RrfAssessedItem[]): string {
+  const header =
+    "| 排序 | 风险维度 | 失效模式 | 后果 | 患者影响 | 理由 | 合规影响 | 理由 | 发生可能性 | 理由 | 加权得分 | 等级 |\n" +
+    "| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |";
+  const rows = [...items]
+    .sort((a, b) => a.rank - b.rank)
+    .map((item) => {
+      return `| ${item.rank} | ${item.dimension} | ${escapeTable(item.failure_mode)} | ${escapeTable(
+        item.consequence
+      )} | ${item.patient_impact} | ${escapeTable(item.patient_impact_reason)} | ${
+        item.compliance_impact
+      } | ${escapeTable(item.compliance_impact_reason)} | ${item.occurrence} | ${escapeTable(
+        item.occurrence_reason
+      )} | ${item.weighted_score} | ${item.level} |`;
+    });
+  return [header, ...rows].join("\n");
+}
+
+// 评价结果的字段随评估工具不同，按工具选择对应的表格
+export function renderEvaluationTable(
+  items: AssessedRiskItem[],
+  evalTool: string,
+  citations?: CitationIndex
+): string {
+  switch (resolveEvalTool(evalTool)) {
+    case "PHA":
+      return renderPhaTable(items as PhaAssessedItem[]);
+    case "HACCP":
+      return renderHaccpTable(items as HaccpAssessedItem[]);
+    case "RRF":
+      return renderRrfTable(items as RrfAssessedItem[]);
+    default:
+      return renderFmeaTable(items as ScoredRiskItem[], citations);
+  }
+}
+
+function renderActionTable(actions: ActionOutput, items: AssessedRiskItem[], citations?: CitationIndex): string {
   const required = new Set(items.filter((item) => item.need_actions).map((item) => item.risk_id));
   if (required.size === 0) {
     return "未识别出需要新增控制措施的中/高风险项。";
@@ -923,7 +1438,10 @@ function renderActionTable(actions: ActionOutput, items: ScoredRiskItem[]): stri
     const order = indexMap.get(entry.risk_id);
     for (const action of entry.actions) {
       rows.push(
-        `| ${order ?? "-"} | ${action.type} | ${escapeTable(action.action_text)} | ${escapeTable(
+        `| ${order ?? "-"} | ${action.type} | ${withCitation(
+          escapeTable(action.action_text),
+          citations?.cite(action.evidence_ids) ?? ""
+        )} | ${escapeTable(
           action.owner_role
         )} | ${escapeTable(action.owner_dept)} | ${action.planned_date} |`
       );
@@ -935,21 +1453,84 @@ function renderActionTable(actions: ActionOutput, items: ScoredRiskItem[]): stri
   return [header, ...rows].join("\n");
 }
 
-function buildConclusion(items: ScoredRiskItem[], objectiveBias: string): string {
-  const summary = {
-    high: items.filter((item) => item.level === "高").length,
-    medium: items.filter((item) => item.level === "中").length,
-    low: items.filter((item) => item.level === "低").length,
-    veryLow: items.filter((item) => item.level === "极低").length
-  };
+function buildConclusion(items: AssessedRiskItem[], context: WorkflowContext): string {
+  const tool = resolveEvalTool(context.evalTool);
+  const biasLine =
+    context.objectiveBias && context.objectiveBias !== "（未填写）" ? `评估目标倾向：${context.objectiveBias}` : "";
+  if (tool === "FMEA") {
+    return buildFmeaConclusion(items, biasLine, context.scoringScheme ?? DEFAULT_SCORING_SCHEME);
+  }
+  const levels =
+    tool === "HACCP" ? HACCP_LEVELS : (tool === "PHA" ? PHA_LEVELS : RRF_LEVELS).map((band) => band.level);
+  const actionCount = items.filter((item) => item.need_actions).length;
   const headline =
-    summary.high > 0
-      ? "存在高风险项，当前结论为不可接受，需优先整改。"
-      : summary.medium > 0
-        ? "存在中风险项，结论为有条件可接受，需落实改进措施。"
-        : "未识别中高风险项，结论为可接受。";
-  const biasLine = objectiveBias && objectiveBias !== "（未填写）" ? `评估目标倾向：${objectiveBias}` : "";
-  return [headline, biasLine, `风险等级分布：高 ${summary.high} / 中 ${summary.medium} / 低 ${summary.low} / 极低 ${summary.veryLow}`]
+    tool !== "HACCP" && items.some((item) => item.level === levels[0])
+      ? `存在${levels[0]}风险项，当前结论为不可接受，需优先整改。`
+      : actionCount > 0
+        ? `存在 ${actionCount} 项需采取控制措施的风险项，结论为有条件可接受，需落实改进措施。`
+        : "未识别需采取控制措施的风险项，结论为可接受。";
+  const distribution = levels
+    .map((level) => `${level} ${items.filter((item) => item.level === level).length}`)
+    .join(" / ");
+  return [headline, biasLine, `${tool === "HACCP" ? "判定结果" : "风险等级"}分布：${distribution}`]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// 各评估工具的风险等级，由高到低排列
+function rankedLevels(context: WorkflowContext): string[] {
+  const tool = resolveEvalTool(context.evalTool);
+  if (tool === "FMEA") {
+    return [...(context.scoringScheme ?? DEFAULT_SCORING_SCHEME).levels].reverse().map((band) => band.level);
+  }
+  if (tool === "HACCP") {
+    return HACCP_LEVELS;
+  }
+  return (tool === "PHA" ? PHA_LEVELS : RRF_LEVELS).map((band) => band.level);
+}
+
+// 以报告完成日期为起点，按最高风险等级对应的周期推算再评估到期日
+export function resolveReviewSchedule(
+  items: AssessedRiskItem[],
+  context: WorkflowContext,
+  from: Date
+): ReviewSchedule | null {
+  const levels = rankedLevels(context);
+  const rank = levels.findIndex((level) => items.some((item) => item.level === level));
+  if (rank < 0) {
+    return null;
+  }
+  const months = REVIEW_INTERVAL_MONTHS[Math.min(rank, REVIEW_INTERVAL_MONTHS.length - 1)];
+  const due = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + months, from.getUTCDate()));
+  // 目标月份没有对应日期时（如 8 月 31 日 + 6 个月）取该月最后一天
+  if (due.getUTCDate() !== from.getUTCDate()) {
+    due.setUTCDate(0);
+  }
+  return { level: levels[rank], interval_months: months, due_date: due.toISOString().slice(0, 10) };
+}
+
+export function buildReviewText(schedule: ReviewSchedule | null): string {
+  if (!schedule) {
+    return DEFAULT_REVIEW_TEXT;
+  }
+  return `本次评估最高风险等级为“${schedule.level}”，定期再评估周期为 ${schedule.interval_months} 个月，应于 ${schedule.due_date} 前完成再评估；措施实施完成后亦应复核风险等级与残余风险。`;
+}
+
+function buildFmeaConclusion(items: AssessedRiskItem[], biasLine: string, scheme: ScoringScheme): string {
+  const bands = [...scheme.levels].reverse();
+  const top = bands[0]?.level ?? "";
+  const counts = bands.map((band) => ({
+    level: band.level,
+    count: items.filter((item) => item.level === band.level).length
+  }));
+  const actionLabels = actionLevels(scheme);
+  const actionText = actionLabels.length > 0 ? actionLabels.join("") : "需采取措施的";
+  const headline = items.some((item) => item.level === top)
+    ? `存在${top}风险项，当前结论为不可接受，需优先整改。`
+    : items.some((item) => item.need_actions)
+      ? `存在${actionLabels.filter((label) => label !== top).join("/") || "需采取措施的"}风险项，结论为有条件可接受，需落实改进措施。`
+      : `未识别${actionText}风险项，结论为可接受。`;
+  return [headline, biasLine, `风险等级分布：${counts.map((entry) => `${entry.level} ${entry.count}`).join(" / ")}`]
     .filter(Boolean)
     .join("\n");
 }